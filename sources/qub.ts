@@ -9,6 +9,14 @@ export interface JavascriptIteratorResult<T> {
     value: T;
 }
 
+/**
+ * The interface of a native Javascript iterable, such as an array, a generator object, or an ES6
+ * Map or Set.
+ */
+export interface JavascriptIterable<T> {
+    [Symbol.iterator](): { next(): JavascriptIteratorResult<T> };
+}
+
 /**
  * An adapter between an Iterator and an iterator that Javascript/Typescript expects.
  */
@@ -147,7 +155,7 @@ export interface Iterator<T> {
      * @param lessThanComparison A comparison function that returns whether or not lhs is less than
      *      rhs. If no comparison function is provided, defaults to standard less than comparison.
      */
-    minimum(lessThanComparison?: (lhs: T, rhs: T) => boolean): T;
+    minimum(lessThanComparison?: ((lhs: T, rhs: T) => boolean) | Comparer<T>): T;
 
     /**
      * Get the maximum value in this Iterator based on the provided comparison function.
@@ -155,7 +163,185 @@ export interface Iterator<T> {
      *      than rhs. If no comparison function is provided, defaults to standard greater than
      *      comparison.
      */
-    maximum(greaterThanComparison?: (lhs: T, rhs: T) => boolean): T;
+    maximum(greaterThanComparison?: ((lhs: T, rhs: T) => boolean) | Comparer<T>): T;
+
+    /**
+     * Get an AsyncIterator that wraps this Iterator.
+     */
+    toAsync(): AsyncIterator<T>;
+
+    /**
+     * Get an Iterator based on this Iterator that skips values that have already been returned.
+     * @param comparison An optional function that determines whether two values are equal. If this
+     *      is not provided, then a simple '===' comparison will be used.
+     */
+    distinct(comparison?: EqualityComparison<T>): Iterator<T>;
+
+    /**
+     * Get an Iterator based on this Iterator that skips values whose key matches the key of a value
+     * that has already been returned.
+     * @param keySelector The function that selects the key of each value.
+     * @param comparison An optional function that determines whether two keys are equal. If this
+     *      is not provided, then a simple '===' comparison will be used.
+     */
+    distinctBy<K>(keySelector: (value: T) => K, comparison?: EqualityComparison<K>): Iterator<T>;
+
+    /**
+     * Get an Iterator that returns the distinct values of this Iterator followed by the distinct
+     * values of the provided values that weren't in this Iterator.
+     */
+    union(values: Iterator<T> | T[], comparison?: EqualityComparison<T>): Iterator<T>;
+
+    /**
+     * Get an Iterator based on this Iterator that only returns the distinct values that are also
+     * in the provided values. The provided values are not read until the first value is needed.
+     */
+    intersect(values: Iterable<T> | Iterator<T> | T[], comparison?: EqualityComparison<T>): Iterator<T>;
+
+    /**
+     * Get an Iterator based on this Iterator that only returns the distinct values that are not in
+     * the provided values. The provided values are not read until the first value is needed.
+     */
+    except(values: Iterable<T> | Iterator<T> | T[], comparison?: EqualityComparison<T>): Iterator<T>;
+
+    /**
+     * Combine the values of this Iterator into a single value by passing the seed and each value to
+     * the accumulator function in turn.
+     * @param seed The initial accumulated value.
+     * @param accumulator The function that combines the accumulated value and the next value into
+     *      the new accumulated value.
+     */
+    reduce<U>(seed: U, accumulator: (accumulated: U, value: T) => U): U;
+
+    /**
+     * Get an Iterator based on this Iterator that returns each of the intermediate accumulated
+     * values that reduce() would compute.
+     * @param seed The initial accumulated value.
+     * @param accumulator The function that combines the accumulated value and the next value into
+     *      the new accumulated value.
+     */
+    scan<U>(seed: U, accumulator: (accumulated: U, value: T) => U): Iterator<U>;
+
+    /**
+     * Get the sum of the numbers in this Iterator. If this Iterator is empty, then 0 will be returned.
+     */
+    sum(this: Iterator<number>): number;
+
+    /**
+     * Get the sum of the numbers that the provided selector selects from the values in this
+     * Iterator. If this Iterator is empty, then 0 will be returned.
+     */
+    sum(selector: (value: T) => number): number;
+
+    /**
+     * Get the average of the numbers in this Iterator. If this Iterator is empty, then undefined will
+     * be returned.
+     */
+    average(this: Iterator<number>): number;
+
+    /**
+     * Get the average of the numbers that the provided selector selects from the values in this
+     * Iterator. If this Iterator is empty, then undefined will be returned.
+     */
+    average(selector: (value: T) => number): number;
+
+    /**
+     * Get the first value in this Iterator with the smallest key, or undefined if this Iterator is
+     * empty.
+     * @param keySelector The function that selects the key of each value.
+     */
+    minBy<K>(keySelector: (value: T) => K): T;
+
+    /**
+     * Get the first value in this Iterator with the largest key, or undefined if this Iterator is
+     * empty.
+     * @param keySelector The function that selects the key of each value.
+     */
+    maxBy<K>(keySelector: (value: T) => K): T;
+
+    /**
+     * Get a Map from each of the keys in this Iterator to the number of values that have that key.
+     * @param keySelector The function that selects the key of each value.
+     */
+    countBy<K>(keySelector: (value: T) => K): Map<K, number>;
+
+    /**
+     * Get an Iterator based on this Iterator that maps each value to a sequence of values and
+     * returns each of the values of those sequences in turn.
+     * @param selector The function that maps each value to an Iterable, Iterator or array of values.
+     *      If the selector returns undefined, then the value will be skipped.
+     */
+    flatMap<U>(selector: (value: T) => Iterable<U> | Iterator<U> | U[]): Iterator<U>;
+
+    /**
+     * Get an Iterator based on this Iterator of sequences that returns each of the values of those
+     * sequences in turn.
+     */
+    flatten<U>(this: Iterator<Iterable<U> | Iterator<U> | U[]>): Iterator<U>;
+
+    /**
+     * Get an Iterator based on this Iterator that returns its values in consecutive batches of the
+     * provided size. The last batch will be smaller if there aren't enough values to fill it.
+     * @param size The number of values in each batch.
+     */
+    chunk(size: number): Iterator<Indexable<T>>;
+
+    /**
+     * Get an Iterator based on this Iterator that returns each sliding window of the provided size
+     * over its values. Windows that would extend past the end of this Iterator are not returned.
+     * @param size The number of values in each window.
+     * @param step The number of values that each window starts after the previous window. If this
+     *      is not provided, then each window will start one value after the previous window.
+     */
+    window(size: number, step?: number): Iterator<Indexable<T>>;
+
+    /**
+     * Get an Iterator based on this Iterator that returns each pair of adjacent values.
+     */
+    pairwise(): Iterator<[T, T]>;
+
+    /**
+     * Read all of the values of this Iterator and separate them into the values that match the
+     * provided predicate and the values that don't.
+     * @param predicate The function that determines which of the two partitions each value is in.
+     */
+    partition(predicate: (value: T) => boolean): [Iterable<T>, Iterable<T>];
+
+    /**
+     * Get an Iterator based on this Iterator that returns the groups of values that are separated by
+     * values that match the provided predicate. The separating values are not included in any
+     * group. If this Iterator has any values, then N separators produce N + 1 groups (a leading or
+     * trailing separator produces an empty group). If this Iterator is empty, then there are no
+     * groups.
+     * @param predicate The function that determines whether a value is a separator.
+     */
+    splitWhen(predicate: (value: T) => boolean): Iterator<Indexable<T>>;
+
+    /**
+     * Get an Iterable that reads the values of this Iterator as they are first needed and buffers
+     * them so that the Iterable can be iterated any number of times (including at the same time)
+     * even though this Iterator can only be iterated once. This Iterator shouldn't be used directly
+     * after it has been shared.
+     */
+    share(): Iterable<T>;
+}
+
+/**
+ * Get the sum and the number of the values in the provided Iterator. If no selector is provided,
+ * then the values are expected to be numbers.
+ */
+function getSumAndCount<T>(iterator: Iterator<T>, selector?: (value: T) => number): { sum: number, count: number } {
+    const result = { sum: 0, count: 0 };
+    for (const value of iterator) {
+        result.sum += selector ? selector(value) : Number(value);
+        ++result.count;
+    }
+    return result;
+}
+
+function getAverage<T>(iterator: Iterator<T>, selector?: (value: T) => number): number {
+    const sumAndCount: { sum: number, count: number } = getSumAndCount(iterator, selector);
+    return sumAndCount.count > 0 ? sumAndCount.sum / sumAndCount.count : undefined;
 }
 
 /**
@@ -288,12 +474,10 @@ export abstract class IteratorBase<T> implements Iterator<T> {
         return result;
     }
 
-    public minimum(lessThanComparison?: (lhs: T, rhs: T) => boolean): T {
+    public minimum(lessThanComparison?: ((lhs: T, rhs: T) => boolean) | Comparer<T>): T {
         let result: T;
 
-        if (!lessThanComparison) {
-            lessThanComparison = (lhs: T, rhs: T) => lhs < rhs;
-        }
+        const isLessThan: (lhs: T, rhs: T) => boolean = toLessThanFunction(lessThanComparison);
 
         if (!this.hasStarted()) {
             this.next();
@@ -303,7 +487,7 @@ export abstract class IteratorBase<T> implements Iterator<T> {
             result = this.getCurrent();
 
             while (this.next()) {
-                if (lessThanComparison(this.getCurrent(), result)) {
+                if (isLessThan(this.getCurrent(), result)) {
                     result = this.getCurrent();
                 }
             }
@@ -312,12 +496,10 @@ export abstract class IteratorBase<T> implements Iterator<T> {
         return result;
     }
 
-    public maximum(greaterThanComparison?: (lhs: T, rhs: T) => boolean): T {
+    public maximum(greaterThanComparison?: ((lhs: T, rhs: T) => boolean) | Comparer<T>): T {
         let result: T;
 
-        if (!greaterThanComparison) {
-            greaterThanComparison = (lhs: T, rhs: T) => lhs > rhs;
-        }
+        const isGreaterThan: (lhs: T, rhs: T) => boolean = toGreaterThanFunction(greaterThanComparison);
 
         if (!this.hasStarted()) {
             this.next();
@@ -327,7 +509,7 @@ export abstract class IteratorBase<T> implements Iterator<T> {
             result = this.getCurrent();
 
             while (this.next()) {
-                if (greaterThanComparison(this.getCurrent(), result)) {
+                if (isGreaterThan(this.getCurrent(), result)) {
                     result = this.getCurrent();
                 }
             }
@@ -335,6 +517,130 @@ export abstract class IteratorBase<T> implements Iterator<T> {
 
         return result;
     }
+
+    public toAsync(): AsyncIterator<T> {
+        return new IteratorToAsyncIterator<T>(this);
+    }
+
+    public distinct(comparison?: EqualityComparison<T>): Iterator<T> {
+        return new DistinctIterator<T, T>(this, (value: T) => value, comparison);
+    }
+
+    public distinctBy<K>(keySelector: (value: T) => K, comparison?: EqualityComparison<K>): Iterator<T> {
+        return new DistinctIterator<T, K>(this, keySelector, comparison);
+    }
+
+    public union(values: Iterator<T> | T[], comparison?: EqualityComparison<T>): Iterator<T> {
+        return this.concatenate(values).distinct(comparison);
+    }
+
+    public intersect(values: Iterable<T> | Iterator<T> | T[], comparison?: EqualityComparison<T>): Iterator<T> {
+        return new IntersectIterator<T>(this, values, comparison);
+    }
+
+    public except(values: Iterable<T> | Iterator<T> | T[], comparison?: EqualityComparison<T>): Iterator<T> {
+        return new ExceptIterator<T>(this, values, comparison);
+    }
+
+    public reduce<U>(seed: U, accumulator: (accumulated: U, value: T) => U): U {
+        let result: U = seed;
+        for (const value of this) {
+            result = accumulator(result, value);
+        }
+        return result;
+    }
+
+    public scan<U>(seed: U, accumulator: (accumulated: U, value: T) => U): Iterator<U> {
+        return new ScanIterator<U, T>(this, seed, accumulator);
+    }
+
+    public sum(this: Iterator<number>): number;
+    public sum(selector: (value: T) => number): number;
+    public sum(selector?: (value: T) => number): number {
+        return getSumAndCount(this, selector).sum;
+    }
+
+    public average(this: Iterator<number>): number;
+    public average(selector: (value: T) => number): number;
+    public average(selector?: (value: T) => number): number {
+        return getAverage(this, selector);
+    }
+
+    public minBy<K>(keySelector: (value: T) => K): T {
+        let result: T;
+        let resultKey: K;
+        let hasResult: boolean = false;
+        for (const value of this) {
+            const key: K = keySelector(value);
+            if (!hasResult || key < resultKey) {
+                result = value;
+                resultKey = key;
+                hasResult = true;
+            }
+        }
+        return result;
+    }
+
+    public maxBy<K>(keySelector: (value: T) => K): T {
+        let result: T;
+        let resultKey: K;
+        let hasResult: boolean = false;
+        for (const value of this) {
+            const key: K = keySelector(value);
+            if (!hasResult || key > resultKey) {
+                result = value;
+                resultKey = key;
+                hasResult = true;
+            }
+        }
+        return result;
+    }
+
+    public countBy<K>(keySelector: (value: T) => K): Map<K, number> {
+        const result = new Map<K, number>();
+        for (const value of this) {
+            const key: K = keySelector(value);
+            result.add(key, (result.containsKey(key) ? result.get(key) : 0) + 1);
+        }
+        return result;
+    }
+
+    public flatMap<U>(selector: (value: T) => Iterable<U> | Iterator<U> | U[]): Iterator<U> {
+        return new FlatMapIterator<U, T>(this, selector);
+    }
+
+    public flatten<U>(this: Iterator<Iterable<U> | Iterator<U> | U[]>): Iterator<U> {
+        return new FlatMapIterator<U, Iterable<U> | Iterator<U> | U[]>(this, (value: Iterable<U> | Iterator<U> | U[]) => value);
+    }
+
+    public chunk(size: number): Iterator<Indexable<T>> {
+        return new ChunkIterator<T>(this, size);
+    }
+
+    public window(size: number, step: number = 1): Iterator<Indexable<T>> {
+        return new WindowIterator<T>(this, size, step);
+    }
+
+    public pairwise(): Iterator<[T, T]> {
+        return new PairwiseIterator<T>(this);
+    }
+
+    public partition(predicate: (value: T) => boolean): [Iterable<T>, Iterable<T>] {
+        const matches = new ArrayList<T>();
+        const nonMatches = new ArrayList<T>();
+        for (const value of this) {
+            (predicate(value) ? matches : nonMatches).add(value);
+        }
+        return [matches, nonMatches];
+    }
+
+    public splitWhen(predicate: (value: T) => boolean): Iterator<Indexable<T>> {
+        return new SplitWhenIterator<T>(this, predicate);
+    }
+
+    public share(): Iterable<T> {
+        return new MemoizeIterable<T>(new MemoizeBuffer<T>(() => this));
+    }
 }
 
 /**
@@ -561,12 +867,10 @@ class MapIterator<OuterT, InnerT> implements Iterator<OuterT> {
         return new ConcatenateIterator<OuterT>(this, toConcatenate);
     }
 
-    public minimum(lessThanComparison?: (lhs: OuterT, rhs: OuterT) => boolean): OuterT {
+    public minimum(lessThanComparison?: ((lhs: OuterT, rhs: OuterT) => boolean) | Comparer<OuterT>): OuterT {
         let result: OuterT;
 
-        if (!lessThanComparison) {
-            lessThanComparison = (lhs: OuterT, rhs: OuterT) => lhs < rhs;
-        }
+        const isLessThan: (lhs: OuterT, rhs: OuterT) => boolean = toLessThanFunction(lessThanComparison);
 
         if (!this.hasStarted()) {
             this.next();
@@ -576,7 +880,7 @@ class MapIterator<OuterT, InnerT> implements Iterator<OuterT> {
             result = this.getCurrent();
 
             while (this.next()) {
-                if (lessThanComparison(this.getCurrent(), result)) {
+                if (isLessThan(this.getCurrent(), result)) {
                     result = this.getCurrent();
                 }
             }
@@ -585,12 +889,10 @@ class MapIterator<OuterT, InnerT> implements Iterator<OuterT> {
         return result;
     }
 
-    public maximum(greaterThanComparison: (lhs: OuterT, rhs: OuterT) => boolean): OuterT {
+    public maximum(greaterThanComparison: ((lhs: OuterT, rhs: OuterT) => boolean) | Comparer<OuterT>): OuterT {
         let result: OuterT;
 
-        if (!greaterThanComparison) {
-            greaterThanComparison = (lhs: OuterT, rhs: OuterT) => lhs > rhs;
-        }
+        const isGreaterThan: (lhs: OuterT, rhs: OuterT) => boolean = toGreaterThanFunction(greaterThanComparison);
 
         if (!this.hasStarted()) {
             this.next();
@@ -600,7 +902,7 @@ class MapIterator<OuterT, InnerT> implements Iterator<OuterT> {
             result = this.getCurrent();
 
             while (this.next()) {
-                if (greaterThanComparison(this.getCurrent(), result)) {
+                if (isGreaterThan(this.getCurrent(), result)) {
                     result = this.getCurrent();
                 }
             }
@@ -608,6 +910,133 @@ class MapIterator<OuterT, InnerT> implements Iterator<OuterT> {
 
         return result;
     }
+
+    public toAsync(): AsyncIterator<OuterT> {
+        return new IteratorToAsyncIterator<OuterT>(this);
+    }
+
+    public distinct(comparison?: EqualityComparison<OuterT>): Iterator<OuterT> {
+        return new DistinctIterator<OuterT, OuterT>(this, (value: OuterT) => value, comparison);
+    }
+
+    public distinctBy<K>(keySelector: (value: OuterT) => K, comparison?: EqualityComparison<K>): Iterator<OuterT> {
+        return new DistinctIterator<OuterT, K>(this, keySelector, comparison);
+    }
+
+    public union(values: Iterator<OuterT> | OuterT[], comparison?: EqualityComparison<OuterT>): Iterator<OuterT> {
+        if (values instanceof Array) {
+            values = new ArrayList<OuterT>(values).iterate();
+        }
+        return this.concatenate(values).distinct(comparison);
+    }
+
+    public intersect(values: Iterable<OuterT> | Iterator<OuterT> | OuterT[], comparison?: EqualityComparison<OuterT>): Iterator<OuterT> {
+        return new IntersectIterator<OuterT>(this, values, comparison);
+    }
+
+    public except(values: Iterable<OuterT> | Iterator<OuterT> | OuterT[], comparison?: EqualityComparison<OuterT>): Iterator<OuterT> {
+        return new ExceptIterator<OuterT>(this, values, comparison);
+    }
+
+    public reduce<U>(seed: U, accumulator: (accumulated: U, value: OuterT) => U): U {
+        let result: U = seed;
+        for (const value of this) {
+            result = accumulator(result, value);
+        }
+        return result;
+    }
+
+    public scan<U>(seed: U, accumulator: (accumulated: U, value: OuterT) => U): Iterator<U> {
+        return new ScanIterator<U, OuterT>(this, seed, accumulator);
+    }
+
+    public sum(this: Iterator<number>): number;
+    public sum(selector: (value: OuterT) => number): number;
+    public sum(selector?: (value: OuterT) => number): number {
+        return getSumAndCount(this, selector).sum;
+    }
+
+    public average(this: Iterator<number>): number;
+    public average(selector: (value: OuterT) => number): number;
+    public average(selector?: (value: OuterT) => number): number {
+        return getAverage(this, selector);
+    }
+
+    public minBy<K>(keySelector: (value: OuterT) => K): OuterT {
+        let result: OuterT;
+        let resultKey: K;
+        let hasResult: boolean = false;
+        for (const value of this) {
+            const key: K = keySelector(value);
+            if (!hasResult || key < resultKey) {
+                result = value;
+                resultKey = key;
+                hasResult = true;
+            }
+        }
+        return result;
+    }
+
+    public maxBy<K>(keySelector: (value: OuterT) => K): OuterT {
+        let result: OuterT;
+        let resultKey: K;
+        let hasResult: boolean = false;
+        for (const value of this) {
+            const key: K = keySelector(value);
+            if (!hasResult || key > resultKey) {
+                result = value;
+                resultKey = key;
+                hasResult = true;
+            }
+        }
+        return result;
+    }
+
+    public countBy<K>(keySelector: (value: OuterT) => K): Map<K, number> {
+        const result = new Map<K, number>();
+        for (const value of this) {
+            const key: K = keySelector(value);
+            result.add(key, (result.containsKey(key) ? result.get(key) : 0) + 1);
+        }
+        return result;
+    }
+
+    public flatMap<U>(selector: (value: OuterT) => Iterable<U> | Iterator<U> | U[]): Iterator<U> {
+        return new FlatMapIterator<U, OuterT>(this, selector);
+    }
+
+    public flatten<U>(this: Iterator<Iterable<U> | Iterator<U> | U[]>): Iterator<U> {
+        return new FlatMapIterator<U, Iterable<U> | Iterator<U> | U[]>(this, (value: Iterable<U> | Iterator<U> | U[]) => value);
+    }
+
+    public chunk(size: number): Iterator<Indexable<OuterT>> {
+        return new ChunkIterator<OuterT>(this, size);
+    }
+
+    public window(size: number, step: number = 1): Iterator<Indexable<OuterT>> {
+        return new WindowIterator<OuterT>(this, size, step);
+    }
+
+    public pairwise(): Iterator<[OuterT, OuterT]> {
+        return new PairwiseIterator<OuterT>(this);
+    }
+
+    public partition(predicate: (value: OuterT) => boolean): [Iterable<OuterT>, Iterable<OuterT>] {
+        const matches = new ArrayList<OuterT>();
+        const nonMatches = new ArrayList<OuterT>();
+        for (const value of this) {
+            (predicate(value) ? matches : nonMatches).add(value);
+        }
+        return [matches, nonMatches];
+    }
+
+    public splitWhen(predicate: (value: OuterT) => boolean): Iterator<Indexable<OuterT>> {
+        return new SplitWhenIterator<OuterT>(this, predicate);
+    }
+
+    public share(): Iterable<OuterT> {
+        return new MemoizeIterable<OuterT>(new MemoizeBuffer<OuterT>(() => this));
+    }
 }
 
 class ConcatenateIterator<T> extends IteratorBase<T> {
@@ -633,44 +1062,425 @@ class ConcatenateIterator<T> extends IteratorBase<T> {
 }
 
 /**
- * An interface of a collection that can have its contents iterated through.
+ * Create a HashSet that uses the provided comparison function to compare its values. If no
+ * comparison function is provided, then the HashSet will use '===' and hash codes.
  */
-export interface Iterable<T> {
-    [Symbol.iterator](): JavascriptIterator<T>;
+function createComparisonSet<T>(comparison?: EqualityComparison<T>): HashSet<T> {
+    return new HashSet<T>(undefined, toEqualityComparer(comparison));
+}
 
-    /**
-     * Create an iterator for this collection.
-     */
-    iterate(): Iterator<T>;
+/**
+ * An Iterator that only returns values from the inner iterator whose keys haven't been returned
+ * before.
+ */
+class DistinctIterator<T, K> extends WhereIterator<T> {
+    constructor(innerIterator: Iterator<T>, keySelector: (value: T) => K, comparison?: EqualityComparison<K>) {
+        const returnedKeys: HashSet<K> = createComparisonSet(comparison);
+        super(innerIterator, (value: T) => returnedKeys.add(keySelector(value)));
+    }
+}
 
-    /**
-     * Get whether or not this collection contains any values that match the provided condition. If
-     * the condition is not defined, then this function returns whether the collection contains any
-     * values.
-     */
-    any(condition?: (value: T) => boolean): boolean;
+/**
+ * An Iterator that only returns the distinct values from the inner iterator that are also in the
+ * provided values.
+ */
+class IntersectIterator<T> extends WhereIterator<T> {
+    constructor(innerIterator: Iterator<T>, values: Iterable<T> | Iterator<T> | T[], comparison?: EqualityComparison<T>) {
+        let remainingValues: HashSet<T>;
+        super(innerIterator, (value: T) => {
+            if (!remainingValues) {
+                remainingValues = createComparisonSet(comparison);
+                remainingValues.addAll(values as Iterable<T>);
+            }
+            return remainingValues.remove(value);
+        });
+    }
+}
 
-    /**
-     * Get the number of values that are contained in this collection.
-     */
-    getCount(): number;
+/**
+ * An Iterator that only returns the distinct values from the inner iterator that are not in the
+ * provided values.
+ */
+class ExceptIterator<T> extends WhereIterator<T> {
+    constructor(innerIterator: Iterator<T>, values: Iterable<T> | Iterator<T> | T[], comparison?: EqualityComparison<T>) {
+        let returnedValues: HashSet<T>;
+        super(innerIterator, (value: T) => {
+            if (!returnedValues) {
+                returnedValues = createComparisonSet(comparison);
+                returnedValues.addAll(values as Iterable<T>);
+            }
+            return returnedValues.add(value);
+        });
+    }
+}
 
-    /**
-     * Get whether or not this Iterable contians the provided value using the provided comparison
-     * function. If no comparison function is provided, then a simple '===' comparison will be used.
-     */
-    contains(value: T, comparison?: (lhs: T, rhs: T) => boolean): boolean;
+/**
+ * An Iterator that returns the running accumulation of the values of the inner iterator.
+ */
+class ScanIterator<U, T> extends IteratorBase<U> {
+    private _accumulated: U;
+    private _currentAccumulated: boolean = false;
 
-    /**
-     * Get the first value in this collection that matches the provided condition. If no condition
-     * is provided, then the first value in the collection will be returned. If the collection is
-     * empty, then undefined will be returned.
-     */
-    first(condition?: (value: T) => boolean): T;
+    constructor(private _innerIterator: Iterator<T>, seed: U, private _accumulator: (accumulated: U, value: T) => U) {
+        super();
 
-    /**
-     * Get the last value in this collection. If the collection is empty, then undefined will be
-     * returned.
+        this._accumulated = seed;
+    }
+
+    public hasStarted(): boolean {
+        return this._innerIterator.hasStarted();
+    }
+
+    public hasCurrent(): boolean {
+        return this._innerIterator.hasCurrent();
+    }
+
+    private accumulateCurrent(): void {
+        if (!this._currentAccumulated && this.hasCurrent()) {
+            this._accumulated = this._accumulator(this._accumulated, this._innerIterator.getCurrent());
+            this._currentAccumulated = true;
+        }
+    }
+
+    public getCurrent(): U {
+        this.accumulateCurrent();
+        return this.hasCurrent() ? this._accumulated : undefined;
+    }
+
+    public next(): boolean {
+        this.accumulateCurrent();
+        this._currentAccumulated = false;
+        return this._innerIterator.next();
+    }
+}
+
+function isIterable<T>(values: Iterable<T> | Iterator<T> | ArrayLike<T> | JavascriptIterable<T>): values is Iterable<T> {
+    return values ? typeof (values as Iterable<T>).iterate === "function" : false;
+}
+
+function isArrayLike<T>(values: ArrayLike<T> | JavascriptIterable<T>): values is ArrayLike<T> {
+    return values ? typeof (values as ArrayLike<T>).length === "number" : false;
+}
+
+/**
+ * Get an Iterator over the provided values, or undefined if the provided values are undefined.
+ */
+function toIterator<T>(values: Iterable<T> | Iterator<T> | T[]): Iterator<T> {
+    let result: Iterator<T>;
+    if (values instanceof Array) {
+        result = new ArrayList<T>(values).iterate();
+    }
+    else if (isIterable(values)) {
+        result = values.iterate();
+    }
+    else {
+        result = values;
+    }
+    return result;
+}
+
+/**
+ * An Iterator that maps each value of the inner iterator to a sequence of values and returns each
+ * of the values of those sequences in turn.
+ */
+class FlatMapIterator<U, T> extends IteratorBase<U> {
+    private _hasStarted: boolean = false;
+    private _currentIterator: Iterator<U>;
+
+    constructor(private _innerIterator: Iterator<T>, private _selector: (value: T) => Iterable<U> | Iterator<U> | U[]) {
+        super();
+    }
+
+    public hasStarted(): boolean {
+        return this._hasStarted;
+    }
+
+    public hasCurrent(): boolean {
+        return this._currentIterator ? this._currentIterator.hasCurrent() : false;
+    }
+
+    public getCurrent(): U {
+        return this.hasCurrent() ? this._currentIterator.getCurrent() : undefined;
+    }
+
+    private selectCurrentIterator(): void {
+        this._currentIterator = undefined;
+        if (this._innerIterator.hasCurrent()) {
+            this._currentIterator = toIterator(this._selector(this._innerIterator.getCurrent()));
+            if (this._currentIterator && !this._currentIterator.hasStarted()) {
+                this._currentIterator.next();
+            }
+        }
+    }
+
+    public next(): boolean {
+        if (!this._hasStarted) {
+            this._hasStarted = true;
+            if (!this._innerIterator.hasStarted()) {
+                this._innerIterator.next();
+            }
+            this.selectCurrentIterator();
+        }
+        else if (this._currentIterator) {
+            this._currentIterator.next();
+        }
+
+        while (!this.hasCurrent() && this._innerIterator.hasCurrent()) {
+            this._innerIterator.next();
+            this.selectCurrentIterator();
+        }
+
+        return this.hasCurrent();
+    }
+}
+
+/**
+ * An Iterator that combines the values of two Iterators that are at the same position.
+ */
+function toPair<T, U>(first: T, second: U): [T, U] {
+    return [first, second];
+}
+
+class ZipIterator<T, U, R> extends IteratorBase<R> {
+    private _hasStarted: boolean = false;
+    private _hasCurrent: boolean = false;
+    private _current: R;
+
+    constructor(private _first: Iterator<T>, private _second: Iterator<U>, private _resultSelector: (first: T, second: U) => R, private _longest: boolean, private _firstFillValue?: T, private _secondFillValue?: U) {
+        super();
+    }
+
+    public hasStarted(): boolean {
+        return this._hasStarted;
+    }
+
+    public hasCurrent(): boolean {
+        return this._hasCurrent;
+    }
+
+    public getCurrent(): R {
+        return this._current;
+    }
+
+    public next(): boolean {
+        if (!this._hasStarted || this._hasCurrent) {
+            this._hasStarted = true;
+
+            const firstHasCurrent: boolean = this._first.next();
+            const secondHasCurrent: boolean = (firstHasCurrent || this._longest) && this._second.next();
+
+            this._hasCurrent = this._longest ? firstHasCurrent || secondHasCurrent : firstHasCurrent && secondHasCurrent;
+            this._current = !this._hasCurrent ? undefined : this._resultSelector(
+                firstHasCurrent ? this._first.getCurrent() : this._firstFillValue,
+                secondHasCurrent ? this._second.getCurrent() : this._secondFillValue);
+        }
+        return this._hasCurrent;
+    }
+}
+
+/**
+ * A base class for Iterators that build each of their values from one or more values of an inner
+ * Iterator.
+ */
+abstract class BufferingIterator<T, U> extends IteratorBase<U> {
+    private _hasStarted: boolean = false;
+    private _innerHasStarted: boolean = false;
+    private _current: U;
+
+    constructor(private _innerIterator: Iterator<T>) {
+        super();
+    }
+
+    public hasStarted(): boolean {
+        return this._hasStarted;
+    }
+
+    public hasCurrent(): boolean {
+        return isDefined(this._current);
+    }
+
+    public getCurrent(): U {
+        return this._current;
+    }
+
+    public next(): boolean {
+        if (!this._hasStarted || this.hasCurrent()) {
+            this._hasStarted = true;
+            this._current = this.createNext();
+        }
+        return this.hasCurrent();
+    }
+
+    /**
+     * Move the inner Iterator to its next unread value and return whether or not there was one.
+     */
+    protected readInnerValue(): boolean {
+        if (!this._innerHasStarted) {
+            this._innerHasStarted = true;
+            if (!this._innerIterator.hasStarted()) {
+                this._innerIterator.next();
+            }
+        }
+        else {
+            this._innerIterator.next();
+        }
+        return this._innerIterator.hasCurrent();
+    }
+
+    /**
+     * Get the value that was read by the last call to readInnerValue().
+     */
+    protected getInnerValue(): T {
+        return this._innerIterator.getCurrent();
+    }
+
+    /**
+     * Read values from the inner Iterator to build the next value of this Iterator. Return
+     * undefined if there are no more values.
+     */
+    protected abstract createNext(): U;
+}
+
+class ChunkIterator<T> extends BufferingIterator<T, Indexable<T>> {
+    constructor(innerIterator: Iterator<T>, private _size: number) {
+        super(innerIterator);
+    }
+
+    protected createNext(): Indexable<T> {
+        let result: ArrayList<T>;
+        if (this._size >= 1 && this.readInnerValue()) {
+            result = new ArrayList<T>([this.getInnerValue()]);
+            while (result.getCount() < this._size && this.readInnerValue()) {
+                result.add(this.getInnerValue());
+            }
+        }
+        return result;
+    }
+}
+
+class WindowIterator<T> extends BufferingIterator<T, Indexable<T>> {
+    private _window = new Deque<T>();
+    private _hasWindow: boolean = false;
+
+    constructor(innerIterator: Iterator<T>, private _size: number, private _step: number) {
+        super(innerIterator);
+    }
+
+    protected createNext(): Indexable<T> {
+        let result: ArrayList<T>;
+        if (this._size >= 1 && this._step >= 1) {
+            let toDrop: number = this._hasWindow ? this._step : 0;
+            while (toDrop > 0 && this._window.any()) {
+                this._window.removeFirst();
+                --toDrop;
+            }
+            while (toDrop > 0 && this.readInnerValue()) {
+                --toDrop;
+            }
+
+            while (this._window.getCount() < this._size && this.readInnerValue()) {
+                this._window.addLast(this.getInnerValue());
+            }
+
+            if (this._window.getCount() === this._size) {
+                result = new ArrayList<T>(this._window);
+                this._hasWindow = true;
+            }
+        }
+        return result;
+    }
+}
+
+class PairwiseIterator<T> extends BufferingIterator<T, [T, T]> {
+    private _previous: T;
+    private _hasPrevious: boolean = false;
+
+    protected createNext(): [T, T] {
+        let result: [T, T];
+
+        if (!this._hasPrevious && this.readInnerValue()) {
+            this._previous = this.getInnerValue();
+            this._hasPrevious = true;
+        }
+
+        if (this._hasPrevious && this.readInnerValue()) {
+            result = [this._previous, this.getInnerValue()];
+            this._previous = result[1];
+        }
+
+        return result;
+    }
+}
+
+class SplitWhenIterator<T> extends BufferingIterator<T, Indexable<T>> {
+    private _afterSeparator: boolean = false;
+
+    constructor(innerIterator: Iterator<T>, private _predicate: (value: T) => boolean) {
+        super(innerIterator);
+    }
+
+    protected createNext(): Indexable<T> {
+        let result = new ArrayList<T>();
+
+        let foundSeparator: boolean = false;
+        while (!foundSeparator && this.readInnerValue()) {
+            const value: T = this.getInnerValue();
+            if (this._predicate(value)) {
+                foundSeparator = true;
+            }
+            else {
+                result.add(value);
+            }
+        }
+
+        if (!foundSeparator && !result.any() && !this._afterSeparator) {
+            result = undefined;
+        }
+        this._afterSeparator = foundSeparator;
+
+        return result;
+    }
+}
+
+/**
+ * An interface of a collection that can have its contents iterated through.
+ */
+export interface Iterable<T> {
+    [Symbol.iterator](): JavascriptIterator<T>;
+
+    /**
+     * Create an iterator for this collection.
+     */
+    iterate(): Iterator<T>;
+
+    /**
+     * Get whether or not this collection contains any values that match the provided condition. If
+     * the condition is not defined, then this function returns whether the collection contains any
+     * values.
+     */
+    any(condition?: (value: T) => boolean): boolean;
+
+    /**
+     * Get the number of values that are contained in this collection.
+     */
+    getCount(): number;
+
+    /**
+     * Get whether or not this Iterable contians the provided value using the provided comparison
+     * function. If no comparison function is provided, then a simple '===' comparison will be used.
+     */
+    contains(value: T, comparison?: EqualityComparison<T>): boolean;
+
+    /**
+     * Get the first value in this collection that matches the provided condition. If no condition
+     * is provided, then the first value in the collection will be returned. If the collection is
+     * empty, then undefined will be returned.
+     */
+    first(condition?: (value: T) => boolean): T;
+
+    /**
+     * Get the last value in this collection. If the collection is empty, then undefined will be
+     * returned.
      */
     last(condition?: (value: T) => boolean): T;
 
@@ -726,7 +1536,7 @@ export interface Iterable<T> {
      * @param lessThanComparison A comparison function that returns whether or not lhs is less than
      *      rhs. If no comparison function is provided, defaults to standard less than comparison.
      */
-    minimum(lessThanComparison?: (lhs: T, rhs: T) => boolean): T;
+    minimum(lessThanComparison?: ((lhs: T, rhs: T) => boolean) | Comparer<T>): T;
 
     /**
      * Get the maximum value in this Iterable based on the provided comparison function.
@@ -734,39 +1544,316 @@ export interface Iterable<T> {
      *      than rhs. If no comparison function is provided, defaults to standard greater than
      *      comparison.
      */
-    maximum(greaterThanComparison?: (lhs: T, rhs: T) => boolean): T;
-}
+    maximum(greaterThanComparison?: ((lhs: T, rhs: T) => boolean) | Comparer<T>): T;
 
-/**
- * A base implementation of the Iterable<T> interface that classes can extend to make implementing
- * Iterable<T> easier.
- */
-export abstract class IterableBase<T> implements Iterable<T> {
-    [Symbol.iterator](): JavascriptIterator<T> {
-        return new JavascriptIterator<T>(this.iterate());
-    }
+    /**
+     * Get an AsyncIterable that wraps this Iterable.
+     */
+    toAsync(): AsyncIterable<T>;
 
-    public abstract iterate(): Iterator<T>;
+    /**
+     * Get an OrderedIterable that contains the values of this Iterable sorted in ascending order
+     * by the keys that are selected from each value. The sort is stable, so values with equal keys
+     * keep their relative order.
+     * @param keySelector The function that selects the key to sort each value by.
+     * @param comparer An optional function that returns a negative number if lhs is less than rhs,
+     *      zero if they are equal, and a positive number if lhs is greater than rhs. If no comparer
+     *      is provided, then standard less than and greater than comparisons will be used.
+     */
+    orderBy<K>(keySelector: (value: T) => K, comparer?: Comparison<K>): OrderedIterable<T>;
 
-    public any(condition?: (value: T) => boolean): boolean {
-        return this.iterate().any(condition);
-    }
+    /**
+     * Get an OrderedIterable that contains the values of this Iterable sorted in descending order
+     * by the keys that are selected from each value. The sort is stable, so values with equal keys
+     * keep their relative order.
+     */
+    orderByDescending<K>(keySelector: (value: T) => K, comparer?: Comparison<K>): OrderedIterable<T>;
 
-    public getCount(): number {
-        return this.iterate().getCount();
-    }
+    /**
+     * Get an Iterable of Groupings where each Grouping contains the values of this Iterable that
+     * have the same key. The Groupings are in the order that their keys first appear in.
+     * @param keySelector The function that selects the key of each value.
+     */
+    groupBy<K>(keySelector: (value: T) => K): Iterable<Grouping<K, T>>;
 
-    public contains(value: T, comparison?: (iterableValue: T, value: T) => boolean): boolean {
-        if (!comparison) {
-            comparison = (iterableValue: T, value: T) => iterableValue === value;
-        }
+    /**
+     * Get an Iterable of Groupings where each Grouping contains the selected elements of the values
+     * of this Iterable that have the same key. The Groupings are in the order that their keys first
+     * appear in.
+     * @param keySelector The function that selects the key of each value.
+     * @param elementSelector The function that selects the element that will be placed in each
+     *      value's Grouping.
+     */
+    groupBy<K, E>(keySelector: (value: T) => K, elementSelector: (value: T) => E): Iterable<Grouping<K, E>>;
 
-        return this.any((iterableValue: T) => comparison(iterableValue, value));
-    }
+    /**
+     * Create a Lookup that contains the values of this Iterable grouped by the key that is selected
+     * from each value.
+     * @param keySelector The function that selects the key of each value.
+     * @param elementSelector Not used. The values themselves are placed in the Lookup.
+     * @param keyComparison An optional function that determines whether two keys are equal. If
+     *      this is not provided, then a simple '===' comparison will be used.
+     */
+    toLookup<K>(keySelector: (value: T) => K, elementSelector?: undefined, keyComparison?: EqualityComparison<K>): Lookup<K, T>;
 
-    public first(condition?: (value: T) => boolean): T {
-        return this.iterate().first(condition);
-    }
+    /**
+     * Create a Lookup that contains the selected elements of the values of this Iterable grouped by
+     * the key that is selected from each value.
+     * @param keySelector The function that selects the key of each value.
+     * @param elementSelector The function that selects the element that will be placed in the
+     *      Lookup for each value.
+     * @param keyComparison An optional function that determines whether two keys are equal. If
+     *      this is not provided, then a simple '===' comparison will be used.
+     */
+    toLookup<K, E>(keySelector: (value: T) => K, elementSelector: (value: T) => E, keyComparison?: EqualityComparison<K>): Lookup<K, E>;
+
+    /**
+     * Get the distinct values of this Iterable.
+     * @param comparison An optional function that determines whether two values are equal. If this
+     *      is not provided, then a simple '===' comparison will be used.
+     */
+    distinct(comparison?: EqualityComparison<T>): Iterable<T>;
+
+    /**
+     * Get the values of this Iterable whose keys are distinct. If more than one value has the same
+     * key, then only the first of those values will be returned.
+     * @param keySelector The function that selects the key of each value.
+     * @param comparison An optional function that determines whether two keys are equal. If this
+     *      is not provided, then a simple '===' comparison will be used.
+     */
+    distinctBy<K>(keySelector: (value: T) => K, comparison?: EqualityComparison<K>): Iterable<T>;
+
+    /**
+     * Get the distinct values of this Iterable followed by the distinct values of the provided
+     * values that aren't in this Iterable.
+     */
+    union(values: Iterable<T> | T[], comparison?: EqualityComparison<T>): Iterable<T>;
+
+    /**
+     * Get the distinct values of this Iterable that are also in the provided values.
+     */
+    intersect(values: Iterable<T> | T[], comparison?: EqualityComparison<T>): Iterable<T>;
+
+    /**
+     * Get the distinct values of this Iterable that are not in the provided values.
+     */
+    except(values: Iterable<T> | T[], comparison?: EqualityComparison<T>): Iterable<T>;
+
+    /**
+     * Combine the values of this Iterable into a single value by passing the seed and each value to
+     * the accumulator function in turn.
+     * @param seed The initial accumulated value.
+     * @param accumulator The function that combines the accumulated value and the next value into
+     *      the new accumulated value.
+     */
+    reduce<U>(seed: U, accumulator: (accumulated: U, value: T) => U): U;
+
+    /**
+     * Get the intermediate accumulated values that reduce() would compute. The values are computed
+     * as they are iterated.
+     * @param seed The initial accumulated value.
+     * @param accumulator The function that combines the accumulated value and the next value into
+     *      the new accumulated value.
+     */
+    scan<U>(seed: U, accumulator: (accumulated: U, value: T) => U): Iterable<U>;
+
+    /**
+     * Get the sum of the numbers in this Iterable. If this Iterable is empty, then 0 will be returned.
+     */
+    sum(this: Iterable<number>): number;
+
+    /**
+     * Get the sum of the numbers that the provided selector selects from the values in this
+     * Iterable. If this Iterable is empty, then 0 will be returned.
+     */
+    sum(selector: (value: T) => number): number;
+
+    /**
+     * Get the average of the numbers in this Iterable. If this Iterable is empty, then undefined will
+     * be returned.
+     */
+    average(this: Iterable<number>): number;
+
+    /**
+     * Get the average of the numbers that the provided selector selects from the values in this
+     * Iterable. If this Iterable is empty, then undefined will be returned.
+     */
+    average(selector: (value: T) => number): number;
+
+    /**
+     * Get the first value in this Iterable with the smallest key, or undefined if this Iterable is
+     * empty.
+     * @param keySelector The function that selects the key of each value.
+     */
+    minBy<K>(keySelector: (value: T) => K): T;
+
+    /**
+     * Get the first value in this Iterable with the largest key, or undefined if this Iterable is
+     * empty.
+     * @param keySelector The function that selects the key of each value.
+     */
+    maxBy<K>(keySelector: (value: T) => K): T;
+
+    /**
+     * Get a Map from each of the keys in this Iterable to the number of values that have that key.
+     * @param keySelector The function that selects the key of each value.
+     */
+    countBy<K>(keySelector: (value: T) => K): Map<K, number>;
+
+    /**
+     * Get an Iterable that maps each value of this Iterable to a sequence of values and contains
+     * each of the values of those sequences in turn.
+     * @param selector The function that maps each value to an Iterable, Iterator or array of values.
+     *      If the selector returns undefined, then the value will be skipped.
+     */
+    flatMap<U>(selector: (value: T) => Iterable<U> | Iterator<U> | U[]): Iterable<U>;
+
+    /**
+     * Get an Iterable based on this Iterable of sequences that contains each of the values of those
+     * sequences in turn.
+     */
+    flatten<U>(this: Iterable<Iterable<U> | Iterator<U> | U[]>): Iterable<U>;
+
+    /**
+     * Get an Iterable that pairs each value of this Iterable with the value at the same position in
+     * the provided values. Each pair is returned as a two-element array. The resulting Iterable ends
+     * when either this Iterable or the provided values end.
+     * @param other The values to pair with the values of this Iterable.
+     */
+    zip<U>(other: Iterable<U> | U[]): Iterable<[T, U]>;
+
+    /**
+     * Get an Iterable that combines each value of this Iterable with the value at the same position
+     * in the provided values. The resulting Iterable ends when either this Iterable or the provided
+     * values end.
+     * @param other The values to combine with the values of this Iterable.
+     * @param resultSelector The function that combines a pair of values.
+     */
+    zip<U, R>(other: Iterable<U> | U[], resultSelector: (first: T, second: U) => R): Iterable<R>;
+
+    /**
+     * Get an Iterable that pairs each value of this Iterable with the value at the same position in
+     * the provided values. Each pair is returned as a two-element array. The resulting Iterable ends
+     * when both this Iterable and the provided values end, and the shorter sequence is padded with
+     * the provided fill value.
+     * @param other The values to pair with the values of this Iterable.
+     * @param fillValue The value to use in place of the values of this Iterable after it ends.
+     * @param otherFillValue The value to use in place of the provided values after they end.
+     */
+    zipLongest<U>(other: Iterable<U> | U[], fillValue?: T, otherFillValue?: U): Iterable<[T, U]>;
+
+    /**
+     * Get an Iterable that combines each value of this Iterable with the value at the same position
+     * in the provided values. The resulting Iterable ends when both this Iterable and the provided
+     * values end, and the shorter sequence is padded with the provided fill value.
+     * @param other The values to combine with the values of this Iterable.
+     * @param fillValue The value to use in place of the values of this Iterable after it ends.
+     * @param otherFillValue The value to use in place of the provided values after they end.
+     * @param resultSelector The function that combines a pair of values.
+     */
+    zipLongest<U, R>(other: Iterable<U> | U[], fillValue: T, otherFillValue: U, resultSelector: (first: T, second: U) => R): Iterable<R>;
+
+    /**
+     * Get an Iterable that combines each value of this Iterable with each of the provided inner
+     * values that have the same key. Values that have no match are not returned.
+     * @param inner The values to join with the values of this Iterable.
+     * @param outerKeySelector The function that selects the key of each value of this Iterable.
+     * @param innerKeySelector The function that selects the key of each inner value.
+     * @param resultSelector The function that combines a value of this Iterable with a matching
+     *      inner value.
+     */
+    join<I, K, R>(inner: Iterable<I> | I[], outerKeySelector: (value: T) => K, innerKeySelector: (value: I) => K, resultSelector: (outer: T, inner: I) => R): Iterable<R>;
+
+    /**
+     * Get an Iterable that combines each value of this Iterable with all of the provided inner
+     * values that have the same key.
+     * @param inner The values to join with the values of this Iterable.
+     * @param outerKeySelector The function that selects the key of each value of this Iterable.
+     * @param innerKeySelector The function that selects the key of each inner value.
+     * @param resultSelector The function that combines a value of this Iterable with its matching
+     *      inner values. The matching inner values will be empty if there were no matches.
+     */
+    groupJoin<I, K, R>(inner: Iterable<I> | I[], outerKeySelector: (value: T) => K, innerKeySelector: (value: I) => K, resultSelector: (outer: T, inner: Iterable<I>) => R): Iterable<R>;
+
+    /**
+     * Get an Iterable that contains the values of this Iterable in consecutive batches of the
+     * provided size. The last batch will be smaller if there aren't enough values to fill it.
+     * @param size The number of values in each batch.
+     */
+    chunk(size: number): Iterable<Indexable<T>>;
+
+    /**
+     * Get an Iterable that contains each sliding window of the provided size over the values of this
+     * Iterable. Windows that would extend past the end of this Iterable are not included.
+     * @param size The number of values in each window.
+     * @param step The number of values that each window starts after the previous window. If this
+     *      is not provided, then each window will start one value after the previous window.
+     */
+    window(size: number, step?: number): Iterable<Indexable<T>>;
+
+    /**
+     * Get an Iterable that contains each pair of adjacent values in this Iterable.
+     */
+    pairwise(): Iterable<[T, T]>;
+
+    /**
+     * Get the values of this Iterable that match the provided predicate and the values that don't.
+     * @param predicate The function that determines which of the two partitions each value is in.
+     */
+    partition(predicate: (value: T) => boolean): [Iterable<T>, Iterable<T>];
+
+    /**
+     * Get the groups of values in this Iterable that are separated by values that match the
+     * provided predicate. The separating values are not included in any group. If this Iterable
+     * has any values, then N separators produce N + 1 groups (a leading or trailing separator
+     * produces an empty group). If this Iterable is empty, then there are no groups.
+     * @param predicate The function that determines whether a value is a separator.
+     */
+    splitWhen(predicate: (value: T) => boolean): Iterable<Indexable<T>>;
+
+    /**
+     * Get an Iterable that repeats the values of this Iterable. If this Iterable is empty, then the
+     * resulting Iterable will also be empty.
+     * @param count The number of times to repeat the values of this Iterable. If this is not
+     *      provided, then the values will be repeated forever.
+     */
+    cycle(count?: number): Iterable<T>;
+
+    /**
+     * Get an Iterable that reads the values of this Iterable as they are first needed and buffers
+     * them so that later iterations (including iterations at the same time) don't evaluate this
+     * Iterable again. Changes to this Iterable after its values have been buffered won't be seen.
+     */
+    memoize(): Iterable<T>;
+}
+
+/**
+ * A base implementation of the Iterable<T> interface that classes can extend to make implementing
+ * Iterable<T> easier.
+ */
+export abstract class IterableBase<T> implements Iterable<T> {
+    [Symbol.iterator](): JavascriptIterator<T> {
+        return new JavascriptIterator<T>(this.iterate());
+    }
+
+    public abstract iterate(): Iterator<T>;
+
+    public any(condition?: (value: T) => boolean): boolean {
+        return this.iterate().any(condition);
+    }
+
+    public getCount(): number {
+        return this.iterate().getCount();
+    }
+
+    public contains(value: T, comparison?: EqualityComparison<T>): boolean {
+        const equals: (lhs: T, rhs: T) => boolean = toEqualityFunction(comparison);
+        return this.any((iterableValue: T) => equals(iterableValue, value));
+    }
+
+    public first(condition?: (value: T) => boolean): T {
+        return this.iterate().first(condition);
+    }
 
     public last(condition?: (value: T) => boolean): T {
         return this.iterate().last(condition);
@@ -805,1194 +1892,7234 @@ export abstract class IterableBase<T> implements Iterable<T> {
         return result;
     }
 
-    public map<U>(mapFunction: (value: T) => U): Iterable<U> {
-        return mapFunction ? new MapIterable(this, mapFunction) : new ArrayList<U>();
+    public map<U>(mapFunction: (value: T) => U): Iterable<U> {
+        return mapFunction ? new MapIterable(this, mapFunction) : new ArrayList<U>();
+    }
+
+    public concatenate(toConcatenate: Iterable<T> | T[]): Iterable<T> {
+        return toConcatenate ? new ConcatenateIterable(this, toConcatenate) : this;
+    }
+
+    public toArray(): T[] {
+        return this.iterate().toArray();
+    }
+
+    public endsWith(values: Iterable<T>): boolean {
+        let result: boolean;
+
+        if (!values) {
+            result = false;
+        }
+        else {
+            const valuesCount: number = values.getCount();
+            if (valuesCount === 0) {
+                result = false;
+            }
+            else if (this.getCount() < valuesCount) {
+                result = false;
+            }
+            else {
+                result = true;
+
+                const thisLastValuesIterator: Iterator<T> = this.takeLast(valuesCount).iterate();
+                const valuesIterator: Iterator<T> = values.iterate();
+                while (thisLastValuesIterator.next() === valuesIterator.next() && thisLastValuesIterator.hasCurrent()) {
+                    if (thisLastValuesIterator.getCurrent() !== valuesIterator.getCurrent()) {
+                        result = false;
+                        break;
+                    }
+                }
+            }
+        }
+
+        return result;
+    }
+
+    public minimum(lessThanComparison?: ((lhs: T, rhs: T) => boolean) | Comparer<T>): T {
+        return this.iterate().minimum(lessThanComparison);
+    }
+
+    public maximum(greaterThanComparison?: ((lhs: T, rhs: T) => boolean) | Comparer<T>): T {
+        return this.iterate().maximum(greaterThanComparison);
+    }
+
+    public toAsync(): AsyncIterable<T> {
+        return new IterableToAsyncIterable<T>(this);
+    }
+
+    public orderBy<K>(keySelector: (value: T) => K, comparer?: Comparison<K>): OrderedIterable<T> {
+        return new OrderByIterable<T>(this, createKeyComparer(keySelector, comparer, false));
+    }
+
+    public orderByDescending<K>(keySelector: (value: T) => K, comparer?: Comparison<K>): OrderedIterable<T> {
+        return new OrderByIterable<T>(this, createKeyComparer(keySelector, comparer, true));
+    }
+
+    public groupBy<K>(keySelector: (value: T) => K): Iterable<Grouping<K, T>>;
+    public groupBy<K, E>(keySelector: (value: T) => K, elementSelector: (value: T) => E): Iterable<Grouping<K, E>>;
+    public groupBy<K, E>(keySelector: (value: T) => K, elementSelector?: (value: T) => E): Iterable<Grouping<K, E | T>> {
+        return new GroupByIterable<K, E | T, T>(this, keySelector, elementSelector || identity);
+    }
+
+    public toLookup<K>(keySelector: (value: T) => K, elementSelector?: undefined, keyComparison?: EqualityComparison<K>): Lookup<K, T>;
+    public toLookup<K, E>(keySelector: (value: T) => K, elementSelector: (value: T) => E, keyComparison?: EqualityComparison<K>): Lookup<K, E>;
+    public toLookup<K, E>(keySelector: (value: T) => K, elementSelector?: (value: T) => E, keyComparison?: EqualityComparison<K>): Lookup<K, E | T> {
+        return new GroupingLookup<T, K, E | T>(this, keySelector, elementSelector || identity, keyComparison);
+    }
+
+    public distinct(comparison?: EqualityComparison<T>): Iterable<T> {
+        return new DistinctIterable<T, T>(this, (value: T) => value, comparison);
+    }
+
+    public distinctBy<K>(keySelector: (value: T) => K, comparison?: EqualityComparison<K>): Iterable<T> {
+        return new DistinctIterable<T, K>(this, keySelector, comparison);
+    }
+
+    public union(values: Iterable<T> | T[], comparison?: EqualityComparison<T>): Iterable<T> {
+        return this.concatenate(values).distinct(comparison);
+    }
+
+    public intersect(values: Iterable<T> | T[], comparison?: EqualityComparison<T>): Iterable<T> {
+        return new IntersectIterable<T>(this, values, comparison);
+    }
+
+    public except(values: Iterable<T> | T[], comparison?: EqualityComparison<T>): Iterable<T> {
+        return new ExceptIterable<T>(this, values, comparison);
+    }
+
+    public reduce<U>(seed: U, accumulator: (accumulated: U, value: T) => U): U {
+        return this.iterate().reduce(seed, accumulator);
+    }
+
+    public scan<U>(seed: U, accumulator: (accumulated: U, value: T) => U): Iterable<U> {
+        return new ScanIterable<U, T>(this, seed, accumulator);
+    }
+
+    public sum(this: Iterable<number>): number;
+    public sum(selector: (value: T) => number): number;
+    public sum(selector?: (value: T) => number): number {
+        return getSumAndCount(this.iterate(), selector).sum;
+    }
+
+    public average(this: Iterable<number>): number;
+    public average(selector: (value: T) => number): number;
+    public average(selector?: (value: T) => number): number {
+        return getAverage(this.iterate(), selector);
+    }
+
+    public minBy<K>(keySelector: (value: T) => K): T {
+        return this.iterate().minBy(keySelector);
+    }
+
+    public maxBy<K>(keySelector: (value: T) => K): T {
+        return this.iterate().maxBy(keySelector);
+    }
+
+    public countBy<K>(keySelector: (value: T) => K): Map<K, number> {
+        return this.iterate().countBy(keySelector);
+    }
+
+    public flatMap<U>(selector: (value: T) => Iterable<U> | Iterator<U> | U[]): Iterable<U> {
+        return new FlatMapIterable<U, T>(this, selector);
+    }
+
+    public flatten<U>(this: Iterable<Iterable<U> | Iterator<U> | U[]>): Iterable<U> {
+        return new FlatMapIterable<U, Iterable<U> | Iterator<U> | U[]>(this, (value: Iterable<U> | Iterator<U> | U[]) => value);
+    }
+
+    public zip<U>(other: Iterable<U> | U[]): Iterable<[T, U]>;
+    public zip<U, R>(other: Iterable<U> | U[], resultSelector: (first: T, second: U) => R): Iterable<R>;
+    public zip<U, R>(other: Iterable<U> | U[], resultSelector?: (first: T, second: U) => R): Iterable<R | [T, U]> {
+        return new ZipIterable<T, U, R | [T, U]>(this, other, resultSelector || toPair, false);
+    }
+
+    public zipLongest<U>(other: Iterable<U> | U[], fillValue?: T, otherFillValue?: U): Iterable<[T, U]>;
+    public zipLongest<U, R>(other: Iterable<U> | U[], fillValue: T, otherFillValue: U, resultSelector: (first: T, second: U) => R): Iterable<R>;
+    public zipLongest<U, R>(other: Iterable<U> | U[], fillValue?: T, otherFillValue?: U, resultSelector?: (first: T, second: U) => R): Iterable<R | [T, U]> {
+        return new ZipIterable<T, U, R | [T, U]>(this, other, resultSelector || toPair, true, fillValue, otherFillValue);
+    }
+
+    public join<I, K, R>(inner: Iterable<I> | I[], outerKeySelector: (value: T) => K, innerKeySelector: (value: I) => K, resultSelector: (outer: T, inner: I) => R): Iterable<R> {
+        return new GroupJoinIterable<T, I, K, Iterable<R>>(this, inner, outerKeySelector, innerKeySelector, (outer: T, inners: Iterable<I>) => inners.map((innerValue: I) => resultSelector(outer, innerValue))).flatten();
+    }
+
+    public groupJoin<I, K, R>(inner: Iterable<I> | I[], outerKeySelector: (value: T) => K, innerKeySelector: (value: I) => K, resultSelector: (outer: T, inner: Iterable<I>) => R): Iterable<R> {
+        return new GroupJoinIterable<T, I, K, R>(this, inner, outerKeySelector, innerKeySelector, resultSelector);
+    }
+
+    public chunk(size: number): Iterable<Indexable<T>> {
+        return new ChunkIterable<T>(this, size);
+    }
+
+    public window(size: number, step: number = 1): Iterable<Indexable<T>> {
+        return new WindowIterable<T>(this, size, step);
+    }
+
+    public pairwise(): Iterable<[T, T]> {
+        return new PairwiseIterable<T>(this);
+    }
+
+    public partition(predicate: (value: T) => boolean): [Iterable<T>, Iterable<T>] {
+        return [this.where(predicate), this.where((value: T) => !predicate(value))];
+    }
+
+    public splitWhen(predicate: (value: T) => boolean): Iterable<Indexable<T>> {
+        return new SplitWhenIterable<T>(this, predicate);
+    }
+
+    public cycle(count?: number): Iterable<T> {
+        return new CycleIterable<T>(this, count);
+    }
+
+    public memoize(): Iterable<T> {
+        return new MemoizeIterable<T>(new MemoizeBuffer<T>(() => this.iterate()));
+    }
+}
+
+class WhereIterable<T> extends IterableBase<T> {
+    constructor(private _innerIterable: Iterable<T>, private _condition: (value: T) => boolean) {
+        super();
+    }
+
+    public iterate(): Iterator<T> {
+        return this._innerIterable.iterate().where(this._condition);
+    }
+}
+
+function getCountWithSkip<T>(iterable: Iterable<T>, toSkip: number): number {
+    let result: number = iterable.getCount();
+    if (result <= toSkip) {
+        result = 0;
+    }
+    else {
+        result -= toSkip;
+    }
+    return result;
+}
+
+class SkipIterable<T> extends IterableBase<T> {
+    constructor(private _innerIterable: Iterable<T>, private _toSkip: number) {
+        super();
+    }
+
+    public iterate(): Iterator<T> {
+        return this._innerIterable.iterate().skip(this._toSkip);
+    }
+
+    public getCount(): number {
+        return getCountWithSkip(this._innerIterable, this._toSkip);
+    }
+}
+
+function getCountWithTake<T>(iterable: Iterable<T>, toTake: number): number {
+    let result: number = iterable.getCount();
+    if (toTake < result) {
+        result = toTake;
+    }
+    return result;
+}
+
+class TakeIterable<T> extends IterableBase<T> {
+    constructor(private _innerIterable: Iterable<T>, private _toTake: number) {
+        super();
+    }
+
+    public iterate(): Iterator<T> {
+        return this._innerIterable.iterate().take(this._toTake);
+    }
+
+    public getCount(): number {
+        return getCountWithTake(this._innerIterable, this._toTake);
+    }
+}
+
+class MapIterable<OuterT, InnerT> implements Iterable<OuterT> {
+    constructor(private _innerIterable: Iterable<InnerT>, private _mapFunction: (value: InnerT) => OuterT) {
+    }
+
+    [Symbol.iterator](): JavascriptIterator<OuterT> {
+        return new JavascriptIterator<OuterT>(this.iterate());
+    }
+
+    public iterate(): Iterator<OuterT> {
+        return this._innerIterable.iterate().map(this._mapFunction);
+    }
+
+    public any(condition?: (value: OuterT) => boolean): boolean {
+        return this.iterate().any(condition);
+    }
+
+    public getCount(): number {
+        return this._innerIterable.getCount();
+    }
+
+    public contains(value: OuterT, comparison?: EqualityComparison<OuterT>): boolean {
+        const equals: (lhs: OuterT, rhs: OuterT) => boolean = toEqualityFunction(comparison);
+        return this.any((iterableValue: OuterT) => equals(iterableValue, value));
+    }
+
+    public first(condition?: (value: OuterT) => boolean): OuterT {
+        return this.iterate().first(condition);
+    }
+
+    public last(condition?: (value: OuterT) => boolean): OuterT {
+        return this.iterate().last(condition);
+    }
+
+    public where(condition: (value: OuterT) => boolean): Iterable<OuterT> {
+        return condition ? new WhereIterable(this, condition) : this;
+    }
+
+    public skip(toSkip: number): Iterable<OuterT> {
+        return toSkip && 0 < toSkip ? new SkipIterable(this, toSkip) : this;
+    }
+
+    public skipLast(toSkip: number): Iterable<OuterT> {
+        return toSkip && 0 < toSkip ? this.take(this.getCount() - toSkip) : this;
+    }
+
+    public take(toTake: number): Iterable<OuterT> {
+        return toTake && 0 < toTake ? new TakeIterable(this, toTake) : new ArrayList<OuterT>();
+    }
+
+    public takeLast(toTake: number): Iterable<OuterT> {
+        let result: Iterable<OuterT>;
+        if (!toTake || toTake < 0) {
+            result = new ArrayList<OuterT>();
+        }
+        else {
+            const count: number = this.getCount();
+            if (count <= toTake) {
+                result = this;
+            }
+            else {
+                result = this.skip(count - toTake);
+            }
+        }
+        return result;
+    }
+
+    public map<NewT>(mapFunction: (value: OuterT) => NewT): Iterable<NewT> {
+        return mapFunction ? new MapIterable<NewT, OuterT>(this, mapFunction) : new ArrayList<NewT>();
+    }
+
+    public concatenate(toConcatenate: Iterable<OuterT> | OuterT[]): Iterable<OuterT> {
+        return toConcatenate ? new ConcatenateIterable<OuterT>(this, toConcatenate) : this;
+    }
+
+    public toArray(): OuterT[] {
+        return this.iterate().toArray();
+    }
+
+    public endsWith(values: Iterable<OuterT>): boolean {
+        let result: boolean;
+
+        if (!values) {
+            result = false;
+        }
+        else {
+            const valuesCount: number = values.getCount();
+            if (valuesCount === 0) {
+                result = false;
+            }
+            else if (this.getCount() < valuesCount) {
+                result = false;
+            }
+            else {
+                result = true;
+
+                const thisLastValuesIterator: Iterator<OuterT> = this.takeLast(valuesCount).iterate();
+                const valuesIterator: Iterator<OuterT> = values.iterate();
+                while (thisLastValuesIterator.next() === valuesIterator.next() && thisLastValuesIterator.hasCurrent()) {
+                    if (thisLastValuesIterator.getCurrent() !== valuesIterator.getCurrent()) {
+                        result = false;
+                        break;
+                    }
+                }
+            }
+        }
+
+        return result;
+    }
+
+    public minimum(lessThanComparison?: ((lhs: OuterT, rhs: OuterT) => boolean) | Comparer<OuterT>): OuterT {
+        return this.iterate().minimum(lessThanComparison);
+    }
+
+    public maximum(greaterThanComparison?: ((lhs: OuterT, rhs: OuterT) => boolean) | Comparer<OuterT>): OuterT {
+        return this.iterate().maximum(greaterThanComparison);
+    }
+
+    public toAsync(): AsyncIterable<OuterT> {
+        return new IterableToAsyncIterable<OuterT>(this);
+    }
+
+    public orderBy<K>(keySelector: (value: OuterT) => K, comparer?: Comparison<K>): OrderedIterable<OuterT> {
+        return new OrderByIterable<OuterT>(this, createKeyComparer(keySelector, comparer, false));
+    }
+
+    public orderByDescending<K>(keySelector: (value: OuterT) => K, comparer?: Comparison<K>): OrderedIterable<OuterT> {
+        return new OrderByIterable<OuterT>(this, createKeyComparer(keySelector, comparer, true));
+    }
+
+    public groupBy<K>(keySelector: (value: OuterT) => K): Iterable<Grouping<K, OuterT>>;
+    public groupBy<K, E>(keySelector: (value: OuterT) => K, elementSelector: (value: OuterT) => E): Iterable<Grouping<K, E>>;
+    public groupBy<K, E>(keySelector: (value: OuterT) => K, elementSelector?: (value: OuterT) => E): Iterable<Grouping<K, E | OuterT>> {
+        return new GroupByIterable<K, E | OuterT, OuterT>(this, keySelector, elementSelector || identity);
+    }
+
+    public toLookup<K>(keySelector: (value: OuterT) => K, elementSelector?: undefined, keyComparison?: EqualityComparison<K>): Lookup<K, OuterT>;
+    public toLookup<K, E>(keySelector: (value: OuterT) => K, elementSelector: (value: OuterT) => E, keyComparison?: EqualityComparison<K>): Lookup<K, E>;
+    public toLookup<K, E>(keySelector: (value: OuterT) => K, elementSelector?: (value: OuterT) => E, keyComparison?: EqualityComparison<K>): Lookup<K, E | OuterT> {
+        return new GroupingLookup<OuterT, K, E | OuterT>(this, keySelector, elementSelector || identity, keyComparison);
+    }
+
+    public distinct(comparison?: EqualityComparison<OuterT>): Iterable<OuterT> {
+        return new DistinctIterable<OuterT, OuterT>(this, (value: OuterT) => value, comparison);
+    }
+
+    public distinctBy<K>(keySelector: (value: OuterT) => K, comparison?: EqualityComparison<K>): Iterable<OuterT> {
+        return new DistinctIterable<OuterT, K>(this, keySelector, comparison);
+    }
+
+    public union(values: Iterable<OuterT> | OuterT[], comparison?: EqualityComparison<OuterT>): Iterable<OuterT> {
+        return this.concatenate(values).distinct(comparison);
+    }
+
+    public intersect(values: Iterable<OuterT> | OuterT[], comparison?: EqualityComparison<OuterT>): Iterable<OuterT> {
+        return new IntersectIterable<OuterT>(this, values, comparison);
+    }
+
+    public except(values: Iterable<OuterT> | OuterT[], comparison?: EqualityComparison<OuterT>): Iterable<OuterT> {
+        return new ExceptIterable<OuterT>(this, values, comparison);
+    }
+
+    public reduce<U>(seed: U, accumulator: (accumulated: U, value: OuterT) => U): U {
+        return this.iterate().reduce(seed, accumulator);
+    }
+
+    public scan<U>(seed: U, accumulator: (accumulated: U, value: OuterT) => U): Iterable<U> {
+        return new ScanIterable<U, OuterT>(this, seed, accumulator);
+    }
+
+    public sum(this: Iterable<number>): number;
+    public sum(selector: (value: OuterT) => number): number;
+    public sum(selector?: (value: OuterT) => number): number {
+        return getSumAndCount(this.iterate(), selector).sum;
+    }
+
+    public average(this: Iterable<number>): number;
+    public average(selector: (value: OuterT) => number): number;
+    public average(selector?: (value: OuterT) => number): number {
+        return getAverage(this.iterate(), selector);
+    }
+
+    public minBy<K>(keySelector: (value: OuterT) => K): OuterT {
+        return this.iterate().minBy(keySelector);
+    }
+
+    public maxBy<K>(keySelector: (value: OuterT) => K): OuterT {
+        return this.iterate().maxBy(keySelector);
+    }
+
+    public countBy<K>(keySelector: (value: OuterT) => K): Map<K, number> {
+        return this.iterate().countBy(keySelector);
+    }
+
+    public flatMap<U>(selector: (value: OuterT) => Iterable<U> | Iterator<U> | U[]): Iterable<U> {
+        return new FlatMapIterable<U, OuterT>(this, selector);
+    }
+
+    public flatten<U>(this: Iterable<Iterable<U> | Iterator<U> | U[]>): Iterable<U> {
+        return new FlatMapIterable<U, Iterable<U> | Iterator<U> | U[]>(this, (value: Iterable<U> | Iterator<U> | U[]) => value);
+    }
+
+    public zip<U>(other: Iterable<U> | U[]): Iterable<[OuterT, U]>;
+    public zip<U, R>(other: Iterable<U> | U[], resultSelector: (first: OuterT, second: U) => R): Iterable<R>;
+    public zip<U, R>(other: Iterable<U> | U[], resultSelector?: (first: OuterT, second: U) => R): Iterable<R | [OuterT, U]> {
+        return new ZipIterable<OuterT, U, R | [OuterT, U]>(this, other, resultSelector || toPair, false);
+    }
+
+    public zipLongest<U>(other: Iterable<U> | U[], fillValue?: OuterT, otherFillValue?: U): Iterable<[OuterT, U]>;
+    public zipLongest<U, R>(other: Iterable<U> | U[], fillValue: OuterT, otherFillValue: U, resultSelector: (first: OuterT, second: U) => R): Iterable<R>;
+    public zipLongest<U, R>(other: Iterable<U> | U[], fillValue?: OuterT, otherFillValue?: U, resultSelector?: (first: OuterT, second: U) => R): Iterable<R | [OuterT, U]> {
+        return new ZipIterable<OuterT, U, R | [OuterT, U]>(this, other, resultSelector || toPair, true, fillValue, otherFillValue);
+    }
+
+    public join<I, K, R>(inner: Iterable<I> | I[], outerKeySelector: (value: OuterT) => K, innerKeySelector: (value: I) => K, resultSelector: (outer: OuterT, inner: I) => R): Iterable<R> {
+        return new GroupJoinIterable<OuterT, I, K, Iterable<R>>(this, inner, outerKeySelector, innerKeySelector, (outer: OuterT, inners: Iterable<I>) => inners.map((innerValue: I) => resultSelector(outer, innerValue))).flatten();
+    }
+
+    public groupJoin<I, K, R>(inner: Iterable<I> | I[], outerKeySelector: (value: OuterT) => K, innerKeySelector: (value: I) => K, resultSelector: (outer: OuterT, inner: Iterable<I>) => R): Iterable<R> {
+        return new GroupJoinIterable<OuterT, I, K, R>(this, inner, outerKeySelector, innerKeySelector, resultSelector);
+    }
+
+    public chunk(size: number): Iterable<Indexable<OuterT>> {
+        return new ChunkIterable<OuterT>(this, size);
+    }
+
+    public window(size: number, step: number = 1): Iterable<Indexable<OuterT>> {
+        return new WindowIterable<OuterT>(this, size, step);
+    }
+
+    public pairwise(): Iterable<[OuterT, OuterT]> {
+        return new PairwiseIterable<OuterT>(this);
+    }
+
+    public partition(predicate: (value: OuterT) => boolean): [Iterable<OuterT>, Iterable<OuterT>] {
+        return [this.where(predicate), this.where((value: OuterT) => !predicate(value))];
+    }
+
+    public splitWhen(predicate: (value: OuterT) => boolean): Iterable<Indexable<OuterT>> {
+        return new SplitWhenIterable<OuterT>(this, predicate);
+    }
+
+    public cycle(count?: number): Iterable<OuterT> {
+        return new CycleIterable<OuterT>(this, count);
+    }
+
+    public memoize(): Iterable<OuterT> {
+        return new MemoizeIterable<OuterT>(new MemoizeBuffer<OuterT>(() => this.iterate()));
+    }
+}
+
+class ConcatenateIterable<T> extends IterableBase<T> {
+    private _first: Iterable<T>;
+    private _second: Iterable<T>;
+
+    constructor(first: Iterable<T>, second: Iterable<T> | T[]) {
+        super();
+        this._first = first;
+        this._second = new ArrayList<T>(second);
+    }
+
+    public iterate(): Iterator<T> {
+        return this._first.iterate().concatenate(this._second.iterate());
+    }
+}
+
+class DistinctIterable<T, K> extends IterableBase<T> {
+    constructor(private _innerIterable: Iterable<T>, private _keySelector: (value: T) => K, private _comparison: EqualityComparison<K>) {
+        super();
+    }
+
+    public iterate(): Iterator<T> {
+        return this._innerIterable.iterate().distinctBy(this._keySelector, this._comparison);
+    }
+}
+
+class IntersectIterable<T> extends IterableBase<T> {
+    constructor(private _innerIterable: Iterable<T>, private _values: Iterable<T> | T[], private _comparison: EqualityComparison<T>) {
+        super();
+    }
+
+    public iterate(): Iterator<T> {
+        return this._innerIterable.iterate().intersect(this._values, this._comparison);
+    }
+}
+
+class ExceptIterable<T> extends IterableBase<T> {
+    constructor(private _innerIterable: Iterable<T>, private _values: Iterable<T> | T[], private _comparison: EqualityComparison<T>) {
+        super();
+    }
+
+    public iterate(): Iterator<T> {
+        return this._innerIterable.iterate().except(this._values, this._comparison);
+    }
+}
+
+class ScanIterable<U, T> extends IterableBase<U> {
+    constructor(private _innerIterable: Iterable<T>, private _seed: U, private _accumulator: (accumulated: U, value: T) => U) {
+        super();
+    }
+
+    public iterate(): Iterator<U> {
+        return this._innerIterable.iterate().scan(this._seed, this._accumulator);
+    }
+}
+
+class FlatMapIterable<U, T> extends IterableBase<U> {
+    constructor(private _innerIterable: Iterable<T>, private _selector: (value: T) => Iterable<U> | Iterator<U> | U[]) {
+        super();
+    }
+
+    public iterate(): Iterator<U> {
+        return this._innerIterable.iterate().flatMap(this._selector);
+    }
+}
+
+class ZipIterable<T, U, R> extends IterableBase<R> {
+    constructor(private _first: Iterable<T>, private _second: Iterable<U> | U[], private _resultSelector: (first: T, second: U) => R, private _longest: boolean, private _firstFillValue?: T, private _secondFillValue?: U) {
+        super();
+    }
+
+    public iterate(): Iterator<R> {
+        const second: Iterator<U> = this._second ? toIterator(this._second) : new ArrayList<U>().iterate();
+        return new ZipIterator<T, U, R>(this._first.iterate(), second, this._resultSelector, this._longest, this._firstFillValue, this._secondFillValue);
+    }
+}
+
+/**
+ * An Iterable that combines each of the values of the outer Iterable with the inner values that
+ * have the same key. The inner values are grouped by key each time that it is iterated.
+ */
+class GroupJoinIterable<T, I, K, R> extends IterableBase<R> {
+    constructor(private _outer: Iterable<T>, private _inner: Iterable<I> | I[], private _outerKeySelector: (value: T) => K, private _innerKeySelector: (value: I) => K, private _resultSelector: (outer: T, inner: Iterable<I>) => R) {
+        super();
+    }
+
+    public iterate(): Iterator<R> {
+        const innerLookup = new GroupingLookup<I, K, I>(this._inner, this._innerKeySelector, identity);
+        return this._outer.iterate().map((outer: T) => this._resultSelector(outer, innerLookup.get(this._outerKeySelector(outer))));
+    }
+}
+
+class ChunkIterable<T> extends IterableBase<Indexable<T>> {
+    constructor(private _innerIterable: Iterable<T>, private _size: number) {
+        super();
+    }
+
+    public iterate(): Iterator<Indexable<T>> {
+        return this._innerIterable.iterate().chunk(this._size);
+    }
+}
+
+class WindowIterable<T> extends IterableBase<Indexable<T>> {
+    constructor(private _innerIterable: Iterable<T>, private _size: number, private _step: number) {
+        super();
+    }
+
+    public iterate(): Iterator<Indexable<T>> {
+        return this._innerIterable.iterate().window(this._size, this._step);
+    }
+}
+
+class PairwiseIterable<T> extends IterableBase<[T, T]> {
+    constructor(private _innerIterable: Iterable<T>) {
+        super();
+    }
+
+    public iterate(): Iterator<[T, T]> {
+        return this._innerIterable.iterate().pairwise();
+    }
+}
+
+class SplitWhenIterable<T> extends IterableBase<Indexable<T>> {
+    constructor(private _innerIterable: Iterable<T>, private _predicate: (value: T) => boolean) {
+        super();
+    }
+
+    public iterate(): Iterator<Indexable<T>> {
+        return this._innerIterable.iterate().splitWhen(this._predicate);
+    }
+}
+
+/**
+ * An Iterator that iterates through an Iterable over and over again.
+ */
+class CycleIterator<T> extends IteratorBase<T> {
+    private _hasStarted: boolean = false;
+    private _cycles: number = 0;
+    private _currentIterator: Iterator<T>;
+
+    constructor(private _iterable: Iterable<T>, private _count: number) {
+        super();
+    }
+
+    public hasStarted(): boolean {
+        return this._hasStarted;
+    }
+
+    public hasCurrent(): boolean {
+        return this._currentIterator ? this._currentIterator.hasCurrent() : false;
+    }
+
+    public getCurrent(): T {
+        return this.hasCurrent() ? this._currentIterator.getCurrent() : undefined;
+    }
+
+    public next(): boolean {
+        if (!this._hasStarted) {
+            this._hasStarted = true;
+            this.startCycle();
+        }
+        else if (this.hasCurrent() && !this._currentIterator.next()) {
+            this.startCycle();
+        }
+        return this.hasCurrent();
+    }
+
+    private startCycle(): void {
+        this._currentIterator = undefined;
+        if (!isDefined(this._count) || this._cycles < this._count) {
+            ++this._cycles;
+            this._currentIterator = this._iterable.iterate();
+            this._currentIterator.next();
+        }
+    }
+}
+
+class CycleIterable<T> extends IterableBase<T> {
+    constructor(private _innerIterable: Iterable<T>, private _count: number) {
+        super();
+    }
+
+    public iterate(): Iterator<T> {
+        return new CycleIterator<T>(this._innerIterable, this._count);
+    }
+}
+
+/**
+ * The values of a source Iterator that have been read so far. The source Iterator is created when
+ * the first value is needed.
+ */
+class MemoizeBuffer<T> {
+    private _values = new ArrayList<T>();
+    private _source: Iterator<T>;
+    private _sourceHasEnded: boolean = false;
+
+    constructor(private _createSource: () => Iterator<T>) {
+    }
+
+    /**
+     * Read values from the source Iterator until the value at the provided index has been read or
+     * the source Iterator ends. Return whether or not the value at the provided index has been
+     * read.
+     */
+    public fill(index: number): boolean {
+        while (!this._sourceHasEnded && this._values.getCount() <= index) {
+            if (!this._source) {
+                this._source = this._createSource();
+                if (!this._source.hasStarted()) {
+                    this._source.next();
+                }
+            }
+            else {
+                this._source.next();
+            }
+
+            if (this._source.hasCurrent()) {
+                this._values.add(this._source.getCurrent());
+            }
+            else {
+                this._sourceHasEnded = true;
+                this._source = undefined;
+            }
+        }
+        return index < this._values.getCount();
+    }
+
+    public get(index: number): T {
+        return this._values.get(index);
+    }
+
+    public getCount(): number {
+        this.fill(Infinity);
+        return this._values.getCount();
+    }
+}
+
+/**
+ * An Iterator that iterates through the values of a MemoizeBuffer.
+ */
+class MemoizeIterator<T> extends IteratorBase<T> {
+    private _index: number = -1;
+
+    constructor(private _buffer: MemoizeBuffer<T>) {
+        super();
+    }
+
+    public hasStarted(): boolean {
+        return this._index >= 0;
+    }
+
+    public hasCurrent(): boolean {
+        return this.hasStarted() && this._buffer.fill(this._index);
+    }
+
+    public getCurrent(): T {
+        return this.hasCurrent() ? this._buffer.get(this._index) : undefined;
+    }
+
+    public next(): boolean {
+        if (!this.hasStarted() || this.hasCurrent()) {
+            ++this._index;
+        }
+        return this.hasCurrent();
+    }
+}
+
+class MemoizeIterable<T> extends IterableBase<T> {
+    constructor(private _buffer: MemoizeBuffer<T>) {
+        super();
+    }
+
+    public iterate(): Iterator<T> {
+        return new MemoizeIterator<T>(this._buffer);
+    }
+
+    public any(condition?: (value: T) => boolean): boolean {
+        return condition ? super.any(condition) : this._buffer.fill(0);
+    }
+
+    public getCount(): number {
+        return this._buffer.getCount();
+    }
+}
+
+/**
+ * An Iterable whose values are sorted. The sort order can be refined with additional keys that are
+ * used when the previous keys are equal.
+ */
+export interface OrderedIterable<T> extends Iterable<T> {
+    /**
+     * Get an OrderedIterable that sorts values with equal previous keys in ascending order by the
+     * keys that are selected from each value.
+     */
+    thenBy<K>(keySelector: (value: T) => K, comparer?: Comparison<K>): OrderedIterable<T>;
+
+    /**
+     * Get an OrderedIterable that sorts values with equal previous keys in descending order by the
+     * keys that are selected from each value.
+     */
+    thenByDescending<K>(keySelector: (value: T) => K, comparer?: Comparison<K>): OrderedIterable<T>;
+}
+
+class OrderByIterable<T> extends IterableBase<T> implements OrderedIterable<T> {
+    constructor(private _innerIterable: Iterable<T>, private _comparer: (lhs: T, rhs: T) => number) {
+        super();
+    }
+
+    public iterate(): Iterator<T> {
+        const values: T[] = this._innerIterable.toArray();
+        stableSort(values, 0, values.length, this._comparer);
+        return new ArrayList<T>(values).iterate();
+    }
+
+    public getCount(): number {
+        return this._innerIterable.getCount();
+    }
+
+    public thenBy<K>(keySelector: (value: T) => K, comparer?: Comparison<K>): OrderedIterable<T> {
+        return new OrderByIterable<T>(this._innerIterable, thenCompare(this._comparer, createKeyComparer(keySelector, comparer, false)));
+    }
+
+    public thenByDescending<K>(keySelector: (value: T) => K, comparer?: Comparison<K>): OrderedIterable<T> {
+        return new OrderByIterable<T>(this._innerIterable, thenCompare(this._comparer, createKeyComparer(keySelector, comparer, true)));
+    }
+}
+
+/**
+ * Get where the provided value is ordered relative to the values that can be compared with the
+ * less than operator. Those values have rank 0. The values that can't be compared come after them,
+ * in the order NaN, null and then undefined.
+ */
+function getDefaultCompareRank<T>(value: T): number {
+    let result: number;
+    if (value === undefined) {
+        result = 3;
+    }
+    else if (value === null) {
+        result = 2;
+    }
+    else if (value !== value) {
+        result = 1;
+    }
+    else {
+        result = 0;
+    }
+    return result;
+}
+
+/**
+ * Compare the provided values using standard less than and greater than comparisons. NaN, null and
+ * undefined can't be compared that way, so they are ordered after all other values (in that order)
+ * and are each only equal to themselves.
+ */
+function defaultCompare<T>(lhs: T, rhs: T): number {
+    const lhsRank: number = getDefaultCompareRank(lhs);
+    const rhsRank: number = getDefaultCompareRank(rhs);
+
+    let result: number;
+    if (lhsRank !== rhsRank) {
+        result = lhsRank < rhsRank ? -1 : 1;
+    }
+    else if (lhsRank !== 0) {
+        result = 0;
+    }
+    else {
+        result = lhs < rhs ? -1 : rhs < lhs ? 1 : 0;
+    }
+    return result;
+}
+
+/**
+ * Create a function that compares two values by the keys that are selected from them.
+ */
+function createKeyComparer<T, K>(keySelector: (value: T) => K, comparison: Comparison<K>, descending: boolean): (lhs: T, rhs: T) => number {
+    const comparer: (lhs: K, rhs: K) => number = toCompareFunction(comparison);
+
+    return descending
+        ? (lhs: T, rhs: T) => comparer(keySelector(rhs), keySelector(lhs))
+        : (lhs: T, rhs: T) => comparer(keySelector(lhs), keySelector(rhs));
+}
+
+/**
+ * Create a function that compares two values with the first comparer, and then with the second
+ * comparer if the first comparer considers the values equal.
+ */
+function thenCompare<T>(first: (lhs: T, rhs: T) => number, second: (lhs: T, rhs: T) => number): (lhs: T, rhs: T) => number {
+    return (lhs: T, rhs: T) => {
+        const result: number = first(lhs, rhs);
+        return result !== 0 ? result : second(lhs, rhs);
+    };
+}
+
+/**
+ * Sort the values in the provided array between startIndex (inclusive) and afterEndIndex
+ * (exclusive) in place using a stable merge sort.
+ */
+function stableSort<T>(values: T[], startIndex: number, afterEndIndex: number, comparer: (lhs: T, rhs: T) => number): void {
+    const count: number = afterEndIndex - startIndex;
+    if (count > 1) {
+        let source: T[] = values.slice(startIndex, afterEndIndex);
+        let destination: T[] = new Array<T>(count);
+
+        for (let width = 1; width < count; width *= 2) {
+            for (let left = 0; left < count; left += 2 * width) {
+                const middle: number = Math.min(left + width, count);
+                const right: number = Math.min(left + 2 * width, count);
+
+                let leftIndex: number = left;
+                let rightIndex: number = middle;
+                for (let destinationIndex = left; destinationIndex < right; ++destinationIndex) {
+                    if (leftIndex < middle && (rightIndex >= right || comparer(source[rightIndex], source[leftIndex]) >= 0)) {
+                        destination[destinationIndex] = source[leftIndex++];
+                    }
+                    else {
+                        destination[destinationIndex] = source[rightIndex++];
+                    }
+                }
+            }
+
+            const swap: T[] = source;
+            source = destination;
+            destination = swap;
+        }
+
+        for (let i = 0; i < count; ++i) {
+            values[startIndex + i] = source[i];
+        }
+    }
+}
+
+/**
+ * An adapter between an AsyncIterator and an async iterator that Javascript/Typescript expects.
+ */
+export class JavascriptAsyncIterator<T> {
+    private _returnedCurrent: boolean = false;
+
+    constructor(private _iterator: AsyncIterator<T>) {
+    }
+
+    /**
+     * Get the next value in the AsyncIterator.
+     */
+    public async next(): Promise<JavascriptIteratorResult<T>> {
+        if (!this._iterator.hasStarted() || this._returnedCurrent) {
+            await this._iterator.next();
+        }
+        this._returnedCurrent = true;
+
+        return {
+            done: !this._iterator.hasCurrent(),
+            value: this._iterator.getCurrent()
+        };
+    }
+}
+
+/**
+ * An interface that iterates over a collection of values that may not be available yet.
+ */
+export interface AsyncIterator<T> {
+    /**
+     * The iterator function that gets called when this object is passed into a for-await-of loop.
+     * This member is left out of the published typings so that they don't require the
+     * esnext.asynciterable lib.
+     * @internal
+     */
+    [Symbol.asyncIterator](): JavascriptAsyncIterator<T>;
+
+    /**
+     * Whether or not this AsyncIterator has started iterating.
+     */
+    hasStarted(): boolean;
+
+    /**
+     * Whether or not this AsyncIterator is currently pointing at a value or not.
+     */
+    hasCurrent(): boolean;
+
+    /**
+     * Move this AsyncIterator to the next value in the collection. The returned Promise resolves
+     * to whether or not this AsyncIterator has a current value when it is finished moving.
+     */
+    next(): Promise<boolean>;
+
+    /**
+     * Get the current value that this AsyncIterator is pointing at, or get undefined if the
+     * AsyncIterator doesn't have a current value.
+     */
+    getCurrent(): T;
+
+    /**
+     * Get the current value and move this AsyncIterator to the next value in the collection.
+     */
+    takeCurrent(): Promise<T>;
+
+    /**
+     * Get whether or not this AsyncIterator contains any values that match the provided condition.
+     * If the condition is not defined, then this function returns whether the collection contains
+     * any values. This function may advance the iterator.
+     */
+    any(condition?: (value: T) => boolean | Promise<boolean>): Promise<boolean>;
+
+    /**
+     * Get the number of values that this AsyncIterator can iterate. The AsyncIterator will not
+     * have a current value when this function completes.
+     */
+    getCount(): Promise<number>;
+
+    /**
+     * Get the first value in this AsyncIterator that matches the provided condition. If no
+     * condition is provided, then the first value in the AsyncIterator will be returned. If the
+     * AsyncIterator is empty, then undefined will be returned.
+     */
+    first(condition?: (value: T) => boolean | Promise<boolean>): Promise<T>;
+
+    /**
+     * Get the last value in this AsyncIterator. If the AsyncIterator is empty or has no values
+     * that match the provided condition, then undefined will be returned.
+     */
+    last(condition?: (value: T) => boolean | Promise<boolean>): Promise<T>;
+
+    /**
+     * Place each of the values of this AsyncIterator into an array.
+     */
+    toArray(): Promise<T[]>;
+
+    /**
+     * Place each of the values of this AsyncIterator into an array. This is the same as toArray().
+     */
+    toArrayAsync(): Promise<T[]>;
+
+    /**
+     * Place each of the values of this AsyncIterator into an ArrayList.
+     */
+    toArrayList(): Promise<ArrayList<T>>;
+
+    /**
+     * Get an AsyncIterator based on this AsyncIterator that only returns values that match the
+     * provided condition.
+     */
+    where(condition: (value: T) => boolean | Promise<boolean>): AsyncIterator<T>;
+
+    /**
+     * Get an AsyncIterator based on this AsyncIterator that skips the provided number of values.
+     */
+    skip(toSkip: number): AsyncIterator<T>;
+
+    /**
+     * Get an AsyncIterator based on this AsyncIterator that only returns the provided number of
+     * values.
+     */
+    take(toTake: number): AsyncIterator<T>;
+
+    /**
+     * Get an AsyncIterator based on this AsyncIterator that maps each of this AsyncIterator's
+     * values to a different value.
+     */
+    map<U>(mapFunction: (value: T) => U | Promise<U>): AsyncIterator<U>;
+
+    /**
+     * Return a new AsyncIterator that concatenates the contents of the provided iterator to the
+     * contents of this AsyncIterator.
+     */
+    concatenate(toConcatenate: AsyncIterator<T> | Iterator<T> | T[]): AsyncIterator<T>;
+
+    /**
+     * Get the minimum value in this AsyncIterator based on the provided comparison function.
+     * @param lessThanComparison A comparison function that returns whether or not lhs is less than
+     *      rhs. If no comparison function is provided, defaults to standard less than comparison.
+     */
+    minimum(lessThanComparison?: ((lhs: T, rhs: T) => boolean) | Comparer<T>): Promise<T>;
+
+    /**
+     * Get the maximum value in this AsyncIterator based on the provided comparison function.
+     * @param greaterThanComparison A comparison function that returns whether or not lhs is greater
+     *      than rhs. If no comparison function is provided, defaults to standard greater than
+     *      comparison.
+     */
+    maximum(greaterThanComparison?: ((lhs: T, rhs: T) => boolean) | Comparer<T>): Promise<T>;
+}
+
+/**
+ * The base class for AsyncIterator implementations. This class provides many of the common
+ * implementations for AsyncIterator methods.
+ */
+export abstract class AsyncIteratorBase<T> implements AsyncIterator<T> {
+    public abstract hasStarted(): boolean;
+    public abstract hasCurrent(): boolean;
+    public abstract next(): Promise<boolean>;
+    public abstract getCurrent(): T;
+
+    /** @internal */
+    [Symbol.asyncIterator](): JavascriptAsyncIterator<T> {
+        return new JavascriptAsyncIterator<T>(this);
+    }
+
+    public async takeCurrent(): Promise<T> {
+        const result: T = this.getCurrent();
+        await this.next();
+        return result;
+    }
+
+    public async getCount(): Promise<number> {
+        let result: number = 0;
+
+        if (this.hasCurrent()) {
+            ++result;
+        }
+
+        while (await this.next()) {
+            ++result;
+        }
+
+        return result;
+    }
+
+    public async any(condition?: (value: T) => boolean | Promise<boolean>): Promise<boolean> {
+        let result: boolean;
+
+        if (!condition) {
+            result = this.hasCurrent() || await this.next();
+        }
+        else {
+            result = false;
+
+            if (!this.hasStarted()) {
+                await this.next();
+            }
+
+            while (this.hasCurrent()) {
+                if (await condition(this.getCurrent())) {
+                    result = true;
+                    break;
+                }
+                await this.next();
+            }
+        }
+
+        return result;
+    }
+
+    public async first(condition?: (value: T) => boolean | Promise<boolean>): Promise<T> {
+        let result: T;
+        if (!condition) {
+            if (!this.hasStarted()) {
+                await this.next();
+            }
+            result = this.getCurrent();
+        }
+        else {
+            result = await this.where(condition).first();
+        }
+        return result;
+    }
+
+    public async last(condition?: (value: T) => boolean | Promise<boolean>): Promise<T> {
+        let result: T;
+        if (!condition) {
+            if (!this.hasStarted()) {
+                await this.next();
+            }
+
+            if (this.hasCurrent()) {
+                result = this.getCurrent();
+            }
+
+            while (await this.next()) {
+                result = this.getCurrent();
+            }
+        }
+        else {
+            result = await this.where(condition).last();
+        }
+        return result;
+    }
+
+    public async toArray(): Promise<T[]> {
+        const result: T[] = [];
+
+        if (!this.hasStarted()) {
+            await this.next();
+        }
+
+        while (this.hasCurrent()) {
+            result.push(this.getCurrent());
+            await this.next();
+        }
+
+        return result;
+    }
+
+    public toArrayAsync(): Promise<T[]> {
+        return this.toArray();
+    }
+
+    public async toArrayList(): Promise<ArrayList<T>> {
+        return new ArrayList(await this.toArray());
+    }
+
+    public where(condition: (value: T) => boolean | Promise<boolean>): AsyncIterator<T> {
+        return new AsyncWhereIterator(this, condition);
+    }
+
+    public skip(toSkip: number): AsyncIterator<T> {
+        return new AsyncSkipIterator(this, toSkip);
+    }
+
+    public take(toTake: number): AsyncIterator<T> {
+        return new AsyncTakeIterator(this, toTake);
+    }
+
+    public map<U>(mapFunction: (value: T) => U | Promise<U>): AsyncIterator<U> {
+        return new AsyncMapIterator<U, T>(this, mapFunction);
+    }
+
+    public concatenate(toConcatenate: AsyncIterator<T> | Iterator<T> | T[]): AsyncIterator<T> {
+        let result: AsyncIterator<T>;
+        if (!toConcatenate) {
+            result = this;
+        }
+        else {
+            if (toConcatenate instanceof Array) {
+                toConcatenate = new ArrayList<T>(toConcatenate).iterate();
+            }
+
+            if (!isAsyncIterator(toConcatenate)) {
+                toConcatenate = toConcatenate.toAsync();
+            }
+
+            result = new AsyncConcatenateIterator<T>(this, toConcatenate);
+        }
+        return result;
+    }
+
+    public async minimum(lessThanComparison?: ((lhs: T, rhs: T) => boolean) | Comparer<T>): Promise<T> {
+        let result: T;
+
+        const isLessThan: (lhs: T, rhs: T) => boolean = toLessThanFunction(lessThanComparison);
+
+        if (!this.hasStarted()) {
+            await this.next();
+        }
+
+        if (this.hasCurrent()) {
+            result = this.getCurrent();
+
+            while (await this.next()) {
+                if (isLessThan(this.getCurrent(), result)) {
+                    result = this.getCurrent();
+                }
+            }
+        }
+
+        return result;
+    }
+
+    public async maximum(greaterThanComparison?: ((lhs: T, rhs: T) => boolean) | Comparer<T>): Promise<T> {
+        let result: T;
+
+        const isGreaterThan: (lhs: T, rhs: T) => boolean = toGreaterThanFunction(greaterThanComparison);
+
+        if (!this.hasStarted()) {
+            await this.next();
+        }
+
+        if (this.hasCurrent()) {
+            result = this.getCurrent();
+
+            while (await this.next()) {
+                if (isGreaterThan(this.getCurrent(), result)) {
+                    result = this.getCurrent();
+                }
+            }
+        }
+
+        return result;
+    }
+}
+
+function isAsyncIterator<T>(value: AsyncIterator<T> | Iterator<T>): value is AsyncIterator<T> {
+    return typeof (value as AsyncIterator<T>)[Symbol.asyncIterator] === "function";
+}
+
+function isAsyncIterable<T>(value: AsyncIterable<T> | Iterable<T> | T[]): value is AsyncIterable<T> {
+    return typeof (value as AsyncIterable<T>)[Symbol.asyncIterator] === "function";
+}
+
+/**
+ * An AsyncIterator that wraps around a synchronous Iterator.
+ */
+class IteratorToAsyncIterator<T> extends AsyncIteratorBase<T> {
+    constructor(private _innerIterator: Iterator<T>) {
+        super();
+    }
+
+    public hasStarted(): boolean {
+        return this._innerIterator.hasStarted();
+    }
+
+    public hasCurrent(): boolean {
+        return this._innerIterator.hasCurrent();
+    }
+
+    public async next(): Promise<boolean> {
+        return this._innerIterator.next();
+    }
+
+    public getCurrent(): T {
+        return this._innerIterator.getCurrent();
+    }
+}
+
+/**
+ * A base-class for AsyncIterators that wrap an inner AsyncIterator. The wrapping AsyncIterator
+ * begins at the inner AsyncIterator's current value (or at its first value if it hasn't started
+ * yet) the first time that next() is called.
+ */
+abstract class AsyncIteratorDecorator<OuterT, InnerT> extends AsyncIteratorBase<OuterT> {
+    private _started: boolean = false;
+
+    constructor(protected _innerIterator: AsyncIterator<InnerT>) {
+        super();
+    }
+
+    public hasStarted(): boolean {
+        return this._started;
+    }
+
+    public hasCurrent(): boolean {
+        return this._started && this._innerIterator.hasCurrent();
+    }
+
+    public async next(): Promise<boolean> {
+        if (!this._started) {
+            this._started = true;
+            if (!this._innerIterator.hasStarted()) {
+                await this._innerIterator.next();
+            }
+            await this.onFirst();
+        }
+        else if (this.hasCurrent()) {
+            await this.onNext();
+        }
+        return this.hasCurrent();
+    }
+
+    /**
+     * Called when this AsyncIterator moves to its first value. The inner AsyncIterator will have
+     * already been started.
+     */
+    protected abstract onFirst(): Promise<void>;
+
+    /**
+     * Called when this AsyncIterator moves past one of its values.
+     */
+    protected abstract onNext(): Promise<void>;
+}
+
+/**
+ * An AsyncIterator that only returns values from the inner iterator that match its condition.
+ */
+class AsyncWhereIterator<T> extends AsyncIteratorDecorator<T, T> {
+    constructor(innerIterator: AsyncIterator<T>, private _condition: (value: T) => boolean | Promise<boolean>) {
+        super(innerIterator);
+    }
+
+    public getCurrent(): T {
+        return this.hasCurrent() ? this._innerIterator.getCurrent() : undefined;
+    }
+
+    private async skipNonMatches(): Promise<void> {
+        if (this._condition) {
+            while (this._innerIterator.hasCurrent() && !(await this._condition(this._innerIterator.getCurrent()))) {
+                await this._innerIterator.next();
+            }
+        }
+    }
+
+    protected async onFirst(): Promise<void> {
+        await this.skipNonMatches();
+    }
+
+    protected async onNext(): Promise<void> {
+        await this._innerIterator.next();
+        await this.skipNonMatches();
+    }
+}
+
+/**
+ * An AsyncIterator that skips the first number of values from the provided inner iterator.
+ */
+class AsyncSkipIterator<T> extends AsyncIteratorDecorator<T, T> {
+    constructor(innerIterator: AsyncIterator<T>, private _toSkip: number) {
+        super(innerIterator);
+    }
+
+    public getCurrent(): T {
+        return this.hasCurrent() ? this._innerIterator.getCurrent() : undefined;
+    }
+
+    protected async onFirst(): Promise<void> {
+        for (let skipped = 0; skipped < this._toSkip && this._innerIterator.hasCurrent(); ++skipped) {
+            await this._innerIterator.next();
+        }
+    }
+
+    protected async onNext(): Promise<void> {
+        await this._innerIterator.next();
+    }
+}
+
+/**
+ * An AsyncIterator that only takes at most the first number of values from the provided inner
+ * iterator.
+ */
+class AsyncTakeIterator<T> extends AsyncIteratorDecorator<T, T> {
+    private _taken: number = 0;
+
+    constructor(innerIterator: AsyncIterator<T>, private _toTake: number) {
+        super(innerIterator);
+    }
+
+    public hasCurrent(): boolean {
+        return super.hasCurrent() && isDefined(this._toTake) && this._taken <= this._toTake;
+    }
+
+    public getCurrent(): T {
+        return this.hasCurrent() ? this._innerIterator.getCurrent() : undefined;
+    }
+
+    protected async onFirst(): Promise<void> {
+        this._taken = 1;
+    }
+
+    protected async onNext(): Promise<void> {
+        ++this._taken;
+        if (this._taken <= this._toTake) {
+            await this._innerIterator.next();
+        }
+    }
+}
+
+/**
+ * An AsyncIterator that maps each of the values from the provided inner iterator.
+ */
+class AsyncMapIterator<OuterT, InnerT> extends AsyncIteratorDecorator<OuterT, InnerT> {
+    private _current: OuterT;
+
+    constructor(innerIterator: AsyncIterator<InnerT>, private _mapFunction: (value: InnerT) => OuterT | Promise<OuterT>) {
+        super(innerIterator);
+    }
+
+    public hasCurrent(): boolean {
+        return isDefined(this._mapFunction) && super.hasCurrent();
+    }
+
+    public getCurrent(): OuterT {
+        return this.hasCurrent() ? this._current : undefined;
+    }
+
+    private async mapCurrent(): Promise<void> {
+        this._current = this.hasCurrent() ? await this._mapFunction(this._innerIterator.getCurrent()) : undefined;
+    }
+
+    protected async onFirst(): Promise<void> {
+        await this.mapCurrent();
+    }
+
+    protected async onNext(): Promise<void> {
+        await this._innerIterator.next();
+        await this.mapCurrent();
+    }
+}
+
+/**
+ * An AsyncIterator that returns the values of its first AsyncIterator followed by the values of
+ * its second AsyncIterator.
+ */
+class AsyncConcatenateIterator<T> extends AsyncIteratorBase<T> {
+    private _started: boolean = false;
+
+    public constructor(private _first: AsyncIterator<T>, private _second: AsyncIterator<T>) {
+        super();
+    }
+
+    public hasStarted(): boolean {
+        return this._started;
+    }
+
+    public hasCurrent(): boolean {
+        return this._started && (this._first.hasCurrent() || this._second.hasCurrent());
+    }
+
+    public async next(): Promise<boolean> {
+        if (!this._started) {
+            this._started = true;
+            if (!this._first.hasStarted()) {
+                await this._first.next();
+            }
+        }
+        else if (this._first.hasCurrent()) {
+            await this._first.next();
+        }
+        else if (this._second.hasCurrent()) {
+            await this._second.next();
+        }
+
+        if (!this._first.hasCurrent() && !this._second.hasStarted()) {
+            await this._second.next();
+        }
+
+        return this.hasCurrent();
+    }
+
+    public getCurrent(): T {
+        let result: T;
+        if (this._started) {
+            result = this._first.hasCurrent() ? this._first.getCurrent() : this._second.getCurrent();
+        }
+        return result;
+    }
+}
+
+/**
+ * An interface of a collection that can have its contents iterated through asynchronously.
+ */
+export interface AsyncIterable<T> {
+    /**
+     * The iterator function that gets called when this object is passed into a for-await-of loop.
+     * This member is left out of the published typings so that they don't require the
+     * esnext.asynciterable lib.
+     * @internal
+     */
+    [Symbol.asyncIterator](): JavascriptAsyncIterator<T>;
+
+    /**
+     * Create an AsyncIterator for this collection.
+     */
+    iterate(): AsyncIterator<T>;
+
+    /**
+     * Get whether or not this collection contains any values that match the provided condition. If
+     * the condition is not defined, then this function returns whether the collection contains any
+     * values.
+     */
+    any(condition?: (value: T) => boolean | Promise<boolean>): Promise<boolean>;
+
+    /**
+     * Get the number of values that are contained in this collection.
+     */
+    getCount(): Promise<number>;
+
+    /**
+     * Get whether or not this AsyncIterable contains the provided value using the provided
+     * comparison function. If no comparison function is provided, then a simple '===' comparison
+     * will be used.
+     */
+    contains(value: T, comparison?: EqualityComparison<T>): Promise<boolean>;
+
+    /**
+     * Get the first value in this collection that matches the provided condition. If no condition
+     * is provided, then the first value in the collection will be returned. If the collection is
+     * empty, then undefined will be returned.
+     */
+    first(condition?: (value: T) => boolean | Promise<boolean>): Promise<T>;
+
+    /**
+     * Get the last value in this collection. If the collection is empty, then undefined will be
+     * returned.
+     */
+    last(condition?: (value: T) => boolean | Promise<boolean>): Promise<T>;
+
+    /**
+     * Get the values of this AsyncIterable that match the provided condition.
+     */
+    where(condition: (value: T) => boolean | Promise<boolean>): AsyncIterable<T>;
+
+    /**
+     * Get an AsyncIterable that skips the first toSkip number of values from this AsyncIterable.
+     */
+    skip(toSkip: number): AsyncIterable<T>;
+
+    /**
+     * Get the first toTake number of values from this AsyncIterable<T>.
+     */
+    take(toTake: number): AsyncIterable<T>;
+
+    /**
+     * Get an AsyncIterable based on this AsyncIterable that maps each of this AsyncIterable's
+     * values to a different value.
+     */
+    map<U>(mapFunction: (value: T) => U | Promise<U>): AsyncIterable<U>;
+
+    /**
+     * Get an AsyncIterable that concatenates the values of this AsyncIterable with the values of
+     * the provided AsyncIterable, Iterable or Array.
+     */
+    concatenate(toConcatenate: AsyncIterable<T> | Iterable<T> | T[]): AsyncIterable<T>;
+
+    /**
+     * Convert the values of this AsyncIterable into an array.
+     */
+    toArray(): Promise<T[]>;
+
+    /**
+     * Convert the values of this AsyncIterable into an array. This is the same as toArray().
+     */
+    toArrayAsync(): Promise<T[]>;
+
+    /**
+     * Convert the values of this AsyncIterable into an ArrayList.
+     */
+    toArrayList(): Promise<ArrayList<T>>;
+
+    /**
+     * Get the minimum value in this AsyncIterable based on the provided comparison function.
+     * @param lessThanComparison A comparison function that returns whether or not lhs is less than
+     *      rhs. If no comparison function is provided, defaults to standard less than comparison.
+     */
+    minimum(lessThanComparison?: ((lhs: T, rhs: T) => boolean) | Comparer<T>): Promise<T>;
+
+    /**
+     * Get the maximum value in this AsyncIterable based on the provided comparison function.
+     * @param greaterThanComparison A comparison function that returns whether or not lhs is greater
+     *      than rhs. If no comparison function is provided, defaults to standard greater than
+     *      comparison.
+     */
+    maximum(greaterThanComparison?: ((lhs: T, rhs: T) => boolean) | Comparer<T>): Promise<T>;
+}
+
+/**
+ * A base implementation of the AsyncIterable<T> interface that classes can extend to make
+ * implementing AsyncIterable<T> easier.
+ */
+export abstract class AsyncIterableBase<T> implements AsyncIterable<T> {
+    /** @internal */
+    [Symbol.asyncIterator](): JavascriptAsyncIterator<T> {
+        return new JavascriptAsyncIterator<T>(this.iterate());
+    }
+
+    public abstract iterate(): AsyncIterator<T>;
+
+    public any(condition?: (value: T) => boolean | Promise<boolean>): Promise<boolean> {
+        return this.iterate().any(condition);
+    }
+
+    public getCount(): Promise<number> {
+        return this.iterate().getCount();
+    }
+
+    public contains(value: T, comparison?: EqualityComparison<T>): Promise<boolean> {
+        const equals: (lhs: T, rhs: T) => boolean = toEqualityFunction(comparison);
+        return this.any((iterableValue: T) => equals(iterableValue, value));
+    }
+
+    public first(condition?: (value: T) => boolean | Promise<boolean>): Promise<T> {
+        return this.iterate().first(condition);
+    }
+
+    public last(condition?: (value: T) => boolean | Promise<boolean>): Promise<T> {
+        return this.iterate().last(condition);
+    }
+
+    public where(condition: (value: T) => boolean | Promise<boolean>): AsyncIterable<T> {
+        return condition ? new AsyncWhereIterable<T>(this, condition) : this;
+    }
+
+    public skip(toSkip: number): AsyncIterable<T> {
+        return toSkip && 0 < toSkip ? new AsyncSkipIterable<T>(this, toSkip) : this;
+    }
+
+    public take(toTake: number): AsyncIterable<T> {
+        return toTake && 0 < toTake ? new AsyncTakeIterable<T>(this, toTake) : new ArrayList<T>().toAsync();
+    }
+
+    public map<U>(mapFunction: (value: T) => U | Promise<U>): AsyncIterable<U> {
+        return mapFunction ? new AsyncMapIterable<U, T>(this, mapFunction) : new ArrayList<U>().toAsync();
+    }
+
+    public concatenate(toConcatenate: AsyncIterable<T> | Iterable<T> | T[]): AsyncIterable<T> {
+        return toConcatenate ? new AsyncConcatenateIterable<T>(this, toConcatenate) : this;
+    }
+
+    public toArray(): Promise<T[]> {
+        return this.iterate().toArray();
+    }
+
+    public toArrayAsync(): Promise<T[]> {
+        return this.iterate().toArray();
+    }
+
+    public toArrayList(): Promise<ArrayList<T>> {
+        return this.iterate().toArrayList();
+    }
+
+    public minimum(lessThanComparison?: ((lhs: T, rhs: T) => boolean) | Comparer<T>): Promise<T> {
+        return this.iterate().minimum(lessThanComparison);
+    }
+
+    public maximum(greaterThanComparison?: ((lhs: T, rhs: T) => boolean) | Comparer<T>): Promise<T> {
+        return this.iterate().maximum(greaterThanComparison);
+    }
+}
+
+/**
+ * An AsyncIterable that wraps around a synchronous Iterable.
+ */
+class IterableToAsyncIterable<T> extends AsyncIterableBase<T> {
+    constructor(private _innerIterable: Iterable<T>) {
+        super();
+    }
+
+    public iterate(): AsyncIterator<T> {
+        return this._innerIterable.iterate().toAsync();
+    }
+
+    public async getCount(): Promise<number> {
+        return this._innerIterable.getCount();
+    }
+}
+
+class AsyncWhereIterable<T> extends AsyncIterableBase<T> {
+    constructor(private _innerIterable: AsyncIterable<T>, private _condition: (value: T) => boolean | Promise<boolean>) {
+        super();
+    }
+
+    public iterate(): AsyncIterator<T> {
+        return this._innerIterable.iterate().where(this._condition);
+    }
+}
+
+class AsyncSkipIterable<T> extends AsyncIterableBase<T> {
+    constructor(private _innerIterable: AsyncIterable<T>, private _toSkip: number) {
+        super();
+    }
+
+    public iterate(): AsyncIterator<T> {
+        return this._innerIterable.iterate().skip(this._toSkip);
+    }
+}
+
+class AsyncTakeIterable<T> extends AsyncIterableBase<T> {
+    constructor(private _innerIterable: AsyncIterable<T>, private _toTake: number) {
+        super();
+    }
+
+    public iterate(): AsyncIterator<T> {
+        return this._innerIterable.iterate().take(this._toTake);
+    }
+}
+
+class AsyncMapIterable<OuterT, InnerT> extends AsyncIterableBase<OuterT> {
+    constructor(private _innerIterable: AsyncIterable<InnerT>, private _mapFunction: (value: InnerT) => OuterT | Promise<OuterT>) {
+        super();
+    }
+
+    public iterate(): AsyncIterator<OuterT> {
+        return this._innerIterable.iterate().map(this._mapFunction);
+    }
+
+    public getCount(): Promise<number> {
+        return this._innerIterable.getCount();
+    }
+}
+
+class AsyncConcatenateIterable<T> extends AsyncIterableBase<T> {
+    private _second: AsyncIterable<T>;
+
+    constructor(private _first: AsyncIterable<T>, second: AsyncIterable<T> | Iterable<T> | T[]) {
+        super();
+
+        if (second instanceof Array) {
+            this._second = new ArrayList<T>(second).toAsync();
+        }
+        else if (isAsyncIterable(second)) {
+            this._second = second;
+        }
+        else {
+            this._second = second.toAsync();
+        }
+    }
+
+    public iterate(): AsyncIterator<T> {
+        return this._first.iterate().concatenate(this._second.iterate());
+    }
+}
+
+export interface Indexable<T> extends Iterable<T> {
+    /**
+     * Create an iterator for this collection that iterates the collection in reverse order.
+     */
+    iterateReverse(): Iterator<T>;
+
+    /**
+     * Get the value in this collection at the provided index. If the provided index is not defined
+     * or is outside of this Indexable's bounds, then undefined will be returned.
+     */
+    get(index: number): T;
+
+    /**
+     * Get the value in this collection at the provided index from the end of the collection. If the
+     * provided index is not defined or is outside of this Indexable's bounds, then undefined will
+     * be returned.
+     */
+    getFromEnd(index: number): T;
+
+    /**
+     * Get an Indexable that skips the first toSkip number of values from this Indexable.
+     */
+    skip(toSkip: number): Indexable<T>;
+
+    /**
+     * Get an Indexable based on this Indexable that only returns the provided number of values.
+     */
+    take(toTake: number): Indexable<T>;
+
+    /**
+     * Get an Indexable based on this Indexable that maps each of this Indexable's values to a
+     * different value.
+     */
+    map<U>(mapFunction: (value: T) => U): Indexable<U>;
+
+    /**
+     * Search this Indexable, which must be sorted by the provided comparer, for the provided value.
+     * If the value is found, then its index will be returned. If it isn't found, then the bitwise
+     * complement (~) of the index where it would be inserted will be returned, which is always
+     * negative.
+     * @param comparer An optional function that returns a negative number if lhs is less than rhs,
+     *      zero if they are equal, and a positive number if lhs is greater than rhs. If no comparer
+     *      is provided, then standard less than and greater than comparisons will be used.
+     */
+    binarySearch(value: T, comparer?: Comparison<T>): number;
+
+    /**
+     * Search this Indexable, which must be sorted by the keys that the provided key selector
+     * selects, for a value with the provided key. If a value is found, then its index will be
+     * returned. If it isn't found, then the bitwise complement (~) of the index where a value with
+     * the key would be inserted will be returned, which is always negative.
+     */
+    binarySearchBy<K>(key: K, keySelector: (value: T) => K, comparer?: Comparison<K>): number;
+
+    /**
+     * Get the index of the first value in this sorted Indexable that is not less than the provided
+     * value. If every value is less than the provided value, then the count of this Indexable will
+     * be returned.
+     */
+    lowerBound(value: T, comparer?: Comparison<T>): number;
+
+    /**
+     * Get the index of the first value in this sorted Indexable that is greater than the provided
+     * value. If no value is greater than the provided value, then the count of this Indexable will
+     * be returned.
+     */
+    upperBound(value: T, comparer?: Comparison<T>): number;
+}
+
+/**
+ * Get the index of the first value in the provided sorted Indexable whose key is not less than
+ * (or, if includeEqual is false, is greater than) the provided key.
+ */
+function findBound<T, K>(indexable: Indexable<T>, key: K, keySelector: (value: T) => K, comparer: Comparison<K>, includeEqual: boolean): number {
+    const compare: (lhs: K, rhs: K) => number = toCompareFunction(comparer);
+
+    let low: number = 0;
+    let high: number = indexable.getCount();
+    while (low < high) {
+        const middle: number = low + ((high - low) >>> 1);
+        const comparison: number = compare(keySelector(indexable.get(middle)), key);
+        if (comparison < 0 || (comparison === 0 && !includeEqual)) {
+            low = middle + 1;
+        }
+        else {
+            high = middle;
+        }
+    }
+    return low;
+}
+
+function binarySearchBy<T, K>(indexable: Indexable<T>, key: K, keySelector: (value: T) => K, comparer: Comparison<K>): number {
+    const index: number = findBound(indexable, key, keySelector, comparer, true);
+    return index < indexable.getCount() && toCompareFunction(comparer)(keySelector(indexable.get(index)), key) === 0 ? index : ~index;
+}
+
+function identity<T>(value: T): T {
+    return value;
+}
+
+export abstract class IndexableBase<T> extends IterableBase<T> implements Indexable<T> {
+    public abstract iterateReverse(): Iterator<T>;
+
+    public abstract get(index: number): T;
+
+    public getFromEnd(index: number): T {
+        return this.get(this.getCount() - 1 - index);
+    }
+
+    public indexOf(value: T, comparer?: EqualityComparison<T>): number {
+        const equals: (lhs: T, rhs: T) => boolean = toEqualityFunction(comparer);
+
+        let result: number;
+
+        let searchIndex: number = 0;
+        for (const searchValue of this) {
+            if (equals(searchValue, value)) {
+                result = searchIndex;
+                break;
+            }
+            else {
+                ++searchIndex;
+            }
+        }
+
+        return result;
+    }
+
+    public skip(toSkip: number): Indexable<T> {
+        return toSkip && 0 < toSkip ? new SkipIndexable<T>(this, toSkip) : this;
+    }
+
+    public take(toTake: number): Indexable<T> {
+        let result: Indexable<T>;
+
+        return toTake && 0 < toTake ? new TakeIndexable<T>(this, toTake) : new ArrayList<T>();
+    }
+
+    /**
+     * Get an Indexable based on this Indexable that maps each of this Indexable's values to a
+     * different value.
+     */
+    public map<NewT>(mapFunction: (value: T) => NewT): Indexable<NewT> {
+        return mapFunction ? new MapIndexable<NewT,T>(this, mapFunction) : new ArrayList<NewT>();
+    }
+
+    public binarySearch(value: T, comparer?: Comparison<T>): number {
+        return binarySearchBy(this, value, identity, comparer);
+    }
+
+    public binarySearchBy<K>(key: K, keySelector: (value: T) => K, comparer?: Comparison<K>): number {
+        return binarySearchBy(this, key, keySelector, comparer);
+    }
+
+    public lowerBound(value: T, comparer?: Comparison<T>): number {
+        return findBound(this, value, identity, comparer, true);
+    }
+
+    public upperBound(value: T, comparer?: Comparison<T>): number {
+        return findBound(this, value, identity, comparer, false);
+    }
+}
+
+class SkipIndexable<T> extends IndexableBase<T> {
+    constructor(private _innerIndexable: Indexable<T>, private _toSkip: number) {
+        super();
+    }
+
+    public getCount(): number {
+        return getCountWithSkip(this._innerIndexable, this._toSkip);
+    }
+
+    public iterate(): Iterator<T> {
+        return this._innerIndexable.iterate().skip(this._toSkip);
+    }
+
+    public iterateReverse(): Iterator<T> {
+        return this._innerIndexable.iterateReverse().take(this.getCount());
+    }
+
+    public get(index: number): T {
+        return 0 <= index ? this._innerIndexable.get(this._toSkip + index) : undefined;
+    }
+}
+
+class TakeIndexable<T> extends IndexableBase<T> {
+    constructor(private _innerIndexable: Indexable<T>, private _toTake: number) {
+        super();
+    }
+
+    public getCount(): number {
+        return getCountWithTake(this._innerIndexable, this._toTake);
+    }
+
+    public iterate(): Iterator<T> {
+        return this._innerIndexable.iterate().take(this._toTake);
+    }
+
+    public iterateReverse(): Iterator<T> {
+        return this._innerIndexable.iterateReverse().skip(this._innerIndexable.getCount() - this.getCount());
+    }
+
+    public get(index: number): T {
+        return 0 <= index && index < this.getCount() ? this._innerIndexable.get(index) : undefined;
+    }
+}
+
+class MapIndexable<OuterT, InnerT> implements Indexable<OuterT> {
+    constructor(private _innerIndexable: Indexable<InnerT>, private _mapFunction: (value: InnerT) => OuterT) {
+    }
+
+    [Symbol.iterator](): JavascriptIterator<OuterT> {
+        return new JavascriptIterator<OuterT>(this.iterate());
+    }
+
+    public iterate(): Iterator<OuterT> {
+        return this._innerIndexable.iterate().map(this._mapFunction);
+    }
+
+    public iterateReverse(): Iterator<OuterT> {
+        return this._innerIndexable.iterateReverse().map(this._mapFunction);
+    }
+
+    public get(index: number): OuterT {
+        return this._mapFunction(this._innerIndexable.get(index));
+    }
+
+    public getFromEnd(index: number): OuterT {
+        return this._mapFunction(this._innerIndexable.getFromEnd(index));
+    }
+
+    public any(condition?: (value: OuterT) => boolean): boolean {
+        return this.iterate().any(condition);
+    }
+
+    public getCount(): number {
+        return this._innerIndexable.getCount();
+    }
+
+    public contains(value: OuterT, comparison?: EqualityComparison<OuterT>): boolean {
+        const equals: (lhs: OuterT, rhs: OuterT) => boolean = toEqualityFunction(comparison);
+        return this.any((iterableValue: OuterT) => equals(iterableValue, value));
+    }
+
+    public first(condition?: (value: OuterT) => boolean): OuterT {
+        return this.iterate().first(condition);
+    }
+
+    public last(condition?: (value: OuterT) => boolean): OuterT {
+        return this.iterate().last(condition);
+    }
+
+    public where(condition: (value: OuterT) => boolean): Iterable<OuterT> {
+        return condition ? new WhereIterable(this, condition) : this;
+    }
+
+    public skip(toSkip: number): Indexable<OuterT> {
+        return toSkip && 0 < toSkip ? new SkipIndexable(this, toSkip) : this;
+    }
+
+    public skipLast(toSkip: number): Indexable<OuterT> {
+        return toSkip && 0 < toSkip ? this.take(this.getCount() - toSkip) : this;
+    }
+
+    public take(toTake: number): Indexable<OuterT> {
+        return toTake && 0 < toTake ? new TakeIndexable(this, toTake) : new ArrayList<OuterT>();
+    }
+
+    public takeLast(toTake: number): Indexable<OuterT> {
+        let result: Indexable<OuterT>;
+        if (!toTake || toTake < 0) {
+            result = new ArrayList<OuterT>();
+        }
+        else {
+            const count: number = this.getCount();
+            if (count <= toTake) {
+                result = this;
+            }
+            else {
+                result = this.skip(count - toTake);
+            }
+        }
+        return result;
+    }
+
+    public map<NewT>(mapFunction: (value: OuterT) => NewT): Indexable<NewT> {
+        return mapFunction ? new MapIndexable<NewT, OuterT>(this, mapFunction) : new ArrayList<NewT>();
+    }
+
+    public binarySearch(value: OuterT, comparer?: Comparison<OuterT>): number {
+        return binarySearchBy(this, value, identity, comparer);
+    }
+
+    public binarySearchBy<K>(key: K, keySelector: (value: OuterT) => K, comparer?: Comparison<K>): number {
+        return binarySearchBy(this, key, keySelector, comparer);
+    }
+
+    public lowerBound(value: OuterT, comparer?: Comparison<OuterT>): number {
+        return findBound(this, value, identity, comparer, true);
+    }
+
+    public upperBound(value: OuterT, comparer?: Comparison<OuterT>): number {
+        return findBound(this, value, identity, comparer, false);
+    }
+
+    public concatenate(toConcatenate: Iterable<OuterT> | OuterT[]): Iterable<OuterT> {
+        return toConcatenate ? new ConcatenateIterable<OuterT>(this, toConcatenate) : this;
+    }
+
+    public toArray(): OuterT[] {
+        return this.iterate().toArray();
+    }
+
+    public endsWith(values: Iterable<OuterT>): boolean {
+        let result: boolean;
+
+        if (!values) {
+            result = false;
+        }
+        else {
+            const valuesCount: number = values.getCount();
+            if (valuesCount === 0) {
+                result = false;
+            }
+            else if (this.getCount() < valuesCount) {
+                result = false;
+            }
+            else {
+                result = true;
+
+                const thisLastValuesIterator: Iterator<OuterT> = this.takeLast(valuesCount).iterate();
+                const valuesIterator: Iterator<OuterT> = values.iterate();
+                while (thisLastValuesIterator.next() === valuesIterator.next() && thisLastValuesIterator.hasCurrent()) {
+                    if (thisLastValuesIterator.getCurrent() !== valuesIterator.getCurrent()) {
+                        result = false;
+                        break;
+                    }
+                }
+            }
+        }
+
+        return result;
+    }
+
+    public minimum(lessThanComparison?: ((lhs: OuterT, rhs: OuterT) => boolean) | Comparer<OuterT>): OuterT {
+        return this.iterate().minimum(lessThanComparison);
+    }
+
+    public maximum(greaterThanComparison?: ((lhs: OuterT, rhs: OuterT) => boolean) | Comparer<OuterT>): OuterT {
+        return this.iterate().maximum(greaterThanComparison);
+    }
+
+    public toAsync(): AsyncIterable<OuterT> {
+        return new IterableToAsyncIterable<OuterT>(this);
+    }
+
+    public orderBy<K>(keySelector: (value: OuterT) => K, comparer?: Comparison<K>): OrderedIterable<OuterT> {
+        return new OrderByIterable<OuterT>(this, createKeyComparer(keySelector, comparer, false));
+    }
+
+    public orderByDescending<K>(keySelector: (value: OuterT) => K, comparer?: Comparison<K>): OrderedIterable<OuterT> {
+        return new OrderByIterable<OuterT>(this, createKeyComparer(keySelector, comparer, true));
+    }
+
+    public groupBy<K>(keySelector: (value: OuterT) => K): Iterable<Grouping<K, OuterT>>;
+    public groupBy<K, E>(keySelector: (value: OuterT) => K, elementSelector: (value: OuterT) => E): Iterable<Grouping<K, E>>;
+    public groupBy<K, E>(keySelector: (value: OuterT) => K, elementSelector?: (value: OuterT) => E): Iterable<Grouping<K, E | OuterT>> {
+        return new GroupByIterable<K, E | OuterT, OuterT>(this, keySelector, elementSelector || identity);
+    }
+
+    public toLookup<K>(keySelector: (value: OuterT) => K, elementSelector?: undefined, keyComparison?: EqualityComparison<K>): Lookup<K, OuterT>;
+    public toLookup<K, E>(keySelector: (value: OuterT) => K, elementSelector: (value: OuterT) => E, keyComparison?: EqualityComparison<K>): Lookup<K, E>;
+    public toLookup<K, E>(keySelector: (value: OuterT) => K, elementSelector?: (value: OuterT) => E, keyComparison?: EqualityComparison<K>): Lookup<K, E | OuterT> {
+        return new GroupingLookup<OuterT, K, E | OuterT>(this, keySelector, elementSelector || identity, keyComparison);
+    }
+
+    public distinct(comparison?: EqualityComparison<OuterT>): Iterable<OuterT> {
+        return new DistinctIterable<OuterT, OuterT>(this, (value: OuterT) => value, comparison);
+    }
+
+    public distinctBy<K>(keySelector: (value: OuterT) => K, comparison?: EqualityComparison<K>): Iterable<OuterT> {
+        return new DistinctIterable<OuterT, K>(this, keySelector, comparison);
+    }
+
+    public union(values: Iterable<OuterT> | OuterT[], comparison?: EqualityComparison<OuterT>): Iterable<OuterT> {
+        return this.concatenate(values).distinct(comparison);
+    }
+
+    public intersect(values: Iterable<OuterT> | OuterT[], comparison?: EqualityComparison<OuterT>): Iterable<OuterT> {
+        return new IntersectIterable<OuterT>(this, values, comparison);
+    }
+
+    public except(values: Iterable<OuterT> | OuterT[], comparison?: EqualityComparison<OuterT>): Iterable<OuterT> {
+        return new ExceptIterable<OuterT>(this, values, comparison);
+    }
+
+    public reduce<U>(seed: U, accumulator: (accumulated: U, value: OuterT) => U): U {
+        return this.iterate().reduce(seed, accumulator);
+    }
+
+    public scan<U>(seed: U, accumulator: (accumulated: U, value: OuterT) => U): Iterable<U> {
+        return new ScanIterable<U, OuterT>(this, seed, accumulator);
+    }
+
+    public sum(this: Iterable<number>): number;
+    public sum(selector: (value: OuterT) => number): number;
+    public sum(selector?: (value: OuterT) => number): number {
+        return getSumAndCount(this.iterate(), selector).sum;
+    }
+
+    public average(this: Iterable<number>): number;
+    public average(selector: (value: OuterT) => number): number;
+    public average(selector?: (value: OuterT) => number): number {
+        return getAverage(this.iterate(), selector);
+    }
+
+    public minBy<K>(keySelector: (value: OuterT) => K): OuterT {
+        return this.iterate().minBy(keySelector);
+    }
+
+    public maxBy<K>(keySelector: (value: OuterT) => K): OuterT {
+        return this.iterate().maxBy(keySelector);
+    }
+
+    public countBy<K>(keySelector: (value: OuterT) => K): Map<K, number> {
+        return this.iterate().countBy(keySelector);
+    }
+
+    public flatMap<U>(selector: (value: OuterT) => Iterable<U> | Iterator<U> | U[]): Iterable<U> {
+        return new FlatMapIterable<U, OuterT>(this, selector);
+    }
+
+    public flatten<U>(this: Iterable<Iterable<U> | Iterator<U> | U[]>): Iterable<U> {
+        return new FlatMapIterable<U, Iterable<U> | Iterator<U> | U[]>(this, (value: Iterable<U> | Iterator<U> | U[]) => value);
+    }
+
+    public zip<U>(other: Iterable<U> | U[]): Iterable<[OuterT, U]>;
+    public zip<U, R>(other: Iterable<U> | U[], resultSelector: (first: OuterT, second: U) => R): Iterable<R>;
+    public zip<U, R>(other: Iterable<U> | U[], resultSelector?: (first: OuterT, second: U) => R): Iterable<R | [OuterT, U]> {
+        return new ZipIterable<OuterT, U, R | [OuterT, U]>(this, other, resultSelector || toPair, false);
+    }
+
+    public zipLongest<U>(other: Iterable<U> | U[], fillValue?: OuterT, otherFillValue?: U): Iterable<[OuterT, U]>;
+    public zipLongest<U, R>(other: Iterable<U> | U[], fillValue: OuterT, otherFillValue: U, resultSelector: (first: OuterT, second: U) => R): Iterable<R>;
+    public zipLongest<U, R>(other: Iterable<U> | U[], fillValue?: OuterT, otherFillValue?: U, resultSelector?: (first: OuterT, second: U) => R): Iterable<R | [OuterT, U]> {
+        return new ZipIterable<OuterT, U, R | [OuterT, U]>(this, other, resultSelector || toPair, true, fillValue, otherFillValue);
+    }
+
+    public join<I, K, R>(inner: Iterable<I> | I[], outerKeySelector: (value: OuterT) => K, innerKeySelector: (value: I) => K, resultSelector: (outer: OuterT, inner: I) => R): Iterable<R> {
+        return new GroupJoinIterable<OuterT, I, K, Iterable<R>>(this, inner, outerKeySelector, innerKeySelector, (outer: OuterT, inners: Iterable<I>) => inners.map((innerValue: I) => resultSelector(outer, innerValue))).flatten();
+    }
+
+    public groupJoin<I, K, R>(inner: Iterable<I> | I[], outerKeySelector: (value: OuterT) => K, innerKeySelector: (value: I) => K, resultSelector: (outer: OuterT, inner: Iterable<I>) => R): Iterable<R> {
+        return new GroupJoinIterable<OuterT, I, K, R>(this, inner, outerKeySelector, innerKeySelector, resultSelector);
+    }
+
+    public chunk(size: number): Iterable<Indexable<OuterT>> {
+        return new ChunkIterable<OuterT>(this, size);
+    }
+
+    public window(size: number, step: number = 1): Iterable<Indexable<OuterT>> {
+        return new WindowIterable<OuterT>(this, size, step);
+    }
+
+    public pairwise(): Iterable<[OuterT, OuterT]> {
+        return new PairwiseIterable<OuterT>(this);
+    }
+
+    public partition(predicate: (value: OuterT) => boolean): [Iterable<OuterT>, Iterable<OuterT>] {
+        return [this.where(predicate), this.where((value: OuterT) => !predicate(value))];
+    }
+
+    public splitWhen(predicate: (value: OuterT) => boolean): Iterable<Indexable<OuterT>> {
+        return new SplitWhenIterable<OuterT>(this, predicate);
+    }
+
+    public cycle(count?: number): Iterable<OuterT> {
+        return new CycleIterable<OuterT>(this, count);
+    }
+
+    public memoize(): Iterable<OuterT> {
+        return new MemoizeIterable<OuterT>(new MemoizeBuffer<OuterT>(() => this.iterate()));
+    }
+}
+
+class IndexableIterator<T> extends IteratorBase<T> {
+    private _currentIndex: number;
+    private _count: number;
+
+    constructor(private _indexable: Indexable<T>) {
+        super();
+    }
+
+    public hasStarted(): boolean {
+        return isDefined(this._currentIndex);
+    }
+
+    public hasCurrent(): boolean {
+        return this.hasStarted() && this._currentIndex < this._count;
+    }
+
+    public getCurrent(): T {
+        return this.hasCurrent() ? this._indexable.get(this._currentIndex) : undefined;
+    }
+
+    public next(): boolean {
+        if (!this.hasStarted()) {
+            this._currentIndex = 0;
+            this._count = this._indexable.getCount();
+        }
+        else if (this.hasCurrent()) {
+            this._currentIndex++;
+        }
+        return this.hasCurrent();
+    }
+}
+
+class IndexableReverseIterator<T> extends IteratorBase<T> {
+    private _currentIndex: number;
+
+    constructor(private _indexable: Indexable<T>) {
+        super();
+    }
+
+    public hasStarted(): boolean {
+        return isDefined(this._currentIndex);
+    }
+
+    public hasCurrent(): boolean {
+        return this.hasStarted() && 0 <= this._currentIndex;
+    }
+
+    public getCurrent(): T {
+        return this.hasCurrent() ? this._indexable.get(this._currentIndex) : undefined;
+    }
+
+    public next(): boolean {
+        if (!this.hasStarted()) {
+            this._currentIndex = this._indexable.getCount() - 1;
+        }
+        else if (this.hasCurrent()) {
+            this._currentIndex--;
+        }
+        return this.hasCurrent();
+    }
+}
+
+/**
+ * The built-in Error constructor, which the Error() function in this module hides.
+ */
+export const BuiltInError: ErrorConstructor = global.Error;
+
+/**
+ * The error that is thrown when a collection is structurally changed while one of its iterators is
+ * in use.
+ */
+export class ConcurrentModificationError extends BuiltInError {
+    constructor(message: string = "The collection was modified while it was being iterated.") {
+        super(message);
+
+        this.name = "ConcurrentModificationError";
+    }
+}
+
+/**
+ * An Iterator that throws a ConcurrentModificationError if its collection is structurally changed
+ * after the iteration has started.
+ */
+class FailFastIterator<T> extends IteratorBase<T> {
+    private _expectedModificationCount: number;
+
+    constructor(private _innerIterator: Iterator<T>, private _getModificationCount: () => number) {
+        super();
+    }
+
+    private checkForModification(): void {
+        if (this._innerIterator.hasStarted() && this._getModificationCount() !== this._expectedModificationCount) {
+            throw new ConcurrentModificationError();
+        }
+    }
+
+    public hasStarted(): boolean {
+        return this._innerIterator.hasStarted();
+    }
+
+    public hasCurrent(): boolean {
+        return this._innerIterator.hasCurrent();
+    }
+
+    public getCurrent(): T {
+        this.checkForModification();
+        return this._innerIterator.getCurrent();
+    }
+
+    public next(): boolean {
+        if (!this._innerIterator.hasStarted()) {
+            this._expectedModificationCount = this._getModificationCount();
+        }
+        else {
+            this.checkForModification();
+        }
+        return this._innerIterator.next();
+    }
+}
+
+/**
+ * A List that can be read but not changed.
+ */
+export interface ReadOnlyList<T> extends Indexable<T> {
+    /**
+     * Get the index of the first instance of the provided value in this ReadOnlyList. If the value
+     * is not found, then undefined will be returned.
+     */
+    indexOf(value: T, comparer?: EqualityComparison<T>): number;
+}
+
+/**
+ * A live ReadOnlyList view of another List. Changes to the inner List are visible through the view.
+ */
+class ReadOnlyListView<T> extends IndexableBase<T> implements ReadOnlyList<T> {
+    constructor(private _innerList: List<T>) {
+        super();
+    }
+
+    public iterate(): Iterator<T> {
+        return this._innerList.iterate();
+    }
+
+    public iterateReverse(): Iterator<T> {
+        return this._innerList.iterateReverse();
+    }
+
+    public get(index: number): T {
+        return this._innerList.get(index);
+    }
+
+    public any(condition?: (value: T) => boolean): boolean {
+        return this._innerList.any(condition);
+    }
+
+    public getCount(): number {
+        return this._innerList.getCount();
+    }
+}
+
+export interface List<T> extends Indexable<T> {
+    add(value: T): void;
+
+    addAll(values: T[] | Iterable<T>): void;
+
+    /**
+     * Remove all of the values from this List<T>.
+     */
+    clear(): void;
+
+    /**
+     * Insert the provided value at the provided index. If the index is not defined or is outside
+     * of the range [0, count], then this function will do nothing.
+     */
+    insert(index: number, value: T): void;
+
+    /**
+     * Insert the provided values at the provided index. If the index is not defined or is outside
+     * of the range [0, count], then this function will do nothing.
+     */
+    insertAll(index: number, values: T[] | Iterable<T>): void;
+
+    /**
+     * Set the value at the provided index. If the index is not defined or is outside of this
+     * List<T>'s bounds, then this function will do nothing.
+     */
+    set(index: number, value: T): void;
+
+    /**
+     * Remove and return the value at the provided index. If the index is not defined or is outside
+     * of this List<T>'s bounds, then undefined will be returned.
+     */
+    removeAt(index: number): T;
+
+    /**
+     * Remove up to count values starting at the provided start index.
+     */
+    removeRange(start: number, count: number): void;
+
+    /**
+     * Replace up to count values starting at the provided start index with the provided values.
+     */
+    replaceRange(start: number, count: number, values: T[] | Iterable<T>): void;
+
+    /**
+     * Get a live List<T> view of up to count values starting at the provided start index. Changes
+     * made through the view are made to this List<T>. If values are added to or removed from this
+     * List<T> other than through the view, then using the view will throw a
+     * ConcurrentModificationError.
+     */
+    subList(start: number, count: number): List<T>;
+
+    /**
+     * Get a live read-only view of this List<T>. Changes to this List<T> will be visible through
+     * the view, but the view can't be used to change this List<T>.
+     */
+    asReadOnly(): ReadOnlyList<T>;
+
+    /**
+     * Get a read-only snapshot of the current values in this List<T>. Later changes to this
+     * List<T> will not be visible in the snapshot.
+     */
+    toImmutable(): ReadOnlyList<T>;
+}
+
+export abstract class ListBase<T> extends IndexableBase<T> implements List<T> {
+    private _modificationCount: number = 0;
+
+    /**
+     * Get the number of structural changes (values added or removed) that have been made to this
+     * List. Iterators use this to detect that the List was changed while they were iterating.
+     * Changes that only replace values, such as set(), reverse(), swap(), fill() and sort(), are
+     * not counted.
+     */
+    public getModificationCount(): number {
+        return this._modificationCount;
+    }
+
+    /**
+     * Record that a structural change has been made to this List.
+     */
+    protected incrementModificationCount(): void {
+        ++this._modificationCount;
+    }
+
+    /**
+     * Wrap the provided Iterator so that it will throw a ConcurrentModificationError if this List
+     * is structurally changed while the Iterator is in use.
+     */
+    protected createFailFastIterator(iterator: Iterator<T>): Iterator<T> {
+        return new FailFastIterator<T>(iterator, () => this._modificationCount);
+    }
+
+    public abstract add(value: T): void;
+
+    public addAll(values: T[] | Iterable<T>): void {
+        if (values) {
+            for (const value of values) {
+                this.add(value);
+            }
+        }
+    }
+
+    public abstract clear(): void;
+
+    public abstract insert(index: number, value: T): void;
+
+    public abstract set(index: number, value: T): void;
+
+    public abstract removeAt(index: number): T;
+
+    public insertAll(index: number, values: T[] | Iterable<T>): void {
+        if (isDefined(index) && 0 <= index && index <= this.getCount()) {
+            for (const value of copyToArray(values)) {
+                this.insert(index++, value);
+            }
+        }
+    }
+
+    public removeRange(start: number, count: number): void {
+        if (isDefined(start) && isDefined(count) && 0 <= start) {
+            const toRemove: number = Math.min(count, this.getCount() - start);
+            for (let i = 0; i < toRemove; ++i) {
+                this.removeAt(start);
+            }
+        }
+    }
+
+    public replaceRange(start: number, count: number, values: T[] | Iterable<T>): void {
+        if (isDefined(start) && 0 <= start && start <= this.getCount()) {
+            const newValues: T[] = copyToArray(values);
+            this.removeRange(start, count);
+            this.insertAll(start, newValues);
+        }
+    }
+
+    public subList(start: number, count: number): List<T> {
+        const listCount: number = this.getCount();
+        const subListStart: number = isDefined(start) ? Math.min(Math.max(start, 0), listCount) : 0;
+        const subListCount: number = isDefined(count) ? Math.min(Math.max(count, 0), listCount - subListStart) : 0;
+        return new SubList<T>(this, subListStart, subListCount);
+    }
+
+    public asReadOnly(): ReadOnlyList<T> {
+        return new ReadOnlyListView<T>(this);
+    }
+
+    public toImmutable(): ReadOnlyList<T> {
+        return new ArrayList<T>(this).asReadOnly();
+    }
+}
+
+/**
+ * Copy the provided values into a new array. This is used to take a snapshot of values that may
+ * belong to the List that is about to be changed.
+ */
+function copyToArray<T>(values: T[] | Iterable<T>): T[] {
+    const result: T[] = [];
+    if (values) {
+        for (const value of values) {
+            result.push(value);
+        }
+    }
+    return result;
+}
+
+/**
+ * A live, writable view of a range of another List. Changes made through the view are made to the
+ * parent List, and the view throws a ConcurrentModificationError if values are added to or
+ * removed from the parent List other than through the view.
+ */
+class SubList<T> extends ListBase<T> {
+    private _expectedParentModificationCount: number;
+
+    constructor(private _parent: ListBase<T>, private _offset: number, private _count: number) {
+        super();
+
+        this._expectedParentModificationCount = _parent.getModificationCount();
+    }
+
+    private checkForModification(): void {
+        if (this._parent.getModificationCount() !== this._expectedParentModificationCount) {
+            throw new ConcurrentModificationError();
+        }
+    }
+
+    /**
+     * Record that the parent List was structurally changed through this view.
+     */
+    private onParentChanged(countChange: number): void {
+        this._count += countChange;
+        this._expectedParentModificationCount = this._parent.getModificationCount();
+        this.incrementModificationCount();
+    }
+
+    public iterate(): Iterator<T> {
+        return this.createFailFastIterator(new IndexableIterator<T>(this));
+    }
+
+    public iterateReverse(): Iterator<T> {
+        return this.createFailFastIterator(new IndexableReverseIterator<T>(this));
+    }
+
+    public get(index: number): T {
+        this.checkForModification();
+        return isDefined(index) && 0 <= index && index < this._count ? this._parent.get(this._offset + index) : undefined;
+    }
+
+    public set(index: number, value: T): void {
+        this.checkForModification();
+        if (isDefined(index) && 0 <= index && index < this._count) {
+            this._parent.set(this._offset + index, value);
+        }
+    }
+
+    public any(condition?: (value: T) => boolean): boolean {
+        return condition ? super.any(condition) : this.getCount() > 0;
+    }
+
+    public getCount(): number {
+        this.checkForModification();
+        return this._count;
+    }
+
+    public add(value: T): void {
+        this.insert(this.getCount(), value);
+    }
+
+    public insert(index: number, value: T): void {
+        this.checkForModification();
+        if (isDefined(index) && 0 <= index && index <= this._count) {
+            this._parent.insert(this._offset + index, value);
+            this.onParentChanged(1);
+        }
+    }
+
+    public insertAll(index: number, values: T[] | Iterable<T>): void {
+        this.checkForModification();
+        if (isDefined(index) && 0 <= index && index <= this._count) {
+            const valuesToInsert: T[] = copyToArray(values);
+            if (valuesToInsert.length > 0) {
+                this._parent.insertAll(this._offset + index, valuesToInsert);
+                this.onParentChanged(valuesToInsert.length);
+            }
+        }
+    }
+
+    public removeAt(index: number): T {
+        this.checkForModification();
+        let result: T;
+        if (isDefined(index) && 0 <= index && index < this._count) {
+            result = this._parent.removeAt(this._offset + index);
+            this.onParentChanged(-1);
+        }
+        return result;
+    }
+
+    public removeRange(start: number, count: number): void {
+        this.checkForModification();
+        if (isDefined(start) && isDefined(count) && 0 <= start) {
+            const toRemove: number = Math.min(count, this._count - start);
+            if (toRemove > 0) {
+                this._parent.removeRange(this._offset + start, toRemove);
+                this.onParentChanged(-toRemove);
+            }
+        }
+    }
+
+    public clear(): void {
+        this.removeRange(0, this.getCount());
+    }
+}
+
+export class ArrayList<T> extends ListBase<T> {
+    private _data: T[] = [];
+    private _count: number = 0;
+
+    constructor(values?: T[] | Iterable<T>) {
+        super();
+
+        this.addAll(values);
+    }
+
+    public iterate(): Iterator<T> {
+        return this.createFailFastIterator(new IndexableIterator<T>(this));
+    }
+
+    public iterateReverse(): Iterator<T> {
+        return this.createFailFastIterator(new IndexableReverseIterator<T>(this));
+    }
+
+    public get(index: number): T {
+        let result: T;
+        if (isDefined(index) && 0 <= index && index < this._count) {
+            result = this._data[index];
+        }
+        return result;
+    }
+
+    public getFromEnd(index: number): T {
+        return this.get((this.getCount() - 1) - index);
+    }
+
+    /**
+     * Set the ArrayList value at the provided index to be the provided value. If the index is not
+     * defined or is outside of the Arraylist's bounds, then this function will do nothing.
+     */
+    public set(index: number, value: T): void {
+        if (isDefined(index) && 0 <= index && index < this._count) {
+            this._data[index] = value;
+        }
+    }
+
+    /**
+     * Set the last ArrayList value to be the provided value. If the ArrayList is empty, then this
+     * function will do nothing.
+     */
+    public setLast(value: T): void {
+        if (this.any()) {
+            this._data[this._count - 1] = value;
+        }
+    }
+
+    public any(condition?: (value: T) => boolean): boolean {
+        return condition ? super.any(condition) : this._count > 0;
+    }
+
+    public getCount(): number {
+        return this._count;
+    }
+
+    public add(value: T): void {
+        if (this._count === this._data.length) {
+            this._data.push(value);
+        }
+        else {
+            this._data[this._count] = value;
+        }
+        this._count++;
+        this.incrementModificationCount();
+    }
+
+    /**
+     * Insert the provided value at the provided index. The values at and after the index are moved
+     * one index later. If the index is not defined or is outside of the range [0, count], then this
+     * function will do nothing.
+     */
+    public insert(index: number, value: T): void {
+        if (isDefined(index) && 0 <= index && index <= this._count) {
+            if (this._count === this._data.length) {
+                this._data.push(undefined);
+            }
+
+            for (let i = this._count; i > index; --i) {
+                this._data[i] = this._data[i - 1];
+            }
+            this._data[index] = value;
+            this._count++;
+            this.incrementModificationCount();
+        }
+    }
+
+    public insertAll(index: number, values: T[] | Iterable<T>): void {
+        if (isDefined(index) && 0 <= index && index <= this._count) {
+            const valuesToInsert: T[] = copyToArray(values);
+            if (valuesToInsert.length > 0) {
+                this._data = this._data.slice(0, index).concat(valuesToInsert, this._data.slice(index, this._count));
+                this._count += valuesToInsert.length;
+                this.incrementModificationCount();
+            }
+        }
+    }
+
+    /**
+     * Insert the provided value into this ArrayList, which must be sorted by the provided comparer,
+     * so that it stays sorted. The value is inserted after any values that are equal to it. Return
+     * the index where the value was inserted.
+     * @param comparer An optional function that returns a negative number if lhs is less than rhs,
+     *      zero if they are equal, and a positive number if lhs is greater than rhs. If no comparer
+     *      is provided, then standard less than and greater than comparisons will be used.
+     */
+    public insertSorted(value: T, comparer?: Comparison<T>): number {
+        const result: number = this.upperBound(value, comparer);
+        this.insert(result, value);
+        return result;
+    }
+
+    public removeAt(index: number): T {
+        let result: T;
+        if (isDefined(index) && 0 <= index && index < this._count) {
+            result = this._data[index];
+
+            for (let i = index; i < this._count - 1; ++i) {
+                this._data[i] = this._data[i + 1];
+            }
+            this._data[this._count - 1] = undefined;
+            this._count--;
+            this.incrementModificationCount();
+        }
+        return result;
+    }
+
+    /**
+     * Remove the first instance of the provided value from this list.
+     * @param value The value to remove.
+     * @param comparer An optional comparer that will be used to determine if two values are equal.
+     * If this is not provided, then the default strict equal comparison (===) will be used.
+     */
+    public remove(value: T, comparer?: EqualityComparison<T>): T {
+        let result: T;
+
+        const removeIndex: number = this.indexOf(value, comparer);
+        if (isDefined(removeIndex)) {
+            result = this.removeAt(removeIndex);
+        }
+
+        return result;
+    }
+
+    public removeRange(start: number, count: number): void {
+        if (isDefined(start) && isDefined(count) && 0 <= start) {
+            const toRemove: number = Math.min(count, this._count - start);
+            if (toRemove > 0) {
+                this._data.splice(start, toRemove);
+                this._count -= toRemove;
+                this.incrementModificationCount();
+            }
+        }
+    }
+
+    public removeFirst(): T {
+        return this.removeAt(0);
+    }
+
+    public removeLast(): T {
+        return this.removeAt(this.getCount() - 1);
+    }
+
+    public clear(): void {
+        this._count = 0;
+        this.incrementModificationCount();
+    }
+
+    /**
+     * Reverse the order of the values in this ArrayList.
+     */
+    public reverse(): void {
+        if (this._count > 1) {
+            for (let i = 0, j = this._count - 1; i < j; ++i, --j) {
+                const value: T = this._data[i];
+                this._data[i] = this._data[j];
+                this._data[j] = value;
+            }
+        }
+    }
+
+    /**
+     * Swap the values at the provided indexes. If either index is not defined or is outside of this
+     * ArrayList's bounds, then this function will do nothing.
+     */
+    public swap(i: number, j: number): void {
+        if (isDefined(i) && isDefined(j) && 0 <= i && i < this._count && 0 <= j && j < this._count && i !== j) {
+            const value: T = this._data[i];
+            this._data[i] = this._data[j];
+            this._data[j] = value;
+        }
+    }
+
+    /**
+     * Set up to count values starting at the provided start index to the provided value. If no
+     * start index is provided, then filling starts at the first value. If no count is provided,
+     * then every value from the start index to the end of this ArrayList will be set.
+     */
+    public fill(value: T, start: number = 0, count?: number): void {
+        const firstIndex: number = Math.max(start, 0);
+        const afterEndIndex: number = isDefined(count) ? Math.min(start + count, this._count) : this._count;
+        if (firstIndex < afterEndIndex) {
+            for (let i = firstIndex; i < afterEndIndex; ++i) {
+                this._data[i] = value;
+            }
+        }
+    }
+
+    /**
+     * Sort the values of this ArrayList in place. The sort is stable, so equal values keep their
+     * relative order.
+     * @param comparer An optional function that returns a negative number if lhs is less than rhs,
+     *      zero if they are equal, and a positive number if lhs is greater than rhs. If no comparer
+     *      is provided, then standard less than and greater than comparisons will be used.
+     */
+    public sort(comparer?: Comparison<T>): void {
+        stableSort(this._data, 0, this._count, toCompareFunction(comparer));
+    }
+}
+
+/**
+ * An object that holds onto a resource (such as a subscription) until it is disposed.
+ */
+export interface Disposable {
+    /**
+     * Release the resource that this object holds. Disposing an object more than once does
+     * nothing.
+     */
+    dispose(): void;
+}
+
+/**
+ * The different types of changes that can be made to an observable collection.
+ */
+export const enum CollectionChangeType {
+    Added,
+    Removed,
+    Replaced,
+    Cleared
+}
+
+/**
+ * A change that was made to an ObservableList.
+ */
+export interface ListChange<T> {
+    /**
+     * The type of change that was made.
+     */
+    type: CollectionChangeType;
+
+    /**
+     * The index that was changed. This is undefined for Cleared changes.
+     */
+    index?: number;
+
+    /**
+     * The value that was removed or replaced.
+     */
+    oldValue?: T;
+
+    /**
+     * The value that was added or that replaced the old value.
+     */
+    newValue?: T;
+}
+
+/**
+ * Sends changes to subscribed listeners. While a batch is in progress, changes are collected and
+ * then sent together when the outermost batch finishes.
+ */
+class ChangeNotifier<TChange> {
+    private _listeners = new ArrayList<(changes: Indexable<TChange>) => void>();
+    private _pendingChanges = new ArrayList<TChange>();
+    private _batchDepth: number = 0;
+
+    public subscribe(listener: (changes: Indexable<TChange>) => void): Disposable {
+        this._listeners.add(listener);
+
+        let disposed: boolean = false;
+        return {
+            dispose: () => {
+                if (!disposed) {
+                    disposed = true;
+                    this._listeners.remove(listener);
+                }
+            }
+        };
+    }
+
+    public notify(change: TChange): void {
+        this._pendingChanges.add(change);
+        if (this._batchDepth === 0) {
+            this.flush();
+        }
+    }
+
+    public batch(action: () => void): void {
+        ++this._batchDepth;
+        try {
+            action();
+        }
+        finally {
+            --this._batchDepth;
+            if (this._batchDepth === 0) {
+                this.flush();
+            }
+        }
+    }
+
+    private flush(): void {
+        if (this._pendingChanges.any()) {
+            const changes: Indexable<TChange> = this._pendingChanges.asReadOnly();
+            this._pendingChanges = new ArrayList<TChange>();
+
+            for (const listener of this._listeners.toArray()) {
+                listener(changes);
+            }
+        }
+    }
+}
+
+/**
+ * An ArrayList that notifies its subscribers when its values change.
+ */
+export class ObservableList<T> extends ArrayList<T> {
+    private _notifier = new ChangeNotifier<ListChange<T>>();
+
+    constructor(values?: T[] | Iterable<T>) {
+        super();
+
+        this.addAll(values);
+    }
+
+    /**
+     * Register the provided listener to be called with the changes that are made to this list.
+     * Dispose of the returned Disposable to stop the listener from being called.
+     */
+    public subscribe(listener: (changes: Indexable<ListChange<T>>) => void): Disposable {
+        return this._notifier.subscribe(listener);
+    }
+
+    /**
+     * Run the provided action and send all of the changes that it makes to this list to the
+     * subscribers together as a single notification.
+     */
+    public batch(action: () => void): void {
+        this._notifier.batch(action);
+    }
+
+    public add(value: T): void {
+        super.add(value);
+        this._notifier.notify({ type: CollectionChangeType.Added, index: this.getCount() - 1, newValue: value });
+    }
+
+    public insert(index: number, value: T): void {
+        if (isDefined(index) && 0 <= index && index <= this.getCount()) {
+            super.insert(index, value);
+            this._notifier.notify({ type: CollectionChangeType.Added, index: index, newValue: value });
+        }
+    }
+
+    public insertAll(index: number, values: T[] | Iterable<T>): void {
+        if (isDefined(index) && 0 <= index && index <= this.getCount()) {
+            const valuesToInsert: T[] = copyToArray(values);
+            this.batch(() => {
+                for (const value of valuesToInsert) {
+                    this.insert(index++, value);
+                }
+            });
+        }
+    }
+
+    public removeRange(start: number, count: number): void {
+        if (isDefined(start) && isDefined(count) && 0 <= start) {
+            const toRemove: number = Math.min(count, this.getCount() - start);
+            this.batch(() => {
+                for (let i = 0; i < toRemove; ++i) {
+                    this.removeAt(start);
+                }
+            });
+        }
+    }
+
+    public replaceRange(start: number, count: number, values: T[] | Iterable<T>): void {
+        this.batch(() => super.replaceRange(start, count, values));
+    }
+
+    public reverse(): void {
+        const oldValues: T[] = this.toArray();
+        super.reverse();
+        this.notifyReplaced(oldValues);
+    }
+
+    public swap(i: number, j: number): void {
+        const count: number = this.getCount();
+        if (isDefined(i) && isDefined(j) && 0 <= i && i < count && 0 <= j && j < count) {
+            const iValue: T = this.get(i);
+            const jValue: T = this.get(j);
+            super.swap(i, j);
+            if (iValue !== jValue) {
+                this.batch(() => {
+                    this._notifier.notify({ type: CollectionChangeType.Replaced, index: i, oldValue: iValue, newValue: jValue });
+                    this._notifier.notify({ type: CollectionChangeType.Replaced, index: j, oldValue: jValue, newValue: iValue });
+                });
+            }
+        }
+    }
+
+    public fill(value: T, start?: number, count?: number): void {
+        const oldValues: T[] = this.toArray();
+        super.fill(value, start, count);
+        this.notifyReplaced(oldValues);
+    }
+
+    public set(index: number, value: T): void {
+        if (isDefined(index) && 0 <= index && index < this.getCount()) {
+            const oldValue: T = this.get(index);
+            super.set(index, value);
+            this._notifier.notify({ type: CollectionChangeType.Replaced, index: index, oldValue: oldValue, newValue: value });
+        }
+    }
+
+    public setLast(value: T): void {
+        this.set(this.getCount() - 1, value);
+    }
+
+    public removeAt(index: number): T {
+        let result: T;
+        if (isDefined(index) && 0 <= index && index < this.getCount()) {
+            result = super.removeAt(index);
+            this._notifier.notify({ type: CollectionChangeType.Removed, index: index, oldValue: result });
+        }
+        return result;
+    }
+
+    public clear(): void {
+        const hadValues: boolean = this.any();
+        super.clear();
+        if (hadValues) {
+            this._notifier.notify({ type: CollectionChangeType.Cleared });
+        }
+    }
+
+    /**
+     * Sort the values of this list in place. Each index whose value is changed by the sort is
+     * reported as a Replaced change, and all of the changes are sent as a single notification.
+     */
+    public sort(comparer?: Comparison<T>): void {
+        const oldValues: T[] = this.toArray();
+        super.sort(comparer);
+        this.notifyReplaced(oldValues);
+    }
+
+    /**
+     * Send a Replaced change for each value that is different from the provided old values.
+     */
+    private notifyReplaced(oldValues: T[]): void {
+        this.batch(() => {
+            for (let i = 0; i < oldValues.length; ++i) {
+                const newValue: T = this.get(i);
+                if (newValue !== oldValues[i]) {
+                    this._notifier.notify({ type: CollectionChangeType.Replaced, index: i, oldValue: oldValues[i], newValue: newValue });
+                }
+            }
+        });
+    }
+}
+
+/**
+ * A collection of values that share a common key.
+ */
+export interface Grouping<K, E> extends Iterable<E> {
+    /**
+     * Get the key that all of the values in this Grouping share.
+     */
+    getKey(): K;
+}
+
+/**
+ * A read-only collection of Groupings where each key can be associated with multiple values.
+ */
+export interface Lookup<K, E> extends Iterable<Grouping<K, E>> {
+    /**
+     * Get whether or not this Lookup contains any values for the provided key.
+     */
+    containsKey(key: K): boolean;
+
+    /**
+     * Get the values that are associated with the provided key. If the provided key is not found in
+     * this Lookup, then an empty Iterable will be returned.
+     */
+    get(key: K): Iterable<E>;
+}
+
+/**
+ * A read-only Grouping of the values in a List.
+ */
+class ListGrouping<K, E> extends ReadOnlyListView<E> implements Grouping<K, E> {
+    constructor(private _key: K, values: List<E>) {
+        super(values);
+    }
+
+    public getKey(): K {
+        return this._key;
+    }
+}
+
+/**
+ * A Lookup that is populated from the values of an Iterable when it is created.
+ */
+class GroupingLookup<T, K, E> extends IterableBase<Grouping<K, E>> implements Lookup<K, E> {
+    private _groupings: HashMap<K, ListGrouping<K, E>>;
+
+    constructor(values: Iterable<T> | T[], keySelector: (value: T) => K, elementSelector: (value: T) => E, keyComparison?: EqualityComparison<K>) {
+        super();
+
+        const keyComparer: EqualityComparer<K> = toEqualityComparer(keyComparison);
+        this._groupings = new HashMap<K, ListGrouping<K, E>>(undefined, keyComparer);
+
+        if (values && keySelector) {
+            const elementsByKey = new HashMap<K, ArrayList<E>>(undefined, keyComparer);
+            for (const value of values) {
+                const key: K = keySelector(value);
+
+                let elements: ArrayList<E> = elementsByKey.get(key);
+                if (!elements) {
+                    elements = new ArrayList<E>();
+                    elementsByKey.add(key, elements);
+                    this._groupings.add(key, new ListGrouping<K, E>(key, elements));
+                }
+
+                elements.add(elementSelector(value));
+            }
+        }
+    }
+
+    public iterate(): Iterator<Grouping<K, E>> {
+        return this._groupings.iterate().map((pair: KeyValuePair<K, ListGrouping<K, E>>) => pair.value);
+    }
+
+    public getCount(): number {
+        return this._groupings.getCount();
+    }
+
+    public containsKey(key: K): boolean {
+        return this._groupings.containsKey(key);
+    }
+
+    public get(key: K): Iterable<E> {
+        const grouping: ListGrouping<K, E> = this._groupings.get(key);
+        return grouping ? grouping : new ArrayList<E>().asReadOnly();
+    }
+}
+
+/**
+ * An Iterable that groups the values of its inner Iterable each time that it is iterated.
+ */
+class GroupByIterable<K, E, T> extends IterableBase<Grouping<K, E>> {
+    constructor(private _innerIterable: Iterable<T>, private _keySelector: (value: T) => K, private _elementSelector: (value: T) => E) {
+        super();
+    }
+
+    public iterate(): Iterator<Grouping<K, E>> {
+        return this._innerIterable.toLookup(this._keySelector, this._elementSelector).iterate();
+    }
+}
+
+/**
+ * A node that contains a value and a single link.
+ */
+export class SingleLinkNode<T> extends IterableBase<T> {
+    constructor(private _value: T, private _next?: SingleLinkNode<T>) {
+        super();
+    }
+
+    public iterate(): Iterator<T> {
+        return new SingleLinkNodeIterator<T>(this);
+    }
+
+    /**
+     * Get this Node's value.
+     */
+    public getValue(): T {
+        return this._value;
+    }
+
+    /**
+     * Set this Node's value.
+     */
+    public setValue(value: T) {
+        this._value = value;
+    }
+
+    /**
+     * Get the next Node in the chain.
+     */
+    public getNext(): SingleLinkNode<T> {
+        return this._next;
+    }
+
+    /**
+     * Set the next Node in the chain.
+     */
+    public setNext(next: SingleLinkNode<T>) {
+        this._next = next;
+    }
+}
+
+class SingleLinkNodeIterator<T> extends IteratorBase<T> {
+    private _hasStarted: boolean = false;
+
+    constructor(private _currentNode: SingleLinkNode<T>) {
+        super();
+    }
+
+    public hasStarted(): boolean {
+        return this._hasStarted;
+    }
+
+    public hasCurrent(): boolean {
+        return this._hasStarted && this._currentNode ? true : false;
+    }
+
+    public getCurrent(): T {
+        return this.hasCurrent() ? this._currentNode.getValue() : undefined;
+    }
+
+    public next(): boolean {
+        if (!this.hasStarted()) {
+            this._hasStarted = true;
+        }
+        else if (this._currentNode) {
+            this._currentNode = this._currentNode.getNext();
+        }
+
+        return this.hasCurrent();
+    }
+}
+
+export class SingleLinkList<T> extends ListBase<T> {
+    private _head: SingleLinkNode<T>;
+    private _tail: SingleLinkNode<T>;
+
+    constructor(values?: T[] | Iterable<T>) {
+        super();
+
+        this.addAll(values);
+    }
+
+    public iterate(): Iterator<T> {
+        return this.createFailFastIterator(new SingleLinkNodeIterator<T>(this._head));
+    }
+
+    public iterateReverse(): Iterator<T> {
+        return this.createFailFastIterator(new IndexableReverseIterator<T>(this));
+    }
+
+    private getNode(index: number): SingleLinkNode<T> {
+        let resultNode: SingleLinkNode<T>;
+        if (0 <= index) {
+            resultNode = this._head;
+            while (resultNode && 0 < index) {
+                resultNode = resultNode.getNext();
+                --index;
+            }
+        }
+        return resultNode;
+    }
+
+    public get(index: number): T {
+        const resultNode: SingleLinkNode<T> = this.getNode(index);
+        return resultNode ? resultNode.getValue() : undefined;
+    }
+
+    public getFromEnd(index: number): T {
+        let resultNode: SingleLinkNode<T> = undefined;
+
+        if (index >= 0) {
+            let searchNode: SingleLinkNode<T> = this._head;
+            while (searchNode && index > 0) {
+                searchNode = searchNode.getNext();
+                --index;
+            }
+
+            if (searchNode) {
+                resultNode = this._head;
+                while (searchNode.getNext()) {
+                    resultNode = resultNode.getNext();
+                    searchNode = searchNode.getNext();
+                }
+            }
+        }
+
+        return resultNode ? resultNode.getValue() : undefined;
+    }
+
+    /**
+     * Set the ArrayList value at the provided index to be the provided value. If the index is not
+     * defined or is outside of the Arraylist's bounds, then this function will do nothing.
+     */
+    public set(index: number, value: T): void {
+        const node: SingleLinkNode<T> = this.getNode(index);
+        if (node) {
+            node.setValue(value);
+        }
+    }
+
+    /**
+     * Set the last ArrayList value to be the provided value. If the ArrayList is empty, then this
+     * function will do nothing.
+     */
+    public setLast(value: T): void {
+        if (this._tail) {
+            this._tail.setValue(value);
+        }
+    }
+
+    public any(condition?: (value: T) => boolean): boolean {
+        return isDefined(this._head);
+    }
+
+    public getCount(): number {
+        let count: number = 0;
+        let searchNode: SingleLinkNode<T> = this._head;
+        while (searchNode) {
+            ++count;
+            searchNode = searchNode.getNext();
+        }
+        return count;
+    }
+
+    public add(value: T): void {
+        const nodeToAdd = new SingleLinkNode<T>(value);
+
+        if (!this._head) {
+            this._head = nodeToAdd;
+            this._tail = nodeToAdd;
+        }
+        else {
+            this._tail.setNext(nodeToAdd);
+            this._tail = nodeToAdd;
+        }
+        this.incrementModificationCount();
+    }
+
+    public insert(index: number, value: T): void {
+        if (isDefined(index) && 0 <= index) {
+            if (index === 0) {
+                this._head = new SingleLinkNode<T>(value, this._head);
+                if (!this._tail) {
+                    this._tail = this._head;
+                }
+                this.incrementModificationCount();
+            }
+            else {
+                const previousNode: SingleLinkNode<T> = this.getNode(index - 1);
+                if (previousNode) {
+                    const nodeToAdd = new SingleLinkNode<T>(value, previousNode.getNext());
+                    previousNode.setNext(nodeToAdd);
+                    if (previousNode === this._tail) {
+                        this._tail = nodeToAdd;
+                    }
+                    this.incrementModificationCount();
+                }
+            }
+        }
+    }
+
+    public insertAll(index: number, values: T[] | Iterable<T>): void {
+        if (isDefined(index) && 0 <= index) {
+            const previousNode: SingleLinkNode<T> = index === 0 ? undefined : this.getNode(index - 1);
+            if (index === 0 || previousNode) {
+                const nextNode: SingleLinkNode<T> = previousNode ? previousNode.getNext() : this._head;
+
+                let lastNode: SingleLinkNode<T> = previousNode;
+                for (const value of copyToArray(values)) {
+                    const nodeToAdd = new SingleLinkNode<T>(value);
+                    if (lastNode) {
+                        lastNode.setNext(nodeToAdd);
+                    }
+                    else {
+                        this._head = nodeToAdd;
+                    }
+                    lastNode = nodeToAdd;
+                }
+
+                if (lastNode !== previousNode) {
+                    lastNode.setNext(nextNode);
+                    if (!nextNode) {
+                        this._tail = lastNode;
+                    }
+                    this.incrementModificationCount();
+                }
+            }
+        }
+    }
+
+    public removeAt(index: number): T {
+        let result: T;
+        if (isDefined(index) && 0 <= index) {
+            if (index === 0) {
+                if (this._head) {
+                    result = this._head.getValue();
+                    if (this._head === this._tail) {
+                        this._head = undefined;
+                        this._tail = undefined;
+                    }
+                    else {
+                        this._head = this._head.getNext();
+                    }
+                    this.incrementModificationCount();
+                }
+            }
+            else {
+                const previousNode: SingleLinkNode<T> = this.getNode(index - 1);
+                if (previousNode && previousNode.getNext()) {
+                    result = previousNode.getNext().getValue();
+                    if (previousNode.getNext() === this._tail) {
+                        this._tail = previousNode;
+                    }
+                    previousNode.setNext(previousNode.getNext().getNext());
+                    this.incrementModificationCount();
+                }
+            }
+        }
+        return result;
+    }
+
+    public remove(value: T, comparer?: EqualityComparison<T>): T {
+        const equals: (lhs: T, rhs: T) => boolean = toEqualityFunction(comparer);
+
+        let previousNode: SingleLinkNode<T>;
+        let searchNode: SingleLinkNode<T> = this._head;
+        while (searchNode) {
+            if (equals(searchNode.getValue(), value)) {
+                break;
+            }
+            else {
+                previousNode = searchNode;
+                searchNode = searchNode.getNext();
+            }
+        }
+
+        if (searchNode) {
+            if (!previousNode) {
+                this._head = searchNode.getNext();
+            }
+            else {
+                previousNode.setNext(searchNode.getNext());
+            }
+
+            if (searchNode === this._tail) {
+                this._tail = previousNode;
+            }
+
+            this.incrementModificationCount();
+        }
+
+        return searchNode ? searchNode.getValue() : undefined;
+    }
+
+    public removeFirst(): T {
+        return this.removeAt(0);
+    }
+
+    public removeLast(): T {
+        return this.removeAt(this.getCount() - 1);
+    }
+
+    public removeRange(start: number, count: number): void {
+        if (isDefined(start) && isDefined(count) && 0 <= start && 0 < count) {
+            const previousNode: SingleLinkNode<T> = start === 0 ? undefined : this.getNode(start - 1);
+            if (start === 0 || previousNode) {
+                let nextNode: SingleLinkNode<T> = previousNode ? previousNode.getNext() : this._head;
+                let removed: number = 0;
+                while (nextNode && removed < count) {
+                    nextNode = nextNode.getNext();
+                    ++removed;
+                }
+
+                if (removed > 0) {
+                    if (previousNode) {
+                        previousNode.setNext(nextNode);
+                    }
+                    else {
+                        this._head = nextNode;
+                    }
+
+                    if (!nextNode) {
+                        this._tail = previousNode;
+                    }
+                    this.incrementModificationCount();
+                }
+            }
+        }
+    }
+
+    public clear(): void {
+        this._head = undefined;
+        this._tail = undefined;
+        this.incrementModificationCount();
+    }
+
+    /**
+     * Reverse the order of the values in this SingleLinkList. The values are moved between the
+     * existing nodes, so the links between the nodes don't change.
+     */
+    public reverse(): void {
+        if (this._head !== this._tail) {
+            const values: T[] = this.toArray();
+            let node: SingleLinkNode<T> = this._head;
+            for (let i = values.length - 1; 0 <= i; --i) {
+                node.setValue(values[i]);
+                node = node.getNext();
+            }
+        }
+    }
+
+    /**
+     * Swap the values at the provided indexes. If either index is not defined or is outside of this
+     * SingleLinkList's bounds, then this function will do nothing.
+     */
+    public swap(i: number, j: number): void {
+        if (isDefined(i) && isDefined(j) && i !== j) {
+            const iNode: SingleLinkNode<T> = this.getNode(i);
+            const jNode: SingleLinkNode<T> = this.getNode(j);
+            if (iNode && jNode) {
+                const value: T = iNode.getValue();
+                iNode.setValue(jNode.getValue());
+                jNode.setValue(value);
+            }
+        }
+    }
+
+    /**
+     * Set up to count values starting at the provided start index to the provided value. If no
+     * start index is provided, then filling starts at the first value. If no count is provided,
+     * then every value from the start index to the end of this SingleLinkList will be set.
+     */
+    public fill(value: T, start: number = 0, count?: number): void {
+        const firstIndex: number = Math.max(start, 0);
+        const afterEndIndex: number = isDefined(count) ? start + count : undefined;
+
+        let node: SingleLinkNode<T> = this.getNode(firstIndex);
+        if (node && (!isDefined(afterEndIndex) || firstIndex < afterEndIndex)) {
+            for (let i = firstIndex; node && (!isDefined(afterEndIndex) || i < afterEndIndex); ++i) {
+                node.setValue(value);
+                node = node.getNext();
+            }
+        }
+    }
+
+    /**
+     * Sort the values of this SingleLinkList in place. The sort is stable, so equal values keep their
+     * relative order. The values are moved between the existing nodes, so the links between the
+     * nodes don't change.
+     * @param comparer An optional function that returns a negative number if lhs is less than rhs,
+     *      zero if they are equal, and a positive number if lhs is greater than rhs. If no comparer
+     *      is provided, then standard less than and greater than comparisons will be used.
+     */
+    public sort(comparer?: Comparison<T>): void {
+        if (this._head !== this._tail) {
+            const values: T[] = this.toArray();
+            stableSort(values, 0, values.length, toCompareFunction(comparer));
+
+            let node: SingleLinkNode<T> = this._head;
+            for (const value of values) {
+                node.setValue(value);
+                node = node.getNext();
+            }
+        }
+    }
+}
+
+/**
+ * A node that contains a value and two links.
+ */
+export class DoubleLinkNode<T> {
+    private _list: DoubleLinkList<T>;
+
+    constructor(private _value: T, private _next?: DoubleLinkNode<T>, private _previous?: DoubleLinkNode<T>) {
+    }
+
+    /**
+     * Get the DoubleLinkList that this Node belongs to, or undefined if this Node doesn't belong to
+     * a list.
+     */
+    public getList(): DoubleLinkList<T> {
+        return this._list;
+    }
+
+    /**
+     * Set the DoubleLinkList that this Node belongs to.
+     */
+    public setList(list: DoubleLinkList<T>): void {
+        this._list = list;
+    }
+
+    /**
+     * Get this Node's value.
+     */
+    public getValue(): T {
+        return this._value;
+    }
+
+    /**
+     * Set this Node's value.
+     */
+    public setValue(value: T) {
+        this._value = value;
+    }
+
+    /**
+     * Get the next Node in the chain.
+     */
+    public getNext(): DoubleLinkNode<T> {
+        return this._next;
+    }
+
+    /**
+     * Set the next Node in the chain.
+     */
+    public setNext(next: DoubleLinkNode<T>) {
+        this._next = next;
+    }
+
+    /**
+     * Get the previous Node in the chain.
+     */
+    public getPrevious(): DoubleLinkNode<T> {
+        return this._previous;
+    }
+
+    /**
+     * Set the previous Node in the chain.
+     */
+    public setPrevious(next: DoubleLinkNode<T>) {
+        this._previous = next;
+    }
+}
+
+class DoubleLinkNodeIterator<T> extends IteratorBase<T> {
+    private _hasStarted: boolean = false;
+
+    constructor(private _currentNode: DoubleLinkNode<T>, private _reverse: boolean) {
+        super();
+    }
+
+    public hasStarted(): boolean {
+        return this._hasStarted;
+    }
+
+    public hasCurrent(): boolean {
+        return this._hasStarted && this._currentNode ? true : false;
+    }
+
+    public getCurrent(): T {
+        return this.hasCurrent() ? this._currentNode.getValue() : undefined;
+    }
+
+    public next(): boolean {
+        if (!this.hasStarted()) {
+            this._hasStarted = true;
+        }
+        else if (this._currentNode) {
+            this._currentNode = this._reverse ? this._currentNode.getPrevious() : this._currentNode.getNext();
+        }
+
+        return this.hasCurrent();
+    }
+}
+
+/**
+ * A List that stores its values in a chain of DoubleLinkNodes. Values can be added and removed at
+ * either end of the list, or next to any node in the list, in constant time.
+ */
+export class DoubleLinkList<T> extends ListBase<T> {
+    private _head: DoubleLinkNode<T>;
+    private _tail: DoubleLinkNode<T>;
+    private _count: number = 0;
+
+    constructor(values?: T[] | Iterable<T>) {
+        super();
+
+        this.addAll(values);
+    }
+
+    public iterate(): Iterator<T> {
+        return this.createFailFastIterator(new DoubleLinkNodeIterator<T>(this._head, false));
+    }
+
+    public iterateReverse(): Iterator<T> {
+        return this.createFailFastIterator(new DoubleLinkNodeIterator<T>(this._tail, true));
+    }
+
+    /**
+     * Get the first node in this list.
+     */
+    public getFirstNode(): DoubleLinkNode<T> {
+        return this._head;
+    }
+
+    /**
+     * Get the last node in this list.
+     */
+    public getLastNode(): DoubleLinkNode<T> {
+        return this._tail;
+    }
+
+    private getNode(index: number): DoubleLinkNode<T> {
+        let resultNode: DoubleLinkNode<T>;
+        if (isDefined(index) && 0 <= index && index < this._count) {
+            if (index < this._count / 2) {
+                resultNode = this._head;
+                for (let i = 0; i < index; ++i) {
+                    resultNode = resultNode.getNext();
+                }
+            }
+            else {
+                resultNode = this._tail;
+                for (let i = this._count - 1; i > index; --i) {
+                    resultNode = resultNode.getPrevious();
+                }
+            }
+        }
+        return resultNode;
+    }
+
+    public get(index: number): T {
+        const resultNode: DoubleLinkNode<T> = this.getNode(index);
+        return resultNode ? resultNode.getValue() : undefined;
+    }
+
+    public getFromEnd(index: number): T {
+        return isDefined(index) ? this.get(this._count - 1 - index) : undefined;
+    }
+
+    /**
+     * Set the value at the provided index to be the provided value. If the index is not defined or
+     * is outside of this list's bounds, then this function will do nothing.
+     */
+    public set(index: number, value: T): void {
+        const node: DoubleLinkNode<T> = this.getNode(index);
+        if (node) {
+            node.setValue(value);
+        }
+    }
+
+    /**
+     * Set the last value to be the provided value. If this list is empty, then this function will
+     * do nothing.
+     */
+    public setLast(value: T): void {
+        if (this._tail) {
+            this._tail.setValue(value);
+        }
+    }
+
+    public any(condition?: (value: T) => boolean): boolean {
+        return condition ? super.any(condition) : this._count > 0;
+    }
+
+    public getCount(): number {
+        return this._count;
+    }
+
+    public add(value: T): void {
+        this.addLast(value);
+    }
+
+    public insert(index: number, value: T): void {
+        if (isDefined(index) && 0 <= index && index <= this._count) {
+            if (index === this._count) {
+                this.addLast(value);
+            }
+            else {
+                this.insertBefore(this.getNode(index), value);
+            }
+        }
+    }
+
+    /**
+     * Add the provided value to the start of this list and return the node that contains it.
+     */
+    public addFirst(value: T): DoubleLinkNode<T> {
+        return this._head ? this.insertBefore(this._head, value) : this.addToEmpty(value);
+    }
+
+    /**
+     * Add the provided value to the end of this list and return the node that contains it.
+     */
+    public addLast(value: T): DoubleLinkNode<T> {
+        return this._tail ? this.insertAfter(this._tail, value) : this.addToEmpty(value);
+    }
+
+    private addToEmpty(value: T): DoubleLinkNode<T> {
+        const nodeToAdd = new DoubleLinkNode<T>(value);
+        nodeToAdd.setList(this);
+        this._head = nodeToAdd;
+        this._tail = nodeToAdd;
+        this._count = 1;
+        this.incrementModificationCount();
+        return nodeToAdd;
+    }
+
+    /**
+     * Get whether or not the provided node belongs to this list.
+     */
+    public containsNode(node: DoubleLinkNode<T>): boolean {
+        return node ? node.getList() === this : false;
+    }
+
+    /**
+     * Insert the provided value before the provided node and return the node that contains the
+     * inserted value. If the provided node doesn't belong to this list, then this function will do
+     * nothing and undefined will be returned.
+     */
+    public insertBefore(node: DoubleLinkNode<T>, value: T): DoubleLinkNode<T> {
+        if (!this.containsNode(node)) {
+            return undefined;
+        }
+
+        const nodeToAdd = new DoubleLinkNode<T>(value, node, node.getPrevious());
+        nodeToAdd.setList(this);
+        if (node.getPrevious()) {
+            node.getPrevious().setNext(nodeToAdd);
+        }
+        else {
+            this._head = nodeToAdd;
+        }
+        node.setPrevious(nodeToAdd);
+        ++this._count;
+        this.incrementModificationCount();
+        return nodeToAdd;
+    }
+
+    /**
+     * Insert the provided value after the provided node and return the node that contains the
+     * inserted value. If the provided node doesn't belong to this list, then this function will do
+     * nothing and undefined will be returned.
+     */
+    public insertAfter(node: DoubleLinkNode<T>, value: T): DoubleLinkNode<T> {
+        if (!this.containsNode(node)) {
+            return undefined;
+        }
+
+        const nodeToAdd = new DoubleLinkNode<T>(value, node.getNext(), node);
+        nodeToAdd.setList(this);
+        if (node.getNext()) {
+            node.getNext().setPrevious(nodeToAdd);
+        }
+        else {
+            this._tail = nodeToAdd;
+        }
+        node.setNext(nodeToAdd);
+        ++this._count;
+        this.incrementModificationCount();
+        return nodeToAdd;
+    }
+
+    /**
+     * Remove the provided node from this list and return its value. If the provided node doesn't
+     * belong to this list (such as a node that was already removed), then this function will do
+     * nothing and undefined will be returned.
+     */
+    public removeNode(node: DoubleLinkNode<T>): T {
+        if (!this.containsNode(node)) {
+            return undefined;
+        }
+
+        if (node.getPrevious()) {
+            node.getPrevious().setNext(node.getNext());
+        }
+        else {
+            this._head = node.getNext();
+        }
+
+        if (node.getNext()) {
+            node.getNext().setPrevious(node.getPrevious());
+        }
+        else {
+            this._tail = node.getPrevious();
+        }
+
+        node.setNext(undefined);
+        node.setPrevious(undefined);
+        node.setList(undefined);
+        --this._count;
+        this.incrementModificationCount();
+
+        return node.getValue();
+    }
+
+    public removeAt(index: number): T {
+        const node: DoubleLinkNode<T> = this.getNode(index);
+        return node ? this.removeNode(node) : undefined;
+    }
+
+    public remove(value: T, comparer?: EqualityComparison<T>): T {
+        const equals: (lhs: T, rhs: T) => boolean = toEqualityFunction(comparer);
+
+        let searchNode: DoubleLinkNode<T> = this._head;
+        while (searchNode && !equals(searchNode.getValue(), value)) {
+            searchNode = searchNode.getNext();
+        }
+
+        return searchNode ? this.removeNode(searchNode) : undefined;
+    }
+
+    public removeFirst(): T {
+        return this._head ? this.removeNode(this._head) : undefined;
+    }
+
+    public removeLast(): T {
+        return this._tail ? this.removeNode(this._tail) : undefined;
+    }
+
+    public clear(): void {
+        for (let node: DoubleLinkNode<T> = this._head; node; node = node.getNext()) {
+            node.setList(undefined);
+        }
+
+        this._head = undefined;
+        this._tail = undefined;
+        this._count = 0;
+        this.incrementModificationCount();
+    }
+
+    /**
+     * Move all of the nodes from the provided list into this list before the provided node. If no
+     * node is provided, then the nodes will be moved to the end of this list. The provided list
+     * will be empty afterwards. If the provided node doesn't belong to this list, then this
+     * function will do nothing.
+     * @param list The list whose nodes will be moved into this list.
+     * @param beforeNode The node in this list that the moved nodes will be inserted before.
+     */
+    public splice(list: DoubleLinkList<T>, beforeNode?: DoubleLinkNode<T>): void {
+        if (list && list !== this && list._head && (!beforeNode || this.containsNode(beforeNode))) {
+            const first: DoubleLinkNode<T> = list._head;
+            const last: DoubleLinkNode<T> = list._tail;
+            const count: number = list._count;
+            list.clear();
+            for (let node: DoubleLinkNode<T> = first; node; node = node.getNext()) {
+                node.setList(this);
+            }
+
+            const after: DoubleLinkNode<T> = beforeNode;
+            const before: DoubleLinkNode<T> = beforeNode ? beforeNode.getPrevious() : this._tail;
+
+            first.setPrevious(before);
+            if (before) {
+                before.setNext(first);
+            }
+            else {
+                this._head = first;
+            }
+
+            last.setNext(after);
+            if (after) {
+                after.setPrevious(last);
+            }
+            else {
+                this._tail = last;
+            }
+
+            this._count += count;
+            this.incrementModificationCount();
+        }
+    }
+}
+
+const vectorTrieBits: number = 5;
+const vectorTrieWidth: number = 1 << vectorTrieBits;
+const vectorTrieMask: number = vectorTrieWidth - 1;
+
+/**
+ * A node in the trie of a PersistentList. A node can only be changed in place by the builder whose
+ * edit token created it. All other changes copy the node.
+ */
+class VectorTrieNode<T> {
+    constructor(public edit: Object, public array: Array<VectorTrieNode<T> | T>) {
+    }
+}
+
+/**
+ * Get a version of the provided node that can be changed in place with the provided edit token.
+ */
+function getEditableVectorTrieNode<T>(edit: Object, node: VectorTrieNode<T>): VectorTrieNode<T> {
+    return edit && node.edit === edit ? node : new VectorTrieNode<T>(edit, node.array.slice());
+}
+
+/**
+ * Get the child node at the provided index of the provided branch node.
+ */
+function getVectorTrieChild<T>(node: VectorTrieNode<T>, index: number): VectorTrieNode<T> {
+    return node.array[index] as VectorTrieNode<T>;
+}
+
+/**
+ * Create the chain of nodes that leads from the provided level down to the provided node.
+ */
+function createVectorTriePath<T>(edit: Object, level: number, node: VectorTrieNode<T>): VectorTrieNode<T> {
+    return level === 0 ? node : new VectorTrieNode<T>(edit, [createVectorTriePath(edit, level - vectorTrieBits, node)]);
+}
+
+/**
+ * A bit-partitioned vector trie. The last (up to 32) values are kept in a tail array so that
+ * adding to the end of the trie only has to touch the tree once every 32 values. Each change
+ * copies the nodes on the path to the changed value unless they are owned by the provided edit
+ * token.
+ */
+class VectorTrie<T> {
+    constructor(public count: number = 0, public shift: number = vectorTrieBits, public root: VectorTrieNode<T> = new VectorTrieNode<T>(undefined, []), public tail: T[] = []) {
+    }
+
+    /**
+     * Create a copy of this trie that shares all of its nodes with this trie.
+     */
+    public clone(): VectorTrie<T> {
+        return new VectorTrie<T>(this.count, this.shift, this.root, this.tail.slice());
+    }
+
+    private getTailOffset(): number {
+        return this.count < vectorTrieWidth ? 0 : ((this.count - 1) >>> vectorTrieBits) << vectorTrieBits;
+    }
+
+    private getValues(index: number): T[] {
+        let result: T[];
+        if (index >= this.getTailOffset()) {
+            result = this.tail;
+        }
+        else {
+            let node: VectorTrieNode<T> = this.root;
+            for (let level = this.shift; level > 0; level -= vectorTrieBits) {
+                node = getVectorTrieChild(node, (index >>> level) & vectorTrieMask);
+            }
+            result = node.array as T[];
+        }
+        return result;
+    }
+
+    public get(index: number): T {
+        let result: T;
+        if (isDefined(index) && 0 <= index && index < this.count) {
+            result = this.getValues(index)[index & vectorTrieMask];
+        }
+        return result;
+    }
+
+    public add(value: T, edit: Object): void {
+        if (this.count - this.getTailOffset() < vectorTrieWidth) {
+            this.tail.push(value);
+        }
+        else {
+            const tailNode = new VectorTrieNode<T>(edit, this.tail);
+            if ((this.count >>> vectorTrieBits) > (1 << this.shift)) {
+                this.root = new VectorTrieNode<T>(edit, [this.root, createVectorTriePath(edit, this.shift, tailNode)]);
+                this.shift += vectorTrieBits;
+            }
+            else {
+                this.root = this.pushTail(edit, this.shift, this.root, tailNode);
+            }
+            this.tail = [value];
+        }
+        ++this.count;
+    }
+
+    private pushTail(edit: Object, level: number, parent: VectorTrieNode<T>, tailNode: VectorTrieNode<T>): VectorTrieNode<T> {
+        const result: VectorTrieNode<T> = getEditableVectorTrieNode(edit, parent);
+        const subIndex: number = ((this.count - 1) >>> level) & vectorTrieMask;
+        if (level === vectorTrieBits) {
+            result.array[subIndex] = tailNode;
+        }
+        else {
+            const child: VectorTrieNode<T> = getVectorTrieChild(parent, subIndex);
+            result.array[subIndex] = child
+                ? this.pushTail(edit, level - vectorTrieBits, child, tailNode)
+                : createVectorTriePath(edit, level - vectorTrieBits, tailNode);
+        }
+        return result;
+    }
+
+    /**
+     * Set the value at the provided index. The index must be within the bounds of this trie.
+     */
+    public set(index: number, value: T, edit: Object): void {
+        if (index >= this.getTailOffset()) {
+            this.tail[index & vectorTrieMask] = value;
+        }
+        else {
+            this.root = this.setInNode(edit, this.shift, this.root, index, value);
+        }
+    }
+
+    private setInNode(edit: Object, level: number, node: VectorTrieNode<T>, index: number, value: T): VectorTrieNode<T> {
+        const result: VectorTrieNode<T> = getEditableVectorTrieNode(edit, node);
+        if (level === 0) {
+            result.array[index & vectorTrieMask] = value;
+        }
+        else {
+            const subIndex: number = (index >>> level) & vectorTrieMask;
+            result.array[subIndex] = this.setInNode(edit, level - vectorTrieBits, getVectorTrieChild(node, subIndex), index, value);
+        }
+        return result;
+    }
+
+    /**
+     * Remove the last value from this trie. This trie must not be empty.
+     */
+    public removeLast(edit: Object): void {
+        if (this.count === 1 || this.count - this.getTailOffset() > 1) {
+            this.tail.pop();
+        }
+        else {
+            const newTail: T[] = this.getValues(this.count - 2).slice();
+
+            let newRoot: VectorTrieNode<T> = this.popTail(edit, this.shift, this.root);
+            if (!newRoot) {
+                newRoot = new VectorTrieNode<T>(edit, []);
+            }
+            if (this.shift > vectorTrieBits && !isDefined(newRoot.array[1])) {
+                newRoot = getVectorTrieChild(newRoot, 0);
+                this.shift -= vectorTrieBits;
+            }
+
+            this.root = newRoot;
+            this.tail = newTail;
+        }
+        --this.count;
+    }
+
+    private popTail(edit: Object, level: number, node: VectorTrieNode<T>): VectorTrieNode<T> {
+        const subIndex: number = ((this.count - 2) >>> level) & vectorTrieMask;
+
+        let result: VectorTrieNode<T>;
+        if (level > vectorTrieBits) {
+            const newChild: VectorTrieNode<T> = this.popTail(edit, level - vectorTrieBits, getVectorTrieChild(node, subIndex));
+            if (newChild || subIndex !== 0) {
+                result = getEditableVectorTrieNode(edit, node);
+                result.array[subIndex] = newChild;
+            }
+        }
+        else if (subIndex !== 0) {
+            result = getEditableVectorTrieNode(edit, node);
+            result.array[subIndex] = undefined;
+        }
+        return result;
+    }
+}
+
+/**
+ * A mutable builder that can efficiently make many changes before producing a PersistentList.
+ */
+export interface PersistentListBuilder<T> {
+    /**
+     * Get the number of values in this builder.
+     */
+    getCount(): number;
+
+    /**
+     * Get the value at the provided index. If the index is outside of this builder's bounds, then
+     * undefined will be returned.
+     */
+    get(index: number): T;
+
+    /**
+     * Add the provided value to the end of this builder.
+     */
+    add(value: T): void;
+
+    /**
+     * Add each of the provided values to the end of this builder.
+     */
+    addAll(values: T[] | Iterable<T>): void;
+
+    /**
+     * Set the value at the provided index. If the index is outside of this builder's bounds, then
+     * this function will do nothing.
+     */
+    set(index: number, value: T): void;
+
+    /**
+     * Remove and return the last value in this builder. If this builder is empty, then undefined
+     * will be returned.
+     */
+    removeLast(): T;
+
+    /**
+     * Create a PersistentList from the values in this builder. Later changes to this builder will
+     * not affect the returned PersistentList.
+     */
+    toPersistentList(): PersistentList<T>;
+}
+
+class VectorTrieBuilder<T> implements PersistentListBuilder<T> {
+    private _edit: Object = {};
+
+    constructor(private _trie: VectorTrie<T>, private _createList: (trie: VectorTrie<T>) => PersistentList<T>) {
+    }
+
+    public getCount(): number {
+        return this._trie.count;
+    }
+
+    public get(index: number): T {
+        return this._trie.get(index);
+    }
+
+    public add(value: T): void {
+        this._trie.add(value, this._edit);
+    }
+
+    public addAll(values: T[] | Iterable<T>): void {
+        if (values) {
+            for (const value of values) {
+                this.add(value);
+            }
+        }
+    }
+
+    public set(index: number, value: T): void {
+        if (isDefined(index) && 0 <= index && index < this._trie.count) {
+            this._trie.set(index, value, this._edit);
+        }
+    }
+
+    public removeLast(): T {
+        let result: T;
+        if (this._trie.count > 0) {
+            result = this._trie.get(this._trie.count - 1);
+            this._trie.removeLast(this._edit);
+        }
+        return result;
+    }
+
+    public toPersistentList(): PersistentList<T> {
+        // Nodes that were created with the old edit token now belong to the returned list, so
+        // later changes to this builder must copy them.
+        this._edit = {};
+        return this._createList(this._trie.clone());
+    }
+}
+
+/**
+ * An immutable List that is stored in a bit-partitioned vector trie. Changing a PersistentList
+ * returns a new PersistentList that shares most of its structure with the original, so both
+ * versions can be kept cheaply.
+ */
+export class PersistentList<T> extends IndexableBase<T> {
+    private _trie: VectorTrie<T>;
+
+    constructor(values?: T[] | Iterable<T>) {
+        super();
+
+        this._trie = new VectorTrie<T>();
+        if (values) {
+            const edit: Object = {};
+            for (const value of values) {
+                this._trie.add(value, edit);
+            }
+        }
+    }
+
+    /**
+     * Create a builder that starts out empty.
+     */
+    public static createBuilder<T>(): PersistentListBuilder<T> {
+        return new PersistentList<T>().toBuilder();
+    }
+
+    private static fromTrie<T>(trie: VectorTrie<T>): PersistentList<T> {
+        const result = new PersistentList<T>();
+        result._trie = trie;
+        return result;
+    }
+
+    public iterate(): Iterator<T> {
+        return new IndexableIterator<T>(this);
+    }
+
+    public iterateReverse(): Iterator<T> {
+        return new IndexableReverseIterator<T>(this);
+    }
+
+    public get(index: number): T {
+        return this._trie.get(index);
+    }
+
+    public any(condition?: (value: T) => boolean): boolean {
+        return condition ? super.any(condition) : this._trie.count > 0;
+    }
+
+    public getCount(): number {
+        return this._trie.count;
+    }
+
+    /**
+     * Get a new PersistentList with the provided value added to the end of this list.
+     */
+    public add(value: T): PersistentList<T> {
+        const trie: VectorTrie<T> = this._trie.clone();
+        trie.add(value, undefined);
+        return PersistentList.fromTrie(trie);
+    }
+
+    /**
+     * Get a new PersistentList with the provided values added to the end of this list.
+     */
+    public addAll(values: T[] | Iterable<T>): PersistentList<T> {
+        const builder: PersistentListBuilder<T> = this.toBuilder();
+        builder.addAll(values);
+        return builder.toPersistentList();
+    }
+
+    /**
+     * Get a new PersistentList with the value at the provided index replaced by the provided value.
+     * If the index is outside of this list's bounds, then this list will be returned.
+     */
+    public set(index: number, value: T): PersistentList<T> {
+        let result: PersistentList<T> = this;
+        if (isDefined(index) && 0 <= index && index < this._trie.count) {
+            const trie: VectorTrie<T> = this._trie.clone();
+            trie.set(index, value, undefined);
+            result = PersistentList.fromTrie(trie);
+        }
+        return result;
+    }
+
+    /**
+     * Get a new PersistentList without the last value of this list. If this list is empty, then
+     * this list will be returned.
+     */
+    public removeLast(): PersistentList<T> {
+        let result: PersistentList<T> = this;
+        if (this._trie.count > 0) {
+            const trie: VectorTrie<T> = this._trie.clone();
+            trie.removeLast(undefined);
+            result = PersistentList.fromTrie(trie);
+        }
+        return result;
+    }
+
+    /**
+     * Get a new PersistentList without the value at the provided index. The values after the index
+     * have to be moved, so this takes time proportional to the length of this list. If the index is
+     * outside of this list's bounds, then this list will be returned.
+     */
+    public removeAt(index: number): PersistentList<T> {
+        let result: PersistentList<T> = this;
+        if (isDefined(index) && 0 <= index && index < this._trie.count) {
+            const builder: PersistentListBuilder<T> = this.toBuilder();
+            for (let i = index; i < this._trie.count - 1; ++i) {
+                builder.set(i, this._trie.get(i + 1));
+            }
+            builder.removeLast();
+            result = builder.toPersistentList();
+        }
+        return result;
+    }
+
+    /**
+     * Get a new PersistentList without the first instance of the provided value. If the value isn't
+     * found, then this list will be returned.
+     */
+    public remove(value: T, comparer?: EqualityComparison<T>): PersistentList<T> {
+        return this.removeAt(this.indexOf(value, comparer));
+    }
+
+    /**
+     * Create a builder that starts out with the values of this list.
+     */
+    public toBuilder(): PersistentListBuilder<T> {
+        return new VectorTrieBuilder<T>(this._trie.clone(), (trie: VectorTrie<T>) => PersistentList.fromTrie(trie));
+    }
+}
+
+export interface KeyValuePair<KeyType, ValueType> {
+    key: KeyType;
+    value: ValueType;
+}
+
+/**
+ * An object that determines whether or not two values are equal, and that creates hash codes for
+ * values. Any two values that are equal must have the same hash code.
+ */
+export interface EqualityComparer<T> {
+    /**
+     * Get whether or not the provided values are equal.
+     */
+    equals(lhs: T, rhs: T): boolean;
+
+    /**
+     * Get the hash code for the provided value.
+     */
+    getHashCode(value: T): number;
+}
+
+/**
+ * An object that determines the order of two values.
+ */
+export interface Comparer<T> {
+    /**
+     * Get a negative number if lhs is less than rhs, zero if they are equal, and a positive number
+     * if lhs is greater than rhs.
+     */
+    compare(lhs: T, rhs: T): number;
+}
+
+/**
+ * A way to determine whether or not two values are equal: either a function that returns whether
+ * the two values are equal, or an EqualityComparer.
+ */
+export type EqualityComparison<T> = ((lhs: T, rhs: T) => boolean) | EqualityComparer<T>;
+
+/**
+ * A way to determine the order of two values: either a function that returns a negative number,
+ * zero, or a positive number (like Comparer.compare()), or a Comparer.
+ */
+export type Comparison<T> = ((lhs: T, rhs: T) => number) | Comparer<T>;
+
+const objectHashCodes = new WeakMap<object, number>();
+let nextObjectHashCode: number = 1;
+
+/**
+ * Get the hash code for the provided string.
+ */
+function getStringHashCode(value: string): number {
+    let result: number = 0;
+    for (let i = 0; i < value.length; ++i) {
+        result = ((result << 5) - result + value.charCodeAt(i)) | 0;
+    }
+    return result;
+}
+
+/**
+ * Get a hash code for the provided value that is consistent with '===' equality. Objects and
+ * functions are assigned a unique hash code the first time that they are hashed.
+ */
+function getDefaultHashCode(value: any): number {
+    let result: number;
+    switch (typeof value) {
+        case "undefined":
+            result = 0;
+            break;
+
+        case "boolean":
+            result = value ? 1 : 2;
+            break;
+
+        case "number":
+            result = (value | 0) === value ? value : getStringHashCode(value.toString());
+            break;
+
+        case "string":
+            result = getStringHashCode(value);
+            break;
+
+        case "symbol":
+            result = getStringHashCode(value.toString());
+            break;
+
+        default:
+            if (value === null) {
+                result = 3;
+            }
+            else {
+                result = objectHashCodes.get(value);
+                if (!isDefined(result)) {
+                    result = nextObjectHashCode++;
+                    objectHashCodes.set(value, result);
+                }
+            }
+            break;
+    }
+    return result;
+}
+
+/**
+ * The EqualityComparer that uses '===' equality.
+ */
+const defaultEqualityComparer: EqualityComparer<any> = {
+    equals: (lhs: any, rhs: any) => lhs === rhs,
+    getHashCode: getDefaultHashCode
+};
+
+/**
+ * Get an EqualityComparer for the provided comparison. A comparison function can't be used to
+ * create hash codes, so every value gets the same hash code. If no comparison is provided, then the
+ * EqualityComparer that uses '===' will be returned.
+ */
+function toEqualityComparer<T>(comparison?: EqualityComparison<T>): EqualityComparer<T> {
+    let result: EqualityComparer<T>;
+    if (!comparison) {
+        result = defaultEqualityComparer;
+    }
+    else if (typeof comparison === "function") {
+        result = { equals: comparison, getHashCode: (value: T) => 0 };
+    }
+    else {
+        result = comparison;
+    }
+    return result;
+}
+
+/**
+ * Get a function that returns whether or not two values are equal according to the provided
+ * comparison. If no comparison is provided, then '===' will be used.
+ */
+function toEqualityFunction<T>(comparison?: EqualityComparison<T>): (lhs: T, rhs: T) => boolean {
+    let result: (lhs: T, rhs: T) => boolean;
+    if (!comparison) {
+        result = (lhs: T, rhs: T) => lhs === rhs;
+    }
+    else if (typeof comparison === "function") {
+        result = comparison;
+    }
+    else {
+        const comparer: EqualityComparer<T> = comparison;
+        result = (lhs: T, rhs: T) => comparer.equals(lhs, rhs);
+    }
+    return result;
+}
+
+/**
+ * Get a function that compares two values according to the provided comparison. If no comparison
+ * is provided, then standard less than and greater than comparisons will be used.
+ */
+function toCompareFunction<T>(comparison?: Comparison<T>): (lhs: T, rhs: T) => number {
+    let result: (lhs: T, rhs: T) => number;
+    if (!comparison) {
+        result = defaultCompare;
+    }
+    else if (typeof comparison === "function") {
+        result = comparison;
+    }
+    else {
+        const comparer: Comparer<T> = comparison;
+        result = (lhs: T, rhs: T) => comparer.compare(lhs, rhs);
+    }
+    return result;
+}
+
+/**
+ * Get a function that returns whether or not lhs comes before rhs according to the provided
+ * comparison. If no comparison is provided, then the less than operator will be used.
+ */
+function toLessThanFunction<T>(comparison?: ((lhs: T, rhs: T) => boolean) | Comparer<T>): (lhs: T, rhs: T) => boolean {
+    let result: (lhs: T, rhs: T) => boolean;
+    if (!comparison) {
+        result = (lhs: T, rhs: T) => lhs < rhs;
+    }
+    else if (typeof comparison === "function") {
+        result = comparison;
+    }
+    else {
+        const comparer: Comparer<T> = comparison;
+        result = (lhs: T, rhs: T) => comparer.compare(lhs, rhs) < 0;
+    }
+    return result;
+}
+
+/**
+ * Get a function that returns whether or not lhs comes after rhs according to the provided
+ * comparison. If no comparison is provided, then the greater than operator will be used.
+ */
+function toGreaterThanFunction<T>(comparison?: ((lhs: T, rhs: T) => boolean) | Comparer<T>): (lhs: T, rhs: T) => boolean {
+    let result: (lhs: T, rhs: T) => boolean;
+    if (!comparison) {
+        result = (lhs: T, rhs: T) => lhs > rhs;
+    }
+    else if (typeof comparison === "function") {
+        result = comparison;
+    }
+    else {
+        const comparer: Comparer<T> = comparison;
+        result = (lhs: T, rhs: T) => comparer.compare(lhs, rhs) > 0;
+    }
+    return result;
+}
+
+/**
+ * Built-in EqualityComparers.
+ */
+export class EqualityComparers {
+    /**
+     * Get the EqualityComparer that uses '===' equality.
+     */
+    public static default<T>(): EqualityComparer<T> {
+        return defaultEqualityComparer;
+    }
+
+    /**
+     * Get the EqualityComparer that compares strings character by character.
+     */
+    public static ordinal(): EqualityComparer<string> {
+        return defaultEqualityComparer;
+    }
+
+    /**
+     * Get the EqualityComparer that compares strings without regard to case.
+     */
+    public static caseInsensitive(): EqualityComparer<string> {
+        return {
+            equals: (lhs: string, rhs: string) => lhs === rhs || (isDefined(lhs) && isDefined(rhs) && lhs.toLowerCase() === rhs.toLowerCase()),
+            getHashCode: (value: string) => getDefaultHashCode(isDefined(value) ? value.toLowerCase() : value)
+        };
+    }
+
+    /**
+     * Get an EqualityComparer that compares values by the keys that the provided key selector
+     * selects from them.
+     * @param keySelector The function that selects the key of each value.
+     * @param keyComparison The comparison that compares the keys. If this is not provided, then the
+     *      keys will be compared with '==='.
+     */
+    public static byKey<T, K>(keySelector: (value: T) => K, keyComparison?: EqualityComparison<K>): EqualityComparer<T> {
+        const keyComparer: EqualityComparer<K> = toEqualityComparer(keyComparison);
+        return {
+            equals: (lhs: T, rhs: T) => keyComparer.equals(keySelector(lhs), keySelector(rhs)),
+            getHashCode: (value: T) => keyComparer.getHashCode(keySelector(value))
+        };
+    }
+}
+
+/**
+ * Built-in Comparers.
+ */
+export class Comparers {
+    /**
+     * Get the Comparer that uses the standard less than and greater than operators. NaN, null and
+     * undefined are ordered after all other values, in that order.
+     */
+    public static default<T>(): Comparer<T> {
+        return { compare: defaultCompare };
+    }
+
+    /**
+     * Get the Comparer that orders strings by the character codes of their characters.
+     */
+    public static ordinal(): Comparer<string> {
+        return { compare: defaultCompare };
+    }
+
+    /**
+     * Get the Comparer that orders strings without regard to case.
+     */
+    public static caseInsensitive(): Comparer<string> {
+        return {
+            compare: (lhs: string, rhs: string) => defaultCompare(isDefined(lhs) ? lhs.toLowerCase() : lhs, isDefined(rhs) ? rhs.toLowerCase() : rhs)
+        };
+    }
+
+    /**
+     * Get a Comparer that orders values by the keys that the provided key selector selects from
+     * them.
+     * @param keySelector The function that selects the key of each value.
+     * @param keyComparison The comparison that orders the keys. If this is not provided, then
+     *      standard less than and greater than comparisons will be used.
+     */
+    public static byKey<T, K>(keySelector: (value: T) => K, keyComparison?: Comparison<K>): Comparer<T> {
+        return { compare: createKeyComparer(keySelector, keyComparison, false) };
+    }
+
+    /**
+     * Get a Comparer that orders values in the opposite order of the provided comparison.
+     * @param comparison The comparison to reverse. If this is not provided, then the default
+     *      Comparer will be reversed.
+     */
+    public static reversed<T>(comparison?: Comparison<T>): Comparer<T> {
+        const compare: (lhs: T, rhs: T) => number = toCompareFunction(comparison);
+        return { compare: (lhs: T, rhs: T) => compare(rhs, lhs) };
+    }
+
+    /**
+     * Get a Comparer that orders values by the first of the provided comparisons that doesn't
+     * consider them equal.
+     * @param comparisons The comparisons to use, in order of precedence.
+     */
+    public static composite<T>(...comparisons: Comparison<T>[]): Comparer<T> {
+        let compare: (lhs: T, rhs: T) => number = (lhs: T, rhs: T) => 0;
+        for (const comparison of comparisons) {
+            compare = thenCompare(compare, toCompareFunction(comparison));
+        }
+        return { compare: compare };
+    }
+}
+
+/**
+ * An entry in a HashMap. Each entry is linked to the next entry in its bucket and to the entries
+ * that were added before and after it.
+ */
+class HashMapEntry<KeyType, ValueType> {
+    public nextInBucket: HashMapEntry<KeyType, ValueType>;
+    public previous: HashMapEntry<KeyType, ValueType>;
+    public next: HashMapEntry<KeyType, ValueType>;
+
+    constructor(public pair: KeyValuePair<KeyType, ValueType>, public hashCode: number) {
+    }
+}
+
+class HashMapIterator<KeyType, ValueType> extends IteratorBase<KeyValuePair<KeyType, ValueType>> {
+    private _hasStarted: boolean = false;
+    private _currentEntry: HashMapEntry<KeyType, ValueType>;
+
+    constructor(private _firstEntry: HashMapEntry<KeyType, ValueType>, private _reverse: boolean) {
+        super();
+    }
+
+    public hasStarted(): boolean {
+        return this._hasStarted;
+    }
+
+    public hasCurrent(): boolean {
+        return isDefined(this._currentEntry);
+    }
+
+    public getCurrent(): KeyValuePair<KeyType, ValueType> {
+        return this._currentEntry ? this._currentEntry.pair : undefined;
+    }
+
+    public next(): boolean {
+        if (!this._hasStarted) {
+            this._hasStarted = true;
+            this._currentEntry = this._firstEntry;
+        }
+        else if (this._currentEntry) {
+            this._currentEntry = this._reverse ? this._currentEntry.previous : this._currentEntry.next;
+        }
+        return this.hasCurrent();
+    }
+}
+
+/**
+ * A map/dictionary collection that can be read but not changed.
+ */
+export interface ReadOnlyMap<KeyType, ValueType> extends Iterable<KeyValuePair<KeyType, ValueType>> {
+    /**
+     * Iterate through the entries of this map in reverse order.
+     */
+    iterateReverse(): Iterator<KeyValuePair<KeyType, ValueType>>;
+
+    /**
+     * Get whether or not the map contains the provided key.
+     */
+    containsKey(key: KeyType): boolean;
+
+    /**
+     * Get the value associated with the provided key. If the provided key is not found in the map,
+     * then undefined will be returned.
+     */
+    get(key: KeyType): ValueType;
+}
+
+/**
+ * A live ReadOnlyMap view of a HashMap. Changes to the HashMap are visible through the view.
+ */
+class ReadOnlyMapView<KeyType, ValueType> extends IterableBase<KeyValuePair<KeyType, ValueType>> implements ReadOnlyMap<KeyType, ValueType> {
+    constructor(private _innerMap: HashMap<KeyType, ValueType>) {
+        super();
+    }
+
+    public iterate(): Iterator<KeyValuePair<KeyType, ValueType>> {
+        return this._innerMap.iterate();
+    }
+
+    public iterateReverse(): Iterator<KeyValuePair<KeyType, ValueType>> {
+        return this._innerMap.iterateReverse();
+    }
+
+    public any(condition?: (value: KeyValuePair<KeyType, ValueType>) => boolean): boolean {
+        return this._innerMap.any(condition);
+    }
+
+    public getCount(): number {
+        return this._innerMap.getCount();
+    }
+
+    public containsKey(key: KeyType): boolean {
+        return this._innerMap.containsKey(key);
+    }
+
+    public get(key: KeyType): ValueType {
+        return this._innerMap.get(key);
+    }
+}
+
+/**
+ * A map/dictionary collection that stores its entries in a hash table. Entries are iterated in the
+ * order that they were added.
+ */
+export class HashMap<KeyType, ValueType> extends IterableBase<KeyValuePair<KeyType, ValueType>> {
+    private _buckets: HashMapEntry<KeyType, ValueType>[] = new Array(16);
+    private _count: number = 0;
+    private _firstEntry: HashMapEntry<KeyType, ValueType>;
+    private _lastEntry: HashMapEntry<KeyType, ValueType>;
+    private _keyComparer: EqualityComparer<KeyType>;
+    private _modificationCount: number = 0;
+
+    /**
+     * Create a new HashMap.
+     * @param initialValues The key value pairs to add to the new HashMap.
+     * @param keyComparer The EqualityComparer that determines whether two keys are equal and that
+     *      creates hash codes for keys, or an equality function. If this is not provided, then keys
+     *      will be compared with '==='.
+     */
+    constructor(initialValues?: KeyValuePair<KeyType, ValueType>[] | Iterable<KeyValuePair<KeyType, ValueType>>, keyComparer?: EqualityComparison<KeyType>) {
+        super();
+
+        this._keyComparer = toEqualityComparer(keyComparer);
+
+        this.addAll(initialValues);
+    }
+
+    public iterate(): Iterator<KeyValuePair<KeyType, ValueType>> {
+        return new FailFastIterator(new HashMapIterator(this._firstEntry, false), () => this._modificationCount);
+    }
+
+    public iterateReverse(): Iterator<KeyValuePair<KeyType, ValueType>> {
+        return new FailFastIterator(new HashMapIterator(this._lastEntry, true), () => this._modificationCount);
+    }
+
+    public any(condition?: (value: KeyValuePair<KeyType, ValueType>) => boolean): boolean {
+        return condition ? super.any(condition) : this._count > 0;
+    }
+
+    /**
+     * Get the number of entries in this map.
+     */
+    public getCount(): number {
+        return this._count;
+    }
+
+    /**
+     * Get the number of structural changes (entries added or removed) that have been made to this
+     * map. Iterators use this to detect that the map was changed while they were iterating.
+     */
+    public getModificationCount(): number {
+        return this._modificationCount;
+    }
+
+    private getBucketIndex(hashCode: number, bucketCount: number = this._buckets.length): number {
+        return (hashCode >>> 0) % bucketCount;
+    }
+
+    private getEntry(key: KeyType): HashMapEntry<KeyType, ValueType> {
+        const hashCode: number = this._keyComparer.getHashCode(key);
+
+        let entry: HashMapEntry<KeyType, ValueType> = this._buckets[this.getBucketIndex(hashCode)];
+        while (entry && (entry.hashCode !== hashCode || !this._keyComparer.equals(entry.pair.key, key))) {
+            entry = entry.nextInBucket;
+        }
+        return entry;
+    }
+
+    private grow(): void {
+        const newBuckets: HashMapEntry<KeyType, ValueType>[] = new Array(this._buckets.length * 2);
+        for (let entry = this._firstEntry; entry; entry = entry.next) {
+            const bucketIndex: number = this.getBucketIndex(entry.hashCode, newBuckets.length);
+            entry.nextInBucket = newBuckets[bucketIndex];
+            newBuckets[bucketIndex] = entry;
+        }
+        this._buckets = newBuckets;
+    }
+
+    /**
+     * Add the provide key value pair to the map. If an entry already exists with the provided key,
+     * the existing entry will be overwritten by the provided values.
+     */
+    public add(key: KeyType, value: ValueType): void {
+        this.removeEntry(key);
+
+        if (this._count >= this._buckets.length * 0.75) {
+            this.grow();
+        }
+
+        const entry = new HashMapEntry<KeyType, ValueType>({ key: key, value: value }, this._keyComparer.getHashCode(key));
+
+        const bucketIndex: number = this.getBucketIndex(entry.hashCode);
+        entry.nextInBucket = this._buckets[bucketIndex];
+        this._buckets[bucketIndex] = entry;
+
+        if (!this._lastEntry) {
+            this._firstEntry = entry;
+        }
+        else {
+            this._lastEntry.next = entry;
+            entry.previous = this._lastEntry;
+        }
+        this._lastEntry = entry;
+
+        ++this._count;
+        ++this._modificationCount;
+    }
+
+    /**
+     * Add each of the provided pairs to this map. If any of the entries already exists with the
+     * provided key, the existing entry will be overwritten by the provided value.
+     */
+    public addAll(keyValuePairs: KeyValuePair<KeyType, ValueType>[] | Iterable<KeyValuePair<KeyType, ValueType>>): void {
+        if (keyValuePairs) {
+            for (const keyValuePair of keyValuePairs) {
+                this.add(keyValuePair.key, keyValuePair.value);
+            }
+        }
+    }
+
+    /**
+     * Get whether or not the map contains the provided key.
+     */
+    public containsKey(key: KeyType): boolean {
+        return isDefined(this.getEntry(key));
+    }
+
+    /**
+     * Get the value associated with the provided key. If the provided key is not found in the map,
+     * then undefined will be returned.
+     */
+    public get(key: KeyType): ValueType {
+        const entry: HashMapEntry<KeyType, ValueType> = this.getEntry(key);
+        return entry ? entry.pair.value : undefined;
+    }
+
+    /**
+     * Remove the key/value pair with the provided key.
+     * @param key The key of the key/value pair to remove from this map.
+     */
+    public remove(key: KeyType): void {
+        this.removeEntry(key);
+    }
+
+    private removeEntry(key: KeyType): void {
+        const hashCode: number = this._keyComparer.getHashCode(key);
+        const bucketIndex: number = this.getBucketIndex(hashCode);
+
+        let previousInBucket: HashMapEntry<KeyType, ValueType>;
+        let entry: HashMapEntry<KeyType, ValueType> = this._buckets[bucketIndex];
+        while (entry && (entry.hashCode !== hashCode || !this._keyComparer.equals(entry.pair.key, key))) {
+            previousInBucket = entry;
+            entry = entry.nextInBucket;
+        }
+
+        if (entry) {
+            if (previousInBucket) {
+                previousInBucket.nextInBucket = entry.nextInBucket;
+            }
+            else {
+                this._buckets[bucketIndex] = entry.nextInBucket;
+            }
+
+            if (entry.previous) {
+                entry.previous.next = entry.next;
+            }
+            else {
+                this._firstEntry = entry.next;
+            }
+
+            if (entry.next) {
+                entry.next.previous = entry.previous;
+            }
+            else {
+                this._lastEntry = entry.previous;
+            }
+
+            --this._count;
+            ++this._modificationCount;
+        }
+    }
+
+    /**
+     * Remove all of the entries from this map.
+     */
+    public clear(): void {
+        this._buckets = new Array(16);
+        this._count = 0;
+        this._firstEntry = undefined;
+        this._lastEntry = undefined;
+        ++this._modificationCount;
+    }
+
+    /**
+     * Get a live read-only view of this map. Changes to this map will be visible through the view,
+     * but the view can't be used to change this map.
+     */
+    public asReadOnly(): ReadOnlyMap<KeyType, ValueType> {
+        return new ReadOnlyMapView<KeyType, ValueType>(this);
+    }
+
+    /**
+     * Get a read-only snapshot of the current entries in this map. Later changes to this map will
+     * not be visible in the snapshot.
+     */
+    public toImmutable(): ReadOnlyMap<KeyType, ValueType> {
+        return new HashMap<KeyType, ValueType>(this, this._keyComparer).asReadOnly();
+    }
+}
+
+/**
+ * A map/dictionary collection that associates a key to a value.
+ */
+export class Map<KeyType, ValueType> extends HashMap<KeyType, ValueType> {
+}
+
+/**
+ * A change that was made to an ObservableMap.
+ */
+export interface MapChange<KeyType, ValueType> {
+    /**
+     * The type of change that was made.
+     */
+    type: CollectionChangeType;
+
+    /**
+     * The key that was changed. This is undefined for Cleared changes.
+     */
+    key?: KeyType;
+
+    /**
+     * The value that was removed or replaced.
+     */
+    oldValue?: ValueType;
+
+    /**
+     * The value that was added or that replaced the old value.
+     */
+    newValue?: ValueType;
+}
+
+/**
+ * A Map that notifies its subscribers when its entries change.
+ */
+export class ObservableMap<KeyType, ValueType> extends Map<KeyType, ValueType> {
+    private _notifier = new ChangeNotifier<MapChange<KeyType, ValueType>>();
+
+    constructor(initialValues?: KeyValuePair<KeyType, ValueType>[] | Iterable<KeyValuePair<KeyType, ValueType>>, keyComparer?: EqualityComparison<KeyType>) {
+        super(undefined, keyComparer);
+
+        this.addAll(initialValues);
+    }
+
+    /**
+     * Register the provided listener to be called with the changes that are made to this map.
+     * Dispose of the returned Disposable to stop the listener from being called.
+     */
+    public subscribe(listener: (changes: Indexable<MapChange<KeyType, ValueType>>) => void): Disposable {
+        return this._notifier.subscribe(listener);
+    }
+
+    /**
+     * Run the provided action and send all of the changes that it makes to this map to the
+     * subscribers together as a single notification.
+     */
+    public batch(action: () => void): void {
+        this._notifier.batch(action);
+    }
+
+    public add(key: KeyType, value: ValueType): void {
+        const replacing: boolean = this.containsKey(key);
+        const oldValue: ValueType = replacing ? this.get(key) : undefined;
+
+        super.add(key, value);
+
+        if (replacing) {
+            this._notifier.notify({ type: CollectionChangeType.Replaced, key: key, oldValue: oldValue, newValue: value });
+        }
+        else {
+            this._notifier.notify({ type: CollectionChangeType.Added, key: key, newValue: value });
+        }
+    }
+
+    public remove(key: KeyType): void {
+        if (this.containsKey(key)) {
+            const oldValue: ValueType = this.get(key);
+            super.remove(key);
+            this._notifier.notify({ type: CollectionChangeType.Removed, key: key, oldValue: oldValue });
+        }
+    }
+
+    public clear(): void {
+        const hadEntries: boolean = this.any();
+        super.clear();
+        if (hadEntries) {
+            this._notifier.notify({ type: CollectionChangeType.Cleared });
+        }
+    }
+}
+
+const hamtBits: number = 5;
+const hamtMask: number = (1 << hamtBits) - 1;
+
+/**
+ * A key value pair in the trie of a PersistentMap, along with the hash code of its key.
+ */
+class HamtLeaf<KeyType, ValueType> {
+    constructor(public hashCode: number, public pair: KeyValuePair<KeyType, ValueType>) {
+    }
+}
+
+/**
+ * A node in the trie of a PersistentMap that holds leaves whose keys all have the same hash code.
+ */
+class HamtCollisionNode<KeyType, ValueType> {
+    constructor(public edit: Object, public hashCode: number, public leaves: HamtLeaf<KeyType, ValueType>[]) {
+    }
+}
+
+/**
+ * A node in the trie of a PersistentMap. Each bit in the bitmap marks which of the 32 possible
+ * children is present, and the children array only holds the present children.
+ */
+class HamtBitmapNode<KeyType, ValueType> {
+    constructor(public edit: Object, public bitmap: number, public children: HamtChild<KeyType, ValueType>[]) {
+    }
+}
+
+type HamtChild<KeyType, ValueType> = HamtLeaf<KeyType, ValueType> | HamtCollisionNode<KeyType, ValueType> | HamtBitmapNode<KeyType, ValueType>;
+
+/**
+ * Get the number of bits that are set in the provided value.
+ */
+function getBitCount(value: number): number {
+    value = value - ((value >>> 1) & 0x55555555);
+    value = (value & 0x33333333) + ((value >>> 2) & 0x33333333);
+    return (((value + (value >>> 4)) & 0x0F0F0F0F) * 0x01010101) >>> 24;
+}
+
+function getHamtBit(hashCode: number, shift: number): number {
+    return 1 << ((hashCode >>> shift) & hamtMask);
+}
+
+function getHamtIndex(bitmap: number, bit: number): number {
+    return getBitCount(bitmap & (bit - 1));
+}
+
+function getEditableHamtBitmapNode<KeyType, ValueType>(edit: Object, node: HamtBitmapNode<KeyType, ValueType>): HamtBitmapNode<KeyType, ValueType> {
+    return edit && node.edit === edit ? node : new HamtBitmapNode<KeyType, ValueType>(edit, node.bitmap, node.children.slice());
+}
+
+function getEditableHamtCollisionNode<KeyType, ValueType>(edit: Object, node: HamtCollisionNode<KeyType, ValueType>): HamtCollisionNode<KeyType, ValueType> {
+    return edit && node.edit === edit ? node : new HamtCollisionNode<KeyType, ValueType>(edit, node.hashCode, node.leaves.slice());
+}
+
+/**
+ * Create a node at the provided shift that contains both the provided child and the provided leaf.
+ * The child's hash code must be different from the leaf's hash code.
+ */
+function createHamtBitmapNode<KeyType, ValueType>(edit: Object, shift: number, child: HamtChild<KeyType, ValueType>, childHashCode: number, leaf: HamtLeaf<KeyType, ValueType>): HamtBitmapNode<KeyType, ValueType> {
+    const childBitIndex: number = (childHashCode >>> shift) & hamtMask;
+    const leafBitIndex: number = (leaf.hashCode >>> shift) & hamtMask;
+
+    let result: HamtBitmapNode<KeyType, ValueType>;
+    if (childBitIndex === leafBitIndex) {
+        result = new HamtBitmapNode<KeyType, ValueType>(edit, 1 << childBitIndex, [createHamtBitmapNode(edit, shift + hamtBits, child, childHashCode, leaf)]);
+    }
+    else {
+        result = new HamtBitmapNode<KeyType, ValueType>(edit, (1 << childBitIndex) | (1 << leafBitIndex), childBitIndex < leafBitIndex ? [child, leaf] : [leaf, child]);
+    }
+    return result;
+}
+
+/**
+ * A hash array mapped trie. Each change copies the nodes on the path to the changed entry unless
+ * they are owned by the provided edit token.
+ */
+class HashArrayMappedTrie<KeyType, ValueType> {
+    constructor(public keyComparer: EqualityComparer<KeyType>, public root: HamtBitmapNode<KeyType, ValueType> = new HamtBitmapNode<KeyType, ValueType>(undefined, 0, []), public count: number = 0) {
+    }
+
+    /**
+     * Create a copy of this trie that shares all of its nodes with this trie.
+     */
+    public clone(): HashArrayMappedTrie<KeyType, ValueType> {
+        return new HashArrayMappedTrie<KeyType, ValueType>(this.keyComparer, this.root, this.count);
     }
 
-    public concatenate(toConcatenate: Iterable<T> | T[]): Iterable<T> {
-        return toConcatenate ? new ConcatenateIterable(this, toConcatenate) : this;
+    private getHashCode(key: KeyType): number {
+        return this.keyComparer.getHashCode(key) | 0;
     }
 
-    public toArray(): T[] {
-        return this.iterate().toArray();
+    private matches(leaf: HamtLeaf<KeyType, ValueType>, hashCode: number, key: KeyType): boolean {
+        return leaf.hashCode === hashCode && this.keyComparer.equals(leaf.pair.key, key);
     }
 
-    public endsWith(values: Iterable<T>): boolean {
-        let result: boolean;
-
-        if (!values) {
-            result = false;
-        }
-        else {
-            const valuesCount: number = values.getCount();
-            if (valuesCount === 0) {
-                result = false;
-            }
-            else if (this.getCount() < valuesCount) {
-                result = false;
+    /**
+     * Get the leaf that contains the provided key, or undefined if the key isn't in this trie.
+     */
+    public getLeaf(key: KeyType): HamtLeaf<KeyType, ValueType> {
+        const hashCode: number = this.getHashCode(key);
+
+        let result: HamtLeaf<KeyType, ValueType>;
+        let node: HamtChild<KeyType, ValueType> = this.root;
+        let shift: number = 0;
+        while (node && !result) {
+            if (node instanceof HamtBitmapNode) {
+                const bit: number = getHamtBit(hashCode, shift);
+                node = node.bitmap & bit ? node.children[getHamtIndex(node.bitmap, bit)] : undefined;
+                shift += hamtBits;
             }
-            else {
-                result = true;
-
-                const thisLastValuesIterator: Iterator<T> = this.takeLast(valuesCount).iterate();
-                const valuesIterator: Iterator<T> = values.iterate();
-                while (thisLastValuesIterator.next() === valuesIterator.next() && thisLastValuesIterator.hasCurrent()) {
-                    if (thisLastValuesIterator.getCurrent() !== valuesIterator.getCurrent()) {
-                        result = false;
+            else if (node instanceof HamtCollisionNode) {
+                for (const leaf of node.leaves) {
+                    if (this.matches(leaf, hashCode, key)) {
+                        result = leaf;
                         break;
                     }
                 }
+                node = undefined;
+            }
+            else if (this.matches(node, hashCode, key)) {
+                result = node;
+            }
+            else {
+                node = undefined;
             }
         }
-
         return result;
     }
 
-    public minimum(lessThanComparison?: (lhs: T, rhs: T) => boolean): T {
-        return this.iterate().minimum(lessThanComparison);
+    public set(key: KeyType, value: ValueType, edit: Object): void {
+        const leaf = new HamtLeaf<KeyType, ValueType>(this.getHashCode(key), { key: key, value: value });
+        this.root = this.setInNode(edit, 0, this.root, leaf) as HamtBitmapNode<KeyType, ValueType>;
     }
 
-    public maximum(greaterThanComparison?: (lhs: T, rhs: T) => boolean): T {
-        return this.iterate().maximum(greaterThanComparison);
-    }
-}
+    private setInNode(edit: Object, shift: number, node: HamtChild<KeyType, ValueType>, leaf: HamtLeaf<KeyType, ValueType>): HamtChild<KeyType, ValueType> {
+        let result: HamtChild<KeyType, ValueType> = node;
+        if (node instanceof HamtBitmapNode) {
+            const bit: number = getHamtBit(leaf.hashCode, shift);
+            const index: number = getHamtIndex(node.bitmap, bit);
+            if (node.bitmap & bit) {
+                const child: HamtChild<KeyType, ValueType> = node.children[index];
+                const newChild: HamtChild<KeyType, ValueType> = this.setInNode(edit, shift + hamtBits, child, leaf);
+                if (newChild !== child) {
+                    const editableNode: HamtBitmapNode<KeyType, ValueType> = getEditableHamtBitmapNode(edit, node);
+                    editableNode.children[index] = newChild;
+                    result = editableNode;
+                }
+            }
+            else {
+                const editableNode: HamtBitmapNode<KeyType, ValueType> = getEditableHamtBitmapNode(edit, node);
+                editableNode.children.splice(index, 0, leaf);
+                editableNode.bitmap |= bit;
+                result = editableNode;
+                ++this.count;
+            }
+        }
+        else if (node instanceof HamtCollisionNode) {
+            if (node.hashCode === leaf.hashCode) {
+                let index: number = 0;
+                while (index < node.leaves.length && !this.matches(node.leaves[index], leaf.hashCode, leaf.pair.key)) {
+                    ++index;
+                }
 
-class WhereIterable<T> extends IterableBase<T> {
-    constructor(private _innerIterable: Iterable<T>, private _condition: (value: T) => boolean) {
-        super();
+                const isNewKey: boolean = index === node.leaves.length;
+                if (isNewKey || node.leaves[index].pair.value !== leaf.pair.value) {
+                    const editableNode: HamtCollisionNode<KeyType, ValueType> = getEditableHamtCollisionNode(edit, node);
+                    editableNode.leaves[index] = leaf;
+                    result = editableNode;
+                    if (isNewKey) {
+                        ++this.count;
+                    }
+                }
+            }
+            else {
+                result = createHamtBitmapNode(edit, shift, node, node.hashCode, leaf);
+                ++this.count;
+            }
+        }
+        else if (this.matches(node, leaf.hashCode, leaf.pair.key)) {
+            if (node.pair.value !== leaf.pair.value) {
+                result = leaf;
+            }
+        }
+        else {
+            result = node.hashCode === leaf.hashCode
+                ? new HamtCollisionNode<KeyType, ValueType>(edit, leaf.hashCode, [node, leaf])
+                : createHamtBitmapNode(edit, shift, node, node.hashCode, leaf);
+            ++this.count;
+        }
+        return result;
     }
 
-    public iterate(): Iterator<T> {
-        return this._innerIterable.iterate().where(this._condition);
+    public remove(key: KeyType, edit: Object): void {
+        const newRoot = this.removeFromNode(edit, 0, this.root, this.getHashCode(key), key) as HamtBitmapNode<KeyType, ValueType>;
+        this.root = newRoot ? newRoot : new HamtBitmapNode<KeyType, ValueType>(edit, 0, []);
     }
-}
 
-function getCountWithSkip<T>(iterable: Iterable<T>, toSkip: number): number {
-    let result: number = iterable.getCount();
-    if (result <= toSkip) {
-        result = 0;
-    }
-    else {
-        result -= toSkip;
+    /**
+     * Remove the provided key from the provided node. Return the node that should replace the
+     * provided node, or undefined if the provided node is now empty.
+     */
+    private removeFromNode(edit: Object, shift: number, node: HamtChild<KeyType, ValueType>, hashCode: number, key: KeyType): HamtChild<KeyType, ValueType> {
+        let result: HamtChild<KeyType, ValueType> = node;
+        if (node instanceof HamtBitmapNode) {
+            const bit: number = getHamtBit(hashCode, shift);
+            if (node.bitmap & bit) {
+                const index: number = getHamtIndex(node.bitmap, bit);
+                const child: HamtChild<KeyType, ValueType> = node.children[index];
+                const newChild: HamtChild<KeyType, ValueType> = this.removeFromNode(edit, shift + hamtBits, child, hashCode, key);
+                if (newChild !== child) {
+                    if (newChild) {
+                        const editableNode: HamtBitmapNode<KeyType, ValueType> = getEditableHamtBitmapNode(edit, node);
+                        editableNode.children[index] = newChild;
+                        result = editableNode;
+                    }
+                    else if (node.bitmap === bit) {
+                        result = undefined;
+                    }
+                    else {
+                        const editableNode: HamtBitmapNode<KeyType, ValueType> = getEditableHamtBitmapNode(edit, node);
+                        editableNode.children.splice(index, 1);
+                        editableNode.bitmap &= ~bit;
+                        result = shift > 0 && editableNode.children.length === 1 && editableNode.children[0] instanceof HamtLeaf
+                            ? editableNode.children[0]
+                            : editableNode;
+                    }
+                }
+            }
+        }
+        else if (node instanceof HamtCollisionNode) {
+            if (node.hashCode === hashCode) {
+                let index: number = 0;
+                while (index < node.leaves.length && !this.matches(node.leaves[index], hashCode, key)) {
+                    ++index;
+                }
+
+                if (index < node.leaves.length) {
+                    if (node.leaves.length === 2) {
+                        result = node.leaves[1 - index];
+                    }
+                    else {
+                        const editableNode: HamtCollisionNode<KeyType, ValueType> = getEditableHamtCollisionNode(edit, node);
+                        editableNode.leaves.splice(index, 1);
+                        result = editableNode;
+                    }
+                    --this.count;
+                }
+            }
+        }
+        else if (this.matches(node, hashCode, key)) {
+            result = undefined;
+            --this.count;
+        }
+        return result;
     }
-    return result;
 }
 
-class SkipIterable<T> extends IterableBase<T> {
-    constructor(private _innerIterable: Iterable<T>, private _toSkip: number) {
+/**
+ * An Iterator that walks the leaves of a hash array mapped trie.
+ */
+class HashArrayMappedTrieIterator<KeyType, ValueType> extends IteratorBase<KeyValuePair<KeyType, ValueType>> {
+    private _hasStarted: boolean = false;
+    private _currentLeaf: HamtLeaf<KeyType, ValueType>;
+    private _stack = new Stack<{ children: HamtChild<KeyType, ValueType>[], index: number }>();
+
+    constructor(root: HamtBitmapNode<KeyType, ValueType>) {
         super();
-    }
 
-    public iterate(): Iterator<T> {
-        return this._innerIterable.iterate().skip(this._toSkip);
+        this._stack.push({ children: root.children, index: 0 });
     }
 
-    public getCount(): number {
-        return getCountWithSkip(this._innerIterable, this._toSkip);
+    public hasStarted(): boolean {
+        return this._hasStarted;
     }
-}
 
-function getCountWithTake<T>(iterable: Iterable<T>, toTake: number): number {
-    let result: number = iterable.getCount();
-    if (toTake < result) {
-        result = toTake;
+    public hasCurrent(): boolean {
+        return isDefined(this._currentLeaf);
     }
-    return result;
-}
 
-class TakeIterable<T> extends IterableBase<T> {
-    constructor(private _innerIterable: Iterable<T>, private _toTake: number) {
-        super();
+    public getCurrent(): KeyValuePair<KeyType, ValueType> {
+        return this._currentLeaf ? this._currentLeaf.pair : undefined;
     }
 
-    public iterate(): Iterator<T> {
-        return this._innerIterable.iterate().take(this._toTake);
-    }
+    public next(): boolean {
+        this._hasStarted = true;
+        this._currentLeaf = undefined;
 
-    public getCount(): number {
-        return getCountWithTake(this._innerIterable, this._toTake);
+        while (!this._currentLeaf && this._stack.any()) {
+            const top = this._stack.peek();
+            if (top.index === top.children.length) {
+                this._stack.pop();
+            }
+            else {
+                const child: HamtChild<KeyType, ValueType> = top.children[top.index++];
+                if (child instanceof HamtBitmapNode) {
+                    this._stack.push({ children: child.children, index: 0 });
+                }
+                else if (child instanceof HamtCollisionNode) {
+                    this._stack.push({ children: child.leaves, index: 0 });
+                }
+                else {
+                    this._currentLeaf = child;
+                }
+            }
+        }
+
+        return this.hasCurrent();
     }
 }
 
-class MapIterable<OuterT, InnerT> implements Iterable<OuterT> {
-    constructor(private _innerIterable: Iterable<InnerT>, private _mapFunction: (value: InnerT) => OuterT) {
-    }
+/**
+ * A mutable builder that can efficiently make many changes before producing a PersistentMap.
+ */
+export interface PersistentMapBuilder<KeyType, ValueType> {
+    /**
+     * Get the number of entries in this builder.
+     */
+    getCount(): number;
 
-    [Symbol.iterator](): JavascriptIterator<OuterT> {
-        return new JavascriptIterator<OuterT>(this.iterate());
-    }
+    /**
+     * Get whether or not this builder contains the provided key.
+     */
+    containsKey(key: KeyType): boolean;
 
-    public iterate(): Iterator<OuterT> {
-        return this._innerIterable.iterate().map(this._mapFunction);
-    }
+    /**
+     * Get the value associated with the provided key. If the provided key is not found, then
+     * undefined will be returned.
+     */
+    get(key: KeyType): ValueType;
 
-    public any(condition?: (value: OuterT) => boolean): boolean {
-        return this.iterate().any(condition);
-    }
+    /**
+     * Add the provided key value pair to this builder. If an entry already exists with the
+     * provided key, its value will be overwritten.
+     */
+    add(key: KeyType, value: ValueType): void;
 
-    public getCount(): number {
-        return this._innerIterable.getCount();
-    }
+    /**
+     * Add each of the provided pairs to this builder.
+     */
+    addAll(keyValuePairs: KeyValuePair<KeyType, ValueType>[] | Iterable<KeyValuePair<KeyType, ValueType>>): void;
 
-    public contains(value: OuterT, comparison?: (lhs: OuterT, rhs: OuterT) => boolean): boolean {
-        if (!comparison) {
-            comparison = (lhs: OuterT, rhs: OuterT) => lhs === rhs;
-        }
+    /**
+     * Remove the entry with the provided key from this builder.
+     */
+    remove(key: KeyType): void;
 
-        return this.any((iterableValue: OuterT) => comparison(iterableValue, value));
-    }
+    /**
+     * Create a PersistentMap from the entries in this builder. Later changes to this builder will
+     * not affect the returned PersistentMap.
+     */
+    toPersistentMap(): PersistentMap<KeyType, ValueType>;
+}
 
-    public first(condition?: (value: OuterT) => boolean): OuterT {
-        return this.iterate().first(condition);
-    }
+class HashArrayMappedTrieBuilder<KeyType, ValueType> implements PersistentMapBuilder<KeyType, ValueType> {
+    private _edit: Object = {};
 
-    public last(condition?: (value: OuterT) => boolean): OuterT {
-        return this.iterate().last(condition);
+    constructor(private _trie: HashArrayMappedTrie<KeyType, ValueType>, private _createMap: (trie: HashArrayMappedTrie<KeyType, ValueType>) => PersistentMap<KeyType, ValueType>) {
     }
 
-    public where(condition: (value: OuterT) => boolean): Iterable<OuterT> {
-        return condition ? new WhereIterable(this, condition) : this;
+    public getCount(): number {
+        return this._trie.count;
     }
 
-    public skip(toSkip: number): Iterable<OuterT> {
-        return toSkip && 0 < toSkip ? new SkipIterable(this, toSkip) : this;
+    public containsKey(key: KeyType): boolean {
+        return isDefined(this._trie.getLeaf(key));
     }
 
-    public skipLast(toSkip: number): Iterable<OuterT> {
-        return toSkip && 0 < toSkip ? this.take(this.getCount() - toSkip) : this;
+    public get(key: KeyType): ValueType {
+        const leaf: HamtLeaf<KeyType, ValueType> = this._trie.getLeaf(key);
+        return leaf ? leaf.pair.value : undefined;
     }
 
-    public take(toTake: number): Iterable<OuterT> {
-        return toTake && 0 < toTake ? new TakeIterable(this, toTake) : new ArrayList<OuterT>();
+    public add(key: KeyType, value: ValueType): void {
+        this._trie.set(key, value, this._edit);
     }
 
-    public takeLast(toTake: number): Iterable<OuterT> {
-        let result: Iterable<OuterT>;
-        if (!toTake || toTake < 0) {
-            result = new ArrayList<OuterT>();
-        }
-        else {
-            const count: number = this.getCount();
-            if (count <= toTake) {
-                result = this;
-            }
-            else {
-                result = this.skip(count - toTake);
+    public addAll(keyValuePairs: KeyValuePair<KeyType, ValueType>[] | Iterable<KeyValuePair<KeyType, ValueType>>): void {
+        if (keyValuePairs) {
+            for (const keyValuePair of keyValuePairs) {
+                this.add(keyValuePair.key, keyValuePair.value);
             }
         }
-        return result;
-    }
-
-    public map<NewT>(mapFunction: (value: OuterT) => NewT): Iterable<NewT> {
-        return mapFunction ? new MapIterable<NewT, OuterT>(this, mapFunction) : new ArrayList<NewT>();
     }
 
-    public concatenate(toConcatenate: Iterable<OuterT> | OuterT[]): Iterable<OuterT> {
-        return toConcatenate ? new ConcatenateIterable<OuterT>(this, toConcatenate) : this;
+    public remove(key: KeyType): void {
+        this._trie.remove(key, this._edit);
     }
 
-    public toArray(): OuterT[] {
-        return this.iterate().toArray();
+    public toPersistentMap(): PersistentMap<KeyType, ValueType> {
+        // Nodes that were created with the old edit token now belong to the returned map, so
+        // later changes to this builder must copy them.
+        this._edit = {};
+        return this._createMap(this._trie.clone());
     }
+}
 
-    public endsWith(values: Iterable<OuterT>): boolean {
-        let result: boolean;
+/**
+ * An immutable map/dictionary collection that is stored in a hash array mapped trie. Changing a
+ * PersistentMap returns a new PersistentMap that shares most of its structure with the original,
+ * so both versions can be kept cheaply. Entries are iterated in the order of their keys' hash
+ * codes.
+ */
+export class PersistentMap<KeyType, ValueType> extends IterableBase<KeyValuePair<KeyType, ValueType>> {
+    private _trie: HashArrayMappedTrie<KeyType, ValueType>;
 
-        if (!values) {
-            result = false;
-        }
-        else {
-            const valuesCount: number = values.getCount();
-            if (valuesCount === 0) {
-                result = false;
-            }
-            else if (this.getCount() < valuesCount) {
-                result = false;
-            }
-            else {
-                result = true;
+    /**
+     * Create a new PersistentMap.
+     * @param initialValues The key value pairs to add to the new PersistentMap.
+     * @param keyComparer The EqualityComparer that determines whether two keys are equal and that
+     *      creates hash codes for keys, or an equality function. If this is not provided, then keys
+     *      will be compared with '==='.
+     */
+    constructor(initialValues?: KeyValuePair<KeyType, ValueType>[] | Iterable<KeyValuePair<KeyType, ValueType>>, keyComparer?: EqualityComparison<KeyType>) {
+        super();
 
-                const thisLastValuesIterator: Iterator<OuterT> = this.takeLast(valuesCount).iterate();
-                const valuesIterator: Iterator<OuterT> = values.iterate();
-                while (thisLastValuesIterator.next() === valuesIterator.next() && thisLastValuesIterator.hasCurrent()) {
-                    if (thisLastValuesIterator.getCurrent() !== valuesIterator.getCurrent()) {
-                        result = false;
-                        break;
-                    }
-                }
+        this._trie = new HashArrayMappedTrie<KeyType, ValueType>(toEqualityComparer(keyComparer));
+        if (initialValues) {
+            const edit: Object = {};
+            for (const keyValuePair of initialValues) {
+                this._trie.set(keyValuePair.key, keyValuePair.value, edit);
             }
         }
+    }
+
+    /**
+     * Create a builder that starts out empty.
+     * @param keyComparer The EqualityComparer that determines whether two keys are equal and that
+     *      creates hash codes for keys, or an equality function. If this is not provided, then keys
+     *      will be compared with '==='.
+     */
+    public static createBuilder<KeyType, ValueType>(keyComparer?: EqualityComparison<KeyType>): PersistentMapBuilder<KeyType, ValueType> {
+        return new PersistentMap<KeyType, ValueType>(undefined, keyComparer).toBuilder();
+    }
 
+    private static fromTrie<KeyType, ValueType>(trie: HashArrayMappedTrie<KeyType, ValueType>): PersistentMap<KeyType, ValueType> {
+        const result = new PersistentMap<KeyType, ValueType>();
+        result._trie = trie;
         return result;
     }
 
-    public minimum(lessThanComparison?: (lhs: OuterT, rhs: OuterT) => boolean): OuterT {
-        return this.iterate().minimum(lessThanComparison);
+    public iterate(): Iterator<KeyValuePair<KeyType, ValueType>> {
+        return new HashArrayMappedTrieIterator<KeyType, ValueType>(this._trie.root);
+    }
+
+    public any(condition?: (value: KeyValuePair<KeyType, ValueType>) => boolean): boolean {
+        return condition ? super.any(condition) : this._trie.count > 0;
+    }
+
+    /**
+     * Get the number of entries in this map.
+     */
+    public getCount(): number {
+        return this._trie.count;
+    }
+
+    /**
+     * Get whether or not the map contains the provided key.
+     */
+    public containsKey(key: KeyType): boolean {
+        return isDefined(this._trie.getLeaf(key));
     }
 
-    public maximum(greaterThanComparison?: (lhs: OuterT, rhs: OuterT) => boolean): OuterT {
-        return this.iterate().maximum(greaterThanComparison);
+    /**
+     * Get the value associated with the provided key. If the provided key is not found in the map,
+     * then undefined will be returned.
+     */
+    public get(key: KeyType): ValueType {
+        const leaf: HamtLeaf<KeyType, ValueType> = this._trie.getLeaf(key);
+        return leaf ? leaf.pair.value : undefined;
     }
-}
 
-class ConcatenateIterable<T> extends IterableBase<T> {
-    private _first: Iterable<T>;
-    private _second: Iterable<T>;
+    /**
+     * Get a new PersistentMap with the provided key value pair. If an entry already exists with the
+     * provided key, its value will be overwritten in the new map. If the entry already has the
+     * provided value, then this map will be returned.
+     */
+    public add(key: KeyType, value: ValueType): PersistentMap<KeyType, ValueType> {
+        const trie: HashArrayMappedTrie<KeyType, ValueType> = this._trie.clone();
+        trie.set(key, value, undefined);
+        return trie.root === this._trie.root ? this : PersistentMap.fromTrie(trie);
+    }
 
-    constructor(first: Iterable<T>, second: Iterable<T> | T[]) {
-        super();
-        this._first = first;
-        this._second = new ArrayList<T>(second);
+    /**
+     * Get a new PersistentMap with each of the provided pairs added to this map.
+     */
+    public addAll(keyValuePairs: KeyValuePair<KeyType, ValueType>[] | Iterable<KeyValuePair<KeyType, ValueType>>): PersistentMap<KeyType, ValueType> {
+        const builder: PersistentMapBuilder<KeyType, ValueType> = this.toBuilder();
+        builder.addAll(keyValuePairs);
+        return builder.toPersistentMap();
     }
 
-    public iterate(): Iterator<T> {
-        return this._first.iterate().concatenate(this._second.iterate());
+    /**
+     * Get a new PersistentMap without the entry with the provided key. If the key isn't found, then
+     * this map will be returned.
+     */
+    public remove(key: KeyType): PersistentMap<KeyType, ValueType> {
+        const trie: HashArrayMappedTrie<KeyType, ValueType> = this._trie.clone();
+        trie.remove(key, undefined);
+        return trie.root === this._trie.root ? this : PersistentMap.fromTrie(trie);
     }
-}
 
-export interface Indexable<T> extends Iterable<T> {
     /**
-     * Create an iterator for this collection that iterates the collection in reverse order.
+     * Create a builder that starts out with the entries of this map.
      */
-    iterateReverse(): Iterator<T>;
+    public toBuilder(): PersistentMapBuilder<KeyType, ValueType> {
+        return new HashArrayMappedTrieBuilder<KeyType, ValueType>(this._trie.clone(), (trie: HashArrayMappedTrie<KeyType, ValueType>) => PersistentMap.fromTrie(trie));
+    }
+}
 
+/**
+ * The reasons that an entry can be evicted from a Cache.
+ */
+export const enum CacheEvictionReason {
     /**
-     * Get the value in this collection at the provided index. If the provided index is not defined
-     * or is outside of this Indexable's bounds, then undefined will be returned.
+     * The entry was evicted to make room for a new entry.
      */
-    get(index: number): T;
+    Capacity,
 
     /**
-     * Get the value in this collection at the provided index from the end of the collection. If the
-     * provided index is not defined or is outside of this Indexable's bounds, then undefined will
-     * be returned.
+     * The entry was evicted because its time to live ran out.
      */
-    getFromEnd(index: number): T;
+    Expired
+}
 
+/**
+ * An entry that was evicted from a Cache.
+ */
+export interface CacheEviction<KeyType, ValueType> {
     /**
-     * Get an Indexable that skips the first toSkip number of values from this Indexable.
+     * The key of the evicted entry.
      */
-    skip(toSkip: number): Indexable<T>;
+    key: KeyType;
 
     /**
-     * Get an Indexable based on this Indexable that only returns the provided number of values.
+     * The value of the evicted entry.
      */
-    take(toTake: number): Indexable<T>;
+    value: ValueType;
 
     /**
-     * Get an Indexable based on this Indexable that maps each of this Indexable's values to a
-     * different value.
+     * The reason that the entry was evicted.
      */
-    map<U>(mapFunction: (value: T) => U): Indexable<U>;
+    reason: CacheEvictionReason;
 }
 
-export abstract class IndexableBase<T> extends IterableBase<T> implements Indexable<T> {
-    public abstract iterateReverse(): Iterator<T>;
-
-    public abstract get(index: number): T;
-
-    public getFromEnd(index: number): T {
-        return this.get(this.getCount() - 1 - index);
-    }
-
-    public indexOf(value: T, comparer?: (lhs: T, rhs: T) => boolean): number {
-        if (!comparer) {
-            comparer = (lhs: T, rhs: T) => lhs === rhs;
-        }
+/**
+ * Statistics about how a Cache has been used.
+ */
+export interface CacheStatistics {
+    /**
+     * The number of lookups that found a value in the cache.
+     */
+    hitCount: number;
 
-        let result: number;
+    /**
+     * The number of lookups that didn't find a value in the cache.
+     */
+    missCount: number;
 
-        let searchIndex: number = 0;
-        for (const searchValue of this) {
-            if (comparer(searchValue, value)) {
-                result = searchIndex;
-                break;
-            }
-            else {
-                ++searchIndex;
-            }
-        }
+    /**
+     * The number of entries that the cache has evicted.
+     */
+    evictionCount: number;
+}
 
-        return result;
-    }
+/**
+ * A map that may evict its entries on its own, such as when it runs out of room or when an entry
+ * gets too old.
+ */
+export interface Cache<KeyType, ValueType> extends Iterable<KeyValuePair<KeyType, ValueType>> {
+    /**
+     * Get the maximum number of entries that this cache will hold, or undefined if this cache
+     * doesn't have a capacity.
+     */
+    getCapacity(): number;
 
-    public skip(toSkip: number): Indexable<T> {
-        return toSkip && 0 < toSkip ? new SkipIndexable<T>(this, toSkip) : this;
-    }
+    /**
+     * Get whether or not this cache contains the provided key. This doesn't count as a hit or a
+     * miss.
+     */
+    containsKey(key: KeyType): boolean;
 
-    public take(toTake: number): Indexable<T> {
-        let result: Indexable<T>;
+    /**
+     * Get the value associated with the provided key. If the provided key is not found in this
+     * cache, then undefined will be returned.
+     */
+    get(key: KeyType): ValueType;
 
-        return toTake && 0 < toTake ? new TakeIndexable<T>(this, toTake) : new ArrayList<T>();
-    }
+    /**
+     * Get the value associated with the provided key. If the provided key is not found in this
+     * cache, then the value will be created with the provided function and added to this cache.
+     */
+    getOrAdd(key: KeyType, createValue: (key: KeyType) => ValueType): ValueType;
 
     /**
-     * Get an Indexable based on this Indexable that maps each of this Indexable's values to a
-     * different value.
+     * Add the provided key value pair to this cache. If an entry already exists with the provided
+     * key, the existing entry will be overwritten by the provided value.
      */
-    public map<NewT>(mapFunction: (value: T) => NewT): Indexable<NewT> {
-        return mapFunction ? new MapIndexable<NewT,T>(this, mapFunction) : new ArrayList<NewT>();
-    }
-}
+    add(key: KeyType, value: ValueType): void;
 
-class SkipIndexable<T> extends IndexableBase<T> {
-    constructor(private _innerIndexable: Indexable<T>, private _toSkip: number) {
-        super();
-    }
+    /**
+     * Remove the entry with the provided key. This doesn't count as an eviction.
+     */
+    remove(key: KeyType): void;
 
-    public getCount(): number {
-        return getCountWithSkip(this._innerIndexable, this._toSkip);
-    }
+    /**
+     * Remove all of the entries from this cache. This doesn't count as an eviction.
+     */
+    clear(): void;
 
-    public iterate(): Iterator<T> {
-        return this._innerIndexable.iterate().skip(this._toSkip);
-    }
+    /**
+     * Get a snapshot of the hit, miss and eviction counts of this cache.
+     */
+    getStatistics(): CacheStatistics;
 
-    public iterateReverse(): Iterator<T> {
-        return this._innerIndexable.iterateReverse().take(this.getCount());
-    }
+    /**
+     * Set the hit, miss and eviction counts of this cache back to zero.
+     */
+    resetStatistics(): void;
 
-    public get(index: number): T {
-        return 0 <= index ? this._innerIndexable.get(this._toSkip + index) : undefined;
-    }
+    /**
+     * Register the provided listener to be called with the entries that this cache evicts. Entries
+     * that are evicted by the same operation are sent together. Dispose of the returned Disposable
+     * to stop the listener from being called.
+     */
+    onEviction(listener: (evictions: Indexable<CacheEviction<KeyType, ValueType>>) => void): Disposable;
 }
 
-class TakeIndexable<T> extends IndexableBase<T> {
-    constructor(private _innerIndexable: Indexable<T>, private _toTake: number) {
-        super();
-    }
-
-    public getCount(): number {
-        return getCountWithTake(this._innerIndexable, this._toTake);
-    }
-
-    public iterate(): Iterator<T> {
-        return this._innerIndexable.iterate().take(this._toTake);
+/**
+ * An entry in a Cache, along with the time that it expires at.
+ */
+class CacheEntry<KeyType, ValueType> {
+    constructor(public pair: KeyValuePair<KeyType, ValueType>, public expirationTime: number) {
     }
+}
 
-    public iterateReverse(): Iterator<T> {
-        return this._innerIndexable.iterateReverse().skip(this._innerIndexable.getCount() - this.getCount());
-    }
+/**
+ * The base class for Caches. The entries are kept in a HashMap for lookups and in a DoubleLinkList
+ * that is ordered from the next entry to be evicted to the last entry to be evicted.
+ */
+export abstract class CacheBase<KeyType, ValueType> extends IterableBase<KeyValuePair<KeyType, ValueType>> implements Cache<KeyType, ValueType> {
+    private _nodes: HashMap<KeyType, DoubleLinkNode<CacheEntry<KeyType, ValueType>>>;
+    private _entries = new DoubleLinkList<CacheEntry<KeyType, ValueType>>();
+    private _notifier = new ChangeNotifier<CacheEviction<KeyType, ValueType>>();
+    private _hitCount: number = 0;
+    private _missCount: number = 0;
+    private _evictionCount: number = 0;
 
-    public get(index: number): T {
-        return 0 <= index && index < this.getCount() ? this._innerIndexable.get(index) : undefined;
-    }
-}
+    /**
+     * Create a new CacheBase.
+     * @param _capacity The maximum number of entries that this cache will hold. If this is not
+     *      provided, then entries will never be evicted to make room for new entries.
+     * @param _refreshOnGet Whether or not getting an entry's value makes it the last entry to be
+     *      evicted.
+     * @param keyComparer The EqualityComparer that determines whether two keys are equal and that
+     *      creates hash codes for keys. If this is not provided, then keys will be compared with
+     *      '==='.
+     */
+    constructor(private _capacity: number, private _refreshOnGet: boolean, keyComparer?: EqualityComparer<KeyType>) {
+        super();
 
-class MapIndexable<OuterT, InnerT> implements Indexable<OuterT> {
-    constructor(private _innerIndexable: Indexable<InnerT>, private _mapFunction: (value: InnerT) => OuterT) {
+        this._nodes = new HashMap<KeyType, DoubleLinkNode<CacheEntry<KeyType, ValueType>>>(undefined, keyComparer);
     }
 
-    [Symbol.iterator](): JavascriptIterator<OuterT> {
-        return new JavascriptIterator<OuterT>(this.iterate());
+    /**
+     * Get the time that an entry added now will expire at, or undefined if the entry never expires.
+     */
+    protected getExpirationTime(): number {
+        return undefined;
     }
 
-    public iterate(): Iterator<OuterT> {
-        return this._innerIndexable.iterate().map(this._mapFunction);
+    /**
+     * Get whether or not an entry with the provided expiration time has expired.
+     */
+    protected isExpired(expirationTime: number): boolean {
+        return false;
     }
 
-    public iterateReverse(): Iterator<OuterT> {
-        return this._innerIndexable.iterateReverse().map(this._mapFunction);
+    /**
+     * Iterate over the entries in this cache, starting with the entry that will be evicted next.
+     */
+    public iterate(): Iterator<KeyValuePair<KeyType, ValueType>> {
+        this.removeExpired();
+        return this._entries.iterate().map((entry: CacheEntry<KeyType, ValueType>) => entry.pair);
     }
 
-    public get(index: number): OuterT {
-        return this._mapFunction(this._innerIndexable.get(index));
+    public any(condition?: (value: KeyValuePair<KeyType, ValueType>) => boolean): boolean {
+        return condition ? super.any(condition) : this.getCount() > 0;
     }
 
-    public getFromEnd(index: number): OuterT {
-        return this._mapFunction(this._innerIndexable.getFromEnd(index));
+    /**
+     * Get the number of entries in this cache.
+     */
+    public getCount(): number {
+        this.removeExpired();
+        return this._entries.getCount();
     }
 
-    public any(condition?: (value: OuterT) => boolean): boolean {
-        return this.iterate().any(condition);
+    public getCapacity(): number {
+        return this._capacity;
     }
 
-    public getCount(): number {
-        return this._innerIndexable.getCount();
+    public containsKey(key: KeyType): boolean {
+        return isDefined(this.getNode(key));
     }
 
-    public contains(value: OuterT, comparison?: (lhs: OuterT, rhs: OuterT) => boolean): boolean {
-        if (!comparison) {
-            comparison = (lhs: OuterT, rhs: OuterT) => lhs === rhs;
+    public get(key: KeyType): ValueType {
+        const node: DoubleLinkNode<CacheEntry<KeyType, ValueType>> = this.getNode(key);
+        if (!node) {
+            ++this._missCount;
+            return undefined;
         }
 
-        return this.any((iterableValue: OuterT) => comparison(iterableValue, value));
-    }
-
-    public first(condition?: (value: OuterT) => boolean): OuterT {
-        return this.iterate().first(condition);
+        ++this._hitCount;
+        if (this._refreshOnGet && node !== this._entries.getLastNode()) {
+            this._entries.removeNode(node);
+            this._nodes.add(key, this._entries.addLast(node.getValue()));
+        }
+        return node.getValue().pair.value;
     }
 
-    public last(condition?: (value: OuterT) => boolean): OuterT {
-        return this.iterate().last(condition);
-    }
+    public getOrAdd(key: KeyType, createValue: (key: KeyType) => ValueType): ValueType {
+        if (this.containsKey(key)) {
+            return this.get(key);
+        }
 
-    public where(condition: (value: OuterT) => boolean): Iterable<OuterT> {
-        return condition ? new WhereIterable(this, condition) : this;
+        ++this._missCount;
+        const value: ValueType = createValue(key);
+        this.add(key, value);
+        return value;
     }
 
-    public skip(toSkip: number): Indexable<OuterT> {
-        return toSkip && 0 < toSkip ? new SkipIndexable(this, toSkip) : this;
-    }
+    public add(key: KeyType, value: ValueType): void {
+        this.removeNode(key);
 
-    public skipLast(toSkip: number): Indexable<OuterT> {
-        return toSkip && 0 < toSkip ? this.take(this.getCount() - toSkip) : this;
-    }
+        const entry = new CacheEntry<KeyType, ValueType>({ key: key, value: value }, this.getExpirationTime());
+        this._nodes.add(key, this._entries.addLast(entry));
 
-    public take(toTake: number): Indexable<OuterT> {
-        return toTake && 0 < toTake ? new TakeIndexable(this, toTake) : new ArrayList<OuterT>();
-    }
+        this._notifier.batch(() => {
+            this.removeExpired();
 
-    public takeLast(toTake: number): Indexable<OuterT> {
-        let result: Indexable<OuterT>;
-        if (!toTake || toTake < 0) {
-            result = new ArrayList<OuterT>();
-        }
-        else {
-            const count: number = this.getCount();
-            if (count <= toTake) {
-                result = this;
-            }
-            else {
-                result = this.skip(count - toTake);
+            if (isDefined(this._capacity)) {
+                while (this._entries.getCount() > this._capacity) {
+                    this.evict(this._entries.getFirstNode(), CacheEvictionReason.Capacity);
+                }
             }
-        }
-        return result;
-    }
-
-    public map<NewT>(mapFunction: (value: OuterT) => NewT): Indexable<NewT> {
-        return mapFunction ? new MapIndexable<NewT, OuterT>(this, mapFunction) : new ArrayList<NewT>();
+        });
     }
 
-    public concatenate(toConcatenate: Iterable<OuterT> | OuterT[]): Iterable<OuterT> {
-        return toConcatenate ? new ConcatenateIterable<OuterT>(this, toConcatenate) : this;
+    public remove(key: KeyType): void {
+        this.removeNode(key);
     }
 
-    public toArray(): OuterT[] {
-        return this.iterate().toArray();
+    public clear(): void {
+        this._nodes.clear();
+        this._entries.clear();
     }
 
-    public endsWith(values: Iterable<OuterT>): boolean {
-        let result: boolean;
-
-        if (!values) {
-            result = false;
-        }
-        else {
-            const valuesCount: number = values.getCount();
-            if (valuesCount === 0) {
-                result = false;
-            }
-            else if (this.getCount() < valuesCount) {
-                result = false;
-            }
-            else {
-                result = true;
-
-                const thisLastValuesIterator: Iterator<OuterT> = this.takeLast(valuesCount).iterate();
-                const valuesIterator: Iterator<OuterT> = values.iterate();
-                while (thisLastValuesIterator.next() === valuesIterator.next() && thisLastValuesIterator.hasCurrent()) {
-                    if (thisLastValuesIterator.getCurrent() !== valuesIterator.getCurrent()) {
-                        result = false;
-                        break;
-                    }
-                }
+    /**
+     * Evict all of the entries in this cache that have expired.
+     */
+    public removeExpired(): void {
+        this._notifier.batch(() => {
+            let node: DoubleLinkNode<CacheEntry<KeyType, ValueType>> = this._entries.getFirstNode();
+            while (node && this.isExpired(node.getValue().expirationTime)) {
+                this.evict(node, CacheEvictionReason.Expired);
+                node = this._entries.getFirstNode();
             }
+        });
+    }
+
+    public getStatistics(): CacheStatistics {
+        return {
+            hitCount: this._hitCount,
+            missCount: this._missCount,
+            evictionCount: this._evictionCount
+        };
+    }
+
+    public resetStatistics(): void {
+        this._hitCount = 0;
+        this._missCount = 0;
+        this._evictionCount = 0;
+    }
+
+    public onEviction(listener: (evictions: Indexable<CacheEviction<KeyType, ValueType>>) => void): Disposable {
+        return this._notifier.subscribe(listener);
+    }
+
+    /**
+     * Get the node for the provided key. If the node's entry has expired, then it will be evicted
+     * and undefined will be returned.
+     */
+    private getNode(key: KeyType): DoubleLinkNode<CacheEntry<KeyType, ValueType>> {
+        let node: DoubleLinkNode<CacheEntry<KeyType, ValueType>> = this._nodes.get(key);
+        if (node && this.isExpired(node.getValue().expirationTime)) {
+            this.evict(node, CacheEvictionReason.Expired);
+            node = undefined;
         }
+        return node;
+    }
 
-        return result;
+    private removeNode(key: KeyType): void {
+        const node: DoubleLinkNode<CacheEntry<KeyType, ValueType>> = this._nodes.get(key);
+        if (node) {
+            this._nodes.remove(key);
+            this._entries.removeNode(node);
+        }
     }
 
-    public minimum(lessThanComparison?: (lhs: OuterT, rhs: OuterT) => boolean): OuterT {
-        return this.iterate().minimum(lessThanComparison);
+    private evict(node: DoubleLinkNode<CacheEntry<KeyType, ValueType>>, reason: CacheEvictionReason): void {
+        const pair: KeyValuePair<KeyType, ValueType> = node.getValue().pair;
+        this.removeNode(pair.key);
+        ++this._evictionCount;
+        this._notifier.notify({ key: pair.key, value: pair.value, reason: reason });
     }
+}
 
-    public maximum(greaterThanComparison?: (lhs: OuterT, rhs: OuterT) => boolean): OuterT {
-        return this.iterate().maximum(greaterThanComparison);
+/**
+ * A Cache that holds a limited number of entries. When a new entry doesn't fit, the least recently
+ * used entry is evicted. Getting and adding entries takes constant time.
+ */
+export class LruCache<KeyType, ValueType> extends CacheBase<KeyType, ValueType> {
+    /**
+     * Create a new LruCache.
+     * @param capacity The maximum number of entries that this cache will hold.
+     * @param keyComparer The EqualityComparer that determines whether two keys are equal and that
+     *      creates hash codes for keys. If this is not provided, then keys will be compared with
+     *      '==='.
+     */
+    constructor(capacity: number, keyComparer?: EqualityComparer<KeyType>) {
+        super(capacity >= 0 ? capacity : 0, true, keyComparer);
     }
 }
 
-class IndexableIterator<T> extends IteratorBase<T> {
-    private _currentIndex: number;
-    private _count: number;
+/**
+ * A Cache whose entries expire after a fixed amount of time. Expired entries are evicted the next
+ * time that the cache is used. Adding an entry again restarts its time to live.
+ */
+export class TtlCache<KeyType, ValueType> extends CacheBase<KeyType, ValueType> {
+    /**
+     * Create a new TtlCache.
+     * @param _timeToLive The number of milliseconds (as measured by the clock) that an entry stays
+     *      in this cache after it is added.
+     * @param _clock The function that returns the current time. If this is not provided, then
+     *      Date.now() will be used.
+     * @param keyComparer The EqualityComparer that determines whether two keys are equal and that
+     *      creates hash codes for keys. If this is not provided, then keys will be compared with
+     *      '==='.
+     */
+    constructor(private _timeToLive: number, private _clock: () => number = Date.now, keyComparer?: EqualityComparer<KeyType>) {
+        super(undefined, false, keyComparer);
+    }
 
-    constructor(private _indexable: Indexable<T>) {
-        super();
+    /**
+     * Get the number of milliseconds that an entry stays in this cache after it is added.
+     */
+    public getTimeToLive(): number {
+        return this._timeToLive;
     }
 
-    public hasStarted(): boolean {
-        return isDefined(this._currentIndex);
+    protected getExpirationTime(): number {
+        return this._clock() + this._timeToLive;
     }
 
-    public hasCurrent(): boolean {
-        return this.hasStarted() && this._currentIndex < this._count;
+    protected isExpired(expirationTime: number): boolean {
+        return this._clock() >= expirationTime;
     }
+}
 
-    public getCurrent(): T {
-        return this.hasCurrent() ? this._indexable.get(this._currentIndex) : undefined;
+/**
+ * A node in the balanced search tree of a SortedMap.
+ */
+class SortedMapNode<KeyType, ValueType> {
+    public left: SortedMapNode<KeyType, ValueType>;
+    public right: SortedMapNode<KeyType, ValueType>;
+    public height: number = 1;
+
+    constructor(public pair: KeyValuePair<KeyType, ValueType>) {
     }
+}
 
-    public next(): boolean {
-        if (!this.hasStarted()) {
-            this._currentIndex = 0;
-            this._count = this._indexable.getCount();
+function getHeight(node: SortedMapNode<any, any>): number {
+    return node ? node.height : 0;
+}
+
+function updateHeight(node: SortedMapNode<any, any>): void {
+    node.height = Math.max(getHeight(node.left), getHeight(node.right)) + 1;
+}
+
+function rotateLeft<KeyType, ValueType>(node: SortedMapNode<KeyType, ValueType>): SortedMapNode<KeyType, ValueType> {
+    const result: SortedMapNode<KeyType, ValueType> = node.right;
+    node.right = result.left;
+    result.left = node;
+    updateHeight(node);
+    updateHeight(result);
+    return result;
+}
+
+function rotateRight<KeyType, ValueType>(node: SortedMapNode<KeyType, ValueType>): SortedMapNode<KeyType, ValueType> {
+    const result: SortedMapNode<KeyType, ValueType> = node.left;
+    node.left = result.right;
+    result.right = node;
+    updateHeight(node);
+    updateHeight(result);
+    return result;
+}
+
+/**
+ * Restore the AVL balance of the provided node and return the root of the balanced subtree.
+ */
+function balance<KeyType, ValueType>(node: SortedMapNode<KeyType, ValueType>): SortedMapNode<KeyType, ValueType> {
+    let result: SortedMapNode<KeyType, ValueType> = node;
+
+    updateHeight(node);
+
+    const balanceFactor: number = getHeight(node.left) - getHeight(node.right);
+    if (balanceFactor > 1) {
+        if (getHeight(node.left.left) < getHeight(node.left.right)) {
+            node.left = rotateLeft(node.left);
         }
-        else if (this.hasCurrent()) {
-            this._currentIndex++;
+        result = rotateRight(node);
+    }
+    else if (balanceFactor < -1) {
+        if (getHeight(node.right.right) < getHeight(node.right.left)) {
+            node.right = rotateRight(node.right);
         }
-        return this.hasCurrent();
+        result = rotateLeft(node);
     }
+
+    return result;
 }
 
-class IndexableReverseIterator<T> extends IteratorBase<T> {
-    private _currentIndex: number;
+/**
+ * An Iterator that iterates through the nodes of a SortedMap's tree in key order. The iterated
+ * keys can be restricted to be greater than or equal to a lower bound and less than an upper
+ * bound.
+ */
+class SortedMapIterator<KeyType, ValueType> extends IteratorBase<KeyValuePair<KeyType, ValueType>> {
+    private _hasStarted: boolean = false;
+    private _currentNode: SortedMapNode<KeyType, ValueType>;
+    private _nodeStack: SortedMapNode<KeyType, ValueType>[] = [];
 
-    constructor(private _indexable: Indexable<T>) {
+    constructor(private _root: SortedMapNode<KeyType, ValueType>, private _comparer: (lhs: KeyType, rhs: KeyType) => number, private _reverse: boolean, private _lowerBound?: KeyType, private _upperBound?: KeyType) {
         super();
     }
 
     public hasStarted(): boolean {
-        return isDefined(this._currentIndex);
+        return this._hasStarted;
     }
 
     public hasCurrent(): boolean {
-        return this.hasStarted() && 0 <= this._currentIndex;
+        return isDefined(this._currentNode);
     }
 
-    public getCurrent(): T {
-        return this.hasCurrent() ? this._indexable.get(this._currentIndex) : undefined;
+    public getCurrent(): KeyValuePair<KeyType, ValueType> {
+        return this._currentNode ? this._currentNode.pair : undefined;
     }
 
-    public next(): boolean {
-        if (!this.hasStarted()) {
-            this._currentIndex = this._indexable.getCount() - 1;
-        }
-        else if (this.hasCurrent()) {
-            this._currentIndex--;
-        }
-        return this.hasCurrent();
+    private isAboveLowerBound(key: KeyType): boolean {
+        return !isDefined(this._lowerBound) || this._comparer(key, this._lowerBound) >= 0;
     }
-}
-
-export interface List<T> extends Indexable<T> {
-    add(value: T): void;
 
-    addAll(values: T[] | Iterable<T>): void;
+    private isBelowUpperBound(key: KeyType): boolean {
+        return !isDefined(this._upperBound) || this._comparer(key, this._upperBound) < 0;
+    }
 
     /**
-     * Remove all of the values from this List<T>.
+     * Push the provided node and its descendants that could be iterated before it onto the node
+     * stack.
      */
-    clear(): void;
-}
+    private pushNodes(node: SortedMapNode<KeyType, ValueType>): void {
+        while (node) {
+            if (!this._reverse) {
+                if (this.isAboveLowerBound(node.pair.key)) {
+                    this._nodeStack.push(node);
+                    node = node.left;
+                }
+                else {
+                    node = node.right;
+                }
+            }
+            else {
+                if (this.isBelowUpperBound(node.pair.key)) {
+                    this._nodeStack.push(node);
+                    node = node.right;
+                }
+                else {
+                    node = node.left;
+                }
+            }
+        }
+    }
 
-export abstract class ListBase<T> extends IndexableBase<T> implements List<T> {
-    public abstract add(value: T): void;
+    public next(): boolean {
+        if (!this._hasStarted) {
+            this._hasStarted = true;
+            this.pushNodes(this._root);
+        }
+        else if (this._currentNode) {
+            this.pushNodes(this._reverse ? this._currentNode.left : this._currentNode.right);
+        }
 
-    public addAll(values: T[] | Iterable<T>): void {
-        if (values) {
-            for (const value of values) {
-                this.add(value);
+        this._currentNode = this._nodeStack.pop();
+        if (this._currentNode) {
+            const key: KeyType = this._currentNode.pair.key;
+            if (this._reverse ? !this.isAboveLowerBound(key) : !this.isBelowUpperBound(key)) {
+                this._currentNode = undefined;
+                this._nodeStack = [];
             }
         }
-    }
 
-    public abstract clear(): void;
+        return this.hasCurrent();
+    }
 }
 
-export class ArrayList<T> extends ListBase<T> {
-    private _data: T[] = [];
+/**
+ * A map/dictionary collection that keeps its entries sorted by their keys in a balanced (AVL)
+ * search tree.
+ */
+export class SortedMap<KeyType, ValueType> extends IterableBase<KeyValuePair<KeyType, ValueType>> {
+    private _root: SortedMapNode<KeyType, ValueType>;
     private _count: number = 0;
+    private _comparer: (lhs: KeyType, rhs: KeyType) => number;
 
-    constructor(values?: T[] | Iterable<T>) {
+    /**
+     * Create a new SortedMap.
+     * @param initialValues The key value pairs to add to the new SortedMap.
+     * @param comparer An optional function that returns a negative number if lhs is less than rhs,
+     *      zero if they are equal, and a positive number if lhs is greater than rhs. If no comparer
+     *      is provided, then standard less than and greater than comparisons will be used, and NaN,
+     *      null and undefined keys will be ordered after all other keys.
+     */
+    constructor(initialValues?: KeyValuePair<KeyType, ValueType>[] | Iterable<KeyValuePair<KeyType, ValueType>>, comparer?: Comparison<KeyType>) {
         super();
 
-        this.addAll(values);
+        this._comparer = toCompareFunction(comparer);
+
+        this.addAll(initialValues);
     }
 
-    public iterate(): Iterator<T> {
-        return new IndexableIterator<T>(this);
+    /**
+     * Iterate through the entries of this map in ascending key order.
+     */
+    public iterate(): Iterator<KeyValuePair<KeyType, ValueType>> {
+        return new SortedMapIterator(this._root, this._comparer, false);
     }
 
-    public iterateReverse(): Iterator<T> {
-        return new IndexableReverseIterator<T>(this);
+    /**
+     * Iterate through the entries of this map in descending key order.
+     */
+    public iterateReverse(): Iterator<KeyValuePair<KeyType, ValueType>> {
+        return new SortedMapIterator(this._root, this._comparer, true);
     }
 
-    public get(index: number): T {
-        let result: T;
-        if (isDefined(index) && 0 <= index && index < this._count) {
-            result = this._data[index];
+    public any(condition?: (value: KeyValuePair<KeyType, ValueType>) => boolean): boolean {
+        return condition ? super.any(condition) : this._count > 0;
+    }
+
+    /**
+     * Get the number of entries in this map.
+     */
+    public getCount(): number {
+        return this._count;
+    }
+
+    private getNode(key: KeyType): SortedMapNode<KeyType, ValueType> {
+        let node: SortedMapNode<KeyType, ValueType> = this._root;
+        while (node) {
+            const comparison: number = this._comparer(key, node.pair.key);
+            if (comparison === 0) {
+                break;
+            }
+            node = comparison < 0 ? node.left : node.right;
         }
-        return result;
+        return node;
     }
 
-    public getFromEnd(index: number): T {
-        return this.get((this.getCount() - 1) - index);
+    private addNode(node: SortedMapNode<KeyType, ValueType>, key: KeyType, value: ValueType): SortedMapNode<KeyType, ValueType> {
+        let result: SortedMapNode<KeyType, ValueType>;
+        if (!node) {
+            result = new SortedMapNode<KeyType, ValueType>({ key: key, value: value });
+            ++this._count;
+        }
+        else {
+            const comparison: number = this._comparer(key, node.pair.key);
+            if (comparison === 0) {
+                node.pair = { key: key, value: value };
+                result = node;
+            }
+            else {
+                if (comparison < 0) {
+                    node.left = this.addNode(node.left, key, value);
+                }
+                else {
+                    node.right = this.addNode(node.right, key, value);
+                }
+                result = balance(node);
+            }
+        }
+        return result;
     }
 
     /**
-     * Set the ArrayList value at the provided index to be the provided value. If the index is not
-     * defined or is outside of the Arraylist's bounds, then this function will do nothing.
+     * Add the provide key value pair to the map. If an entry already exists with the provided key,
+     * the existing entry will be overwritten by the provided values.
      */
-    public set(index: number, value: T): void {
-        if (isDefined(index) && 0 <= index && index < this._count) {
-            this._data[index] = value;
-        }
+    public add(key: KeyType, value: ValueType): void {
+        this._root = this.addNode(this._root, key, value);
     }
 
     /**
-     * Set the last ArrayList value to be the provided value. If the ArrayList is empty, then this
-     * function will do nothing.
+     * Add each of the provided pairs to this map. If any of the entries already exists with the
+     * provided key, the existing entry will be overwritten by the provided value.
      */
-    public setLast(value: T): void {
-        if (this.any()) {
-            this._data[this._count - 1] = value;
+    public addAll(keyValuePairs: KeyValuePair<KeyType, ValueType>[] | Iterable<KeyValuePair<KeyType, ValueType>>): void {
+        if (keyValuePairs) {
+            for (const keyValuePair of keyValuePairs) {
+                this.add(keyValuePair.key, keyValuePair.value);
+            }
         }
     }
 
-    public any(condition?: (value: T) => boolean): boolean {
-        return condition ? super.any(condition) : this._count > 0;
+    /**
+     * Get whether or not the map contains the provided key.
+     */
+    public containsKey(key: KeyType): boolean {
+        return isDefined(this.getNode(key));
     }
 
-    public getCount(): number {
-        return this._count;
+    /**
+     * Get the value associated with the provided key. If the provided key is not found in the map,
+     * then undefined will be returned.
+     */
+    public get(key: KeyType): ValueType {
+        const node: SortedMapNode<KeyType, ValueType> = this.getNode(key);
+        return node ? node.pair.value : undefined;
     }
 
-    public add(value: T): void {
-        if (this._count === this._data.length) {
-            this._data.push(value);
-        }
-        else {
-            this._data[this._count] = value;
+    private removeNode(node: SortedMapNode<KeyType, ValueType>, key: KeyType): SortedMapNode<KeyType, ValueType> {
+        let result: SortedMapNode<KeyType, ValueType> = node;
+        if (node) {
+            const comparison: number = this._comparer(key, node.pair.key);
+            if (comparison < 0) {
+                node.left = this.removeNode(node.left, key);
+                result = balance(node);
+            }
+            else if (comparison > 0) {
+                node.right = this.removeNode(node.right, key);
+                result = balance(node);
+            }
+            else {
+                if (!node.left) {
+                    result = node.right;
+                    --this._count;
+                }
+                else if (!node.right) {
+                    result = node.left;
+                    --this._count;
+                }
+                else {
+                    let successor: SortedMapNode<KeyType, ValueType> = node.right;
+                    while (successor.left) {
+                        successor = successor.left;
+                    }
+                    node.pair = successor.pair;
+                    node.right = this.removeNode(node.right, successor.pair.key);
+                    result = balance(node);
+                }
+            }
         }
-        this._count++;
+        return result;
     }
 
-    public removeAt(index: number): T {
-        let result: T;
-        if (isDefined(index) && 0 <= index && index < this._count) {
-            result = this._data[index];
+    /**
+     * Remove the key/value pair with the provided key.
+     * @param key The key of the key/value pair to remove from this map.
+     */
+    public remove(key: KeyType): void {
+        this._root = this.removeNode(this._root, key);
+    }
 
-            for (let i = index; i < this._count - 1; ++i) {
-                this._data[i] = this._data[i + 1];
-            }
-            this._data[this._count - 1] = undefined;
-            this._count--;
+    /**
+     * Remove all of the entries from this map.
+     */
+    public clear(): void {
+        this._root = undefined;
+        this._count = 0;
+    }
+
+    /**
+     * Get the smallest key in this map, or undefined if this map is empty.
+     */
+    public firstKey(): KeyType {
+        let node: SortedMapNode<KeyType, ValueType> = this._root;
+        while (node && node.left) {
+            node = node.left;
         }
-        return result;
+        return node ? node.pair.key : undefined;
     }
 
     /**
-     * Remove the first instance of the provided value from this list.
-     * @param value The value to remove.
-     * @param comparer An optional comparer that will be used to determine if two values are equal.
-     * If this is not provided, then the default strict equal comparison (===) will be used.
+     * Get the largest key in this map, or undefined if this map is empty.
      */
-    public remove(value: T, comparer?: (lhs: T, rhs: T) => boolean): T {
-        let result: T;
+    public lastKey(): KeyType {
+        let node: SortedMapNode<KeyType, ValueType> = this._root;
+        while (node && node.right) {
+            node = node.right;
+        }
+        return node ? node.pair.key : undefined;
+    }
 
-        const removeIndex: number = this.indexOf(value, comparer);
-        if (isDefined(removeIndex)) {
-            result = this.removeAt(removeIndex);
+    /**
+     * Get the largest key in this map that is less than or equal to the provided key, or undefined
+     * if there is no such key.
+     */
+    public floorKey(key: KeyType): KeyType {
+        let result: KeyType;
+        let node: SortedMapNode<KeyType, ValueType> = this._root;
+        while (node) {
+            const comparison: number = this._comparer(key, node.pair.key);
+            if (comparison < 0) {
+                node = node.left;
+            }
+            else {
+                result = node.pair.key;
+                node = comparison === 0 ? undefined : node.right;
+            }
         }
-
         return result;
     }
 
-    public removeFirst(): T {
-        return this.removeAt(0);
-    }
-
-    public removeLast(): T {
-        return this.removeAt(this.getCount() - 1);
+    /**
+     * Get the smallest key in this map that is greater than or equal to the provided key, or
+     * undefined if there is no such key.
+     */
+    public ceilingKey(key: KeyType): KeyType {
+        let result: KeyType;
+        let node: SortedMapNode<KeyType, ValueType> = this._root;
+        while (node) {
+            const comparison: number = this._comparer(key, node.pair.key);
+            if (comparison > 0) {
+                node = node.right;
+            }
+            else {
+                result = node.pair.key;
+                node = comparison === 0 ? undefined : node.left;
+            }
+        }
+        return result;
     }
 
-    public clear(): void {
-        this._count = 0;
+    /**
+     * Get a view of the entries in this map whose keys are greater than or equal to the provided
+     * from key and less than the provided to key. If either bound is not defined, then the range
+     * will be unbounded on that side. The returned view reflects later changes to this map.
+     */
+    public range(from: KeyType, to: KeyType): Iterable<KeyValuePair<KeyType, ValueType>> {
+        return new SortedMapRange<KeyType, ValueType>(() => this._root, this._comparer, from, to);
     }
 }
 
 /**
- * A node that contains a value and a single link.
+ * A view of the entries in a SortedMap whose keys are within a range.
  */
-export class SingleLinkNode<T> extends IterableBase<T> {
-    constructor(private _value: T, private _next?: SingleLinkNode<T>) {
+class SortedMapRange<KeyType, ValueType> extends IterableBase<KeyValuePair<KeyType, ValueType>> {
+    constructor(private _getRoot: () => SortedMapNode<KeyType, ValueType>, private _comparer: (lhs: KeyType, rhs: KeyType) => number, private _from: KeyType, private _to: KeyType) {
         super();
     }
 
-    public iterate(): Iterator<T> {
-        return new SingleLinkNodeIterator<T>(this);
+    public iterate(): Iterator<KeyValuePair<KeyType, ValueType>> {
+        return new SortedMapIterator(this._getRoot(), this._comparer, false, this._from, this._to);
     }
+}
 
+/**
+ * A collection of unique values.
+ */
+export interface Set<T> extends Iterable<T> {
     /**
-     * Get this Node's value.
+     * Add the provided value to this Set. Return whether or not the value was added (false if the
+     * value was already in this Set).
      */
-    public getValue(): T {
-        return this._value;
-    }
+    add(value: T): boolean;
 
     /**
-     * Set this Node's value.
+     * Add each of the provided values to this Set.
      */
-    public setValue(value: T) {
-        this._value = value;
-    }
+    addAll(values: T[] | Iterable<T>): void;
 
     /**
-     * Get the next Node in the chain.
+     * Remove the provided value from this Set. Return whether or not the value was removed (false
+     * if the value wasn't in this Set).
      */
-    public getNext(): SingleLinkNode<T> {
-        return this._next;
-    }
+    remove(value: T): boolean;
 
     /**
-     * Set the next Node in the chain.
+     * Remove all of the values from this Set.
      */
-    public setNext(next: SingleLinkNode<T>) {
-        this._next = next;
-    }
+    clear(): void;
+
+    /**
+     * Add each of the provided values to this Set so that this Set contains the union of its
+     * values and the provided values.
+     */
+    unionWith(values: T[] | Iterable<T>): void;
+
+    /**
+     * Remove each of the values from this Set that are not in the provided values so that this Set
+     * contains the intersection of its values and the provided values.
+     */
+    intersectWith(values: T[] | Iterable<T>): void;
+
+    /**
+     * Remove each of the provided values from this Set.
+     */
+    exceptWith(values: T[] | Iterable<T>): void;
+
+    /**
+     * Get whether or not each of the values in this Set is contained by the provided values.
+     */
+    isSubsetOf(values: T[] | Iterable<T>): boolean;
 }
 
-class SingleLinkNodeIterator<T> extends IteratorBase<T> {
-    private _hasStarted: boolean = false;
+/**
+ * A base implementation of the Set<T> interface that implements the set algebra functions in terms
+ * of add(), remove() and contains().
+ */
+export abstract class SetBase<T> extends IterableBase<T> implements Set<T> {
+    public abstract add(value: T): boolean;
 
-    constructor(private _currentNode: SingleLinkNode<T>) {
-        super();
-    }
+    public abstract remove(value: T): boolean;
 
-    public hasStarted(): boolean {
-        return this._hasStarted;
-    }
+    public abstract clear(): void;
 
-    public hasCurrent(): boolean {
-        return this._hasStarted && this._currentNode ? true : false;
+    /**
+     * Create a new empty Set that compares its values in the same way as this Set.
+     */
+    protected abstract createSet(): SetBase<T>;
+
+    public addAll(values: T[] | Iterable<T>): void {
+        if (values) {
+            for (const value of values) {
+                this.add(value);
+            }
+        }
     }
 
-    public getCurrent(): T {
-        return this.hasCurrent() ? this._currentNode.getValue() : undefined;
+    public unionWith(values: T[] | Iterable<T>): void {
+        this.addAll(values);
     }
 
-    public next(): boolean {
-        if (!this.hasStarted()) {
-            this._hasStarted = true;
+    public intersectWith(values: T[] | Iterable<T>): void {
+        const valuesSet: SetBase<T> = this.createSet();
+        valuesSet.addAll(values);
+
+        for (const value of this.toArray()) {
+            if (!valuesSet.contains(value)) {
+                this.remove(value);
+            }
         }
-        else if (this._currentNode) {
-            this._currentNode = this._currentNode.getNext();
+    }
+
+    public exceptWith(values: T[] | Iterable<T>): void {
+        if (values) {
+            for (const value of values) {
+                this.remove(value);
+            }
         }
+    }
 
-        return this.hasCurrent();
+    public isSubsetOf(values: T[] | Iterable<T>): boolean {
+        const valuesSet: SetBase<T> = this.createSet();
+        valuesSet.addAll(values);
+
+        return !this.any((value: T) => !valuesSet.contains(value));
     }
 }
 
-export class SingleLinkList<T> extends ListBase<T> {
-    private _head: SingleLinkNode<T>;
-    private _tail: SingleLinkNode<T>;
+/**
+ * A Set that stores its values in a hash table. Values are iterated in the order that they were
+ * added.
+ */
+export class HashSet<T> extends SetBase<T> {
+    private _values: HashMap<T, boolean>;
 
-    constructor(values?: T[] | Iterable<T>) {
+    /**
+     * Create a new HashSet.
+     * @param values The values to add to the new HashSet.
+     * @param comparer The EqualityComparer that determines whether two values are equal and that
+     *      creates hash codes for values. If this is not provided, then values will be compared with
+     *      '==='.
+     */
+    constructor(values?: T[] | Iterable<T>, private _comparer?: EqualityComparison<T>) {
         super();
 
+        this._values = new HashMap<T, boolean>(undefined, _comparer);
+
         this.addAll(values);
     }
 
     public iterate(): Iterator<T> {
-        return new SingleLinkNodeIterator<T>(this._head);
+        return this._values.iterate().map((pair: KeyValuePair<T, boolean>) => pair.key);
     }
 
-    public iterateReverse(): Iterator<T> {
-        return new IndexableReverseIterator<T>(this);
+    public any(condition?: (value: T) => boolean): boolean {
+        return condition ? super.any(condition) : this._values.any();
     }
 
-    private getNode(index: number): SingleLinkNode<T> {
-        let resultNode: SingleLinkNode<T>;
-        if (0 <= index) {
-            resultNode = this._head;
-            while (resultNode && 0 < index) {
-                resultNode = resultNode.getNext();
-                --index;
-            }
+    public getCount(): number {
+        return this._values.getCount();
+    }
+
+    /**
+     * Get whether or not this HashSet contains the provided value. If a comparison function is
+     * provided, then each of the values in this HashSet will be compared against the provided
+     * value with it.
+     */
+    public contains(value: T, comparison?: EqualityComparison<T>): boolean {
+        return comparison ? super.contains(value, comparison) : this._values.containsKey(value);
+    }
+
+    public add(value: T): boolean {
+        const result: boolean = !this._values.containsKey(value);
+        if (result) {
+            this._values.add(value, true);
         }
-        return resultNode;
+        return result;
     }
 
-    public get(index: number): T {
-        const resultNode: SingleLinkNode<T> = this.getNode(index);
-        return resultNode ? resultNode.getValue() : undefined;
+    public remove(value: T): boolean {
+        const result: boolean = this._values.containsKey(value);
+        if (result) {
+            this._values.remove(value);
+        }
+        return result;
     }
 
-    public getFromEnd(index: number): T {
-        let resultNode: SingleLinkNode<T> = undefined;
+    public clear(): void {
+        this._values.clear();
+    }
 
-        if (index >= 0) {
-            let searchNode: SingleLinkNode<T> = this._head;
-            while (searchNode && index > 0) {
-                searchNode = searchNode.getNext();
-                --index;
-            }
+    protected createSet(): SetBase<T> {
+        return new HashSet<T>(undefined, this._comparer);
+    }
+}
 
-            if (searchNode) {
-                resultNode = this._head;
-                while (searchNode.getNext()) {
-                    resultNode = resultNode.getNext();
-                    searchNode = searchNode.getNext();
-                }
-            }
-        }
+/**
+ * A Set that keeps its values sorted in a balanced search tree.
+ */
+export class SortedSet<T> extends SetBase<T> {
+    private _values: SortedMap<T, boolean>;
 
-        return resultNode ? resultNode.getValue() : undefined;
+    /**
+     * Create a new SortedSet.
+     * @param values The values to add to the new SortedSet.
+     * @param comparer An optional function that returns a negative number if lhs is less than rhs,
+     *      zero if they are equal, and a positive number if lhs is greater than rhs. If no comparer
+     *      is provided, then standard less than and greater than comparisons will be used, and NaN,
+     *      null and undefined values will be ordered after all other values.
+     */
+    constructor(values?: T[] | Iterable<T>, private _comparer?: Comparison<T>) {
+        super();
+
+        this._values = new SortedMap<T, boolean>(undefined, _comparer);
+
+        this.addAll(values);
     }
 
     /**
-     * Set the ArrayList value at the provided index to be the provided value. If the index is not
-     * defined or is outside of the Arraylist's bounds, then this function will do nothing.
+     * Iterate through the values of this SortedSet in ascending order.
      */
-    public set(index: number, value: T): void {
-        const node: SingleLinkNode<T> = this.getNode(index);
-        if (node) {
-            node.setValue(value);
-        }
+    public iterate(): Iterator<T> {
+        return this._values.iterate().map((pair: KeyValuePair<T, boolean>) => pair.key);
     }
 
     /**
-     * Set the last ArrayList value to be the provided value. If the ArrayList is empty, then this
-     * function will do nothing.
+     * Iterate through the values of this SortedSet in descending order.
      */
-    public setLast(value: T): void {
-        if (this._tail) {
-            this._tail.setValue(value);
-        }
+    public iterateReverse(): Iterator<T> {
+        return this._values.iterateReverse().map((pair: KeyValuePair<T, boolean>) => pair.key);
     }
 
     public any(condition?: (value: T) => boolean): boolean {
-        return isDefined(this._head);
+        return condition ? super.any(condition) : this._values.any();
     }
 
     public getCount(): number {
-        let count: number = 0;
-        let searchNode: SingleLinkNode<T> = this._head;
-        while (searchNode) {
-            ++count;
-            searchNode = searchNode.getNext();
-        }
-        return count;
+        return this._values.getCount();
     }
 
-    public add(value: T): void {
-        const nodeToAdd = new SingleLinkNode<T>(value);
+    /**
+     * Get whether or not this SortedSet contains the provided value. If a comparison function is
+     * provided, then each of the values in this SortedSet will be compared against the provided
+     * value with it.
+     */
+    public contains(value: T, comparison?: EqualityComparison<T>): boolean {
+        return comparison ? super.contains(value, comparison) : this._values.containsKey(value);
+    }
 
-        if (!this._head) {
-            this._head = nodeToAdd;
-            this._tail = nodeToAdd;
-        }
-        else {
-            this._tail.setNext(nodeToAdd);
-            this._tail = nodeToAdd;
+    public add(value: T): boolean {
+        const result: boolean = !this._values.containsKey(value);
+        if (result) {
+            this._values.add(value, true);
         }
+        return result;
     }
 
-    public removeAt(index: number): T {
-        let result: T;
-        if (isDefined(index) && 0 <= index) {
-            if (index === 0) {
-                if (this._head) {
-                    result = this._head.getValue();
-                    if (this._head === this._tail) {
-                        this._head = undefined;
-                        this._tail = undefined;
-                    }
-                    else {
-                        this._head = this._head.getNext();
-                    }
-                }
-            }
-            else {
-                const previousNode: SingleLinkNode<T> = this.getNode(index - 1);
-                if (previousNode && previousNode.getNext()) {
-                    result = previousNode.getNext().getValue();
-                    previousNode.setNext(previousNode.getNext().getNext());
-                }
-            }
+    public remove(value: T): boolean {
+        const result: boolean = this._values.containsKey(value);
+        if (result) {
+            this._values.remove(value);
         }
         return result;
     }
 
-    public remove(value: T, comparer?: (lhs: T, rhs: T) => boolean): T {
-        if (!comparer) {
-            comparer = (lhs: T, rhs: T) => lhs === rhs;
-        }
+    public clear(): void {
+        this._values.clear();
+    }
 
-        let previousNode: SingleLinkNode<T>;
-        let searchNode: SingleLinkNode<T> = this._head;
-        while (searchNode) {
-            if (comparer(searchNode.getValue(), value)) {
-                break;
-            }
-            else {
-                previousNode = searchNode;
-                searchNode = searchNode.getNext();
+    protected createSet(): SetBase<T> {
+        return new SortedSet<T>(undefined, this._comparer);
+    }
+}
+
+/**
+ * A double-ended queue that can add and remove values from either end in constant time. The values
+ * are stored in a circular buffer that grows when it is full.
+ */
+export class Deque<T> extends IndexableBase<T> {
+    private _values: T[] = new Array<T>(16);
+    private _headIndex: number = 0;
+    private _count: number = 0;
+
+    constructor(values?: T[] | Iterable<T>) {
+        super();
+
+        if (values) {
+            for (const value of values) {
+                this.addLast(value);
             }
         }
+    }
 
-        if (searchNode) {
-            if (!previousNode) {
-                this._head = searchNode.getNext();
-            }
-            else {
-                previousNode.setNext(searchNode.getNext());
-            }
+    public iterate(): Iterator<T> {
+        return new IndexableIterator<T>(this);
+    }
 
-            if (searchNode === this._tail) {
-                this._tail = previousNode;
-            }
-        }
+    public iterateReverse(): Iterator<T> {
+        return new IndexableReverseIterator<T>(this);
+    }
 
-        return searchNode ? searchNode.getValue() : undefined;
+    private getBufferIndex(index: number): number {
+        return (this._headIndex + index) % this._values.length;
     }
 
-    public removeFirst(): T {
-        return this.removeAt(0);
+    public get(index: number): T {
+        let result: T;
+        if (isDefined(index) && 0 <= index && index < this._count) {
+            result = this._values[this.getBufferIndex(index)];
+        }
+        return result;
     }
 
-    public removeLast(): T {
-        return this.removeAt(this.getCount() - 1);
+    public any(condition?: (value: T) => boolean): boolean {
+        return condition ? super.any(condition) : this._count > 0;
     }
 
-    public clear(): void {
-        this._head = undefined;
-        this._tail = undefined;
+    public getCount(): number {
+        return this._count;
     }
-}
 
-/**
- * A node that contains a value and two links.
- */
-export class DoubleLinkNode<T> {
-    constructor(private _value: T, private _next?: DoubleLinkNode<T>, private _previous?: DoubleLinkNode<T>) {
+    private growIfFull(): void {
+        if (this._count === this._values.length) {
+            const newValues: T[] = new Array<T>(this._values.length * 2);
+            for (let i = 0; i < this._count; ++i) {
+                newValues[i] = this._values[this.getBufferIndex(i)];
+            }
+            this._values = newValues;
+            this._headIndex = 0;
+        }
     }
 
     /**
-     * Get this Node's value.
+     * Add the provided value to the start of this Deque.
      */
-    public getValue(): T {
-        return this._value;
+    public addFirst(value: T): void {
+        this.growIfFull();
+        this._headIndex = (this._headIndex + this._values.length - 1) % this._values.length;
+        this._values[this._headIndex] = value;
+        ++this._count;
     }
 
     /**
-     * Set this Node's value.
+     * Add the provided value to the end of this Deque.
      */
-    public setValue(value: T) {
-        this._value = value;
+    public addLast(value: T): void {
+        this.growIfFull();
+        this._values[this.getBufferIndex(this._count)] = value;
+        ++this._count;
     }
 
     /**
-     * Get the next Node in the chain.
+     * Remove and return the value at the start of this Deque. If this Deque is empty, then
+     * undefined will be returned.
      */
-    public getNext(): DoubleLinkNode<T> {
-        return this._next;
+    public removeFirst(): T {
+        let result: T;
+        if (this._count > 0) {
+            result = this._values[this._headIndex];
+            this._values[this._headIndex] = undefined;
+            this._headIndex = this.getBufferIndex(1);
+            --this._count;
+        }
+        return result;
     }
 
     /**
-     * Set the next Node in the chain.
+     * Remove and return the value at the end of this Deque. If this Deque is empty, then undefined
+     * will be returned.
      */
-    public setNext(next: DoubleLinkNode<T>) {
-        this._next = next;
+    public removeLast(): T {
+        let result: T;
+        if (this._count > 0) {
+            const lastIndex: number = this.getBufferIndex(this._count - 1);
+            result = this._values[lastIndex];
+            this._values[lastIndex] = undefined;
+            --this._count;
+        }
+        return result;
     }
 
     /**
-     * Get the previous Node in the chain.
+     * Return (but don't remove) the value at the start of this Deque.
      */
-    public getPrevious(): DoubleLinkNode<T> {
-        return this._previous;
+    public peekFirst(): T {
+        return this.get(0);
     }
 
     /**
-     * Set the previous Node in the chain.
+     * Return (but don't remove) the value at the end of this Deque.
      */
-    public setPrevious(next: DoubleLinkNode<T>) {
-        this._previous = next;
+    public peekLast(): T {
+        return this.get(this._count - 1);
+    }
+
+    /**
+     * Remove all of the values from this Deque.
+     */
+    public clear(): void {
+        this._values = new Array<T>(16);
+        this._headIndex = 0;
+        this._count = 0;
     }
 }
 
-export interface KeyValuePair<KeyType, ValueType> {
-    key: KeyType;
-    value: ValueType;
+/**
+ * A stack that can be read but not changed. Iterating it returns its values from the top of the
+ * stack to the bottom.
+ */
+export interface ReadOnlyStack<T> extends Iterable<T> {
+    /**
+     * Return the value at the top of the stack.
+     */
+    peek(): T;
 }
 
 /**
- * A map/dictionary collection that associates a key to a value.
+ * A queue that can be read but not changed. Iterating it returns its values in the order that they
+ * will be dequeued.
  */
-export class Map<KeyType, ValueType> extends IterableBase<KeyValuePair<KeyType, ValueType>> {
-    private _pairs = new ArrayList<KeyValuePair<KeyType, ValueType>>();
+export interface ReadOnlyQueue<T> extends Iterable<T> {
+    /**
+     * Return the next value that will be dequeued.
+     */
+    peek(): T;
+}
 
-    constructor(initialValues?: KeyValuePair<KeyType, ValueType>[] | Iterable<KeyValuePair<KeyType, ValueType>>) {
+/**
+ * A live read-only view of a Stack or a Queue. Changes to the inner collection are visible through
+ * the view.
+ */
+class ReadOnlyPeekableView<T> extends IterableBase<T> implements ReadOnlyStack<T>, ReadOnlyQueue<T> {
+    constructor(private _innerCollection: Stack<T> | Queue<T>) {
         super();
+    }
 
-        this.addAll(initialValues);
+    public iterate(): Iterator<T> {
+        return this._innerCollection.iterate();
     }
 
-    public iterate(): Iterator<KeyValuePair<KeyType, ValueType>> {
-        return this._pairs.iterate();
+    public any(condition?: (value: T) => boolean): boolean {
+        return this._innerCollection.any(condition);
     }
 
-    public iterateReverse(): Iterator<KeyValuePair<KeyType, ValueType>> {
-        return this._pairs.iterateReverse();
+    public getCount(): number {
+        return this._innerCollection.getCount();
+    }
+
+    public peek(): T {
+        return this._innerCollection.peek();
+    }
+}
+
+/**
+ * A stack collection that can only add and remove elements from one end. Iterating a stack returns
+ * its values from the top of the stack to the bottom.
+ */
+export class Stack<T> extends IterableBase<T> {
+    private _values = new Deque<T>();
+
+    public iterate(): Iterator<T> {
+        return this._values.iterate();
     }
 
     /**
-     * Get the number of entries in this map.
+     * Get whether or not this stack has any values.
+     */
+    public any(condition?: (value: T) => boolean): boolean {
+        return this._values.any(condition);
+    }
+
+    /**
+     * Get the number of values that are on the stack.
      */
     public getCount(): number {
-        return this._pairs.getCount();
+        return this._values.getCount();
     }
 
     /**
-     * Add the provide key value pair to the Map. If an entry already exists with the provided key,
-     * the existing entry will be overwritten by the provided values.
+     * Get whether this stack contains the provided value using the optional comparison. If the
+     * comparison function is not provided, then === will be used.
+     * @param value The value to search for in this stack.
+     * @param comparison The optional comparison function to use to compare values.
      */
-    public add(key: KeyType, value: ValueType): void {
-        this.remove(key);
-        const pairToAdd: KeyValuePair<KeyType, ValueType> = {
-            key: key,
-            value: value
-        };
-        this._pairs.add(pairToAdd);
+    public contains(value: T, comparison?: EqualityComparison<T>): boolean {
+        return this._values.contains(value, comparison);
     }
 
     /**
-     * Add each of the provided pairs to this Map. If any of the entries already exists with the
-     * provided key, the existing entry will be overwritten by the provided value.
+     * Add the provided value to the top of the stack.
+     * @param value The value to add.
      */
-    public addAll(keyValuePairs: KeyValuePair<KeyType, ValueType>[] | Iterable<KeyValuePair<KeyType, ValueType>>): void {
-        if (keyValuePairs) {
-            for (const keyValuePair of keyValuePairs) {
-                this.add(keyValuePair.key, keyValuePair.value);
-            }
-        }
+    public push(value: T): void {
+        this._values.addFirst(value);
     }
 
     /**
-     * Get whether or not the map contains the provided key.
+     * Remove and return the value at the top of the stack.
      */
-    public containsKey(key: KeyType): boolean {
-        return this._pairs.any((pair) => pair.key === key);
+    public pop(): T {
+        return this._values.removeFirst();
     }
 
     /**
-     * Get the value associated with the provided key. If the provided key is not found in the map,
-     * then undefined will be returned.
+     * Return (but don't remove) the value at the top of the stack.
      */
-    public get(key: KeyType): ValueType {
-        const pair: KeyValuePair<KeyType, ValueType> = this._pairs.first((pair) => pair.key === key);
-        return pair ? pair.value : undefined;
+    public peek(): T {
+        return this._values.peekFirst();
     }
 
     /**
-     * Remove the key/value pair with the provided key.
-     * @param key The key of the key/value pair to remove from this Map.
+     * Get a live read-only view of this stack. Changes to this stack will be visible through the
+     * view, but the view can't be used to change this stack.
      */
-    public remove(key: KeyType): void {
-        const pairToRemove: KeyValuePair<KeyType, ValueType> = {
-            key: key,
-            value: undefined
-        };
-        this._pairs.remove(pairToRemove, (lhs, rhs) => lhs.key === rhs.key);
+    public asReadOnly(): ReadOnlyStack<T> {
+        return new ReadOnlyPeekableView<T>(this);
+    }
+
+    /**
+     * Get a read-only snapshot of the current values in this stack. Later changes to this stack
+     * will not be visible in the snapshot.
+     */
+    public toImmutable(): ReadOnlyStack<T> {
+        const result = new Stack<T>();
+        for (const value of this._values.iterateReverse()) {
+            result.push(value);
+        }
+        return result.asReadOnly();
     }
 }
 
 /**
- * A stack collection that can only add and remove elements from one end.
+ * A First-In-First-Out (FIFO) data structure. Iterating a queue returns its values in the order
+ * that they will be dequeued.
  */
-export class Stack<T> {
-    private _values = new ArrayList<T>();
+export class Queue<T> extends IterableBase<T> {
+    private _values = new Deque<T>();
+
+    public iterate(): Iterator<T> {
+        return this._values.iterate();
+    }
 
     /**
-     * Get whether or not this stack has any values.
+     * Get whether or not this queue has any values.
      */
-    public any(): boolean {
-        return this._values.any();
+    public any(condition?: (value: T) => boolean): boolean {
+        return this._values.any(condition);
     }
 
     /**
-     * Get the number of values that are on the stack.
+     * Get the number of values that are in the queue.
      */
     public getCount(): number {
         return this._values.getCount();
     }
 
     /**
-     * Get whether this stack contains the provided value using the optional comparison. If the
-     * comparison function is not provided, then === will be used.
-     * @param value The value to search for in this stack.
-     * @param comparison The optional comparison function to use to compare values.
+     * Get whether or not this queue contains the provided value using the optional comparison. If
+     * The optional comparison is not provided, then === will be used.
+     * @param value The value to search for.
+     * @param comparison The optional comparison to compare values.
      */
-    public contains(value: T, comparison?: (lhs: T, rhs: T) => boolean): boolean {
+    public contains(value: T, comparison?: EqualityComparison<T>): boolean {
         return this._values.contains(value, comparison);
     }
 
     /**
-     * Add the provided value to the top of the stack.
-     * @param value The value to add.
+     * Add the provided value to the start of this queue.
+     * @param value The value to add to this queue.
      */
-    public push(value: T): void {
-        this._values.add(value);
+    public enqueue(value: T): void {
+        this._values.addLast(value);
     }
 
     /**
-     * Remove and return the value at the top of the stack.
+     * Take the next value off of the end of this queue.
      */
-    public pop(): T {
-        return this._values.removeLast();
+    public dequeue(): T {
+        return this._values.removeFirst();
     }
 
     /**
-     * Return (but don't remove) the value at the top of the stack.
+     * Return (but don't remove) the next value that will be dequeued.
      */
     public peek(): T {
-        return this._values.last();
+        return this._values.peekFirst();
+    }
+
+    /**
+     * Get a live read-only view of this queue. Changes to this queue will be visible through the
+     * view, but the view can't be used to change this queue.
+     */
+    public asReadOnly(): ReadOnlyQueue<T> {
+        return new ReadOnlyPeekableView<T>(this);
+    }
+
+    /**
+     * Get a read-only snapshot of the current values in this queue. Later changes to this queue
+     * will not be visible in the snapshot.
+     */
+    public toImmutable(): ReadOnlyQueue<T> {
+        const result = new Queue<T>();
+        for (const value of this._values) {
+            result.enqueue(value);
+        }
+        return result.asReadOnly();
+    }
+}
+
+/**
+ * An Iterator that removes each value from a PriorityQueue as it is iterated, so the values are
+ * returned in priority order.
+ */
+class PriorityQueueDrainIterator<T> extends IteratorBase<T> {
+    private _hasStarted: boolean = false;
+    private _hasCurrent: boolean = false;
+    private _current: T;
+
+    constructor(private _priorityQueue: PriorityQueue<T>) {
+        super();
+    }
+
+    public hasStarted(): boolean {
+        return this._hasStarted;
+    }
+
+    public hasCurrent(): boolean {
+        return this._hasCurrent;
+    }
+
+    public getCurrent(): T {
+        return this._current;
+    }
+
+    public next(): boolean {
+        this._hasStarted = true;
+        this._hasCurrent = this._priorityQueue.any();
+        this._current = this._priorityQueue.dequeue();
+        return this._hasCurrent;
     }
 }
 
 /**
- * A First-In-First-Out (FIFO) data structure.
+ * A queue that dequeues its values in priority order (lowest first) instead of in the order that
+ * they were enqueued. The values are stored in a binary heap. Iterating a PriorityQueue returns its
+ * values in no particular order.
  */
-export class Queue<T> {
+export class PriorityQueue<T> extends IterableBase<T> {
     private _values = new ArrayList<T>();
+    private _lessThanComparison: (lhs: T, rhs: T) => boolean;
+
+    /**
+     * Create a new PriorityQueue.
+     * @param values The values to enqueue in the new PriorityQueue.
+     * @param lessThanComparison A comparison function that returns whether or not lhs has a higher
+     *      priority than (should be dequeued before) rhs. If this is not provided, then the less
+     *      than operator will be used.
+     */
+    constructor(values?: T[] | Iterable<T>, lessThanComparison?: ((lhs: T, rhs: T) => boolean) | Comparer<T>) {
+        super();
+
+        this._lessThanComparison = toLessThanFunction(lessThanComparison);
+
+        if (values) {
+            for (const value of values) {
+                this.enqueue(value);
+            }
+        }
+    }
+
+    public iterate(): Iterator<T> {
+        return this._values.iterate();
+    }
 
     /**
      * Get whether or not this queue has any values.
      */
-    public any(): boolean {
-        return this._values.any();
+    public any(condition?: (value: T) => boolean): boolean {
+        return this._values.any(condition);
     }
 
     /**
      * Get the number of values that are in the queue.
      */
-    public getCount(): number {
-        return this._values.getCount();
+    public getCount(): number {
+        return this._values.getCount();
+    }
+
+    /**
+     * Get whether or not this queue contains the provided value using the optional comparison. If
+     * the optional comparison is not provided, then === will be used.
+     * @param value The value to search for.
+     * @param comparison The optional comparison to compare values.
+     */
+    public contains(value: T, comparison?: EqualityComparison<T>): boolean {
+        return this._values.contains(value, comparison);
+    }
+
+    private swap(lhsIndex: number, rhsIndex: number): void {
+        const lhsValue: T = this._values.get(lhsIndex);
+        this._values.set(lhsIndex, this._values.get(rhsIndex));
+        this._values.set(rhsIndex, lhsValue);
+    }
+
+    private siftUp(index: number): number {
+        while (index > 0) {
+            const parentIndex: number = (index - 1) >> 1;
+            if (!this._lessThanComparison(this._values.get(index), this._values.get(parentIndex))) {
+                break;
+            }
+            this.swap(index, parentIndex);
+            index = parentIndex;
+        }
+        return index;
+    }
+
+    private siftDown(index: number): void {
+        const count: number = this._values.getCount();
+        while (true) {
+            let smallestIndex: number = index;
+
+            const leftIndex: number = 2 * index + 1;
+            if (leftIndex < count && this._lessThanComparison(this._values.get(leftIndex), this._values.get(smallestIndex))) {
+                smallestIndex = leftIndex;
+            }
+
+            const rightIndex: number = leftIndex + 1;
+            if (rightIndex < count && this._lessThanComparison(this._values.get(rightIndex), this._values.get(smallestIndex))) {
+                smallestIndex = rightIndex;
+            }
+
+            if (smallestIndex === index) {
+                break;
+            }
+
+            this.swap(index, smallestIndex);
+            index = smallestIndex;
+        }
+    }
+
+    /**
+     * Add the provided value to this queue.
+     * @param value The value to add to this queue.
+     */
+    public enqueue(value: T): void {
+        this._values.add(value);
+        this.siftUp(this._values.getCount() - 1);
+    }
+
+    /**
+     * Remove and return the value with the highest priority from this queue. If this queue is
+     * empty, then undefined will be returned.
+     */
+    public dequeue(): T {
+        let result: T;
+        const count: number = this._values.getCount();
+        if (count > 0) {
+            result = this._values.get(0);
+
+            const lastValue: T = this._values.removeLast();
+            if (count > 1) {
+                this._values.set(0, lastValue);
+                this.siftDown(0);
+            }
+        }
+        return result;
     }
 
     /**
-     * Get whether or not this queue contains the provided value using the optional comparison. If
-     * The optional comparison is not provided, then === will be used.
-     * @param value The value to search for.
-     * @param comparison The optional comparison to compare values.
+     * Return (but don't remove) the value with the highest priority in this queue.
      */
-    public contains(value: T, comparison?: (lhs: T, rhs: T) => boolean): boolean {
-        return this._values.contains(value, comparison);
+    public peek(): T {
+        return this._values.get(0);
     }
 
     /**
-     * Add the provided value to the start of this queue.
-     * @param value The value to add to this queue.
+     * Restore the position of the provided value in this queue after its priority has changed.
+     * Return whether or not the value was found in this queue.
+     * @param value The value whose priority has changed.
      */
-    public enqueue(value: T): void {
-        this._values.add(value);
+    public update(value: T): boolean {
+        const index: number = this._values.indexOf(value);
+        const result: boolean = isDefined(index);
+        if (result) {
+            this.siftDown(this.siftUp(index));
+        }
+        return result;
     }
 
     /**
-     * Take the next value off of the end of this queue.
+     * Get an Iterator that removes the values from this queue in priority order as it is iterated.
      */
-    public dequeue(): T {
-        return this._values.removeFirst();
+    public drain(): Iterator<T> {
+        return new PriorityQueueDrainIterator<T>(this);
     }
 }
 
@@ -3035,6 +10162,421 @@ export class StringIterable extends IterableBase<string> {
     }
 }
 
+/**
+ * An Indexable that computes each of its values from its index.
+ */
+class ComputedIndexable<T> extends IndexableBase<T> {
+    constructor(private _count: number, private _getValue: (index: number) => T) {
+        super();
+    }
+
+    public iterate(): Iterator<T> {
+        return new IndexableIterator<T>(this);
+    }
+
+    public iterateReverse(): Iterator<T> {
+        return new IndexableReverseIterator<T>(this);
+    }
+
+    public get(index: number): T {
+        return isDefined(index) && 0 <= index && index < this._count ? this._getValue(index) : undefined;
+    }
+
+    public any(condition?: (value: T) => boolean): boolean {
+        return condition ? super.any(condition) : this._count > 0;
+    }
+
+    public getCount(): number {
+        return this._count;
+    }
+}
+
+/**
+ * An Indexable that wraps an array or an array-like object (such as a function's arguments)
+ * without copying it. Changes to the wrapped object are visible through this Indexable.
+ */
+class ArrayLikeIndexable<T> extends IndexableBase<T> {
+    constructor(private _values: ArrayLike<T>) {
+        super();
+    }
+
+    public iterate(): Iterator<T> {
+        return new IndexableIterator<T>(this);
+    }
+
+    public iterateReverse(): Iterator<T> {
+        return new IndexableReverseIterator<T>(this);
+    }
+
+    public get(index: number): T {
+        return isDefined(index) && 0 <= index && index < this._values.length ? this._values[index] : undefined;
+    }
+
+    public any(condition?: (value: T) => boolean): boolean {
+        return condition ? super.any(condition) : this._values.length > 0;
+    }
+
+    public getCount(): number {
+        return this._values.length;
+    }
+}
+
+/**
+ * An Iterator that computes each of its values from the previous value.
+ */
+class GenerateIterator<T> extends IteratorBase<T> {
+    private _hasStarted: boolean = false;
+    private _current: T;
+
+    constructor(private _seed: T, private _next: (value: T) => T) {
+        super();
+    }
+
+    public hasStarted(): boolean {
+        return this._hasStarted;
+    }
+
+    public hasCurrent(): boolean {
+        return this._hasStarted && isDefined(this._current);
+    }
+
+    public getCurrent(): T {
+        return this.hasCurrent() ? this._current : undefined;
+    }
+
+    public next(): boolean {
+        if (!this._hasStarted) {
+            this._hasStarted = true;
+            this._current = this._seed;
+        }
+        else if (this.hasCurrent()) {
+            this._current = this._next(this._current);
+        }
+        return this.hasCurrent();
+    }
+}
+
+class GenerateIterable<T> extends IterableBase<T> {
+    constructor(private _seed: T, private _next: (value: T) => T) {
+        super();
+    }
+
+    public iterate(): Iterator<T> {
+        return new GenerateIterator<T>(this._seed, this._next);
+    }
+}
+
+/**
+ * An adapter between an iterator that Javascript/Typescript expects and an Iterator.
+ */
+class JavascriptIteratorAdapter<T> extends IteratorBase<T> {
+    private _hasStarted: boolean = false;
+    private _current: JavascriptIteratorResult<T>;
+
+    constructor(private _iterator: { next(): JavascriptIteratorResult<T> }) {
+        super();
+    }
+
+    public hasStarted(): boolean {
+        return this._hasStarted;
+    }
+
+    public hasCurrent(): boolean {
+        return this._current ? !this._current.done : false;
+    }
+
+    public getCurrent(): T {
+        return this.hasCurrent() ? this._current.value : undefined;
+    }
+
+    public next(): boolean {
+        if (!this._hasStarted || this.hasCurrent()) {
+            this._hasStarted = true;
+            this._current = this._iterator.next();
+        }
+        return this.hasCurrent();
+    }
+}
+
+/**
+ * An adapter between an iterable that Javascript/Typescript expects and an Iterable.
+ */
+class JavascriptIterableAdapter<T> extends IterableBase<T> {
+    constructor(private _iterable: JavascriptIterable<T>) {
+        super();
+    }
+
+    public iterate(): Iterator<T> {
+        return new JavascriptIteratorAdapter<T>(this._iterable[Symbol.iterator]());
+    }
+}
+
+/**
+ * Functions that create Iterables.
+ */
+export class Iterables {
+    /**
+     * Get an Indexable that contains a range of numbers.
+     * @param start The first number in the range.
+     * @param count The number of numbers in the range.
+     * @param step The difference between each number and the previous number. If this is not
+     *      provided, then 1 will be used.
+     */
+    public static range(start: number, count: number, step: number = 1): Indexable<number> {
+        return new ComputedIndexable<number>(count > 0 ? count : 0, (index: number) => start + index * step);
+    }
+
+    /**
+     * Get an Indexable that contains the provided value the provided number of times.
+     * @param value The value to repeat.
+     * @param count The number of times to repeat the value.
+     */
+    public static repeat<T>(value: T, count: number): Indexable<T>;
+    /**
+     * Get an Iterable that repeats the provided value forever.
+     * @param value The value to repeat.
+     */
+    public static repeat<T>(value: T): Iterable<T>;
+    public static repeat<T>(value: T, count?: number): Iterable<T> {
+        return !isDefined(count)
+            ? new ArrayList<T>([value]).cycle()
+            : new ComputedIndexable<T>(count > 0 ? count : 0, (index: number) => value);
+    }
+
+    /**
+     * Get an Iterable that starts with the provided seed and whose following values are created by
+     * passing the previous value to the next function. The Iterable ends when the next function
+     * returns undefined.
+     * @param seed The first value.
+     * @param next The function that creates each value from the previous value.
+     */
+    public static generate<T>(seed: T, next: (value: T) => T): Iterable<T> {
+        return new GenerateIterable<T>(seed, next);
+    }
+
+    /**
+     * Get an Iterable that wraps the provided values without copying them. Iterables are returned
+     * as they are, strings are iterated by character, arrays and array-like objects are wrapped in
+     * an Indexable, and native Javascript iterables (such as generator objects and ES6 Maps and
+     * Sets) return the same values that a for...of loop would. A generator object can only be
+     * iterated once. If the provided values are undefined, then an empty Iterable will be returned.
+     */
+    public static from(values: string): Iterable<string>;
+    public static from<T>(values: Iterable<T>): Iterable<T>;
+    public static from<T>(values: ArrayLike<T>): Indexable<T>;
+    public static from<T>(values: JavascriptIterable<T>): Iterable<T>;
+    public static from<T>(values: string | Iterable<T> | ArrayLike<T> | JavascriptIterable<T>): Iterable<string> | Iterable<T> {
+        let result: Iterable<string> | Iterable<T>;
+        if (!isDefined(values)) {
+            result = new ArrayList<T>();
+        }
+        else if (typeof values === "string") {
+            result = new StringIterable(values);
+        }
+        else if (isIterable(values)) {
+            result = values;
+        }
+        else if (isArrayLike(values)) {
+            result = new ArrayLikeIndexable<T>(values);
+        }
+        else {
+            result = new JavascriptIterableAdapter<T>(values);
+        }
+        return result;
+    }
+}
+
+/**
+ * An error that is thrown when a PeekableIterator would need to buffer more values than its
+ * maximum buffer size allows.
+ */
+export class BufferLimitError extends BuiltInError {
+    constructor(message: string = "The iterator's maximum buffer size was exceeded.") {
+        super(message);
+
+        this.name = "BufferLimitError";
+    }
+}
+
+/**
+ * An Iterator that wraps another Iterator and adds lookahead and backtracking. Values are read
+ * from the wrapped Iterator as they are needed and are only buffered while they can still be
+ * returned (because they have been peeked at or because a mark could reset back to them).
+ *
+ * The buffer holds the values from the earliest active mark (or the current value if there are no
+ * marks) through the furthest value that has been peeked at. If a maximum buffer size is provided
+ * and a peek or a move would need more values than that, then a BufferLimitError will be thrown and
+ * this Iterator will not change.
+ */
+export class PeekableIterator<T> extends IteratorBase<T> {
+    private _hasStarted: boolean = false;
+    private _innerHasStarted: boolean = false;
+    private _innerHasEnded: boolean = false;
+    private _position: number = -1;
+    private _buffer = new Deque<T>();
+    private _bufferStart: number = 0;
+    private _marks = new ArrayList<number>();
+    private _maximumBufferSize: number;
+
+    /**
+     * Create a new PeekableIterator.
+     * @param _innerIterator The Iterator to wrap.
+     * @param maximumBufferSize The maximum number of values that will be buffered. If this is not
+     *      provided, then the buffer can grow without limit.
+     */
+    constructor(private _innerIterator: Iterator<T>, maximumBufferSize?: number) {
+        super();
+
+        this._maximumBufferSize = isDefined(maximumBufferSize) && maximumBufferSize < 1 ? 1 : maximumBufferSize;
+    }
+
+    /**
+     * Get the maximum number of values that this Iterator will buffer, or undefined if the buffer
+     * can grow without limit.
+     */
+    public getMaximumBufferSize(): number {
+        return this._maximumBufferSize;
+    }
+
+    public hasStarted(): boolean {
+        return this._hasStarted;
+    }
+
+    public hasCurrent(): boolean {
+        return this._hasStarted && this.fill(this._position);
+    }
+
+    public getCurrent(): T {
+        return this.hasCurrent() ? this._buffer.get(this._position - this._bufferStart) : undefined;
+    }
+
+    public next(): boolean {
+        if (!this._hasStarted) {
+            this.moveTo(0);
+            this._hasStarted = true;
+        }
+        else if (this.hasCurrent()) {
+            this.moveTo(this._position + 1);
+        }
+        return this.hasCurrent();
+    }
+
+    /**
+     * Get the value that is the provided number of values after the current value without moving
+     * this Iterator. If there is no such value, then undefined will be returned. If reading the
+     * value would exceed the maximum buffer size, then a BufferLimitError will be thrown.
+     * @param offset The number of values after the current value. If this is not provided, then
+     *      the next value will be returned.
+     */
+    public peek(offset: number = 1): T {
+        const position: number = this._position + offset;
+        return position >= this._bufferStart && this.fill(position) ? this._buffer.get(position - this._bufferStart) : undefined;
+    }
+
+    /**
+     * Get the index of the current value in the wrapped Iterator's sequence of values. If this
+     * Iterator hasn't started, then -1 will be returned. If this Iterator has finished, then the
+     * number of values in the sequence will be returned.
+     */
+    public getPosition(): number {
+        return this._position;
+    }
+
+    /**
+     * Mark the current position of this Iterator so that it can be returned to with reset(). The
+     * values after the mark will be buffered until the mark is released.
+     */
+    public mark(): number {
+        const result: number = this._position;
+        this._marks.add(result);
+        return result;
+    }
+
+    /**
+     * Move this Iterator back (or forward) to the provided mark. The mark stays active until it is
+     * released. If the provided mark isn't active, then this function will do nothing.
+     * @param mark A mark that was returned by mark() and that hasn't been released.
+     */
+    public reset(mark: number): void {
+        if (this._marks.contains(mark)) {
+            this._position = mark;
+            this._hasStarted = mark >= 0;
+        }
+    }
+
+    /**
+     * Release the provided mark so that the values after it no longer need to be buffered.
+     * @param mark A mark that was returned by mark().
+     */
+    public release(mark: number): void {
+        this._marks.remove(mark);
+        this.trim();
+    }
+
+    /**
+     * Move this Iterator to the provided position. The value at the new position is read before any
+     * buffered values are dropped, so a BufferLimitError leaves this Iterator unchanged.
+     */
+    private moveTo(position: number): void {
+        const keepFrom: number = this.getKeepFrom(position);
+        this.fill(position, keepFrom);
+        this._position = position;
+        this.trim();
+    }
+
+    /**
+     * Read values from the wrapped Iterator into the buffer until the provided position is
+     * buffered or the wrapped Iterator ends. Return whether or not the position is buffered.
+     * @param keepFrom The earliest position that must stay buffered. Buffered values before it will
+     *      be dropped before the maximum buffer size is checked.
+     */
+    private fill(position: number, keepFrom: number = this.getKeepFrom(this._position)): boolean {
+        while (!this._innerHasEnded && this._bufferStart + this._buffer.getCount() <= position) {
+            if (isDefined(this._maximumBufferSize) && this._bufferStart + this._buffer.getCount() - Math.max(keepFrom, this._bufferStart) >= this._maximumBufferSize) {
+                throw new BufferLimitError();
+            }
+
+            if (!this._innerHasStarted) {
+                this._innerHasStarted = true;
+                if (!this._innerIterator.hasStarted()) {
+                    this._innerIterator.next();
+                }
+            }
+            else {
+                this._innerIterator.next();
+            }
+
+            if (this._innerIterator.hasCurrent()) {
+                this._buffer.addLast(this._innerIterator.getCurrent());
+            }
+            else {
+                this._innerHasEnded = true;
+            }
+        }
+        return position < this._bufferStart + this._buffer.getCount();
+    }
+
+    /**
+     * Get the earliest position that must stay buffered if this Iterator were at the provided
+     * position.
+     */
+    private getKeepFrom(position: number): number {
+        const earliestMark: number = this._marks.minimum();
+        return isDefined(earliestMark) && earliestMark < position ? earliestMark : position;
+    }
+
+    /**
+     * Remove the buffered values that can no longer be returned.
+     */
+    private trim(): void {
+        const keepFrom: number = this.getKeepFrom(this._position);
+        while (this._bufferStart < keepFrom && this._buffer.any()) {
+            this._buffer.removeFirst();
+            ++this._bufferStart;
+        }
+    }
+}
+
 /**
  * The different types of issues that can be found in a document.
  */
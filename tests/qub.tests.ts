@@ -1167,6 +1167,396 @@ suite("qub", () => {
                 assert.deepStrictEqual(list.getCount(), 0);
             });
         });
+
+        suite("sort()", () => {
+            function sortTest(values: number[], comparer: qub.Comparison<number>, expected: number[]): void {
+                test(`with ${JSON.stringify(values)}`, () => {
+                    const list = new qub.ArrayList<number>(values);
+                    list.sort(comparer);
+                    assert.deepEqual(list.toArray(), expected);
+                });
+            }
+
+            sortTest([], undefined, []);
+            sortTest([1], undefined, [1]);
+            sortTest([3, 1, 2], undefined, [1, 2, 3]);
+            sortTest([5, 4, 3, 2, 1, 0, 9, 8, 7, 6], undefined, [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+            sortTest([3, 1, 2], (lhs: number, rhs: number) => rhs - lhs, [3, 2, 1]);
+            sortTest([1, 3, 2], qub.Comparers.reversed<number>(), [3, 2, 1]);
+            sortTest([undefined, 3, 1], undefined, [1, 3, undefined]);
+            sortTest([3, undefined, 1], undefined, [1, 3, undefined]);
+            sortTest([undefined, NaN, 2, null, 1], undefined, [1, 2, NaN, null, undefined]);
+
+            test("is stable", () => {
+                const list = new qub.ArrayList<string>(["b1", "a1", "b2", "a2", "c1", "b3", "a3"]);
+                list.sort((lhs: string, rhs: string) => lhs.charCodeAt(0) - rhs.charCodeAt(0));
+                assert.deepEqual(list.toArray(), ["a1", "a2", "a3", "b1", "b2", "b3", "c1"]);
+            });
+
+            test("after clear()", () => {
+                const list = new qub.ArrayList<number>([9, 8, 7, 6]);
+                list.clear();
+                list.addAll([2, 1]);
+                list.sort();
+                assert.deepEqual(list.toArray(), [1, 2]);
+            });
+        });
+
+        suite("modification while iterating", () => {
+            test("getModificationCount()", () => {
+                const list = new qub.ArrayList<number>();
+                assert.deepEqual(list.getModificationCount(), 0);
+                list.add(1);
+                list.add(2);
+                assert.deepEqual(list.getModificationCount(), 2);
+                list.set(0, 5);
+                assert.deepEqual(list.getModificationCount(), 2);
+                list.removeAt(5);
+                assert.deepEqual(list.getModificationCount(), 2);
+                list.remove(2);
+                assert.deepEqual(list.getModificationCount(), 3);
+                list.clear();
+                assert.deepEqual(list.getModificationCount(), 4);
+            });
+
+            test("with add() before the iterator has started", () => {
+                const list = new qub.ArrayList<number>([1, 2]);
+                const iterator = list.iterate();
+                list.add(3);
+                assert.deepEqual(iterator.toArray(), [1, 2, 3]);
+            });
+
+            test("with add() while iterating", () => {
+                const list = new qub.ArrayList<number>([1, 2]);
+                const iterator = list.iterate();
+                assert.deepEqual(iterator.next(), true);
+                list.add(3);
+                assert.throws(() => iterator.getCurrent(), qub.ConcurrentModificationError);
+                assert.throws(() => iterator.next(), qub.ConcurrentModificationError);
+            });
+
+            test("with removeAt() while iterating in reverse", () => {
+                const list = new qub.ArrayList<number>([1, 2, 3]);
+                const iterator = list.iterateReverse();
+                assert.deepEqual(iterator.next(), true);
+                list.removeAt(0);
+                assert.throws(() => iterator.next(), qub.ConcurrentModificationError);
+            });
+
+            test("with remove() in a for...of loop", () => {
+                const list = new qub.ArrayList<number>([1, 2, 3]);
+                assert.throws(() => {
+                    for (const value of list) {
+                        list.remove(value);
+                    }
+                }, qub.ConcurrentModificationError);
+            });
+
+            test("with clear() under a where() view", () => {
+                const list = new qub.ArrayList<number>([1, 2, 3, 4]);
+                const iterator = list.where((value: number) => value % 2 === 0).iterate();
+                assert.deepEqual(iterator.next(), true);
+                assert.deepEqual(iterator.getCurrent(), 2);
+                list.clear();
+                assert.throws(() => iterator.next(), qub.ConcurrentModificationError);
+            });
+
+            test("with set() while iterating", () => {
+                const list = new qub.ArrayList<number>([1, 2, 3]);
+                const iterator = list.iterate();
+                assert.deepEqual(iterator.next(), true);
+                list.set(1, 20);
+                assert.deepEqual(iterator.next(), true);
+                assert.deepEqual(iterator.getCurrent(), 20);
+            });
+
+            test("error message", () => {
+                const error = new qub.ConcurrentModificationError();
+                assert.deepEqual(error.name, "ConcurrentModificationError");
+                assert.deepEqual(error.message, "The collection was modified while it was being iterated.");
+            });
+        });
+
+        test("asReadOnly()", () => {
+            const list = new qub.ArrayList<number>([1, 2]);
+            const readOnlyList: qub.ReadOnlyList<number> = list.asReadOnly();
+            assert.deepEqual(readOnlyList.toArray(), [1, 2]);
+            assert.deepEqual((readOnlyList as any).add, undefined);
+            assert.deepEqual((readOnlyList as any).clear, undefined);
+
+            list.add(3);
+            assert.deepEqual(readOnlyList.getCount(), 3);
+            assert.deepEqual(readOnlyList.get(2), 3);
+            assert.deepEqual(readOnlyList.getFromEnd(0), 3);
+            assert.deepEqual(readOnlyList.indexOf(2), 1);
+            assert.deepEqual(readOnlyList.iterateReverse().toArray(), [3, 2, 1]);
+        });
+
+        test("toImmutable()", () => {
+            const list = new qub.ArrayList<number>([1, 2]);
+            const immutableList: qub.ReadOnlyList<number> = list.toImmutable();
+            assert.deepEqual((immutableList as any).add, undefined);
+
+            list.add(3);
+            list.set(0, 10);
+            assert.deepEqual(immutableList.toArray(), [1, 2]);
+            assert.deepEqual(immutableList.getCount(), 2);
+        });
+
+        test("as a ReadOnlyList parameter", () => {
+            function sum(values: qub.ReadOnlyList<number>): number {
+                return values.sum();
+            }
+            assert.deepEqual(sum(new qub.ArrayList<number>([1, 2, 3])), 6);
+            assert.deepEqual(sum(new qub.SingleLinkList<number>([4, 5])), 9);
+        });
+
+        suite("insert()", () => {
+            function insertTest(values: number[], index: number, value: number, expected: number[]): void {
+                test(`with ${JSON.stringify(values)}, ${index} and ${value}`, () => {
+                    const list = new qub.ArrayList<number>(values);
+                    list.insert(index, value);
+                    assert.deepEqual(list.toArray(), expected);
+                    assert.deepEqual(list.getCount(), expected.length);
+                });
+            }
+
+            insertTest([], 0, 1, [1]);
+            insertTest([1, 2], 0, 0, [0, 1, 2]);
+            insertTest([1, 2], 1, 5, [1, 5, 2]);
+            insertTest([1, 2], 2, 3, [1, 2, 3]);
+            insertTest([1, 2], 3, 3, [1, 2]);
+            insertTest([1, 2], -1, 3, [1, 2]);
+            insertTest([1, 2], undefined, 3, [1, 2]);
+
+            test("after removeAt()", () => {
+                const list = new qub.ArrayList<number>([1, 2, 3]);
+                list.removeAt(2);
+                list.insert(0, 0);
+                assert.deepEqual(list.toArray(), [0, 1, 2]);
+            });
+        });
+
+        suite("insertSorted()", () => {
+            test("with no comparer", () => {
+                const list = new qub.ArrayList<number>();
+                assert.deepEqual(list.insertSorted(5), 0);
+                assert.deepEqual(list.insertSorted(1), 0);
+                assert.deepEqual(list.insertSorted(3), 1);
+                assert.deepEqual(list.insertSorted(9), 3);
+                assert.deepEqual(list.toArray(), [1, 3, 5, 9]);
+            });
+
+            test("inserts after equal values", () => {
+                const list = new qub.ArrayList<string>(["a1", "b1", "c1"]);
+                const byLetter = qub.Comparers.byKey((value: string) => value[0]);
+                assert.deepEqual(list.insertSorted("b2", byLetter), 2);
+                assert.deepEqual(list.insertSorted("a2", byLetter), 1);
+                assert.deepEqual(list.toArray(), ["a1", "a2", "b1", "b2", "c1"]);
+            });
+        });
+
+        suite("insertAll()", () => {
+            function insertAllTest(values: number[], index: number, toInsert: number[], expected: number[]): void {
+                test(`with ${JSON.stringify(values)}, ${index} and ${JSON.stringify(toInsert)}`, () => {
+                    const list = new qub.ArrayList<number>(values);
+                    list.insertAll(index, toInsert);
+                    assert.deepEqual(list.toArray(), expected);
+                    assert.deepEqual(list.getCount(), expected.length);
+                    assert.deepEqual(list.last(), expected[expected.length - 1]);
+                });
+            }
+
+            insertAllTest([], 0, [1, 2], [1, 2]);
+            insertAllTest([1, 4], 1, [2, 3], [1, 2, 3, 4]);
+            insertAllTest([1, 2], 0, [-1, 0], [-1, 0, 1, 2]);
+            insertAllTest([1, 2], 2, [3], [1, 2, 3]);
+            insertAllTest([1, 2], 3, [3], [1, 2]);
+            insertAllTest([1, 2], -1, [3], [1, 2]);
+            insertAllTest([1, 2], 1, [], [1, 2]);
+
+            test("with itself", () => {
+                const list = new qub.ArrayList<number>([1, 2]);
+                list.insertAll(1, list);
+                assert.deepEqual(list.toArray(), [1, 1, 2, 2]);
+            });
+        });
+
+        suite("removeRange()", () => {
+            function removeRangeTest(values: number[], start: number, count: number, expected: number[]): void {
+                test(`with ${JSON.stringify(values)}, ${start} and ${count}`, () => {
+                    const list = new qub.ArrayList<number>(values);
+                    list.removeRange(start, count);
+                    assert.deepEqual(list.toArray(), expected);
+                    assert.deepEqual(list.getCount(), expected.length);
+
+                    list.add(10);
+                    assert.deepEqual(list.last(), 10);
+                    assert.deepEqual(list.toArray(), expected.concat([10]));
+                });
+            }
+
+            removeRangeTest([1, 2, 3, 4], 1, 2, [1, 4]);
+            removeRangeTest([1, 2, 3, 4], 0, 2, [3, 4]);
+            removeRangeTest([1, 2, 3, 4], 2, 5, [1, 2]);
+            removeRangeTest([1, 2, 3, 4], 0, 4, []);
+            removeRangeTest([1, 2, 3, 4], 4, 1, [1, 2, 3, 4]);
+            removeRangeTest([1, 2, 3, 4], 1, 0, [1, 2, 3, 4]);
+            removeRangeTest([1, 2, 3, 4], -1, 2, [1, 2, 3, 4]);
+        });
+
+        suite("replaceRange()", () => {
+            function replaceRangeTest(values: number[], start: number, count: number, replacement: number[], expected: number[]): void {
+                test(`with ${JSON.stringify(values)}, ${start}, ${count} and ${JSON.stringify(replacement)}`, () => {
+                    const list = new qub.ArrayList<number>(values);
+                    list.replaceRange(start, count, replacement);
+                    assert.deepEqual(list.toArray(), expected);
+                });
+            }
+
+            replaceRangeTest([1, 2, 3, 4], 1, 2, [5], [1, 5, 4]);
+            replaceRangeTest([1, 2, 3, 4], 1, 1, [5, 6, 7], [1, 5, 6, 7, 3, 4]);
+            replaceRangeTest([1, 2], 2, 0, [3], [1, 2, 3]);
+            replaceRangeTest([1, 2], 0, 5, [], []);
+            replaceRangeTest([1, 2], 3, 1, [3], [1, 2]);
+        });
+
+        suite("subList()", () => {
+            test("get() and getCount()", () => {
+                const list = new qub.ArrayList<number>([1, 2, 3, 4, 5]);
+                const subList: qub.List<number> = list.subList(1, 3);
+                assert.deepEqual(subList.getCount(), 3);
+                assert.deepEqual(subList.toArray(), [2, 3, 4]);
+                assert.deepEqual(subList.iterateReverse().toArray(), [4, 3, 2]);
+                assert.deepEqual(subList.get(-1), undefined);
+                assert.deepEqual(subList.get(3), undefined);
+            });
+
+            test("with out of range bounds", () => {
+                const list = new qub.ArrayList<number>([1, 2, 3]);
+                assert.deepEqual(list.subList(2, 5).toArray(), [3]);
+                assert.deepEqual(list.subList(-1, 2).toArray(), [1, 2]);
+                assert.deepEqual(list.subList(5, 2).toArray(), []);
+            });
+
+            test("changes through the view", () => {
+                const list = new qub.ArrayList<number>([1, 2, 3, 4, 5]);
+                const subList: qub.List<number> = list.subList(1, 3);
+                subList.set(0, 20);
+                subList.add(35);
+                subList.insert(0, 15);
+                assert.deepEqual(subList.removeAt(3), 4);
+                assert.deepEqual(subList.toArray(), [15, 20, 3, 35]);
+                assert.deepEqual(list.toArray(), [1, 15, 20, 3, 35, 5]);
+
+                subList.clear();
+                assert.deepEqual(subList.any(), false);
+                assert.deepEqual(list.toArray(), [1, 5]);
+            });
+
+            test("range changes through the view", () => {
+                const list = new qub.ArrayList<number>([1, 2, 3, 4, 5]);
+                const subList: qub.List<number> = list.subList(1, 3);
+                subList.replaceRange(1, 1, [30, 31]);
+                subList.insertAll(0, [0]);
+                subList.removeRange(3, 5);
+                assert.deepEqual(subList.toArray(), [0, 2, 30]);
+                assert.deepEqual(list.toArray(), [1, 0, 2, 30, 5]);
+            });
+
+            test("of a subList", () => {
+                const list = new qub.ArrayList<number>([1, 2, 3, 4, 5]);
+                const subList: qub.List<number> = list.subList(1, 3).subList(1, 1);
+                assert.deepEqual(subList.toArray(), [3]);
+                subList.add(6);
+                assert.deepEqual(list.toArray(), [1, 2, 3, 6, 4, 5]);
+            });
+
+            test("after the list is changed", () => {
+                const list = new qub.ArrayList<number>([1, 2, 3]);
+                const subList: qub.List<number> = list.subList(0, 2);
+                list.set(0, 10);
+                assert.deepEqual(subList.get(0), 10);
+                list.swap(1, 2);
+                assert.deepEqual(subList.toArray(), [10, 3]);
+                list.reverse();
+                assert.deepEqual(subList.toArray(), [2, 3]);
+                list.sort();
+                assert.deepEqual(subList.toArray(), [2, 3]);
+                list.fill(7, 1);
+                assert.deepEqual(subList.toArray(), [2, 7]);
+                list.add(4);
+                assert.throws(() => subList.get(0), qub.ConcurrentModificationError);
+                assert.throws(() => subList.getCount(), qub.ConcurrentModificationError);
+            });
+        });
+
+        suite("reverse()", () => {
+            function reverseTest(values: number[], expected: number[]): void {
+                test(`with ${JSON.stringify(values)}`, () => {
+                    const list = new qub.ArrayList<number>(values);
+                    list.reverse();
+                    assert.deepEqual(list.toArray(), expected);
+                    assert.deepEqual(list.last(), expected[expected.length - 1]);
+                });
+            }
+
+            reverseTest([], []);
+            reverseTest([1], [1]);
+            reverseTest([1, 2], [2, 1]);
+            reverseTest([1, 2, 3, 4, 5], [5, 4, 3, 2, 1]);
+        });
+
+        suite("swap()", () => {
+            function swapTest(values: number[], i: number, j: number, expected: number[]): void {
+                test(`with ${JSON.stringify(values)}, ${i} and ${j}`, () => {
+                    const list = new qub.ArrayList<number>(values);
+                    list.swap(i, j);
+                    assert.deepEqual(list.toArray(), expected);
+                });
+            }
+
+            swapTest([1, 2, 3], 0, 2, [3, 2, 1]);
+            swapTest([1, 2, 3], 1, 1, [1, 2, 3]);
+            swapTest([1, 2, 3], 0, 3, [1, 2, 3]);
+            swapTest([1, 2, 3], -1, 0, [1, 2, 3]);
+        });
+
+        suite("fill()", () => {
+            function fillTest(values: number[], value: number, start: number, count: number, expected: number[]): void {
+                test(`with ${JSON.stringify(values)}, ${value}, ${start} and ${count}`, () => {
+                    const list = new qub.ArrayList<number>(values);
+                    list.fill(value, start, count);
+                    assert.deepEqual(list.toArray(), expected);
+                });
+            }
+
+            fillTest([], 0, undefined, undefined, []);
+            fillTest([1, 2, 3], 0, undefined, undefined, [0, 0, 0]);
+            fillTest([1, 2, 3], 0, 1, undefined, [1, 0, 0]);
+            fillTest([1, 2, 3, 4], 0, 1, 2, [1, 0, 0, 4]);
+            fillTest([1, 2, 3], 0, 2, 5, [1, 2, 0]);
+            fillTest([1, 2, 3], 0, -1, 2, [0, 2, 3]);
+            fillTest([1, 2, 3], 0, 3, 1, [1, 2, 3]);
+        });
+
+        test("reverse(), swap(), fill() and sort() while iterating", () => {
+            function replaceWhileIteratingTest(action: (list: qub.ArrayList<number>) => void, expectedNext: number): void {
+                const list = new qub.ArrayList<number>([1, 2, 3]);
+                const iterator: qub.Iterator<number> = list.iterate();
+                iterator.next();
+                const modificationCount: number = list.getModificationCount();
+                action(list);
+                assert.deepEqual(list.getModificationCount(), modificationCount);
+                assert.deepEqual(iterator.next(), true);
+                assert.deepEqual(iterator.getCurrent(), expectedNext);
+            }
+
+            replaceWhileIteratingTest((list: qub.ArrayList<number>) => list.reverse(), 2);
+            replaceWhileIteratingTest((list: qub.ArrayList<number>) => list.swap(1, 2), 3);
+            replaceWhileIteratingTest((list: qub.ArrayList<number>) => list.fill(0), 0);
+            replaceWhileIteratingTest((list: qub.ArrayList<number>) => list.sort(qub.Comparers.reversed<number>()), 2);
+        });
     });
 
     suite("SingleLinkNode<T>", () => {
@@ -1264,6 +1654,211 @@ suite("qub", () => {
         });
     });
 
+    suite("ObservableList<T>", () => {
+        function recordChanges<T>(list: qub.ObservableList<T>): qub.ListChange<T>[][] {
+            const result: qub.ListChange<T>[][] = [];
+            list.subscribe((changes: qub.Indexable<qub.ListChange<T>>) => result.push(changes.toArray()));
+            return result;
+        }
+
+        test("constructor()", () => {
+            const list = new qub.ObservableList<number>([1, 2]);
+            assert.deepEqual(list.toArray(), [1, 2]);
+            assert.deepEqual(list.getCount(), 2);
+        });
+
+        test("add()", () => {
+            const list = new qub.ObservableList<number>([1]);
+            const changes = recordChanges(list);
+            list.add(2);
+            list.addAll([3, 4]);
+            assert.deepEqual(list.toArray(), [1, 2, 3, 4]);
+            assert.deepEqual(changes, [
+                [{ type: qub.CollectionChangeType.Added, index: 1, newValue: 2 }],
+                [{ type: qub.CollectionChangeType.Added, index: 2, newValue: 3 }],
+                [{ type: qub.CollectionChangeType.Added, index: 3, newValue: 4 }]
+            ]);
+        });
+
+        test("set()", () => {
+            const list = new qub.ObservableList<string>(["a", "b"]);
+            const changes = recordChanges(list);
+            list.set(0, "A");
+            list.set(5, "F");
+            list.setLast("B");
+            assert.deepEqual(list.toArray(), ["A", "B"]);
+            assert.deepEqual(changes, [
+                [{ type: qub.CollectionChangeType.Replaced, index: 0, oldValue: "a", newValue: "A" }],
+                [{ type: qub.CollectionChangeType.Replaced, index: 1, oldValue: "b", newValue: "B" }]
+            ]);
+        });
+
+        test("removeAt() and remove()", () => {
+            const list = new qub.ObservableList<string>(["a", "b", "c"]);
+            const changes = recordChanges(list);
+            assert.deepEqual(list.removeAt(1), "b");
+            assert.deepEqual(list.removeAt(7), undefined);
+            assert.deepEqual(list.remove("z"), undefined);
+            assert.deepEqual(list.remove("c"), "c");
+            assert.deepEqual(list.removeFirst(), "a");
+            assert.deepEqual(list.any(), false);
+            assert.deepEqual(changes, [
+                [{ type: qub.CollectionChangeType.Removed, index: 1, oldValue: "b" }],
+                [{ type: qub.CollectionChangeType.Removed, index: 1, oldValue: "c" }],
+                [{ type: qub.CollectionChangeType.Removed, index: 0, oldValue: "a" }]
+            ]);
+        });
+
+        test("clear()", () => {
+            const list = new qub.ObservableList<number>([1, 2]);
+            const changes = recordChanges(list);
+            list.clear();
+            list.clear();
+            assert.deepEqual(changes, [[{ type: qub.CollectionChangeType.Cleared }]]);
+        });
+
+        test("sort()", () => {
+            const list = new qub.ObservableList<number>([2, 1, 3]);
+            const changes = recordChanges(list);
+            list.sort();
+            assert.deepEqual(list.toArray(), [1, 2, 3]);
+            assert.deepEqual(changes, [[
+                { type: qub.CollectionChangeType.Replaced, index: 0, oldValue: 2, newValue: 1 },
+                { type: qub.CollectionChangeType.Replaced, index: 1, oldValue: 1, newValue: 2 }
+            ]]);
+        });
+
+        test("batch()", () => {
+            const list = new qub.ObservableList<number>();
+            const changes = recordChanges(list);
+            list.batch(() => {
+                list.add(1);
+                list.batch(() => {
+                    list.add(2);
+                });
+                list.removeAt(0);
+                assert.deepEqual(changes, []);
+            });
+            assert.deepEqual(changes, [[
+                { type: qub.CollectionChangeType.Added, index: 0, newValue: 1 },
+                { type: qub.CollectionChangeType.Added, index: 1, newValue: 2 },
+                { type: qub.CollectionChangeType.Removed, index: 0, oldValue: 1 }
+            ]]);
+        });
+
+        test("batch() with no changes", () => {
+            const list = new qub.ObservableList<number>();
+            const changes = recordChanges(list);
+            list.batch(() => { });
+            assert.deepEqual(changes, []);
+        });
+
+        test("subscribe() and dispose()", () => {
+            const list = new qub.ObservableList<number>();
+            let firstCount: number = 0;
+            let secondCount: number = 0;
+            const first: qub.Disposable = list.subscribe(() => ++firstCount);
+            list.subscribe(() => ++secondCount);
+
+            list.add(1);
+            first.dispose();
+            first.dispose();
+            list.add(2);
+
+            assert.deepEqual(firstCount, 1);
+            assert.deepEqual(secondCount, 2);
+        });
+
+        test("dispose() from within a listener", () => {
+            const list = new qub.ObservableList<number>();
+            let count: number = 0;
+            const subscription: qub.Disposable = list.subscribe(() => {
+                ++count;
+                subscription.dispose();
+            });
+            list.add(1);
+            list.add(2);
+            assert.deepEqual(count, 1);
+        });
+
+        test("insert() and insertSorted()", () => {
+            const list = new qub.ObservableList<number>([1, 5]);
+            const changes = recordChanges(list);
+            list.insert(1, 3);
+            list.insert(7, 7);
+            assert.deepEqual(list.insertSorted(4), 2);
+            assert.deepEqual(list.toArray(), [1, 3, 4, 5]);
+            assert.deepEqual(changes, [
+                [{ type: qub.CollectionChangeType.Added, index: 1, newValue: 3 }],
+                [{ type: qub.CollectionChangeType.Added, index: 2, newValue: 4 }]
+            ]);
+        });
+
+        test("range changes", () => {
+            const list = new qub.ObservableList<number>([1, 2, 3]);
+            const changes = recordChanges(list);
+            list.insertAll(1, [10, 11]);
+            list.removeRange(0, 2);
+            list.replaceRange(0, 1, [20]);
+            assert.deepEqual(list.toArray(), [20, 2, 3]);
+            assert.deepEqual(changes, [
+                [
+                    { type: qub.CollectionChangeType.Added, index: 1, newValue: 10 },
+                    { type: qub.CollectionChangeType.Added, index: 2, newValue: 11 }
+                ],
+                [
+                    { type: qub.CollectionChangeType.Removed, index: 0, oldValue: 1 },
+                    { type: qub.CollectionChangeType.Removed, index: 0, oldValue: 10 }
+                ],
+                [
+                    { type: qub.CollectionChangeType.Removed, index: 0, oldValue: 11 },
+                    { type: qub.CollectionChangeType.Added, index: 0, newValue: 20 }
+                ]
+            ]);
+        });
+
+        test("reverse(), swap() and fill()", () => {
+            const list = new qub.ObservableList<number>([1, 2, 3]);
+            const changes = recordChanges(list);
+            list.reverse();
+            list.swap(0, 1);
+            list.fill(0, 2);
+            assert.deepEqual(list.toArray(), [2, 3, 0]);
+            assert.deepEqual(changes, [
+                [
+                    { type: qub.CollectionChangeType.Replaced, index: 0, oldValue: 1, newValue: 3 },
+                    { type: qub.CollectionChangeType.Replaced, index: 2, oldValue: 3, newValue: 1 }
+                ],
+                [
+                    { type: qub.CollectionChangeType.Replaced, index: 0, oldValue: 3, newValue: 2 },
+                    { type: qub.CollectionChangeType.Replaced, index: 1, oldValue: 2, newValue: 3 }
+                ],
+                [
+                    { type: qub.CollectionChangeType.Replaced, index: 2, oldValue: 1, newValue: 0 }
+                ]
+            ]);
+        });
+
+        test("swap() that doesn't change any values", () => {
+            const list = new qub.ObservableList<number>([1, 2, 1]);
+            const changes = recordChanges(list);
+            list.swap(0, 2);
+            list.swap(1, 1);
+            list.swap(0, 3);
+            list.swap(undefined, 1);
+            assert.deepEqual(list.toArray(), [1, 2, 1]);
+            assert.deepEqual(changes, []);
+        });
+
+        test("subList()", () => {
+            const list = new qub.ObservableList<number>([1, 2, 3]);
+            const changes = recordChanges(list);
+            list.subList(1, 2).add(4);
+            assert.deepEqual(list.toArray(), [1, 2, 3, 4]);
+            assert.deepEqual(changes, [[{ type: qub.CollectionChangeType.Added, index: 3, newValue: 4 }]]);
+        });
+    });
+
     suite("SingleLinkList<T>", () => {
         suite("constructor()", () => {
             test("with no data", () => {
@@ -1535,6 +2130,277 @@ suite("qub", () => {
                 assert.deepStrictEqual(list.getCount(), 0);
             });
         });
+
+        suite("sort()", () => {
+            function sortTest(values: number[], comparer: qub.Comparison<number>, expected: number[]): void {
+                test(`with ${JSON.stringify(values)}`, () => {
+                    const list = new qub.SingleLinkList<number>(values);
+                    list.sort(comparer);
+                    assert.deepEqual(list.toArray(), expected);
+                    assert.deepEqual(list.last(), expected[expected.length - 1]);
+                });
+            }
+
+            sortTest([], undefined, []);
+            sortTest([1], undefined, [1]);
+            sortTest([3, 1, 2], undefined, [1, 2, 3]);
+            sortTest([5, 4, 3, 2, 1, 0, 9, 8, 7, 6], undefined, [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+            sortTest([3, 1, 2], (lhs: number, rhs: number) => rhs - lhs, [3, 2, 1]);
+            sortTest([1, 3, 2], qub.Comparers.reversed<number>(), [3, 2, 1]);
+            sortTest([undefined, 3, 1], undefined, [1, 3, undefined]);
+            sortTest([3, undefined, 1], undefined, [1, 3, undefined]);
+            sortTest([undefined, NaN, 2, null, 1], undefined, [1, 2, NaN, null, undefined]);
+
+            test("is stable", () => {
+                const list = new qub.SingleLinkList<string>(["b1", "a1", "b2", "a2", "c1", "b3", "a3"]);
+                list.sort((lhs: string, rhs: string) => lhs.charCodeAt(0) - rhs.charCodeAt(0));
+                assert.deepEqual(list.toArray(), ["a1", "a2", "a3", "b1", "b2", "b3", "c1"]);
+            });
+
+            test("then add()", () => {
+                const list = new qub.SingleLinkList<number>([3, 1, 2]);
+                list.sort();
+                list.add(0);
+                assert.deepEqual(list.toArray(), [1, 2, 3, 0]);
+            });
+        });
+
+        suite("modification while iterating", () => {
+            test("with add() while iterating", () => {
+                const list = new qub.SingleLinkList<number>([1, 2]);
+                const iterator = list.iterate();
+                assert.deepEqual(iterator.next(), true);
+                list.add(3);
+                assert.throws(() => iterator.next(), qub.ConcurrentModificationError);
+            });
+
+            test("with removeAt() under a skip() view", () => {
+                const list = new qub.SingleLinkList<number>([1, 2, 3]);
+                const iterator = list.skip(1).iterate();
+                assert.deepEqual(iterator.next(), true);
+                list.removeAt(2);
+                assert.throws(() => iterator.getCurrent(), qub.ConcurrentModificationError);
+            });
+
+            test("with remove() of a missing value while iterating", () => {
+                const list = new qub.SingleLinkList<number>([1, 2]);
+                const iterator = list.iterate();
+                assert.deepEqual(iterator.next(), true);
+                list.remove(5);
+                assert.deepEqual(iterator.next(), true);
+                assert.deepEqual(iterator.getCurrent(), 2);
+            });
+
+            test("with clear() under a take() view", () => {
+                const list = new qub.SingleLinkList<number>([1, 2, 3]);
+                const iterator = list.take(2).iterate();
+                assert.deepEqual(iterator.next(), true);
+                list.clear();
+                assert.throws(() => iterator.next(), qub.ConcurrentModificationError);
+            });
+        });
+
+        suite("insertAll()", () => {
+            function insertAllTest(values: number[], index: number, toInsert: number[], expected: number[]): void {
+                test(`with ${JSON.stringify(values)}, ${index} and ${JSON.stringify(toInsert)}`, () => {
+                    const list = new qub.SingleLinkList<number>(values);
+                    list.insertAll(index, toInsert);
+                    assert.deepEqual(list.toArray(), expected);
+                    assert.deepEqual(list.getCount(), expected.length);
+                    assert.deepEqual(list.last(), expected[expected.length - 1]);
+                });
+            }
+
+            insertAllTest([], 0, [1, 2], [1, 2]);
+            insertAllTest([1, 4], 1, [2, 3], [1, 2, 3, 4]);
+            insertAllTest([1, 2], 0, [-1, 0], [-1, 0, 1, 2]);
+            insertAllTest([1, 2], 2, [3], [1, 2, 3]);
+            insertAllTest([1, 2], 3, [3], [1, 2]);
+            insertAllTest([1, 2], -1, [3], [1, 2]);
+            insertAllTest([1, 2], 1, [], [1, 2]);
+
+            test("with itself", () => {
+                const list = new qub.SingleLinkList<number>([1, 2]);
+                list.insertAll(1, list);
+                assert.deepEqual(list.toArray(), [1, 1, 2, 2]);
+            });
+        });
+
+        suite("removeRange()", () => {
+            function removeRangeTest(values: number[], start: number, count: number, expected: number[]): void {
+                test(`with ${JSON.stringify(values)}, ${start} and ${count}`, () => {
+                    const list = new qub.SingleLinkList<number>(values);
+                    list.removeRange(start, count);
+                    assert.deepEqual(list.toArray(), expected);
+                    assert.deepEqual(list.getCount(), expected.length);
+
+                    list.add(10);
+                    assert.deepEqual(list.last(), 10);
+                    assert.deepEqual(list.toArray(), expected.concat([10]));
+                });
+            }
+
+            removeRangeTest([1, 2, 3, 4], 1, 2, [1, 4]);
+            removeRangeTest([1, 2, 3, 4], 0, 2, [3, 4]);
+            removeRangeTest([1, 2, 3, 4], 2, 5, [1, 2]);
+            removeRangeTest([1, 2, 3, 4], 0, 4, []);
+            removeRangeTest([1, 2, 3, 4], 4, 1, [1, 2, 3, 4]);
+            removeRangeTest([1, 2, 3, 4], 1, 0, [1, 2, 3, 4]);
+            removeRangeTest([1, 2, 3, 4], -1, 2, [1, 2, 3, 4]);
+        });
+
+        suite("replaceRange()", () => {
+            function replaceRangeTest(values: number[], start: number, count: number, replacement: number[], expected: number[]): void {
+                test(`with ${JSON.stringify(values)}, ${start}, ${count} and ${JSON.stringify(replacement)}`, () => {
+                    const list = new qub.SingleLinkList<number>(values);
+                    list.replaceRange(start, count, replacement);
+                    assert.deepEqual(list.toArray(), expected);
+                });
+            }
+
+            replaceRangeTest([1, 2, 3, 4], 1, 2, [5], [1, 5, 4]);
+            replaceRangeTest([1, 2, 3, 4], 1, 1, [5, 6, 7], [1, 5, 6, 7, 3, 4]);
+            replaceRangeTest([1, 2], 2, 0, [3], [1, 2, 3]);
+            replaceRangeTest([1, 2], 0, 5, [], []);
+            replaceRangeTest([1, 2], 3, 1, [3], [1, 2]);
+        });
+
+        suite("subList()", () => {
+            test("get() and getCount()", () => {
+                const list = new qub.SingleLinkList<number>([1, 2, 3, 4, 5]);
+                const subList: qub.List<number> = list.subList(1, 3);
+                assert.deepEqual(subList.getCount(), 3);
+                assert.deepEqual(subList.toArray(), [2, 3, 4]);
+                assert.deepEqual(subList.iterateReverse().toArray(), [4, 3, 2]);
+                assert.deepEqual(subList.get(-1), undefined);
+                assert.deepEqual(subList.get(3), undefined);
+            });
+
+            test("with out of range bounds", () => {
+                const list = new qub.SingleLinkList<number>([1, 2, 3]);
+                assert.deepEqual(list.subList(2, 5).toArray(), [3]);
+                assert.deepEqual(list.subList(-1, 2).toArray(), [1, 2]);
+                assert.deepEqual(list.subList(5, 2).toArray(), []);
+            });
+
+            test("changes through the view", () => {
+                const list = new qub.SingleLinkList<number>([1, 2, 3, 4, 5]);
+                const subList: qub.List<number> = list.subList(1, 3);
+                subList.set(0, 20);
+                subList.add(35);
+                subList.insert(0, 15);
+                assert.deepEqual(subList.removeAt(3), 4);
+                assert.deepEqual(subList.toArray(), [15, 20, 3, 35]);
+                assert.deepEqual(list.toArray(), [1, 15, 20, 3, 35, 5]);
+
+                subList.clear();
+                assert.deepEqual(subList.any(), false);
+                assert.deepEqual(list.toArray(), [1, 5]);
+            });
+
+            test("range changes through the view", () => {
+                const list = new qub.SingleLinkList<number>([1, 2, 3, 4, 5]);
+                const subList: qub.List<number> = list.subList(1, 3);
+                subList.replaceRange(1, 1, [30, 31]);
+                subList.insertAll(0, [0]);
+                subList.removeRange(3, 5);
+                assert.deepEqual(subList.toArray(), [0, 2, 30]);
+                assert.deepEqual(list.toArray(), [1, 0, 2, 30, 5]);
+            });
+
+            test("of a subList", () => {
+                const list = new qub.SingleLinkList<number>([1, 2, 3, 4, 5]);
+                const subList: qub.List<number> = list.subList(1, 3).subList(1, 1);
+                assert.deepEqual(subList.toArray(), [3]);
+                subList.add(6);
+                assert.deepEqual(list.toArray(), [1, 2, 3, 6, 4, 5]);
+            });
+
+            test("after the list is changed", () => {
+                const list = new qub.SingleLinkList<number>([1, 2, 3]);
+                const subList: qub.List<number> = list.subList(0, 2);
+                list.set(0, 10);
+                assert.deepEqual(subList.get(0), 10);
+                list.swap(1, 2);
+                assert.deepEqual(subList.toArray(), [10, 3]);
+                list.reverse();
+                assert.deepEqual(subList.toArray(), [2, 3]);
+                list.sort();
+                assert.deepEqual(subList.toArray(), [2, 3]);
+                list.fill(7, 1);
+                assert.deepEqual(subList.toArray(), [2, 7]);
+                list.add(4);
+                assert.throws(() => subList.get(0), qub.ConcurrentModificationError);
+                assert.throws(() => subList.getCount(), qub.ConcurrentModificationError);
+            });
+        });
+
+        suite("reverse()", () => {
+            function reverseTest(values: number[], expected: number[]): void {
+                test(`with ${JSON.stringify(values)}`, () => {
+                    const list = new qub.SingleLinkList<number>(values);
+                    list.reverse();
+                    assert.deepEqual(list.toArray(), expected);
+                    assert.deepEqual(list.last(), expected[expected.length - 1]);
+                });
+            }
+
+            reverseTest([], []);
+            reverseTest([1], [1]);
+            reverseTest([1, 2], [2, 1]);
+            reverseTest([1, 2, 3, 4, 5], [5, 4, 3, 2, 1]);
+        });
+
+        suite("swap()", () => {
+            function swapTest(values: number[], i: number, j: number, expected: number[]): void {
+                test(`with ${JSON.stringify(values)}, ${i} and ${j}`, () => {
+                    const list = new qub.SingleLinkList<number>(values);
+                    list.swap(i, j);
+                    assert.deepEqual(list.toArray(), expected);
+                });
+            }
+
+            swapTest([1, 2, 3], 0, 2, [3, 2, 1]);
+            swapTest([1, 2, 3], 1, 1, [1, 2, 3]);
+            swapTest([1, 2, 3], 0, 3, [1, 2, 3]);
+            swapTest([1, 2, 3], -1, 0, [1, 2, 3]);
+        });
+
+        suite("fill()", () => {
+            function fillTest(values: number[], value: number, start: number, count: number, expected: number[]): void {
+                test(`with ${JSON.stringify(values)}, ${value}, ${start} and ${count}`, () => {
+                    const list = new qub.SingleLinkList<number>(values);
+                    list.fill(value, start, count);
+                    assert.deepEqual(list.toArray(), expected);
+                });
+            }
+
+            fillTest([], 0, undefined, undefined, []);
+            fillTest([1, 2, 3], 0, undefined, undefined, [0, 0, 0]);
+            fillTest([1, 2, 3], 0, 1, undefined, [1, 0, 0]);
+            fillTest([1, 2, 3, 4], 0, 1, 2, [1, 0, 0, 4]);
+            fillTest([1, 2, 3], 0, 2, 5, [1, 2, 0]);
+            fillTest([1, 2, 3], 0, -1, 2, [0, 2, 3]);
+            fillTest([1, 2, 3], 0, 3, 1, [1, 2, 3]);
+        });
+
+        test("reverse(), swap(), fill() and sort() while iterating", () => {
+            function replaceWhileIteratingTest(action: (list: qub.SingleLinkList<number>) => void, expectedNext: number): void {
+                const list = new qub.SingleLinkList<number>([1, 2, 3]);
+                const iterator: qub.Iterator<number> = list.iterate();
+                iterator.next();
+                const modificationCount: number = list.getModificationCount();
+                action(list);
+                assert.deepEqual(list.getModificationCount(), modificationCount);
+                assert.deepEqual(iterator.next(), true);
+                assert.deepEqual(iterator.getCurrent(), expectedNext);
+            }
+
+            replaceWhileIteratingTest((list: qub.SingleLinkList<number>) => list.reverse(), 2);
+            replaceWhileIteratingTest((list: qub.SingleLinkList<number>) => list.swap(1, 2), 3);
+            replaceWhileIteratingTest((list: qub.SingleLinkList<number>) => list.fill(0), 0);
+            replaceWhileIteratingTest((list: qub.SingleLinkList<number>) => list.sort(qub.Comparers.reversed<number>()), 2);
+        });
     });
 
     suite("DoubleLinkNode<T>", () => {
@@ -1621,6 +2487,325 @@ suite("qub", () => {
         });
     });
 
+    suite("DoubleLinkList<T>", () => {
+        test("constructor()", () => {
+            const list = new qub.DoubleLinkList<number>();
+            assert.deepEqual(list.getCount(), 0);
+            assert.deepEqual(list.any(), false);
+            assert.deepEqual(list.toArray(), []);
+            assert.deepEqual(list.getFirstNode(), undefined);
+            assert.deepEqual(list.getLastNode(), undefined);
+        });
+
+        test("constructor(T[])", () => {
+            const list = new qub.DoubleLinkList<number>([1, 2, 3]);
+            assert.deepEqual(list.getCount(), 3);
+            assert.deepEqual(list.toArray(), [1, 2, 3]);
+            assert.deepEqual(list.iterateReverse().toArray(), [3, 2, 1]);
+            assert.deepEqual(list.getFirstNode().getValue(), 1);
+            assert.deepEqual(list.getLastNode().getValue(), 3);
+        });
+
+        test("get()", () => {
+            const list = new qub.DoubleLinkList<number>([1, 2, 3, 4, 5]);
+            assert.deepEqual(list.get(undefined), undefined);
+            assert.deepEqual(list.get(-1), undefined);
+            assert.deepEqual(list.get(0), 1);
+            assert.deepEqual(list.get(3), 4);
+            assert.deepEqual(list.get(4), 5);
+            assert.deepEqual(list.get(5), undefined);
+        });
+
+        test("getFromEnd()", () => {
+            const list = new qub.DoubleLinkList<number>([1, 2, 3]);
+            assert.deepEqual(list.getFromEnd(undefined), undefined);
+            assert.deepEqual(list.getFromEnd(0), 3);
+            assert.deepEqual(list.getFromEnd(2), 1);
+            assert.deepEqual(list.getFromEnd(3), undefined);
+        });
+
+        test("set()", () => {
+            const list = new qub.DoubleLinkList<number>([1, 2, 3]);
+            list.set(1, 20);
+            list.set(3, 40);
+            list.setLast(30);
+            assert.deepEqual(list.toArray(), [1, 20, 30]);
+        });
+
+        test("addFirst() and addLast()", () => {
+            const list = new qub.DoubleLinkList<number>();
+            const node = list.addFirst(2);
+            assert.deepEqual(node.getValue(), 2);
+            list.addFirst(1);
+            list.addLast(3);
+            list.add(4);
+            assert.deepEqual(list.toArray(), [1, 2, 3, 4]);
+            assert.deepEqual(list.iterateReverse().toArray(), [4, 3, 2, 1]);
+            assert.deepEqual(list.getCount(), 4);
+        });
+
+        test("insertBefore() and insertAfter()", () => {
+            const list = new qub.DoubleLinkList<string>(["b"]);
+            const b = list.getFirstNode();
+            list.insertBefore(b, "a");
+            const c = list.insertAfter(b, "c");
+            list.insertAfter(c, "d");
+            list.insertBefore(c, "bc");
+            assert.deepEqual(list.toArray(), ["a", "b", "bc", "c", "d"]);
+            assert.deepEqual(list.iterateReverse().toArray(), ["d", "c", "bc", "b", "a"]);
+            assert.deepEqual(list.getFirstNode().getValue(), "a");
+            assert.deepEqual(list.getLastNode().getValue(), "d");
+            assert.deepEqual(list.getCount(), 5);
+        });
+
+        test("removeNode()", () => {
+            const list = new qub.DoubleLinkList<number>([1, 2, 3]);
+            assert.deepEqual(list.removeNode(list.getFirstNode().getNext()), 2);
+            assert.deepEqual(list.toArray(), [1, 3]);
+            assert.deepEqual(list.removeNode(list.getLastNode()), 3);
+            assert.deepEqual(list.removeNode(list.getFirstNode()), 1);
+            assert.deepEqual(list.toArray(), []);
+            assert.deepEqual(list.getCount(), 0);
+            assert.deepEqual(list.getLastNode(), undefined);
+        });
+
+        test("removeAt()", () => {
+            const list = new qub.DoubleLinkList<number>([1, 2, 3]);
+            assert.deepEqual(list.removeAt(3), undefined);
+            assert.deepEqual(list.removeAt(1), 2);
+            assert.deepEqual(list.toArray(), [1, 3]);
+        });
+
+        test("remove()", () => {
+            const list = new qub.DoubleLinkList<number>([1, 2, 3]);
+            assert.deepEqual(list.remove(4), undefined);
+            assert.deepEqual(list.remove(3), 3);
+            assert.deepEqual(list.remove(7, (lhs: number, rhs: number) => lhs % 2 === rhs % 2), 1);
+            assert.deepEqual(list.toArray(), [2]);
+        });
+
+        test("removeFirst() and removeLast()", () => {
+            const list = new qub.DoubleLinkList<number>([1, 2, 3]);
+            assert.deepEqual(list.removeFirst(), 1);
+            assert.deepEqual(list.removeLast(), 3);
+            assert.deepEqual(list.removeLast(), 2);
+            assert.deepEqual(list.removeFirst(), undefined);
+            assert.deepEqual(list.removeLast(), undefined);
+            assert.deepEqual(list.getCount(), 0);
+        });
+
+        test("clear()", () => {
+            const list = new qub.DoubleLinkList<number>([1, 2, 3]);
+            list.clear();
+            assert.deepEqual(list.getCount(), 0);
+            assert.deepEqual(list.toArray(), []);
+        });
+
+        suite("splice()", () => {
+            test("at the end", () => {
+                const list = new qub.DoubleLinkList<number>([1, 2]);
+                const other = new qub.DoubleLinkList<number>([3, 4]);
+                list.splice(other);
+                assert.deepEqual(list.toArray(), [1, 2, 3, 4]);
+                assert.deepEqual(list.iterateReverse().toArray(), [4, 3, 2, 1]);
+                assert.deepEqual(list.getCount(), 4);
+                assert.deepEqual(other.getCount(), 0);
+                assert.deepEqual(other.toArray(), []);
+            });
+
+            test("before a node", () => {
+                const list = new qub.DoubleLinkList<number>([1, 4]);
+                list.splice(new qub.DoubleLinkList<number>([2, 3]), list.getLastNode());
+                assert.deepEqual(list.toArray(), [1, 2, 3, 4]);
+                assert.deepEqual(list.iterateReverse().toArray(), [4, 3, 2, 1]);
+            });
+
+            test("before the first node", () => {
+                const list = new qub.DoubleLinkList<number>([3]);
+                list.splice(new qub.DoubleLinkList<number>([1, 2]), list.getFirstNode());
+                assert.deepEqual(list.toArray(), [1, 2, 3]);
+                assert.deepEqual(list.getFirstNode().getValue(), 1);
+            });
+
+            test("into an empty list", () => {
+                const list = new qub.DoubleLinkList<number>();
+                list.splice(new qub.DoubleLinkList<number>([1, 2]));
+                assert.deepEqual(list.toArray(), [1, 2]);
+                assert.deepEqual(list.getLastNode().getValue(), 2);
+            });
+
+            test("with an empty or undefined list", () => {
+                const list = new qub.DoubleLinkList<number>([1]);
+                list.splice(new qub.DoubleLinkList<number>());
+                list.splice(undefined);
+                assert.deepEqual(list.toArray(), [1]);
+            });
+        });
+
+        test("modification while iterating", () => {
+            const list = new qub.DoubleLinkList<number>([1, 2, 3]);
+            const iterator = list.iterate();
+            assert.deepEqual(iterator.next(), true);
+            list.removeNode(list.getLastNode());
+            assert.throws(() => iterator.next(), qub.ConcurrentModificationError);
+        });
+
+        test("insert()", () => {
+            const list = new qub.DoubleLinkList<number>([1, 3]);
+            list.insert(1, 2);
+            list.insert(3, 4);
+            list.insert(0, 0);
+            list.insert(9, 9);
+            assert.deepEqual(list.toArray(), [0, 1, 2, 3, 4]);
+            assert.deepEqual(list.iterateReverse().toArray(), [4, 3, 2, 1, 0]);
+        });
+
+        test("subList()", () => {
+            const list = new qub.DoubleLinkList<number>([1, 2, 3, 4]);
+            const subList: qub.List<number> = list.subList(1, 2);
+            subList.replaceRange(0, 2, [5]);
+            assert.deepEqual(subList.toArray(), [5]);
+            assert.deepEqual(list.toArray(), [1, 5, 4]);
+        });
+
+        test("with a node that was already removed", () => {
+            const list = new qub.DoubleLinkList<number>([1, 2, 3]);
+            const node: qub.DoubleLinkNode<number> = list.getFirstNode().getNext();
+            assert.deepEqual(list.removeNode(node), 2);
+            assert.deepEqual(node.getList(), undefined);
+            assert.deepEqual(list.containsNode(node), false);
+
+            assert.deepEqual(list.removeNode(node), undefined);
+            assert.deepEqual(list.insertBefore(node, 4), undefined);
+            assert.deepEqual(list.insertAfter(node, 5), undefined);
+            assert.deepEqual(list.toArray(), [1, 3]);
+            assert.deepEqual(list.getCount(), 2);
+        });
+
+        test("with a node from another list", () => {
+            const list = new qub.DoubleLinkList<number>([1, 2]);
+            const otherList = new qub.DoubleLinkList<number>([3, 4]);
+            const otherNode: qub.DoubleLinkNode<number> = otherList.getFirstNode();
+            assert.deepEqual(list.containsNode(otherNode), false);
+            assert.deepEqual(list.containsNode(new qub.DoubleLinkNode<number>(5)), false);
+            assert.deepEqual(list.containsNode(undefined), false);
+
+            assert.deepEqual(list.removeNode(otherNode), undefined);
+            assert.deepEqual(list.insertBefore(otherNode, 5), undefined);
+            assert.deepEqual(list.insertAfter(otherNode, 6), undefined);
+            list.splice(new qub.DoubleLinkList<number>([7]), otherNode);
+            assert.deepEqual(list.toArray(), [1, 2]);
+            assert.deepEqual(otherList.toArray(), [3, 4]);
+            assert.deepEqual(otherList.getCount(), 2);
+        });
+
+        test("node owners after clear() and splice()", () => {
+            const list = new qub.DoubleLinkList<number>([1, 2]);
+            const otherList = new qub.DoubleLinkList<number>([3, 4]);
+            const node: qub.DoubleLinkNode<number> = otherList.getLastNode();
+            list.splice(otherList);
+            assert.deepEqual(node.getList(), list);
+            assert.deepEqual(otherList.removeNode(node), undefined);
+            assert.deepEqual(list.removeNode(node), 4);
+
+            const first: qub.DoubleLinkNode<number> = list.getFirstNode();
+            list.clear();
+            assert.deepEqual(first.getList(), undefined);
+            assert.deepEqual(list.removeNode(first), undefined);
+            assert.deepEqual(list.getCount(), 0);
+        });
+    });
+
+    suite("Deque<T>", () => {
+        test("constructor()", () => {
+            const d = new qub.Deque<number>();
+            assert.deepEqual(d.getCount(), 0);
+            assert.deepEqual(d.any(), false);
+            assert.deepEqual(d.toArray(), []);
+            assert.deepEqual(d.peekFirst(), undefined);
+            assert.deepEqual(d.peekLast(), undefined);
+        });
+
+        test("constructor(T[])", () => {
+            const d = new qub.Deque<number>([1, 2, 3]);
+            assert.deepEqual(d.getCount(), 3);
+            assert.deepEqual(d.toArray(), [1, 2, 3]);
+        });
+
+        test("addFirst()", () => {
+            const d = new qub.Deque<number>();
+            d.addFirst(1);
+            d.addFirst(2);
+            assert.deepEqual(d.toArray(), [2, 1]);
+            assert.deepEqual(d.peekFirst(), 2);
+            assert.deepEqual(d.peekLast(), 1);
+        });
+
+        test("addLast()", () => {
+            const d = new qub.Deque<number>();
+            d.addLast(1);
+            d.addLast(2);
+            assert.deepEqual(d.toArray(), [1, 2]);
+            assert.deepEqual(d.peekFirst(), 1);
+            assert.deepEqual(d.peekLast(), 2);
+        });
+
+        test("removeFirst()", () => {
+            const d = new qub.Deque<number>([1, 2]);
+            assert.deepEqual(d.removeFirst(), 1);
+            assert.deepEqual(d.removeFirst(), 2);
+            assert.deepEqual(d.removeFirst(), undefined);
+            assert.deepEqual(d.getCount(), 0);
+        });
+
+        test("removeLast()", () => {
+            const d = new qub.Deque<number>([1, 2]);
+            assert.deepEqual(d.removeLast(), 2);
+            assert.deepEqual(d.removeLast(), 1);
+            assert.deepEqual(d.removeLast(), undefined);
+            assert.deepEqual(d.getCount(), 0);
+        });
+
+        test("get()", () => {
+            const d = new qub.Deque<number>([1, 2, 3]);
+            d.addFirst(0);
+            assert.deepEqual(d.get(undefined), undefined);
+            assert.deepEqual(d.get(-1), undefined);
+            assert.deepEqual(d.get(0), 0);
+            assert.deepEqual(d.get(3), 3);
+            assert.deepEqual(d.get(4), undefined);
+        });
+
+        test("with values that wrap around and grow the buffer", () => {
+            const d = new qub.Deque<number>();
+            const expected: number[] = [];
+            for (let i = 0; i < 20; ++i) {
+                d.addFirst(-i);
+                d.addLast(i);
+                expected.unshift(-i);
+                expected.push(i);
+            }
+            assert.deepEqual(d.getCount(), 40);
+            assert.deepEqual(d.toArray(), expected);
+            assert.deepEqual(d.iterateReverse().toArray(), expected.reverse());
+
+            for (let i = 0; i < 40; ++i) {
+                d.removeFirst();
+                d.addLast(i);
+            }
+            assert.deepEqual(d.getCount(), 40);
+            assert.deepEqual(d.peekFirst(), 0);
+            assert.deepEqual(d.peekLast(), 39);
+        });
+
+        test("clear()", () => {
+            const d = new qub.Deque<number>([1, 2, 3]);
+            d.clear();
+            assert.deepEqual(d.getCount(), 0);
+            assert.deepEqual(d.toArray(), []);
+        });
+    });
+
     suite("Stack", () => {
         test("constructor()", () => {
             const s = new qub.Stack<string>();
@@ -1670,6 +2855,41 @@ suite("qub", () => {
             assert.deepEqual(s.contains(5, (lhs: number, rhs: number) => lhs % 2 === rhs % 2), false);
             assert.deepEqual(s.contains(4, (lhs: number, rhs: number) => lhs % 2 === rhs % 2), true);
         });
+
+        test("iterate()", () => {
+            const s = new qub.Stack<number>();
+            assert.deepEqual(s.toArray(), []);
+
+            s.push(1);
+            s.push(2);
+            s.push(3);
+            assert.deepEqual(s.toArray(), [3, 2, 1]);
+        });
+
+        test("asReadOnly()", () => {
+            const stack = new qub.Stack<number>();
+            const readOnlyStack: qub.ReadOnlyStack<number> = stack.asReadOnly();
+            assert.deepEqual((readOnlyStack as any).push, undefined);
+            assert.deepEqual(readOnlyStack.peek(), undefined);
+
+            stack.push(1);
+            stack.push(2);
+            assert.deepEqual(readOnlyStack.peek(), 2);
+            assert.deepEqual(readOnlyStack.getCount(), 2);
+            assert.deepEqual(readOnlyStack.toArray(), [2, 1]);
+        });
+
+        test("toImmutable()", () => {
+            const stack = new qub.Stack<number>();
+            stack.push(1);
+            stack.push(2);
+            const immutableStack: qub.ReadOnlyStack<number> = stack.toImmutable();
+
+            stack.pop();
+            stack.push(3);
+            assert.deepEqual(immutableStack.peek(), 2);
+            assert.deepEqual(immutableStack.toArray(), [2, 1]);
+        });
     });
 
     suite("Queue<T>", () => {
@@ -1709,24 +2929,162 @@ suite("qub", () => {
             assert.deepEqual(q.dequeue(), 2);
             assert.deepEqual(q.dequeue(), undefined);
         });
-    });
 
-    suite("Iterator<T>", () => {
-        suite("any()", () => {
-            function anyTest(testName: string, originalValues: number[], condition: (value: number) => boolean, expected: boolean): void {
-                test(testName, () => {
-                    const iterable = new qub.ArrayList(originalValues);
-                    assert.deepEqual(iterable.iterate().any(condition), expected);
+        test("peek()", () => {
+            const q = new qub.Queue<number>();
+            assert.deepEqual(q.peek(), undefined);
 
-                    const iterator: qub.Iterator<number> = iterable.iterate();
-                    iterator.next();
-                    assert.deepEqual(iterator.any(condition), expected);
-                });
-            }
+            q.enqueue(7);
+            q.enqueue(8);
+            assert.deepEqual(q.peek(), 7);
+            assert.deepEqual(q.getCount(), 2);
 
-            anyTest("empty iterator with undefined condition", [], undefined, false);
-            anyTest("empty iterator with condition", [], (value: number) => value % 2 == 0, false);
-            anyTest("non-empty iterator with undefined condition", [1, 3, 5], undefined, true);
+            q.dequeue();
+            assert.deepEqual(q.peek(), 8);
+        });
+
+        test("iterate()", () => {
+            const q = new qub.Queue<number>();
+            assert.deepEqual(q.toArray(), []);
+
+            q.enqueue(1);
+            q.enqueue(2);
+            q.enqueue(3);
+            assert.deepEqual(q.toArray(), [1, 2, 3]);
+
+            q.dequeue();
+            assert.deepEqual(q.toArray(), [2, 3]);
+        });
+
+        test("asReadOnly()", () => {
+            const queue = new qub.Queue<number>();
+            const readOnlyQueue: qub.ReadOnlyQueue<number> = queue.asReadOnly();
+            assert.deepEqual((readOnlyQueue as any).enqueue, undefined);
+            assert.deepEqual(readOnlyQueue.any(), false);
+
+            queue.enqueue(1);
+            queue.enqueue(2);
+            assert.deepEqual(readOnlyQueue.peek(), 1);
+            assert.deepEqual(readOnlyQueue.toArray(), [1, 2]);
+        });
+
+        test("toImmutable()", () => {
+            const queue = new qub.Queue<number>();
+            queue.enqueue(1);
+            queue.enqueue(2);
+            const immutableQueue: qub.ReadOnlyQueue<number> = queue.toImmutable();
+
+            queue.dequeue();
+            queue.enqueue(3);
+            assert.deepEqual(immutableQueue.peek(), 1);
+            assert.deepEqual(immutableQueue.toArray(), [1, 2]);
+        });
+    });
+
+    suite("PriorityQueue<T>", () => {
+        test("constructor()", () => {
+            const q = new qub.PriorityQueue<number>();
+            assert.deepEqual(q.getCount(), 0);
+            assert.deepEqual(q.any(), false);
+            assert.deepEqual(q.peek(), undefined);
+            assert.deepEqual(q.dequeue(), undefined);
+        });
+
+        test("constructor(T[])", () => {
+            const q = new qub.PriorityQueue<number>([5, 3, 8, 1]);
+            assert.deepEqual(q.getCount(), 4);
+            assert.deepEqual(q.peek(), 1);
+            assert.deepEqual(q.toArray().sort(), [1, 3, 5, 8]);
+        });
+
+        test("constructor(T[], lessThanComparison)", () => {
+            const q = new qub.PriorityQueue<number>([5, 3, 8, 1], (lhs: number, rhs: number) => lhs > rhs);
+            assert.deepEqual(q.drain().toArray(), [8, 5, 3, 1]);
+        });
+
+        test("enqueue()", () => {
+            const q = new qub.PriorityQueue<number>();
+            q.enqueue(4);
+            assert.deepEqual(q.peek(), 4);
+            q.enqueue(7);
+            assert.deepEqual(q.peek(), 4);
+            q.enqueue(2);
+            assert.deepEqual(q.peek(), 2);
+            assert.deepEqual(q.getCount(), 3);
+        });
+
+        test("dequeue()", () => {
+            const q = new qub.PriorityQueue<number>([9, 2, 7, 2, 5, 1, 8]);
+            const values: number[] = [];
+            while (q.any()) {
+                values.push(q.dequeue());
+            }
+            assert.deepEqual(values, [1, 2, 2, 5, 7, 8, 9]);
+            assert.deepEqual(q.dequeue(), undefined);
+        });
+
+        test("contains()", () => {
+            const q = new qub.PriorityQueue<number>([3, 6]);
+            assert.deepEqual(q.contains(3), true);
+            assert.deepEqual(q.contains(4), false);
+            assert.deepEqual(q.contains(5, (lhs: number, rhs: number) => lhs % 2 === rhs % 2), true);
+        });
+
+        test("update()", () => {
+            const tasks = [{ priority: 5 }, { priority: 3 }, { priority: 8 }];
+            const q = new qub.PriorityQueue(tasks, (lhs, rhs) => lhs.priority < rhs.priority);
+            assert.deepEqual(q.peek(), { priority: 3 });
+
+            tasks[2].priority = 1;
+            assert.deepEqual(q.update(tasks[2]), true);
+            assert.deepEqual(q.peek(), { priority: 1 });
+
+            tasks[2].priority = 10;
+            assert.deepEqual(q.update(tasks[2]), true);
+            assert.deepEqual(q.drain().map((task) => task.priority).toArray(), [3, 5, 10]);
+
+            assert.deepEqual(q.update({ priority: 0 }), false);
+        });
+
+        test("drain()", () => {
+            const q = new qub.PriorityQueue<number>([3, 1, 2]);
+            const iterator: qub.Iterator<number> = q.drain();
+            assert.deepEqual(iterator.hasStarted(), false);
+            assert.deepEqual(q.getCount(), 3);
+
+            assert.deepEqual(iterator.next(), true);
+            assert.deepEqual(iterator.getCurrent(), 1);
+            assert.deepEqual(q.getCount(), 2);
+
+            assert.deepEqual(iterator.toArray(), [1, 2, 3]);
+            assert.deepEqual(q.getCount(), 0);
+            assert.deepEqual(iterator.hasCurrent(), false);
+        });
+
+        test("with Comparer", () => {
+            const queue = new qub.PriorityQueue<number>([1, 3, 2], qub.Comparers.reversed<number>());
+            assert.deepEqual(queue.dequeue(), 3);
+            assert.deepEqual(queue.dequeue(), 2);
+            assert.deepEqual(queue.dequeue(), 1);
+        });
+    });
+
+    suite("Iterator<T>", () => {
+        suite("any()", () => {
+            function anyTest(testName: string, originalValues: number[], condition: (value: number) => boolean, expected: boolean): void {
+                test(testName, () => {
+                    const iterable = new qub.ArrayList(originalValues);
+                    assert.deepEqual(iterable.iterate().any(condition), expected);
+
+                    const iterator: qub.Iterator<number> = iterable.iterate();
+                    iterator.next();
+                    assert.deepEqual(iterator.any(condition), expected);
+                });
+            }
+
+            anyTest("empty iterator with undefined condition", [], undefined, false);
+            anyTest("empty iterator with condition", [], (value: number) => value % 2 == 0, false);
+            anyTest("non-empty iterator with undefined condition", [1, 3, 5], undefined, true);
             anyTest("non-empty iterator with condition with no matches", [1, 3, 5], (value: number) => value % 2 == 0, false);
             anyTest("non-empty iterator with condition with matches", [1, 3, 5, 4], (value: number) => value % 2 == 0, true);
         });
@@ -2362,6 +3720,418 @@ suite("qub", () => {
                 assert.deepEqual(iterator.maximum((lhs: number, rhs: number) => lhs < rhs), 1);
             });
         });
+
+        suite("distinct()", () => {
+            function distinctTest(values: number[], comparison: (lhs: number, rhs: number) => boolean, expected: number[]): void {
+                test(`with ${JSON.stringify(values)}${comparison ? " and comparison" : ""}`, () => {
+                    assert.deepEqual(new qub.ArrayList<number>(values).iterate().distinct(comparison).toArray(), expected);
+
+                    const startedIterator: qub.Iterator<number> = new qub.ArrayList<number>(values).iterate();
+                    startedIterator.next();
+                    assert.deepEqual(startedIterator.distinct(comparison).toArray(), expected);
+                });
+            }
+
+            distinctTest([], undefined, []);
+            distinctTest([1, 2, 1, 3, 2], undefined, [1, 2, 3]);
+            distinctTest([1, 2, 1, 3, 2, 4], (lhs: number, rhs: number) => lhs % 2 === rhs % 2, [1, 2]);
+        });
+
+        test("distinctBy()", () => {
+            const iterator: qub.Iterator<string> = new qub.ArrayList<string>(["apple", "avocado", "banana", "blueberry", "cherry"]).iterate();
+            assert.deepEqual(iterator.distinctBy((value: string) => value[0]).toArray(), ["apple", "banana", "cherry"]);
+        });
+
+        test("distinct() streams values", () => {
+            const read: number[] = [];
+            const iterator: qub.Iterator<number> = new qub.ArrayList<number>([1, 1, 2, 3])
+                .iterate()
+                .where((value: number) => { read.push(value); return true; })
+                .distinct();
+            assert.deepEqual(iterator.first(), 1);
+            assert.deepEqual(read, [1]);
+        });
+
+        suite("union()", () => {
+            test("with array", () => {
+                assert.deepEqual(new qub.ArrayList<number>([1, 2, 2]).iterate().union([3, 2, 1, 4]).toArray(), [1, 2, 3, 4]);
+            });
+
+            test("with Iterator", () => {
+                assert.deepEqual(new qub.ArrayList<number>([1]).iterate().union(new qub.ArrayList<number>([1, 2]).iterate()).toArray(), [1, 2]);
+            });
+
+            test("with comparison", () => {
+                const iterator: qub.Iterator<string> = new qub.ArrayList<string>(["a", "B"]).iterate();
+                assert.deepEqual(iterator.union(["b", "C"], (lhs: string, rhs: string) => lhs.toLowerCase() === rhs.toLowerCase()).toArray(), ["a", "B", "C"]);
+            });
+
+            test("on MapIterator", () => {
+                const iterator: qub.Iterator<number> = new qub.ArrayList<number>([1, 2]).iterate().map((value: number) => value * 2);
+                assert.deepEqual(iterator.union([4, 6]).toArray(), [2, 4, 6]);
+            });
+        });
+
+        suite("intersect()", () => {
+            test("with undefined", () => {
+                assert.deepEqual(new qub.ArrayList<number>([1, 2]).iterate().intersect(undefined).toArray(), []);
+            });
+
+            test("with array", () => {
+                assert.deepEqual(new qub.ArrayList<number>([1, 2, 3, 2, 1]).iterate().intersect([2, 1, 5]).toArray(), [1, 2]);
+            });
+
+            test("with Iterable", () => {
+                assert.deepEqual(new qub.ArrayList<number>([1, 2, 3]).iterate().intersect(new qub.ArrayList<number>([3, 2])).toArray(), [2, 3]);
+            });
+
+            test("with comparison", () => {
+                const iterator: qub.Iterator<number> = new qub.ArrayList<number>([1, 2, 3, 4]).iterate();
+                assert.deepEqual(iterator.intersect([6], (lhs: number, rhs: number) => lhs % 2 === rhs % 2).toArray(), [2]);
+            });
+
+            test("reads values lazily", () => {
+                let read: boolean = false;
+                const values: qub.Iterable<number> = new qub.ArrayList<number>([1]).map((value: number) => { read = true; return value; });
+                const iterator: qub.Iterator<number> = new qub.ArrayList<number>([1, 2]).iterate().intersect(values);
+                assert.deepEqual(read, false);
+                assert.deepEqual(iterator.toArray(), [1]);
+                assert.deepEqual(read, true);
+            });
+        });
+
+        suite("except()", () => {
+            test("with undefined", () => {
+                assert.deepEqual(new qub.ArrayList<number>([1, 2, 1]).iterate().except(undefined).toArray(), [1, 2]);
+            });
+
+            test("with array", () => {
+                assert.deepEqual(new qub.ArrayList<number>([1, 2, 3, 2, 1, 4]).iterate().except([2, 5]).toArray(), [1, 3, 4]);
+            });
+
+            test("with comparison", () => {
+                const iterator: qub.Iterator<number> = new qub.ArrayList<number>([1, 2, 3, 4]).iterate();
+                assert.deepEqual(iterator.except([6], (lhs: number, rhs: number) => lhs % 2 === rhs % 2).toArray(), [1]);
+            });
+        });
+
+        suite("reduce()", () => {
+            test("with empty iterator", () => {
+                assert.deepEqual(new qub.ArrayList<number>([]).iterate().reduce(5, (accumulated: number, value: number) => accumulated + value), 5);
+            });
+
+            test("with values", () => {
+                const iterator: qub.Iterator<string> = new qub.ArrayList<string>(["a", "b", "c"]).iterate();
+                assert.deepEqual(iterator.reduce("", (accumulated: string, value: string) => value + accumulated), "cba");
+            });
+
+            test("with started iterator", () => {
+                const iterator: qub.Iterator<number> = new qub.ArrayList<number>([1, 2, 3]).iterate();
+                iterator.next();
+                assert.deepEqual(iterator.reduce(0, (accumulated: number, value: number) => accumulated + value), 6);
+            });
+        });
+
+        suite("scan()", () => {
+            test("with empty iterator", () => {
+                assert.deepEqual(new qub.ArrayList<number>([]).iterate().scan(0, (accumulated: number, value: number) => accumulated + value).toArray(), []);
+            });
+
+            test("with values", () => {
+                const iterator: qub.Iterator<number> = new qub.ArrayList<number>([1, 2, 3, 4]).iterate();
+                assert.deepEqual(iterator.scan(10, (accumulated: number, value: number) => accumulated + value).toArray(), [11, 13, 16, 20]);
+            });
+
+            test("with started iterator", () => {
+                const iterator: qub.Iterator<number> = new qub.ArrayList<number>([1, 2, 3]).iterate();
+                iterator.next();
+                assert.deepEqual(iterator.scan(0, (accumulated: number, value: number) => accumulated + value).toArray(), [1, 3, 6]);
+            });
+
+            test("with skipped values", () => {
+                const iterator: qub.Iterator<number> = new qub.ArrayList<number>([1, 2, 3]).iterate().scan(0, (accumulated: number, value: number) => accumulated + value);
+                assert.deepEqual(iterator.skip(2).first(), 6);
+            });
+
+            test("reads values lazily", () => {
+                const read: number[] = [];
+                const iterator: qub.Iterator<number> = new qub.ArrayList<number>([1, 2, 3])
+                    .iterate()
+                    .where((value: number) => { read.push(value); return true; })
+                    .scan(0, (accumulated: number, value: number) => accumulated + value);
+                assert.deepEqual(read, []);
+                assert.deepEqual(iterator.first(), 1);
+                assert.deepEqual(read, [1]);
+            });
+        });
+
+        suite("sum()", () => {
+            test("with empty iterator", () => {
+                assert.deepEqual(new qub.ArrayList<number>([]).iterate().sum(), 0);
+            });
+
+            test("with values", () => {
+                assert.deepEqual(new qub.ArrayList<number>([1, 2, 3]).iterate().sum(), 6);
+            });
+
+            test("with selector", () => {
+                assert.deepEqual(new qub.ArrayList<string>(["a", "bc"]).iterate().sum((value: string) => value.length), 3);
+            });
+
+            test("on MapIterator", () => {
+                assert.deepEqual(new qub.ArrayList<number>([1, 2]).iterate().map((value: number) => value * 10).sum(), 30);
+            });
+        });
+
+        suite("average()", () => {
+            test("with empty iterator", () => {
+                assert.deepEqual(new qub.ArrayList<number>([]).iterate().average(), undefined);
+            });
+
+            test("with values", () => {
+                assert.deepEqual(new qub.ArrayList<number>([1, 2, 3, 4]).iterate().average(), 2.5);
+            });
+
+            test("with selector", () => {
+                assert.deepEqual(new qub.ArrayList<string>(["a", "abc"]).iterate().average((value: string) => value.length), 2);
+            });
+        });
+
+        suite("minBy()", () => {
+            test("with empty iterator", () => {
+                assert.deepEqual(new qub.ArrayList<string>([]).iterate().minBy((value: string) => value.length), undefined);
+            });
+
+            test("with values", () => {
+                const iterator: qub.Iterator<string> = new qub.ArrayList<string>(["ccc", "a", "bb", "d"]).iterate();
+                assert.deepEqual(iterator.minBy((value: string) => value.length), "a");
+            });
+        });
+
+        suite("maxBy()", () => {
+            test("with empty iterator", () => {
+                assert.deepEqual(new qub.ArrayList<string>([]).iterate().maxBy((value: string) => value.length), undefined);
+            });
+
+            test("with values", () => {
+                const iterator: qub.Iterator<string> = new qub.ArrayList<string>(["a", "bb", "ccc", "ddd"]).iterate();
+                assert.deepEqual(iterator.maxBy((value: string) => value.length), "ccc");
+            });
+        });
+
+        suite("countBy()", () => {
+            test("with empty iterator", () => {
+                assert.deepEqual(new qub.ArrayList<string>([]).iterate().countBy((value: string) => value.length).getCount(), 0);
+            });
+
+            test("with values", () => {
+                const counts: qub.Map<number, number> = new qub.ArrayList<string>(["a", "bb", "c", "dd", "eee"]).iterate().countBy((value: string) => value.length);
+                assert.deepEqual(counts.toArray(), [{ key: 1, value: 2 }, { key: 2, value: 2 }, { key: 3, value: 1 }]);
+            });
+        });
+
+        suite("flatMap()", () => {
+            test("with empty iterator", () => {
+                assert.deepEqual(new qub.ArrayList<number>([]).iterate().flatMap((value: number) => [value, value]).toArray(), []);
+            });
+
+            test("with selector that returns arrays", () => {
+                const iterator: qub.Iterator<number> = new qub.ArrayList<number>([1, 2, 3]).iterate();
+                assert.deepEqual(iterator.flatMap((value: number) => [value, value * 10]).toArray(), [1, 10, 2, 20, 3, 30]);
+            });
+
+            test("with selector that returns Iterables", () => {
+                const iterator: qub.Iterator<string> = new qub.ArrayList<string>(["ab", "", "c"]).iterate();
+                assert.deepEqual(iterator.flatMap((value: string) => new qub.StringIterable(value)).toArray(), ["a", "b", "c"]);
+            });
+
+            test("with selector that returns Iterators", () => {
+                const iterator: qub.Iterator<number> = new qub.ArrayList<number>([2, 0, 3]).iterate();
+                assert.deepEqual(iterator.flatMap((value: number) => new qub.ArrayList<number>([value, value]).iterate()).toArray(), [2, 2, 0, 0, 3, 3]);
+            });
+
+            test("with selector that returns empty and undefined sequences", () => {
+                const iterator: qub.Iterator<number> = new qub.ArrayList<number>([1, 2, 3, 4]).iterate();
+                assert.deepEqual(iterator.flatMap((value: number) => value === 1 ? [] : value === 3 ? undefined : [value]).toArray(), [2, 4]);
+            });
+
+            test("with started iterator", () => {
+                const iterator: qub.Iterator<number> = new qub.ArrayList<number>([1, 2]).iterate();
+                iterator.next();
+                assert.deepEqual(iterator.flatMap((value: number) => [value, value]).toArray(), [1, 1, 2, 2]);
+            });
+
+            test("on MapIterator", () => {
+                const iterator: qub.Iterator<number> = new qub.ArrayList<number>([1, 2]).iterate().map((value: number) => value * 2);
+                assert.deepEqual(iterator.flatMap((value: number) => [value, value + 1]).toArray(), [2, 3, 4, 5]);
+            });
+
+            test("reads values lazily", () => {
+                const read: number[] = [];
+                const iterator: qub.Iterator<number> = new qub.ArrayList<number>([1, 2, 3])
+                    .iterate()
+                    .where((value: number) => { read.push(value); return true; })
+                    .flatMap((value: number) => [value, value]);
+                assert.deepEqual(iterator.hasStarted(), false);
+                assert.deepEqual(read, []);
+                assert.deepEqual(iterator.next(), true);
+                assert.deepEqual(iterator.getCurrent(), 1);
+                assert.deepEqual(read, [1]);
+            });
+        });
+
+        test("flatten()", () => {
+            const iterator: qub.Iterator<number[]> = new qub.ArrayList<number[]>([[1, 2], [], [3]]).iterate();
+            const flattened: qub.Iterator<number> = iterator.flatten();
+            assert.deepEqual(flattened.toArray(), [1, 2, 3]);
+        });
+
+        suite("chunk()", () => {
+            function chunkTest(values: number[], size: number, expected: number[][]): void {
+                test(`with ${JSON.stringify(values)} and ${size}`, () => {
+                    const iterator: qub.Iterator<qub.Indexable<number>> = new qub.ArrayList<number>(values).iterate().chunk(size);
+                    assert.deepEqual(iterator.map((chunk: qub.Indexable<number>) => chunk.toArray()).toArray(), expected);
+                });
+            }
+
+            chunkTest([], 2, []);
+            chunkTest([1, 2, 3], undefined, []);
+            chunkTest([1, 2, 3], 0, []);
+            chunkTest([1, 2, 3], 1, [[1], [2], [3]]);
+            chunkTest([1, 2, 3, 4], 2, [[1, 2], [3, 4]]);
+            chunkTest([1, 2, 3, 4, 5], 2, [[1, 2], [3, 4], [5]]);
+            chunkTest([1, 2], 5, [[1, 2]]);
+
+            test("with started iterator", () => {
+                const iterator: qub.Iterator<number> = new qub.ArrayList<number>([1, 2, 3]).iterate();
+                iterator.next();
+                assert.deepEqual(iterator.chunk(2).map((chunk: qub.Indexable<number>) => chunk.toArray()).toArray(), [[1, 2], [3]]);
+            });
+
+            test("reads values lazily", () => {
+                const read: number[] = [];
+                const iterator: qub.Iterator<qub.Indexable<number>> = new qub.ArrayList<number>([1, 2, 3, 4])
+                    .iterate()
+                    .where((value: number) => { read.push(value); return true; })
+                    .chunk(2);
+                assert.deepEqual(read, []);
+                assert.deepEqual(iterator.first().toArray(), [1, 2]);
+                assert.deepEqual(read, [1, 2]);
+            });
+        });
+
+        suite("window()", () => {
+            function windowTest(values: number[], size: number, step: number, expected: number[][]): void {
+                test(`with ${JSON.stringify(values)}, ${size} and ${step}`, () => {
+                    const iterator: qub.Iterator<qub.Indexable<number>> = new qub.ArrayList<number>(values).iterate().window(size, step);
+                    assert.deepEqual(iterator.map((window: qub.Indexable<number>) => window.toArray()).toArray(), expected);
+                });
+            }
+
+            windowTest([], 2, undefined, []);
+            windowTest([1, 2, 3], 0, undefined, []);
+            windowTest([1, 2, 3], 2, 0, []);
+            windowTest([1, 2, 3], 4, undefined, []);
+            windowTest([1, 2, 3, 4], 2, undefined, [[1, 2], [2, 3], [3, 4]]);
+            windowTest([1, 2, 3, 4], 3, 1, [[1, 2, 3], [2, 3, 4]]);
+            windowTest([1, 2, 3, 4, 5], 2, 2, [[1, 2], [3, 4]]);
+            windowTest([1, 2, 3, 4, 5, 6, 7], 2, 3, [[1, 2], [4, 5]]);
+        });
+
+        suite("pairwise()", () => {
+            test("with no values", () => {
+                assert.deepEqual(new qub.ArrayList<number>([]).iterate().pairwise().toArray(), []);
+            });
+
+            test("with one value", () => {
+                assert.deepEqual(new qub.ArrayList<number>([1]).iterate().pairwise().toArray(), []);
+            });
+
+            test("with values", () => {
+                assert.deepEqual(new qub.ArrayList<number>([1, 2, 3]).iterate().pairwise().toArray(), [[1, 2], [2, 3]]);
+            });
+
+            test("on MapIterator", () => {
+                const iterator: qub.Iterator<string> = new qub.ArrayList<number>([1, 2, 3]).iterate().map((value: number) => value.toString());
+                assert.deepEqual(iterator.pairwise().toArray(), [["1", "2"], ["2", "3"]]);
+            });
+        });
+
+        test("partition()", () => {
+            const iterator: qub.Iterator<number> = new qub.ArrayList<number>([1, 2, 3, 4, 5]).iterate();
+            const [evens, odds] = iterator.partition((value: number) => value % 2 === 0);
+            assert.deepEqual(evens.toArray(), [2, 4]);
+            assert.deepEqual(odds.toArray(), [1, 3, 5]);
+            assert.deepEqual(iterator.hasCurrent(), false);
+        });
+
+        suite("splitWhen()", () => {
+            function splitWhenTest(values: number[], expected: number[][]): void {
+                test(`with ${JSON.stringify(values)}`, () => {
+                    const iterator: qub.Iterator<qub.Indexable<number>> = new qub.ArrayList<number>(values).iterate().splitWhen((value: number) => value === 0);
+                    assert.deepEqual(iterator.map((group: qub.Indexable<number>) => group.toArray()).toArray(), expected);
+                });
+            }
+
+            splitWhenTest([], []);
+            splitWhenTest([1, 2], [[1, 2]]);
+            splitWhenTest([0], [[], []]);
+            splitWhenTest([1, 0, 2, 3, 0, 4], [[1], [2, 3], [4]]);
+            splitWhenTest([1, 0, 0, 2], [[1], [], [2]]);
+            splitWhenTest([1, 2, 0], [[1, 2], []]);
+            splitWhenTest([0, 1], [[], [1]]);
+            splitWhenTest([0, 1, 0], [[], [1], []]);
+        });
+
+        suite("share()", () => {
+            test("with empty iterator", () => {
+                const shared: qub.Iterable<number> = new qub.ArrayList<number>().iterate().share();
+                assert.deepEqual(shared.toArray(), []);
+                assert.deepEqual(shared.any(), false);
+                assert.deepEqual(shared.getCount(), 0);
+            });
+
+            test("can be iterated more than once", () => {
+                const shared: qub.Iterable<qub.Lex> = new qub.Lexer("a b").share();
+                assert.deepEqual(shared.getCount(), 3);
+                assert.deepEqual(shared.toArray(), [qub.Letters("a", 0), qub.Space(1), qub.Letters("b", 2)]);
+                assert.deepEqual(shared.toArray(), [qub.Letters("a", 0), qub.Space(1), qub.Letters("b", 2)]);
+            });
+
+            test("with started iterator", () => {
+                const iterator: qub.Iterator<number> = new qub.ArrayList<number>([1, 2]).iterate();
+                iterator.next();
+                assert.deepEqual(iterator.share().toArray(), [1, 2]);
+            });
+
+            test("on MapIterator", () => {
+                const shared: qub.Iterable<number> = new qub.ArrayList<number>([1, 2]).iterate().map((value: number) => value * 3).share();
+                assert.deepEqual(shared.toArray(), [3, 6]);
+                assert.deepEqual(shared.toArray(), [3, 6]);
+            });
+
+            test("with concurrent iterators", () => {
+                const read: number[] = [];
+                const shared: qub.Iterable<number> = new qub.ArrayList<number>([1, 2, 3])
+                    .iterate()
+                    .where((value: number) => { read.push(value); return true; })
+                    .share();
+                assert.deepEqual(read, []);
+
+                const first: qub.Iterator<number> = shared.iterate();
+                const second: qub.Iterator<number> = shared.iterate();
+                first.next();
+                first.next();
+                assert.deepEqual(first.getCurrent(), 2);
+                assert.deepEqual(read, [1, 2]);
+
+                second.next();
+                assert.deepEqual(second.getCurrent(), 1);
+                assert.deepEqual(second.toArray(), [1, 2, 3]);
+                assert.deepEqual(first.toArray(), [2, 3]);
+                assert.deepEqual(read, [1, 2, 3]);
+            });
+        });
     });
 
     suite("Iterable<T>", () => {
@@ -2924,383 +4694,2781 @@ suite("qub", () => {
                 assert.deepEqual(iterable.maximum((lhs: number, rhs: number) => lhs < rhs), 1);
             });
         });
-    });
 
-    suite("Indexable<T>", () => {
-        suite("skip()", () => {
-            function skipTest(originalValues: number[], toSkip: number, expectedValues: number[]): void {
-                test(`with ${JSON.stringify(originalValues)} and ${toSkip}`, () => {
-                    const si: qub.Indexable<number> = new qub.ArrayList<number>(originalValues).skip(toSkip);
-                    assert.deepEqual(si.iterate().toArray(), expectedValues, "Wrong values.");
+        suite("orderBy()", () => {
+            test("with no comparer", () => {
+                const iterable: qub.Iterable<number> = new qub.ArrayList<number>([3, 1, 2]);
+                assert.deepEqual(iterable.orderBy((value: number) => value).toArray(), [1, 2, 3]);
+            });
 
-                    assert.deepEqual(si.iterateReverse().toArray(), expectedValues.reverse(), "Wrong reverse values.");
-                    // Reverse changes the original array, so we have to reset it with another call.
-                    expectedValues.reverse();
+            test("with undefined, null and NaN keys", () => {
+                const orderByValue = (values: number[]) => new qub.ArrayList<number>(values).orderBy((value: number) => value).toArray();
+                assert.deepEqual(orderByValue([undefined, 3, 1]), [1, 3, undefined]);
+                assert.deepEqual(orderByValue([3, undefined, 1]), [1, 3, undefined]);
+                assert.deepEqual(orderByValue([null, NaN, 2, undefined, 1]), [1, 2, NaN, null, undefined]);
+            });
 
-                    for (let i = -1; i <= expectedValues.length + 1; ++i) {
-                        const expectedValue: number = (0 <= i && i < expectedValues.length ? expectedValues[i] : undefined);
-                        assert.deepEqual(si.get(i), expectedValue, `Wrong get() value at index ${i}. ${si.get(i)} === ${expectedValue}`);
-                    }
+            test("with comparer", () => {
+                const iterable: qub.Iterable<string> = new qub.ArrayList<string>(["bb", "a", "ccc"]);
+                assert.deepEqual(iterable.orderBy((value: string) => value.length, (lhs: number, rhs: number) => rhs - lhs).toArray(), ["ccc", "bb", "a"]);
+            });
 
-                    for (let i = -1; i <= expectedValues.length + 1; ++i) {
-                        const expectedValue: number = (0 <= i && i < expectedValues.length ? expectedValues[expectedValues.length - 1 - i] : undefined);
-                        assert.deepEqual(si.getFromEnd(i), expectedValue, `Wrong getFromEnd() value at index ${i}. ${si.getFromEnd(i)} === ${expectedValue}`);
+            test("is stable", () => {
+                const iterable: qub.Iterable<string> = new qub.ArrayList<string>(["b1", "a1", "b2", "a2"]);
+                assert.deepEqual(iterable.orderBy((value: string) => value[0]).toArray(), ["a1", "a2", "b1", "b2"]);
+            });
+
+            test("is lazy", () => {
+                const list = new qub.ArrayList<number>([3, 1]);
+                const ordered: qub.OrderedIterable<number> = list.orderBy((value: number) => value);
+                list.add(2);
+                assert.deepEqual(ordered.toArray(), [1, 2, 3]);
+                assert.deepEqual(ordered.getCount(), 3);
+                assert.deepEqual(list.toArray(), [3, 1, 2]);
+            });
+
+            test("on MapIterable", () => {
+                const iterable: qub.Iterable<number> = new qub.ArrayList<number>([3, 1, 2]).where((value: number) => value > 0).map((value: number) => value * 2);
+                assert.deepEqual(iterable.orderBy((value: number) => value).toArray(), [2, 4, 6]);
+            });
+
+            test("on MapIndexable", () => {
+                const indexable: qub.Indexable<number> = new qub.ArrayList<number>([3, 1, 2]).map((value: number) => value * 2);
+                assert.deepEqual(indexable.orderByDescending((value: number) => value).toArray(), [6, 4, 2]);
+            });
+        });
+
+        suite("orderByDescending()", () => {
+            test("with no comparer", () => {
+                const iterable: qub.Iterable<number> = new qub.ArrayList<number>([3, 1, 2]);
+                assert.deepEqual(iterable.orderByDescending((value: number) => value).toArray(), [3, 2, 1]);
+            });
+
+            test("is stable", () => {
+                const iterable: qub.Iterable<string> = new qub.ArrayList<string>(["b1", "a1", "b2", "a2"]);
+                assert.deepEqual(iterable.orderByDescending((value: string) => value[0]).toArray(), ["b1", "b2", "a1", "a2"]);
+            });
+        });
+
+        suite("thenBy()", () => {
+            test("with equal primary keys", () => {
+                const iterable: qub.Iterable<string> = new qub.ArrayList<string>(["b2", "a2", "b1", "a1", "c"]);
+                const ordered: qub.Iterable<string> = iterable
+                    .orderBy((value: string) => value.length)
+                    .thenBy((value: string) => value[0])
+                    .thenByDescending((value: string) => value[1]);
+                assert.deepEqual(ordered.toArray(), ["c", "a2", "a1", "b2", "b1"]);
+            });
+
+            test("with comparer", () => {
+                const iterable: qub.Iterable<string> = new qub.ArrayList<string>(["ab", "b", "aa", "a"]);
+                const ordered: qub.Iterable<string> = iterable
+                    .orderByDescending((value: string) => value.length)
+                    .thenBy((value: string) => value, (lhs: string, rhs: string) => lhs < rhs ? 1 : lhs > rhs ? -1 : 0);
+                assert.deepEqual(ordered.toArray(), ["ab", "aa", "b", "a"]);
+            });
+        });
+
+        suite("groupBy()", () => {
+            test("with empty Iterable", () => {
+                const iterable: qub.Iterable<number> = new qub.ArrayList<number>();
+                assert.deepEqual(iterable.groupBy((value: number) => value % 2).toArray(), []);
+            });
+
+            test("with no element selector", () => {
+                const iterable: qub.Iterable<number> = new qub.ArrayList<number>([1, 2, 3, 4, 5]);
+                const groupings: qub.Grouping<number, number>[] = iterable.groupBy((value: number) => value % 2).toArray();
+                assert.deepEqual(groupings.length, 2);
+                assert.deepEqual(groupings[0].getKey(), 1);
+                assert.deepEqual(groupings[0].toArray(), [1, 3, 5]);
+                assert.deepEqual(groupings[1].getKey(), 0);
+                assert.deepEqual(groupings[1].toArray(), [2, 4]);
+            });
+
+            test("with element selector", () => {
+                const iterable: qub.Iterable<string> = new qub.ArrayList<string>(["apple", "avocado", "banana"]);
+                const groupings: qub.Iterable<qub.Grouping<string, number>> = iterable.groupBy((value: string) => value[0], (value: string) => value.length);
+                assert.deepEqual(groupings.map((grouping: qub.Grouping<string, number>) => grouping.getKey()).toArray(), ["a", "b"]);
+                assert.deepEqual(groupings.map((grouping: qub.Grouping<string, number>) => grouping.toArray()).toArray(), [[5, 7], [6]]);
+            });
+
+            test("is lazy", () => {
+                const list = new qub.ArrayList<number>([1, 2]);
+                const groupings: qub.Iterable<qub.Grouping<boolean, number>> = list.groupBy((value: number) => value > 2);
+                list.add(3);
+                assert.deepEqual(groupings.getCount(), 2);
+            });
+
+            test("on MapIterable", () => {
+                const iterable: qub.Iterable<string> = new qub.ArrayList<number>([1, 2, 3]).where((value: number) => value > 0).map((value: number) => value.toString());
+                assert.deepEqual(iterable.groupBy((value: string) => value === "2").getCount(), 2);
+            });
+        });
+
+        suite("toLookup()", () => {
+            const lexes = new qub.ArrayList<qub.Lex>([qub.Letters("a", 0), qub.Space(1), qub.Letters("b", 2), qub.Space(3)]);
+
+            test("with no element selector", () => {
+                const lookup: qub.Lookup<qub.LexType, qub.Lex> = lexes.toLookup((lex: qub.Lex) => lex.getType());
+                assert.deepEqual(lookup.getCount(), 2);
+                assert.deepEqual(lookup.containsKey(qub.LexType.Letters), true);
+                assert.deepEqual(lookup.containsKey(qub.LexType.Tab), false);
+                assert.deepEqual(lookup.get(qub.LexType.Space).toArray(), [qub.Space(1), qub.Space(3)]);
+                assert.deepEqual(lookup.get(qub.LexType.Tab).toArray(), []);
+            });
+
+            test("with element selector", () => {
+                const lookup: qub.Lookup<qub.LexType, string> = lexes.toLookup((lex: qub.Lex) => lex.getType(), (lex: qub.Lex) => lex.toString());
+                assert.deepEqual(lookup.get(qub.LexType.Letters).toArray(), ["a", "b"]);
+            });
+
+            test("with key comparison", () => {
+                const iterable: qub.Iterable<string> = new qub.ArrayList<string>(["Apple", "apricot", "Banana"]);
+                const lookup: qub.Lookup<string, string> = iterable.toLookup(
+                    (value: string) => value[0],
+                    undefined,
+                    (lhs: string, rhs: string) => lhs.toLowerCase() === rhs.toLowerCase());
+                assert.deepEqual(lookup.getCount(), 2);
+                assert.deepEqual(lookup.get("a").toArray(), ["Apple", "apricot"]);
+                assert.deepEqual(lookup.first().getKey(), "A");
+            });
+
+            test("is a snapshot", () => {
+                const list = new qub.ArrayList<number>([1, 2]);
+                const lookup: qub.Lookup<number, number> = list.toLookup((value: number) => value);
+                list.add(3);
+                assert.deepEqual(lookup.containsKey(3), false);
+            });
+
+            test("returns read-only groupings", () => {
+                const lookup: qub.Lookup<boolean, number> = new qub.ArrayList<number>([1, 2, 3]).toLookup((value: number) => value > 1);
+                assert.deepEqual(lookup.get(true) instanceof qub.ArrayList, false);
+                assert.deepEqual(lookup.get(false) instanceof qub.ArrayList, false);
+                assert.deepEqual(lookup.get(undefined) instanceof qub.ArrayList, false);
+                assert.deepEqual(lookup.any((grouping: qub.Grouping<boolean, number>) => grouping instanceof qub.ArrayList), false);
+                assert.deepEqual(lookup.get(true).toArray(), [2, 3]);
+            });
+        });
+
+        suite("distinct()", () => {
+            test("with no comparison", () => {
+                const iterable: qub.Iterable<number> = new qub.ArrayList<number>([3, 1, 3, 2, 1]);
+                assert.deepEqual(iterable.distinct().toArray(), [3, 1, 2]);
+                assert.deepEqual(iterable.distinct().getCount(), 3);
+            });
+
+            test("with comparison", () => {
+                const iterable: qub.Iterable<string> = new qub.ArrayList<string>(["a", "A", "b"]);
+                assert.deepEqual(iterable.distinct((lhs: string, rhs: string) => lhs.toLowerCase() === rhs.toLowerCase()).toArray(), ["a", "b"]);
+            });
+
+            test("is lazy", () => {
+                const list = new qub.ArrayList<number>([1, 1]);
+                const distinct: qub.Iterable<number> = list.distinct();
+                list.add(2);
+                assert.deepEqual(distinct.toArray(), [1, 2]);
+                assert.deepEqual(distinct.toArray(), [1, 2]);
+            });
+
+            test("on MapIndexable", () => {
+                const indexable: qub.Indexable<number> = new qub.ArrayList<number>([1, 2, 3]).map((value: number) => value % 2);
+                assert.deepEqual(indexable.distinct().toArray(), [1, 0]);
+            });
+        });
+
+        test("distinctBy()", () => {
+            const iterable: qub.Iterable<qub.Lex> = new qub.ArrayList<qub.Lex>([qub.Letters("a", 0), qub.Space(1), qub.Letters("b", 2)]);
+            assert.deepEqual(iterable.distinctBy((lex: qub.Lex) => lex.getType()).toArray(), [qub.Letters("a", 0), qub.Space(1)]);
+        });
+
+        test("union()", () => {
+            const iterable: qub.Iterable<number> = new qub.ArrayList<number>([1, 2, 2]);
+            assert.deepEqual(iterable.union(undefined).toArray(), [1, 2]);
+            assert.deepEqual(iterable.union([3, 1]).toArray(), [1, 2, 3]);
+            assert.deepEqual(iterable.union(new qub.ArrayList<number>([4])).toArray(), [1, 2, 4]);
+        });
+
+        test("intersect()", () => {
+            const iterable: qub.Iterable<number> = new qub.ArrayList<number>([1, 2, 3, 2]);
+            assert.deepEqual(iterable.intersect(undefined).toArray(), []);
+            assert.deepEqual(iterable.intersect([2, 3, 4]).toArray(), [2, 3]);
+            assert.deepEqual(iterable.intersect(new qub.ArrayList<number>([2])).toArray(), [2]);
+        });
+
+        test("except()", () => {
+            const iterable: qub.Iterable<number> = new qub.ArrayList<number>([1, 2, 3, 2]);
+            assert.deepEqual(iterable.except(undefined).toArray(), [1, 2, 3]);
+            assert.deepEqual(iterable.except([2, 4]).toArray(), [1, 3]);
+            assert.deepEqual(iterable.map((value: number) => value * 10).except([20]).toArray(), [10, 30]);
+        });
+
+        test("reduce()", () => {
+            const iterable: qub.Iterable<number> = new qub.ArrayList<number>([1, 2, 3]);
+            assert.deepEqual(iterable.reduce(1, (accumulated: number, value: number) => accumulated * value), 6);
+            assert.deepEqual(iterable.map((value: number) => value + 1).reduce(1, (accumulated: number, value: number) => accumulated * value), 24);
+        });
+
+        suite("scan()", () => {
+            test("with empty iterable", () => {
+                assert.deepEqual(new qub.ArrayList<number>().scan(0, (accumulated: number, value: number) => accumulated + value).toArray(), []);
+            });
+
+            test("with values", () => {
+                const scanned: qub.Iterable<number> = new qub.ArrayList<number>([1, 2, 3]).scan(0, (accumulated: number, value: number) => accumulated + value);
+                assert.deepEqual(scanned.toArray(), [1, 3, 6]);
+                assert.deepEqual(scanned.toArray(), [1, 3, 6]);
+            });
+
+            test("on MapIterable", () => {
+                const iterable: qub.Iterable<string> = new qub.ArrayList<number>([1, 2]).map((value: number) => value.toString());
+                assert.deepEqual(iterable.scan("", (accumulated: string, value: string) => accumulated + value).toArray(), ["1", "12"]);
+            });
+        });
+
+        test("sum()", () => {
+            assert.deepEqual(new qub.ArrayList<number>().sum(), 0);
+            assert.deepEqual(new qub.ArrayList<number>([1, 2, 3]).sum(), 6);
+            assert.deepEqual(new qub.ArrayList<number>([1, 2, 3]).map((value: number) => value * 2).sum(), 12);
+            assert.deepEqual(new qub.ArrayList<string>(["ab", "c"]).sum((value: string) => value.length), 3);
+        });
+
+        test("average()", () => {
+            assert.deepEqual(new qub.ArrayList<number>().average(), undefined);
+            assert.deepEqual(new qub.ArrayList<number>([1, 2, 6]).average(), 3);
+            assert.deepEqual(new qub.ArrayList<string>(["ab", "c"]).average((value: string) => value.length), 1.5);
+        });
+
+        test("minBy()", () => {
+            const iterable: qub.Iterable<{ name: string, age: number }> = new qub.ArrayList([{ name: "a", age: 30 }, { name: "b", age: 20 }, { name: "c", age: 20 }]);
+            assert.deepEqual(iterable.minBy((value) => value.age), { name: "b", age: 20 });
+            assert.deepEqual(new qub.ArrayList<number>().minBy((value: number) => value), undefined);
+        });
+
+        test("maxBy()", () => {
+            const iterable: qub.Iterable<{ name: string, age: number }> = new qub.ArrayList([{ name: "a", age: 30 }, { name: "b", age: 40 }, { name: "c", age: 40 }]);
+            assert.deepEqual(iterable.maxBy((value) => value.age), { name: "b", age: 40 });
+            assert.deepEqual(new qub.ArrayList<number>().maxBy((value: number) => value), undefined);
+        });
+
+        test("countBy()", () => {
+            const counts: qub.Map<boolean, number> = new qub.ArrayList<number>([1, 2, 3, 4, 5]).countBy((value: number) => value % 2 === 0);
+            assert.deepEqual(counts.get(true), 2);
+            assert.deepEqual(counts.get(false), 3);
+            assert.deepEqual(counts.getCount(), 2);
+        });
+
+        suite("flatMap()", () => {
+            test("with empty iterable", () => {
+                assert.deepEqual(new qub.ArrayList<number>().flatMap((value: number) => [value]).toArray(), []);
+            });
+
+            test("with values", () => {
+                const iterable: qub.Iterable<number> = new qub.ArrayList<number>([1, 2]).flatMap((value: number) => new qub.ArrayList<number>([value, -value]));
+                assert.deepEqual(iterable.toArray(), [1, -1, 2, -2]);
+                assert.deepEqual(iterable.getCount(), 4);
+            });
+
+            test("on MapIterable", () => {
+                const iterable: qub.Iterable<string> = new qub.ArrayList<number>([1, 2]).map((value: number) => value.toString());
+                assert.deepEqual(iterable.flatMap((value: string) => [value, value]).toArray(), ["1", "1", "2", "2"]);
+            });
+        });
+
+        suite("flatten()", () => {
+            test("with arrays", () => {
+                const iterable: qub.Iterable<number[]> = new qub.ArrayList<number[]>([[1], [], [2, 3]]);
+                const flattened: qub.Iterable<number> = iterable.flatten();
+                assert.deepEqual(flattened.toArray(), [1, 2, 3]);
+            });
+
+            test("with Iterables", () => {
+                const iterable: qub.Iterable<qub.ArrayList<string>> = new qub.ArrayList([new qub.ArrayList(["a"]), new qub.ArrayList(["b", "c"])]);
+                const flattened: qub.Iterable<string> = iterable.flatten();
+                assert.deepEqual(flattened.toArray(), ["a", "b", "c"]);
+            });
+        });
+
+        suite("zip()", () => {
+            test("with undefined", () => {
+                assert.deepEqual(new qub.ArrayList<number>([1, 2]).zip(undefined).toArray(), []);
+            });
+
+            test("with shorter array", () => {
+                assert.deepEqual(new qub.ArrayList<number>([1, 2, 3]).zip(["a", "b"]).toArray(), [[1, "a"], [2, "b"]]);
+            });
+
+            test("with longer Iterable", () => {
+                const zipped: qub.Iterable<[number, string]> = new qub.ArrayList<number>([1]).zip(new qub.ArrayList<string>(["a", "b"]));
+                assert.deepEqual(zipped.toArray(), [[1, "a"]]);
+                assert.deepEqual(zipped.getCount(), 1);
+            });
+
+            test("with resultSelector", () => {
+                const zipped: qub.Iterable<string> = new qub.ArrayList<number>([1, 2]).zip(["a", "b"], (first: number, second: string) => first + second);
+                assert.deepEqual(zipped.toArray(), ["1a", "2b"]);
+            });
+
+            test("on MapIterable", () => {
+                const iterable: qub.Iterable<number> = new qub.ArrayList<number>([1, 2]).map((value: number) => value * 2);
+                assert.deepEqual(iterable.zip([true, false]).toArray(), [[2, true], [4, false]]);
+            });
+
+            test("doesn't read past the end of the shorter sequence", () => {
+                const read: string[] = [];
+                const other: qub.Iterable<string> = new qub.ArrayList<string>(["a", "b"]).where((value: string) => { read.push(value); return true; });
+                assert.deepEqual(new qub.ArrayList<number>([1]).zip(other).toArray(), [[1, "a"]]);
+                assert.deepEqual(read, ["a"]);
+            });
+        });
+
+        suite("zipLongest()", () => {
+            test("with shorter array", () => {
+                assert.deepEqual(new qub.ArrayList<number>([1, 2, 3]).zipLongest(["a"], 0, "z").toArray(), [[1, "a"], [2, "z"], [3, "z"]]);
+            });
+
+            test("with longer array", () => {
+                assert.deepEqual(new qub.ArrayList<number>([1]).zipLongest(["a", "b"], 0, "z").toArray(), [[1, "a"], [0, "b"]]);
+            });
+
+            test("with no fill values", () => {
+                assert.deepEqual(new qub.ArrayList<number>([1]).zipLongest(["a", "b"]).toArray(), [[1, "a"], [undefined, "b"]]);
+            });
+
+            test("with resultSelector", () => {
+                const zipped: qub.Iterable<number> = new qub.ArrayList<number>([1, 2, 3]).zipLongest([10], 0, 0, (first: number, second: number) => first + second);
+                assert.deepEqual(zipped.toArray(), [11, 2, 3]);
+            });
+        });
+
+        suite("join()", () => {
+            const people = [{ name: "Ann", cityId: 1 }, { name: "Bob", cityId: 2 }, { name: "Cal", cityId: 3 }, { name: "Dee", cityId: 1 }];
+            const cities = [{ id: 1, name: "Oslo" }, { id: 2, name: "Rome" }, { id: 2, name: "Roma" }];
+
+            test("with matches", () => {
+                const joined: qub.Iterable<string> = new qub.ArrayList(people).join(cities, (person) => person.cityId, (city) => city.id, (person, city) => `${person.name}:${city.name}`);
+                assert.deepEqual(joined.toArray(), ["Ann:Oslo", "Bob:Rome", "Bob:Roma", "Dee:Oslo"]);
+            });
+
+            test("with empty inner", () => {
+                const joined: qub.Iterable<string> = new qub.ArrayList(people).join([], (person) => person.cityId, (city: number) => city, (person, city) => person.name);
+                assert.deepEqual(joined.toArray(), []);
+            });
+
+            test("with Iterable inner", () => {
+                const joined: qub.Iterable<[number, string]> = new qub.ArrayList<number>([1, 2, 3]).join(new qub.ArrayList<string>(["a", "bb", "ccc", "dd"]), (value: number) => value, (value: string) => value.length, (outer: number, inner: string) => [outer, inner] as [number, string]);
+                assert.deepEqual(joined.toArray(), [[1, "a"], [2, "bb"], [2, "dd"], [3, "ccc"]]);
+            });
+        });
+
+        suite("groupJoin()", () => {
+            test("with matches and misses", () => {
+                const joined: qub.Iterable<string> = new qub.ArrayList<number>([1, 2, 3]).groupJoin(["a", "bb", "dd"], (value: number) => value, (value: string) => value.length, (outer: number, inner: qub.Iterable<string>) => `${outer}:${inner.toArray().join(",")}`);
+                assert.deepEqual(joined.toArray(), ["1:a", "2:bb,dd", "3:"]);
+            });
+
+            test("on MapIterable", () => {
+                const iterable: qub.Iterable<string> = new qub.ArrayList<string>(["x", "yy"]).map((value: string) => value.toUpperCase());
+                const joined: qub.Iterable<number> = iterable.groupJoin(["Y", "X", "Y"], (value: string) => value[0], (value: string) => value, (outer: string, inner: qub.Iterable<string>) => inner.getCount());
+                assert.deepEqual(joined.toArray(), [1, 2]);
+            });
+        });
+
+        test("chunk()", () => {
+            const chunks: qub.Iterable<qub.Indexable<number>> = new qub.ArrayList<number>([1, 2, 3, 4, 5]).chunk(2);
+            assert.deepEqual(chunks.map((chunk: qub.Indexable<number>) => chunk.toArray()).toArray(), [[1, 2], [3, 4], [5]]);
+            assert.deepEqual(chunks.getCount(), 3);
+        });
+
+        test("window()", () => {
+            const windows: qub.Iterable<qub.Indexable<number>> = new qub.ArrayList<number>([1, 2, 3, 4]).map((value: number) => value * 10).window(3);
+            assert.deepEqual(windows.map((window: qub.Indexable<number>) => window.toArray()).toArray(), [[10, 20, 30], [20, 30, 40]]);
+            assert.deepEqual(windows.getCount(), 2);
+        });
+
+        test("pairwise()", () => {
+            const pairs: qub.Iterable<[string, string]> = new qub.ArrayList<string>(["a", "b", "c"]).pairwise();
+            assert.deepEqual(pairs.toArray(), [["a", "b"], ["b", "c"]]);
+            assert.deepEqual(pairs.toArray(), [["a", "b"], ["b", "c"]]);
+        });
+
+        test("partition()", () => {
+            const values = new qub.ArrayList<number>([1, 2, 3]);
+            const [evens, odds] = values.partition((value: number) => value % 2 === 0);
+            assert.deepEqual(evens.toArray(), [2]);
+            assert.deepEqual(odds.toArray(), [1, 3]);
+
+            values.add(4);
+            assert.deepEqual(evens.toArray(), [2, 4]);
+        });
+
+        test("splitWhen()", () => {
+            const groups: qub.Iterable<qub.Indexable<string>> = new qub.ArrayList<string>(["a", ",", "b", "c"]).splitWhen((value: string) => value === ",");
+            assert.deepEqual(groups.map((group: qub.Indexable<string>) => group.toArray()).toArray(), [["a"], ["b", "c"]]);
+        });
+
+        test("splitWhen() with empty iterable", () => {
+            assert.deepEqual(new qub.ArrayList<string>().splitWhen((value: string) => value === ",").getCount(), 0);
+        });
+
+        test("splitWhen() with leading and trailing separators", () => {
+            const groups: qub.Iterable<qub.Indexable<string>> = new qub.ArrayList<string>([",", "a", ","]).splitWhen((value: string) => value === ",");
+            assert.deepEqual(groups.map((group: qub.Indexable<string>) => group.toArray()).toArray(), [[], ["a"], []]);
+        });
+
+        suite("cycle()", () => {
+            test("with empty iterable", () => {
+                assert.deepEqual(new qub.ArrayList<number>().cycle().toArray(), []);
+            });
+
+            test("with count", () => {
+                assert.deepEqual(new qub.ArrayList<number>([1, 2]).cycle(3).toArray(), [1, 2, 1, 2, 1, 2]);
+                assert.deepEqual(new qub.ArrayList<number>([1, 2]).cycle(0).toArray(), []);
+            });
+
+            test("without count", () => {
+                assert.deepEqual(new qub.ArrayList<number>([1, 2, 3]).cycle().take(7).toArray(), [1, 2, 3, 1, 2, 3, 1]);
+            });
+
+            test("on MapIterable", () => {
+                const iterable: qub.Iterable<number> = new qub.ArrayList<number>([1, 2]).map((value: number) => -value);
+                assert.deepEqual(iterable.cycle(2).toArray(), [-1, -2, -1, -2]);
+            });
+        });
+
+        suite("memoize()", () => {
+            test("with empty iterable", () => {
+                const memoized: qub.Iterable<number> = new qub.ArrayList<number>().memoize();
+                assert.deepEqual(memoized.toArray(), []);
+                assert.deepEqual(memoized.getCount(), 0);
+            });
+
+            test("evaluates the source once", () => {
+                let calls: number = 0;
+                const memoized: qub.Iterable<number> = new qub.ArrayList<number>([1, 2, 3])
+                    .map((value: number) => { ++calls; return value * 2; })
+                    .where((value: number) => value > 2)
+                    .memoize();
+                assert.deepEqual(calls, 0);
+                assert.deepEqual(memoized.toArray(), [4, 6]);
+                const callsAfterFirstIteration: number = calls;
+                assert.deepEqual(memoized.toArray(), [4, 6]);
+                assert.deepEqual(memoized.getCount(), 2);
+                assert.deepEqual(calls, callsAfterFirstIteration);
+            });
+
+            test("reads values lazily", () => {
+                const read: number[] = [];
+                const memoized: qub.Iterable<number> = new qub.ArrayList<number>([1, 2, 3])
+                    .where((value: number) => { read.push(value); return true; })
+                    .memoize();
+                assert.deepEqual(memoized.any(), true);
+                assert.deepEqual(read, [1]);
+                assert.deepEqual(memoized.first(), 1);
+                assert.deepEqual(read, [1]);
+                const iterator: qub.Iterator<number> = memoized.iterate();
+                iterator.next();
+                iterator.next();
+                assert.deepEqual(iterator.getCurrent(), 2);
+                assert.deepEqual(read, [1, 2]);
+            });
+
+            test("doesn't see later changes", () => {
+                const list = new qub.ArrayList<number>([1, 2]);
+                const memoized: qub.Iterable<number> = list.memoize();
+                assert.deepEqual(memoized.toArray(), [1, 2]);
+                list.add(3);
+                assert.deepEqual(memoized.toArray(), [1, 2]);
+            });
+
+            test("on MapIterable", () => {
+                const memoized: qub.Iterable<string> = new qub.ArrayList<number>([1, 2]).map((value: number) => value.toString()).memoize();
+                assert.deepEqual(memoized.toArray(), ["1", "2"]);
+            });
+        });
+
+        test("with EqualityComparer comparisons", () => {
+            const values = new qub.ArrayList<string>(["a", "B", "c"]);
+            const comparer = qub.EqualityComparers.caseInsensitive();
+            assert.deepEqual(values.contains("b", comparer), true);
+            assert.deepEqual(values.contains("d", comparer), false);
+            assert.deepEqual(values.indexOf("C", comparer), 2);
+            assert.deepEqual(new qub.ArrayList<string>(["a", "A", "b"]).distinct(comparer).toArray(), ["a", "b"]);
+        });
+
+        test("with Comparer comparisons", () => {
+            const values = new qub.ArrayList<string>(["b", "C", "a"]);
+            const comparer = qub.Comparers.caseInsensitive();
+            assert.deepEqual(values.minimum(comparer), "a");
+            assert.deepEqual(values.maximum(comparer), "C");
+            assert.deepEqual(values.orderBy((value: string) => value, comparer).toArray(), ["a", "b", "C"]);
+            assert.deepEqual(values.orderBy((value: string) => value, qub.Comparers.reversed(comparer)).toArray(), ["C", "b", "a"]);
+        });
+    });
+
+    suite("AsyncIterator<T>", () => {
+        function createAsyncIterator(values: number[]): qub.AsyncIterator<number> {
+            return new qub.ArrayList<number>(values).iterate().toAsync();
+        }
+
+        suite("for await...of", () => {
+            function forAwaitTest(values: number[]): void {
+                test(`with ${JSON.stringify(values)}`, async () => {
+                    const result: number[] = [];
+                    for await (const value of createAsyncIterator(values)) {
+                        result.push(value);
                     }
+                    assert.deepEqual(result, values);
+                });
+            }
+
+            forAwaitTest([]);
+            forAwaitTest([1]);
+            forAwaitTest([1, 2, 3]);
+
+            test("with started iterator", async () => {
+                const iterator: qub.AsyncIterator<number> = createAsyncIterator([1, 2, 3]);
+                await iterator.next();
+                await iterator.next();
+
+                const result: number[] = [];
+                for await (const value of iterator) {
+                    result.push(value);
+                }
+                assert.deepEqual(result, [2, 3]);
+            });
+        });
+
+        test("next()", async () => {
+            const iterator: qub.AsyncIterator<number> = createAsyncIterator([1, 2]);
+            assert.deepEqual(iterator.hasStarted(), false);
+            assert.deepEqual(iterator.hasCurrent(), false);
+            assert.deepEqual(iterator.getCurrent(), undefined);
+
+            assert.deepEqual(await iterator.next(), true);
+            assert.deepEqual(iterator.hasStarted(), true);
+            assert.deepEqual(iterator.hasCurrent(), true);
+            assert.deepEqual(iterator.getCurrent(), 1);
+
+            assert.deepEqual(await iterator.takeCurrent(), 1);
+            assert.deepEqual(iterator.getCurrent(), 2);
+
+            assert.deepEqual(await iterator.next(), false);
+            assert.deepEqual(iterator.hasCurrent(), false);
+            assert.deepEqual(iterator.getCurrent(), undefined);
+        });
+
+        suite("any()", () => {
+            function anyTest(testName: string, values: number[], condition: (value: number) => boolean | Promise<boolean>, expected: boolean): void {
+                test(testName, async () => {
+                    assert.deepEqual(await createAsyncIterator(values).any(condition), expected);
+                });
+            }
+
+            anyTest("empty iterator with undefined condition", [], undefined, false);
+            anyTest("non-empty iterator with undefined condition", [1, 3, 5], undefined, true);
+            anyTest("non-empty iterator with condition with no matches", [1, 3, 5], (value: number) => value % 2 === 0, false);
+            anyTest("non-empty iterator with condition with matches", [1, 3, 5, 4], (value: number) => value % 2 === 0, true);
+            anyTest("non-empty iterator with async condition with matches", [1, 3, 5, 4], async (value: number) => value % 2 === 0, true);
+        });
+
+        test("getCount()", async () => {
+            assert.deepEqual(await createAsyncIterator([]).getCount(), 0);
+            assert.deepEqual(await createAsyncIterator([1, 2, 3]).getCount(), 3);
+        });
+
+        suite("first()", () => {
+            function firstTest(testName: string, values: number[], condition: (value: number) => boolean, expected: number): void {
+                test(testName, async () => {
+                    assert.deepEqual(await createAsyncIterator(values).first(condition), expected);
+                });
+            }
+
+            firstTest("empty iterator with undefined condition", [], undefined, undefined);
+            firstTest("non-empty iterator with undefined condition", [1, 3, 5], undefined, 1);
+            firstTest("non-empty iterator with condition with no matches", [1, 3, 5], (value: number) => value % 2 === 0, undefined);
+            firstTest("non-empty iterator with condition with matches", [1, 3, 4, 6], (value: number) => value % 2 === 0, 4);
+        });
+
+        suite("last()", () => {
+            function lastTest(testName: string, values: number[], condition: (value: number) => boolean, expected: number): void {
+                test(testName, async () => {
+                    assert.deepEqual(await createAsyncIterator(values).last(condition), expected);
+                });
+            }
+
+            lastTest("empty iterator with undefined condition", [], undefined, undefined);
+            lastTest("non-empty iterator with undefined condition", [1, 3, 5], undefined, 5);
+            lastTest("non-empty iterator with condition with no matches", [1, 3, 5], (value: number) => value % 2 === 0, undefined);
+            lastTest("non-empty iterator with condition with matches", [1, 4, 6, 7], (value: number) => value % 2 === 0, 6);
+        });
+
+        test("toArrayAsync()", async () => {
+            assert.deepEqual(await createAsyncIterator([]).toArrayAsync(), []);
+            assert.deepEqual(await createAsyncIterator([1, 2, 3]).toArrayAsync(), [1, 2, 3]);
+        });
+
+        test("toArrayList()", async () => {
+            const arrayList: qub.ArrayList<number> = await createAsyncIterator([1, 2, 3]).toArrayList();
+            assert.deepEqual(arrayList.toArray(), [1, 2, 3]);
+        });
+
+        suite("where()", () => {
+            function whereTest(testName: string, values: number[], condition: (value: number) => boolean | Promise<boolean>, expected: number[]): void {
+                test(testName, async () => {
+                    assert.deepEqual(await createAsyncIterator(values).where(condition).toArray(), expected);
                 });
             }
 
-            skipTest([], 3, []);
-            skipTest([0, 1, 2, 3, 4], 2, [2, 3, 4]);
+            whereTest("with undefined condition", [0, 1, 2], undefined, [0, 1, 2]);
+            whereTest("return odd numbers", [0, 1, 2, 3, 4, 5], (value: number) => value % 2 === 1, [1, 3, 5]);
+            whereTest("return odd numbers asynchronously", [0, 1, 2, 3, 4, 5], async (value: number) => value % 2 === 1, [1, 3, 5]);
+
+            test("with started iterator", async () => {
+                const iterator: qub.AsyncIterator<number> = createAsyncIterator([0, 1, 2, 3, 4]);
+                await iterator.next();
+                await iterator.next();
+                assert.deepEqual(await iterator.where((value: number) => value % 2 === 0).toArray(), [2, 4]);
+            });
+        });
+
+        suite("skip()", () => {
+            function skipTest(values: number[], toSkip: number, expected: number[]): void {
+                test(`with ${JSON.stringify(values)} and ${toSkip}`, async () => {
+                    assert.deepEqual(await createAsyncIterator(values).skip(toSkip).toArray(), expected);
+                });
+            }
+
+            skipTest([], 2, []);
+            skipTest([1, 2, 3], undefined, [1, 2, 3]);
+            skipTest([1, 2, 3], 0, [1, 2, 3]);
+            skipTest([1, 2, 3], 2, [3]);
+            skipTest([1, 2, 3], 5, []);
+        });
+
+        suite("take()", () => {
+            function takeTest(values: number[], toTake: number, expected: number[]): void {
+                test(`with ${JSON.stringify(values)} and ${toTake}`, async () => {
+                    assert.deepEqual(await createAsyncIterator(values).take(toTake).toArray(), expected);
+                });
+            }
+
+            takeTest([], 2, []);
+            takeTest([1, 2, 3], undefined, []);
+            takeTest([1, 2, 3], 0, []);
+            takeTest([1, 2, 3], 2, [1, 2]);
+            takeTest([1, 2, 3], 5, [1, 2, 3]);
+        });
+
+        suite("map()", () => {
+            test("with synchronous map function", async () => {
+                assert.deepEqual(await createAsyncIterator([1, 2, 3]).map((value: number) => value * 2).toArray(), [2, 4, 6]);
+            });
+
+            test("with asynchronous map function", async () => {
+                const mapped: string[] = await createAsyncIterator([1, 2, 3]).map(async (value: number) => value.toString()).toArray();
+                assert.deepEqual(mapped, ["1", "2", "3"]);
+            });
+        });
+
+        suite("concatenate()", () => {
+            test("with undefined", async () => {
+                assert.deepEqual(await createAsyncIterator([1, 2]).concatenate(undefined).toArray(), [1, 2]);
+            });
+
+            test("with array", async () => {
+                assert.deepEqual(await createAsyncIterator([1, 2]).concatenate([3, 4]).toArray(), [1, 2, 3, 4]);
+            });
+
+            test("with Iterator", async () => {
+                assert.deepEqual(await createAsyncIterator([]).concatenate(new qub.ArrayList([3, 4]).iterate()).toArray(), [3, 4]);
+            });
+
+            test("with AsyncIterator", async () => {
+                assert.deepEqual(await createAsyncIterator([1]).concatenate(createAsyncIterator([2])).toArray(), [1, 2]);
+            });
+        });
+
+        test("minimum()", async () => {
+            assert.deepEqual(await createAsyncIterator([]).minimum(), undefined);
+            assert.deepEqual(await createAsyncIterator([3, 1, 2]).minimum(), 1);
+            assert.deepEqual(await createAsyncIterator([3, 1, 2]).minimum((lhs: number, rhs: number) => lhs > rhs), 3);
+        });
+
+        test("maximum()", async () => {
+            assert.deepEqual(await createAsyncIterator([]).maximum(), undefined);
+            assert.deepEqual(await createAsyncIterator([3, 1, 2]).maximum(), 3);
+            assert.deepEqual(await createAsyncIterator([3, 1, 2]).maximum((lhs: number, rhs: number) => lhs < rhs), 1);
+        });
+    });
+
+    suite("AsyncIterable<T>", () => {
+        function createAsyncIterable(values: number[]): qub.AsyncIterable<number> {
+            return new qub.ArrayList<number>(values).toAsync();
+        }
+
+        test("for await...of", async () => {
+            const iterable: qub.AsyncIterable<number> = createAsyncIterable([1, 2, 3]);
+            for (let i = 0; i < 2; ++i) {
+                const result: number[] = [];
+                for await (const value of iterable) {
+                    result.push(value);
+                }
+                assert.deepEqual(result, [1, 2, 3]);
+            }
+        });
+
+        test("any()", async () => {
+            assert.deepEqual(await createAsyncIterable([]).any(), false);
+            assert.deepEqual(await createAsyncIterable([1]).any(), true);
+            assert.deepEqual(await createAsyncIterable([1, 3]).any((value: number) => value > 2), true);
+        });
+
+        test("getCount()", async () => {
+            assert.deepEqual(await createAsyncIterable([]).getCount(), 0);
+            assert.deepEqual(await createAsyncIterable([1, 2, 3]).getCount(), 3);
+            assert.deepEqual(await createAsyncIterable([1, 2, 3]).where((value: number) => value > 1).getCount(), 2);
+        });
+
+        test("contains()", async () => {
+            assert.deepEqual(await createAsyncIterable([1, 2, 3]).contains(2), true);
+            assert.deepEqual(await createAsyncIterable([1, 2, 3]).contains(4), false);
+            assert.deepEqual(await createAsyncIterable([1, 2, 3]).contains(4, (lhs: number, rhs: number) => lhs % 2 === rhs % 2), true);
+        });
+
+        test("first()", async () => {
+            assert.deepEqual(await createAsyncIterable([]).first(), undefined);
+            assert.deepEqual(await createAsyncIterable([1, 2, 3]).first(), 1);
+            assert.deepEqual(await createAsyncIterable([1, 2, 3]).first((value: number) => value > 1), 2);
+        });
+
+        test("last()", async () => {
+            assert.deepEqual(await createAsyncIterable([]).last(), undefined);
+            assert.deepEqual(await createAsyncIterable([1, 2, 3]).last(), 3);
+            assert.deepEqual(await createAsyncIterable([1, 2, 3]).last((value: number) => value < 3), 2);
+        });
+
+        test("where()", async () => {
+            const iterable: qub.AsyncIterable<number> = createAsyncIterable([1, 2, 3, 4]);
+            assert.deepEqual(await iterable.where(undefined).toArray(), [1, 2, 3, 4]);
+            assert.deepEqual(await iterable.where((value: number) => value % 2 === 0).toArray(), [2, 4]);
+        });
+
+        test("skip()", async () => {
+            const iterable: qub.AsyncIterable<number> = createAsyncIterable([1, 2, 3, 4]);
+            assert.deepEqual(await iterable.skip(undefined).toArray(), [1, 2, 3, 4]);
+            assert.deepEqual(await iterable.skip(3).toArray(), [4]);
+        });
+
+        test("take()", async () => {
+            const iterable: qub.AsyncIterable<number> = createAsyncIterable([1, 2, 3, 4]);
+            assert.deepEqual(await iterable.take(undefined).toArray(), []);
+            assert.deepEqual(await iterable.take(3).toArray(), [1, 2, 3]);
+            assert.deepEqual(await iterable.skip(1).take(2).toArray(), [2, 3]);
+        });
+
+        test("map()", async () => {
+            const iterable: qub.AsyncIterable<number> = createAsyncIterable([1, 2, 3]);
+            assert.deepEqual(await iterable.map(undefined).toArray(), []);
+            assert.deepEqual(await iterable.map(async (value: number) => value * 10).toArray(), [10, 20, 30]);
+            assert.deepEqual(await iterable.map((value: number) => value * 10).getCount(), 3);
+        });
+
+        test("concatenate()", async () => {
+            const iterable: qub.AsyncIterable<number> = createAsyncIterable([1, 2]);
+            assert.deepEqual(await iterable.concatenate(undefined).toArray(), [1, 2]);
+            assert.deepEqual(await iterable.concatenate([3]).toArray(), [1, 2, 3]);
+            assert.deepEqual(await iterable.concatenate(new qub.ArrayList<number>([3])).toArray(), [1, 2, 3]);
+            assert.deepEqual(await iterable.concatenate(createAsyncIterable([3])).toArray(), [1, 2, 3]);
+        });
+
+        test("toArrayAsync()", async () => {
+            const iterable: qub.AsyncIterable<number> = new qub.ArrayList<number>([1, 2, 3]).toAsync();
+            assert.deepEqual(await iterable.toArrayAsync(), [1, 2, 3]);
+            assert.deepEqual(await iterable.toArrayAsync(), [1, 2, 3]);
+            assert.deepEqual(await createAsyncIterable([]).toArrayAsync(), []);
+        });
+
+        test("toArrayList()", async () => {
+            const arrayList: qub.ArrayList<number> = await createAsyncIterable([1, 2, 3]).toArrayList();
+            assert.deepEqual(arrayList.toArray(), [1, 2, 3]);
+        });
+
+        test("minimum()", async () => {
+            assert.deepEqual(await createAsyncIterable([]).minimum(), undefined);
+            assert.deepEqual(await createAsyncIterable([2, 1, 3]).minimum(), 1);
+        });
+
+        test("maximum()", async () => {
+            assert.deepEqual(await createAsyncIterable([]).maximum(), undefined);
+            assert.deepEqual(await createAsyncIterable([2, 1, 3]).maximum(), 3);
+        });
+
+        test("toAsync() on MapIterable", async () => {
+            const iterable: qub.Iterable<string> = new qub.ArrayList<number>([1, 2]).where((value: number) => value > 0).map((value: number) => value.toString());
+            assert.deepEqual(await iterable.toAsync().toArray(), ["1", "2"]);
+        });
+    });
+
+    suite("Indexable<T>", () => {
+        suite("skip()", () => {
+            function skipTest(originalValues: number[], toSkip: number, expectedValues: number[]): void {
+                test(`with ${JSON.stringify(originalValues)} and ${toSkip}`, () => {
+                    const si: qub.Indexable<number> = new qub.ArrayList<number>(originalValues).skip(toSkip);
+                    assert.deepEqual(si.iterate().toArray(), expectedValues, "Wrong values.");
+
+                    assert.deepEqual(si.iterateReverse().toArray(), expectedValues.reverse(), "Wrong reverse values.");
+                    // Reverse changes the original array, so we have to reset it with another call.
+                    expectedValues.reverse();
+
+                    for (let i = -1; i <= expectedValues.length + 1; ++i) {
+                        const expectedValue: number = (0 <= i && i < expectedValues.length ? expectedValues[i] : undefined);
+                        assert.deepEqual(si.get(i), expectedValue, `Wrong get() value at index ${i}. ${si.get(i)} === ${expectedValue}`);
+                    }
+
+                    for (let i = -1; i <= expectedValues.length + 1; ++i) {
+                        const expectedValue: number = (0 <= i && i < expectedValues.length ? expectedValues[expectedValues.length - 1 - i] : undefined);
+                        assert.deepEqual(si.getFromEnd(i), expectedValue, `Wrong getFromEnd() value at index ${i}. ${si.getFromEnd(i)} === ${expectedValue}`);
+                    }
+                });
+            }
+
+            skipTest([], 3, []);
+            skipTest([0, 1, 2, 3, 4], 2, [2, 3, 4]);
+        });
+
+        suite("take()", () => {
+            function takeTest(originalValues: number[], toTake: number, expectedValues: number[]): void {
+                test(`with ${JSON.stringify(originalValues)} and ${toTake}`, () => {
+                    const ti: qub.Indexable<number> = new qub.ArrayList(originalValues).take(toTake);
+                    assert.deepEqual(ti.toArray(), expectedValues);
+                    assert.deepEqual(ti.getCount(), expectedValues.length);
+
+                    for (let i = -1; i <= expectedValues.length + 1; ++i) {
+                        assert.deepEqual(ti.get(i), 0 <= i && i < expectedValues.length ? expectedValues[i] : undefined);
+                    }
+
+                    assert.deepEqual(ti.iterateReverse().toArray(), expectedValues.reverse());
+                });
+            }
+
+            takeTest(undefined, undefined, []);
+            takeTest(undefined, null, []);
+            takeTest(undefined, -3, []);
+            takeTest(undefined, 0, []);
+            takeTest(undefined, 7, []);
+            takeTest(null, undefined, []);
+            takeTest(null, null, []);
+            takeTest(null, -1, []);
+            takeTest(null, 0, []);
+            takeTest(null, 2, []);
+            takeTest([], undefined, []);
+            takeTest([], null, []);
+            takeTest([], -3, []);
+            takeTest([], 0, []);
+            takeTest([], 1, []);
+            takeTest([0], undefined, []);
+            takeTest([0], null, []);
+            takeTest([0], -10, []);
+            takeTest([0], 0, []);
+            takeTest([0], 1, [0]);
+            takeTest([0], 2, [0]);
+            takeTest([0, 1, 2, 3, 4], undefined, []);
+            takeTest([0, 1, 2, 3, 4], -1, []);
+            takeTest([0, 1, 2, 3, 4], 0, []);
+            takeTest([0, 1, 2, 3, 4], 1, [0]);
+            takeTest([0, 1, 2, 3, 4], 4, [0, 1, 2, 3]);
+            takeTest([0, 1, 2, 3, 4], 10, [0, 1, 2, 3, 4]);
+        });
+
+        suite("map()", () => {
+            function mapTest(testName: string, originalValues: number[], mapFunction: (value: number) => string, expectedValues: string[]): void {
+                test(testName, () => {
+                    assert.deepEqual(new qub.ArrayList(originalValues).map(mapFunction).toArray(), expectedValues, "Wrong toArray() with non-started map iterable.");
+                });
+            }
+
+            mapTest("with undefined mapFunction", [0, 1, 2, 3, 4], undefined, []);
+            mapTest("with toString() mapFunction", [0, 1, 2, 3, 4], (value: number) => value.toString(), ["0", "1", "2", "3", "4"]);
+            mapTest("with *2 and toString() mapFunction", [0, 1, 2, 3, 4], (value: number) => (value * 2).toString(), ["0", "2", "4", "6", "8"]);
+
+            const mapIterable = new qub.ArrayList([0, 1, 2, 3]).map((value: number) => qub.isDefined(value) ? value.toString() : undefined);
+            test("iterateReverse()", () => {
+                assert.deepStrictEqual(mapIterable.iterateReverse().toArray(), ["3", "2", "1", "0"]);
+            });
+
+            test("get()", () => {
+                assert.deepStrictEqual(mapIterable.get(-1), undefined);
+                assert.deepStrictEqual(mapIterable.get(0), "0");
+                assert.deepStrictEqual(mapIterable.get(1), "1");
+                assert.deepStrictEqual(mapIterable.get(2), "2");
+                assert.deepStrictEqual(mapIterable.get(3), "3");
+                assert.deepStrictEqual(mapIterable.get(4), undefined);
+            });
+
+            test("getFromEnd()", () => {
+                assert.deepStrictEqual(mapIterable.getFromEnd(-1), undefined);
+                assert.deepStrictEqual(mapIterable.getFromEnd(0), "3");
+                assert.deepStrictEqual(mapIterable.getFromEnd(1), "2");
+                assert.deepStrictEqual(mapIterable.getFromEnd(2), "1");
+                assert.deepStrictEqual(mapIterable.getFromEnd(3), "0");
+                assert.deepStrictEqual(mapIterable.getFromEnd(4), undefined);
+            });
+
+            test("any()", () => {
+                assert.deepEqual(mapIterable.any(), true);
+                assert.deepEqual(mapIterable.any((value: string) => value === "1"), true);
+                assert.deepEqual(mapIterable.any((value: string) => value === "-1"), false);
+            });
+
+            test("getCount()", () => {
+                assert.deepEqual(mapIterable.getCount(), 4);
+            });
+
+            suite("contains()", () => {
+                function containsTest(testName: string, values: number[], searchFor: string, expected: boolean): void {
+                    test(testName, () => {
+                        const mi = new qub.ArrayList(values).map((value) => value.toString());
+                        assert.deepEqual(mi.contains(searchFor), expected);
+                    });
+                }
+
+                containsTest("with undefined values", undefined, "7", false);
+                containsTest("with null values", null, "7", false);
+                containsTest("with no values", [], "7", false);
+                containsTest("with searchFor value not in values", [1, 2, 3], "7", false);
+                containsTest("with searchFor value in values", [1, 7, 3], "7", true);
+
+                test("with searchFor value in in values with comparer", () => {
+                    const ci = new qub.ArrayList([1, 2, 3]).map((value) => value.toString());
+                    assert.deepEqual(ci.contains("200", (iterableValue, value) => value.substring(0, 1) === iterableValue), true);
+                });
+            });
+
+            test("first()", () => {
+                assert.deepEqual(mapIterable.first(), "0");
+            });
+
+            test("last()", () => {
+                assert.deepEqual(mapIterable.last(), "3");
+            });
+
+            test("where()", () => {
+                assert.deepEqual(mapIterable.where(undefined).toArray(), mapIterable.toArray());
+                assert.deepEqual(mapIterable.where((value: string) => value === "2").toArray(), ["2"]);
+            });
+
+            test("skip()", () => {
+                assert.deepEqual(mapIterable.skip(undefined).toArray(), mapIterable.toArray());
+                assert.deepEqual(mapIterable.skip(-1).toArray(), mapIterable.toArray());
+                assert.deepEqual(mapIterable.skip(2).toArray(), ["2", "3"]);
+                assert.deepEqual(mapIterable.skip(10).toArray(), []);
+            });
+
+            test("skipLast()", () => {
+                assert.deepEqual(mapIterable.skipLast(undefined).toArray(), mapIterable.toArray());
+                assert.deepEqual(mapIterable.skipLast(-1).toArray(), mapIterable.toArray());
+                assert.deepEqual(mapIterable.skipLast(2).toArray(), ["0", "1"]);
+                assert.deepEqual(mapIterable.skipLast(10).toArray(), []);
+            });
+
+            test("take()", () => {
+                assert.deepEqual(mapIterable.take(undefined).toArray(), [], "Wrong result when undefined taken.");
+                assert.deepEqual(mapIterable.take(-1).toArray(), [], "Wrong result when -1 taken.");
+                assert.deepEqual(mapIterable.take(3).toArray(), ["0", "1", "2"], "Wrong result when 3 taken.");
+                assert.deepEqual(mapIterable.take(200).toArray(), mapIterable.toArray(), "Wrong result when 200 taken.");
+            });
+
+            test("takeLast()", () => {
+                assert.deepEqual(mapIterable.takeLast(undefined).toArray(), [], "Wrong result when last undefined taken.");
+                assert.deepEqual(mapIterable.takeLast(-1).toArray(), [], "Wrong result when last -1 taken.");
+                assert.deepEqual(mapIterable.takeLast(3).toArray(), ["1", "2", "3"], "Wrong result when last 3 taken.");
+                assert.deepEqual(mapIterable.takeLast(200).toArray(), mapIterable.toArray(), "Wrong result when last 200 taken.");
+            });
+
+            test("map()", () => {
+                assert.deepEqual(mapIterable.map(undefined).toArray(), []);
+                assert.deepEqual(mapIterable.map((value: string) => value + value).toArray(), ["00", "11", "22", "33"]);
+            });
+
+            test("concatenate()", () => {
+                assert.deepEqual(mapIterable.concatenate(undefined).toArray(), ["0", "1", "2", "3"]);
+                assert.deepEqual(mapIterable.concatenate(null).toArray(), ["0", "1", "2", "3"]);
+                assert.deepEqual(mapIterable.concatenate([]).toArray(), ["0", "1", "2", "3"]);
+                assert.deepEqual(mapIterable.concatenate(["4", "5"]).toArray(), ["0", "1", "2", "3", "4", "5"]);
+            });
+
+            suite("endsWith()", () => {
+                function endsWithTest(values: number[], endingValues: string[], expected: boolean): void {
+                    test(`with ${JSON.stringify(values)} and ${JSON.stringify(endingValues)}`, () => {
+                        const mapValues: qub.Iterable<string> = new qub.ArrayList(values).map((value: number) => value.toString());
+                        const mapEndingValues: qub.Iterable<string> = endingValues ? new qub.ArrayList(endingValues) : undefined;
+                        assert.deepEqual(mapValues.endsWith(mapEndingValues), expected);
+                    });
+                }
+
+                endsWithTest([], undefined, false);
+                endsWithTest([1], undefined, false);
+                endsWithTest([], [], false);
+                endsWithTest([], ["1"], false);
+                endsWithTest([1], [], false);
+                endsWithTest([1], ["1"], true);
+                endsWithTest([1], ["1", "2"], false);
+                endsWithTest([1, 2, 3], ["3"], true);
+                endsWithTest([1, 2, 3], ["2", "3"], true);
+                endsWithTest([1, 2, 3], ["4", "3"], false);
+                endsWithTest([1, 2, 3], ["2", "4"], false);
+            });
+
+            test("for..of", () => {
+                const values: string[] = [];
+                for (const value of mapIterable) {
+                    values.push(value);
+                }
+                assert.deepEqual(values, ["0", "1", "2", "3"]);
+            });
+
+            suite("minimum()", () => {
+                test("with empty iterable and no comparison function", () => {
+                    const iterable: qub.Iterable<string> = new qub.ArrayList<number>([]).map((value: number) => value.toString());
+                    assert.deepEqual(iterable.minimum(), undefined);
+                });
+
+                test("with single value iterable and no comparison function", () => {
+                    const iterable: qub.Iterable<string> = new qub.ArrayList<number>([1]).map((value: number) => value.toString());
+                    assert.deepEqual(iterable.minimum(), "1");
+                });
+
+                test("with multiple value iterable and no comparison function", () => {
+                    const iterable: qub.Iterable<string> = new qub.ArrayList<number>([1, 2, 3, 4]).map((value: number) => value.toString());
+                    assert.deepEqual(iterable.minimum(), "1");
+                });
+
+                test("with empty iterable and comparison function", () => {
+                    const iterable: qub.Iterable<string> = new qub.ArrayList<number>([]).map((value: number) => value.toString());
+                    assert.deepEqual(iterable.minimum((lhs: string, rhs: string) => lhs < rhs), undefined);
+                });
+
+                test("with single value iterable and comparison function", () => {
+                    const iterable: qub.Iterable<string> = new qub.ArrayList<number>([1]).map((value: number) => value.toString());
+                    assert.deepEqual(iterable.minimum((lhs: string, rhs: string) => lhs > rhs), "1");
+                });
+
+                test("with multiple value iterable and comparison function", () => {
+                    const iterable: qub.Iterable<string> = new qub.ArrayList<number>([1, 2, 3, 4]).map((value: number) => value.toString());
+                    assert.deepEqual(iterable.minimum((lhs: string, rhs: string) => lhs > rhs), "4");
+                });
+            });
+
+            suite("maximum()", () => {
+                test("with empty iterable and no comparison function", () => {
+                    const iterable: qub.Iterable<string> = new qub.ArrayList<number>([]).map((value: number) => value.toString());
+                    assert.deepEqual(iterable.maximum(), undefined);
+                });
+
+                test("with single value iterable and no comparison function", () => {
+                    const iterable: qub.Iterable<string> = new qub.ArrayList<number>([1]).map((value: number) => value.toString());
+                    assert.deepEqual(iterable.maximum(), "1");
+                });
+
+                test("with multiple value iterable and no comparison function", () => {
+                    const iterable: qub.Iterable<string> = new qub.ArrayList<number>([1, 2, 3, 4]).map((value: number) => value.toString());
+                    assert.deepEqual(iterable.maximum(), "4");
+                });
+
+                test("with empty iterable and comparison function", () => {
+                    const iterable: qub.Iterable<string> = new qub.ArrayList<number>([]).map((value: number) => value.toString());
+                    assert.deepEqual(iterable.maximum((lhs: string, rhs: string) => lhs < rhs), undefined);
+                });
+
+                test("with single value iterable and comparison function", () => {
+                    const iterable: qub.Iterable<string> = new qub.ArrayList<number>([1]).map((value: number) => value.toString());
+                    assert.deepEqual(iterable.maximum((lhs: string, rhs: string) => lhs < rhs), "1");
+                });
+
+                test("with multiple value iterable and comparison function", () => {
+                    const iterable: qub.Iterable<string> = new qub.ArrayList<number>([1, 2, 3, 4]).map((value: number) => value.toString());
+                    assert.deepEqual(iterable.maximum((lhs: string, rhs: string) => lhs < rhs), "1");
+                });
+            });
+        });
+
+        suite("binarySearch()", () => {
+            function binarySearchTest(values: number[], value: number, expected: number): void {
+                test(`with ${JSON.stringify(values)} and ${value}`, () => {
+                    assert.deepEqual(new qub.ArrayList<number>(values).binarySearch(value), expected);
+                });
+            }
+
+            binarySearchTest([], 5, ~0);
+            binarySearchTest([1, 3, 5, 7], 1, 0);
+            binarySearchTest([1, 3, 5, 7], 7, 3);
+            binarySearchTest([1, 3, 5, 7], 4, ~2);
+            binarySearchTest([1, 3, 5, 7], 0, ~0);
+            binarySearchTest([1, 3, 5, 7], 8, ~4);
+            binarySearchTest([1, 3, 3, 3, 7], 3, 1);
+
+            test("with comparer", () => {
+                const values = new qub.ArrayList<string>(["c", "B", "a"]);
+                assert.deepEqual(values.binarySearch("b", qub.Comparers.reversed(qub.Comparers.caseInsensitive())), 1);
+                assert.deepEqual(values.binarySearch("d", qub.Comparers.reversed(qub.Comparers.caseInsensitive())), ~0);
+            });
+
+            test("on a mapped Indexable", () => {
+                const values: qub.Indexable<number> = new qub.ArrayList<number>([1, 2, 3]).map((value: number) => value * 10);
+                assert.deepEqual(values.binarySearch(20), 1);
+                assert.deepEqual(values.binarySearch(25), ~2);
+            });
+        });
+
+        suite("binarySearchBy()", () => {
+            test("with Spans sorted by start index", () => {
+                const spans = new qub.ArrayList<qub.Span>([new qub.Span(0, 2), new qub.Span(4, 1), new qub.Span(9, 3)]);
+                const startIndex = (span: qub.Span) => span.getStartIndex();
+                assert.deepEqual(spans.binarySearchBy(4, startIndex), 1);
+                assert.deepEqual(spans.binarySearchBy(5, startIndex), ~2);
+                assert.deepEqual(spans.binarySearchBy(10, startIndex), ~3);
+            });
+
+            test("with comparer", () => {
+                const values = new qub.ArrayList<{ name: string }>([{ name: "a" }, { name: "B" }, { name: "c" }]);
+                assert.deepEqual(values.binarySearchBy("b", (value: { name: string }) => value.name, qub.Comparers.caseInsensitive()), 1);
+            });
+        });
+
+        suite("lowerBound() and upperBound()", () => {
+            function boundsTest(values: number[], value: number, expectedLowerBound: number, expectedUpperBound: number): void {
+                test(`with ${JSON.stringify(values)} and ${value}`, () => {
+                    const indexable = new qub.ArrayList<number>(values);
+                    assert.deepEqual(indexable.lowerBound(value), expectedLowerBound);
+                    assert.deepEqual(indexable.upperBound(value), expectedUpperBound);
+                });
+            }
+
+            boundsTest([], 1, 0, 0);
+            boundsTest([1, 2, 2, 2, 3], 2, 1, 4);
+            boundsTest([1, 2, 2, 2, 3], 0, 0, 0);
+            boundsTest([1, 2, 2, 2, 3], 4, 5, 5);
+            boundsTest([1, 3], 2, 1, 1);
+        });
+    });
+
+    suite("Map", () => {
+        test("constructor()", () => {
+            const map = new qub.Map<string, number>();
+            assert.deepEqual(map.getCount(), 0);
+        });
+
+        test("for..of", () => {
+            const map = new qub.Map<number, string>();
+
+            let values: qub.KeyValuePair<number, string>[] = [];
+            for (const pair of map) {
+                values.push(pair);
+            }
+            assert.deepEqual(values, []);
+
+            map.add(10, "ten");
+            for (const pair of map) {
+                values.push(pair);
+            }
+            assert.deepEqual(values, [{ key: 10, value: "ten" }]);
+
+            values = [];
+            map.add(20, "twenty");
+            for (const pair of map) {
+                values.push(pair);
+            }
+            assert.deepEqual(values, [{ key: 10, value: "ten" }, { key: 20, value: "twenty" }]);
+        });
+
+        test("add()", () => {
+            const map = new qub.Map<string, number>();
+            assert.deepEqual(map.containsKey("hello"), false);
+
+            map.add("hello", 5);
+            assert.deepEqual(map.get("hello"), 5);
+            assert.deepEqual(map.containsKey("hello"), true);
+
+            map.add("hello", 6);
+            assert.deepEqual(map.get("hello"), 6);
+            assert.deepEqual(map.containsKey("hello"), true);
+        });
+
+        test("addAll()", () => {
+            const map = new qub.Map<string, number>();
+            map.addAll(undefined);
+            assert.deepEqual(map.getCount(), 0);
+
+            map.addAll(null);
+            assert.deepEqual(map.getCount(), 0);
+
+            map.addAll([]);
+            assert.deepEqual(map.getCount(), 0);
+
+            map.addAll([{ key: "one", value: 1 }, { key: "two", value: 2 }]);
+            assert.deepEqual(map.getCount(), 2);
+            assert.deepEqual(map.get("one"), 1);
+            assert.deepEqual(map.get("two"), 2);
+
+            map.addAll(new qub.ArrayList<qub.KeyValuePair<string, number>>([{ key: "three", value: 3 }]));
+            assert.deepEqual(map.getCount(), 3);
+            assert.deepEqual(map.get("one"), 1);
+            assert.deepEqual(map.get("two"), 2);
+            assert.deepEqual(map.get("three"), 3);
+        });
+
+        suite("get()", () => {
+            test("with undefined", () => {
+                const map = new qub.Map<string, number>();
+                assert.deepEqual(map.get(undefined), undefined);
+            });
+
+            test("with null", () => {
+                const map = new qub.Map<string, number>();
+                assert.deepEqual(map.get(null), undefined);
+            });
+        });
+
+        test("iterate()", () => {
+            const map = new qub.Map<number, string>();
+            assert.deepEqual(map.iterate().toArray(), []);
+
+            map.add(5, "five");
+            assert.deepEqual(map.iterate().toArray(), [{ key: 5, value: "five" }]);
+        });
+
+        test("iterateReverse()", () => {
+            const map = new qub.Map<number, string>();
+            assert.deepEqual(map.iterateReverse().toArray(), []);
+
+            map.add(5, "five");
+            assert.deepEqual(map.iterateReverse().toArray(), [{ key: 5, value: "five" }]);
+        });
+
+        test("remove()", () => {
+            const map = new qub.Map<string, number>([{ key: "a", value: 1 }, { key: "b", value: 2 }, { key: "c", value: 3 }]);
+            map.remove("d");
+            assert.deepEqual(map.getCount(), 3);
+
+            map.remove("b");
+            assert.deepEqual(map.getCount(), 2);
+            assert.deepEqual(map.containsKey("b"), false);
+            assert.deepEqual(map.get("b"), undefined);
+            assert.deepEqual(map.toArray(), [{ key: "a", value: 1 }, { key: "c", value: 3 }]);
+
+            map.remove("a");
+            map.remove("c");
+            assert.deepEqual(map.getCount(), 0);
+            assert.deepEqual(map.toArray(), []);
+            assert.deepEqual(map.iterateReverse().toArray(), []);
+        });
+
+        test("with object keys", () => {
+            const key1 = { name: "one" };
+            const key2 = { name: "one" };
+            const map = new qub.Map<{ name: string }, number>();
+            map.add(key1, 1);
+            map.add(key2, 2);
+            assert.deepEqual(map.getCount(), 2);
+            assert.deepEqual(map.get(key1), 1);
+            assert.deepEqual(map.get(key2), 2);
+            assert.deepEqual(map.get({ name: "one" }), undefined);
+        });
+
+        test("with key comparer", () => {
+            const comparer: qub.EqualityComparer<string> = {
+                equals: (lhs: string, rhs: string) => lhs.toLowerCase() === rhs.toLowerCase(),
+                getHashCode: (value: string) => value.toLowerCase().length
+            };
+            const map = new qub.Map<string, number>(undefined, comparer);
+            map.add("Apple", 1);
+            map.add("APPLE", 2);
+            assert.deepEqual(map.getCount(), 1);
+            assert.deepEqual(map.get("apple"), 2);
+            assert.deepEqual(map.toArray(), [{ key: "APPLE", value: 2 }]);
+        });
+
+        test("modification while iterating", () => {
+            const map = new qub.Map<number, string>([{ key: 1, value: "one" }, { key: 2, value: "two" }]);
+            assert.deepEqual(map.getModificationCount(), 2);
+
+            const iterator = map.iterate();
+            assert.deepEqual(iterator.next(), true);
+            map.remove(3);
+            assert.deepEqual(map.getModificationCount(), 2);
+            assert.deepEqual(iterator.next(), true);
+
+            map.add(3, "three");
+            assert.deepEqual(map.getModificationCount(), 3);
+            assert.throws(() => iterator.next(), qub.ConcurrentModificationError);
+        });
+
+        test("asReadOnly()", () => {
+            const map = new qub.Map<string, number>([{ key: "a", value: 1 }]);
+            const readOnlyMap: qub.ReadOnlyMap<string, number> = map.asReadOnly();
+            assert.deepEqual((readOnlyMap as any).add, undefined);
+            assert.deepEqual((readOnlyMap as any).remove, undefined);
+            assert.deepEqual(readOnlyMap.get("a"), 1);
+
+            map.add("b", 2);
+            assert.deepEqual(readOnlyMap.getCount(), 2);
+            assert.deepEqual(readOnlyMap.containsKey("b"), true);
+            assert.deepEqual(readOnlyMap.iterateReverse().toArray(), [{ key: "b", value: 2 }, { key: "a", value: 1 }]);
+        });
+
+        test("toImmutable()", () => {
+            const map = new qub.Map<string, number>([{ key: "a", value: 1 }], qub.EqualityComparers.caseInsensitive());
+            const immutableMap: qub.ReadOnlyMap<string, number> = map.toImmutable();
+
+            map.add("b", 2);
+            map.add("a", 10);
+            assert.deepEqual(immutableMap.toArray(), [{ key: "a", value: 1 }]);
+            assert.deepEqual(immutableMap.get("A"), 1);
+            assert.deepEqual(immutableMap.containsKey("b"), false);
+        });
+
+        test("as a ReadOnlyMap parameter", () => {
+            function getOrZero(map: qub.ReadOnlyMap<string, number>, key: string): number {
+                return map.containsKey(key) ? map.get(key) : 0;
+            }
+            const map = new qub.Map<string, number>([{ key: "a", value: 1 }]);
+            assert.deepEqual(getOrZero(map, "a"), 1);
+            assert.deepEqual(getOrZero(map, "b"), 0);
+        });
+    });
+
+    suite("HashMap<K,V>", () => {
+        test("constructor()", () => {
+            const map = new qub.HashMap<string, number>();
+            assert.deepEqual(map.getCount(), 0);
+            assert.deepEqual(map.any(), false);
+            assert.deepEqual(map.toArray(), []);
+        });
+
+        test("add()", () => {
+            const map = new qub.HashMap<number, string>();
+            map.add(1, "one");
+            assert.deepEqual(map.getCount(), 1);
+            assert.deepEqual(map.any(), true);
+            assert.deepEqual(map.get(1), "one");
+
+            map.add(2, "two");
+            map.add(1, "uno");
+            assert.deepEqual(map.getCount(), 2);
+            assert.deepEqual(map.get(1), "uno");
+            assert.deepEqual(map.toArray(), [{ key: 2, value: "two" }, { key: 1, value: "uno" }]);
+        });
+
+        test("with many values", () => {
+            const map = new qub.HashMap<number, number>();
+            for (let i = 0; i < 1000; ++i) {
+                map.add(i, i * 2);
+            }
+            assert.deepEqual(map.getCount(), 1000);
+            for (let i = 0; i < 1000; ++i) {
+                assert.deepEqual(map.get(i), i * 2);
+            }
+            assert.deepEqual(map.first(), { key: 0, value: 0 });
+            assert.deepEqual(map.last(), { key: 999, value: 1998 });
+
+            for (let i = 0; i < 1000; i += 2) {
+                map.remove(i);
+            }
+            assert.deepEqual(map.getCount(), 500);
+            assert.deepEqual(map.containsKey(10), false);
+            assert.deepEqual(map.containsKey(11), true);
+            assert.deepEqual(map.iterateReverse().first(), { key: 999, value: 1998 });
+        });
+
+        test("with mixed key types", () => {
+            const map = new qub.HashMap<any, string>();
+            map.add(undefined, "undefined");
+            map.add(null, "null");
+            map.add(true, "true");
+            map.add(1, "1");
+            map.add(1.5, "1.5");
+            map.add("1", "'1'");
+            assert.deepEqual(map.getCount(), 6);
+            assert.deepEqual(map.get(undefined), "undefined");
+            assert.deepEqual(map.get(null), "null");
+            assert.deepEqual(map.get(true), "true");
+            assert.deepEqual(map.get(false), undefined);
+            assert.deepEqual(map.get(1), "1");
+            assert.deepEqual(map.get(1.5), "1.5");
+            assert.deepEqual(map.get("1"), "'1'");
+        });
+
+        test("with colliding hash codes", () => {
+            const map = new qub.HashMap<number, string>(undefined, {
+                equals: (lhs: number, rhs: number) => lhs === rhs,
+                getHashCode: (value: number) => 7
+            });
+            map.addAll([{ key: 1, value: "a" }, { key: 2, value: "b" }, { key: 3, value: "c" }]);
+            assert.deepEqual(map.get(2), "b");
+
+            map.remove(2);
+            assert.deepEqual(map.get(1), "a");
+            assert.deepEqual(map.get(2), undefined);
+            assert.deepEqual(map.get(3), "c");
+        });
+
+        test("clear()", () => {
+            const map = new qub.HashMap<number, string>([{ key: 1, value: "a" }]);
+            map.clear();
+            assert.deepEqual(map.getCount(), 0);
+            assert.deepEqual(map.containsKey(1), false);
+            assert.deepEqual(map.toArray(), []);
+
+            map.add(2, "b");
+            assert.deepEqual(map.toArray(), [{ key: 2, value: "b" }]);
         });
 
-        suite("take()", () => {
-            function takeTest(originalValues: number[], toTake: number, expectedValues: number[]): void {
-                test(`with ${JSON.stringify(originalValues)} and ${toTake}`, () => {
-                    const ti: qub.Indexable<number> = new qub.ArrayList(originalValues).take(toTake);
-                    assert.deepEqual(ti.toArray(), expectedValues);
-                    assert.deepEqual(ti.getCount(), expectedValues.length);
+        test("with EqualityComparer key comparer", () => {
+            const map = new qub.HashMap<string, number>(undefined, qub.EqualityComparers.caseInsensitive());
+            map.add("a", 1);
+            map.add("A", 2);
+            assert.deepEqual(map.getCount(), 1);
+            assert.deepEqual(map.get("a"), 2);
+        });
 
-                    for (let i = -1; i <= expectedValues.length + 1; ++i) {
-                        assert.deepEqual(ti.get(i), 0 <= i && i < expectedValues.length ? expectedValues[i] : undefined);
-                    }
+        test("with function key comparer", () => {
+            const map = new qub.HashMap<number, string>(undefined, (lhs: number, rhs: number) => lhs % 10 === rhs % 10);
+            map.add(1, "one");
+            map.add(11, "eleven");
+            assert.deepEqual(map.getCount(), 1);
+            assert.deepEqual(map.get(21), "eleven");
+        });
+    });
 
-                    assert.deepEqual(ti.iterateReverse().toArray(), expectedValues.reverse());
+    suite("ObservableMap<K,V>", () => {
+        function recordChanges<K, V>(map: qub.ObservableMap<K, V>): qub.MapChange<K, V>[][] {
+            const result: qub.MapChange<K, V>[][] = [];
+            map.subscribe((changes: qub.Indexable<qub.MapChange<K, V>>) => result.push(changes.toArray()));
+            return result;
+        }
+
+        test("constructor()", () => {
+            const map = new qub.ObservableMap<string, number>([{ key: "a", value: 1 }], qub.EqualityComparers.caseInsensitive());
+            assert.deepEqual(map.toArray(), [{ key: "a", value: 1 }]);
+            assert.deepEqual(map.get("A"), 1);
+        });
+
+        test("add()", () => {
+            const map = new qub.ObservableMap<string, number>();
+            const changes = recordChanges(map);
+            map.add("a", 1);
+            map.add("a", 2);
+            assert.deepEqual(map.toArray(), [{ key: "a", value: 2 }]);
+            assert.deepEqual(changes, [
+                [{ type: qub.CollectionChangeType.Added, key: "a", newValue: 1 }],
+                [{ type: qub.CollectionChangeType.Replaced, key: "a", oldValue: 1, newValue: 2 }]
+            ]);
+        });
+
+        test("remove()", () => {
+            const map = new qub.ObservableMap<string, number>([{ key: "a", value: 1 }]);
+            const changes = recordChanges(map);
+            map.remove("b");
+            map.remove("a");
+            assert.deepEqual(map.any(), false);
+            assert.deepEqual(changes, [[{ type: qub.CollectionChangeType.Removed, key: "a", oldValue: 1 }]]);
+        });
+
+        test("clear()", () => {
+            const map = new qub.ObservableMap<string, number>([{ key: "a", value: 1 }]);
+            const changes = recordChanges(map);
+            map.clear();
+            map.clear();
+            assert.deepEqual(changes, [[{ type: qub.CollectionChangeType.Cleared }]]);
+        });
+
+        test("batch()", () => {
+            const map = new qub.ObservableMap<string, number>();
+            const changes = recordChanges(map);
+            map.batch(() => {
+                map.add("a", 1);
+                map.add("b", 2);
+                map.remove("a");
+            });
+            assert.deepEqual(changes, [[
+                { type: qub.CollectionChangeType.Added, key: "a", newValue: 1 },
+                { type: qub.CollectionChangeType.Added, key: "b", newValue: 2 },
+                { type: qub.CollectionChangeType.Removed, key: "a", oldValue: 1 }
+            ]]);
+        });
+
+        test("subscribe() and dispose()", () => {
+            const map = new qub.ObservableMap<string, number>();
+            let count: number = 0;
+            const subscription: qub.Disposable = map.subscribe(() => ++count);
+            map.add("a", 1);
+            subscription.dispose();
+            map.add("b", 2);
+            assert.deepEqual(count, 1);
+        });
+    });
+
+    suite("PersistentList<T>", () => {
+        function range(count: number): number[] {
+            const result: number[] = [];
+            for (let i = 0; i < count; ++i) {
+                result.push(i);
+            }
+            return result;
+        }
+
+        test("constructor()", () => {
+            const list = new qub.PersistentList<number>();
+            assert.deepEqual(list.getCount(), 0);
+            assert.deepEqual(list.any(), false);
+            assert.deepEqual(list.get(0), undefined);
+            assert.deepEqual(list.toArray(), []);
+        });
+
+        test("constructor() with values", () => {
+            const list = new qub.PersistentList<number>(new qub.ArrayList<number>([1, 2, 3]));
+            assert.deepEqual(list.getCount(), 3);
+            assert.deepEqual(list.toArray(), [1, 2, 3]);
+            assert.deepEqual(list.iterateReverse().toArray(), [3, 2, 1]);
+        });
+
+        test("add()", () => {
+            const empty = new qub.PersistentList<string>();
+            const one = empty.add("a");
+            const two = one.add("b");
+            assert.deepEqual(empty.toArray(), []);
+            assert.deepEqual(one.toArray(), ["a"]);
+            assert.deepEqual(two.toArray(), ["a", "b"]);
+        });
+
+        test("add() with many values", () => {
+            const values: number[] = range(2000);
+            let list = new qub.PersistentList<number>();
+            const versions: qub.PersistentList<number>[] = [];
+            for (const value of values) {
+                versions.push(list);
+                list = list.add(value);
+            }
+            assert.deepEqual(list.getCount(), 2000);
+            assert.deepEqual(list.toArray(), values);
+            assert.deepEqual(versions[33].toArray(), range(33));
+            assert.deepEqual(versions[1057].getCount(), 1057);
+            assert.deepEqual(versions[1057].get(1056), 1056);
+            assert.deepEqual(versions[1057].get(1057), undefined);
+        });
+
+        test("set()", () => {
+            const list = new qub.PersistentList<number>(range(100));
+            const changed = list.set(5, -5).set(99, -99);
+            assert.deepEqual(list.get(5), 5);
+            assert.deepEqual(list.get(99), 99);
+            assert.deepEqual(changed.get(5), -5);
+            assert.deepEqual(changed.get(99), -99);
+            assert.deepEqual(changed.get(6), 6);
+            assert.strictEqual(list.set(100, 0), list);
+            assert.strictEqual(list.set(-1, 0), list);
+        });
+
+        test("removeLast()", () => {
+            const values: number[] = range(1100);
+            const full = new qub.PersistentList<number>(values);
+            let list = full;
+            for (let count = values.length; count > 0; --count) {
+                assert.deepEqual(list.getCount(), count);
+                assert.deepEqual(list.getFromEnd(0), count - 1);
+                list = list.removeLast();
+            }
+            assert.deepEqual(list.any(), false);
+            assert.strictEqual(list.removeLast(), list);
+            assert.deepEqual(full.toArray(), values);
+
+            const added = full.removeLast().removeLast().add(-1);
+            assert.deepEqual(added.getCount(), 1099);
+            assert.deepEqual(added.get(1097), 1097);
+            assert.deepEqual(added.get(1098), -1);
+        });
+
+        test("removeAt() and remove()", () => {
+            const list = new qub.PersistentList<string>(["a", "b", "c"]);
+            assert.deepEqual(list.removeAt(1).toArray(), ["a", "c"]);
+            assert.deepEqual(list.removeAt(0).toArray(), ["b", "c"]);
+            assert.deepEqual(list.remove("c").toArray(), ["a", "b"]);
+            assert.strictEqual(list.removeAt(3), list);
+            assert.strictEqual(list.remove("d"), list);
+            assert.deepEqual(list.toArray(), ["a", "b", "c"]);
+        });
+
+        test("addAll()", () => {
+            const list = new qub.PersistentList<number>([1]);
+            const added = list.addAll(range(40));
+            assert.deepEqual(list.toArray(), [1]);
+            assert.deepEqual(added.getCount(), 41);
+            assert.deepEqual(added.last(), 39);
+        });
+
+        test("createBuilder()", () => {
+            const builder: qub.PersistentListBuilder<number> = qub.PersistentList.createBuilder<number>();
+            builder.addAll(range(1500));
+            builder.set(3, -3);
+            assert.deepEqual(builder.removeLast(), 1499);
+            assert.deepEqual(builder.getCount(), 1499);
+
+            const first: qub.PersistentList<number> = builder.toPersistentList();
+            builder.set(3, 3);
+            builder.set(1000, -1000);
+            builder.add(7);
+            const second: qub.PersistentList<number> = builder.toPersistentList();
+
+            assert.deepEqual(first.getCount(), 1499);
+            assert.deepEqual(first.get(3), -3);
+            assert.deepEqual(first.get(1000), 1000);
+            assert.deepEqual(second.getCount(), 1500);
+            assert.deepEqual(second.get(3), 3);
+            assert.deepEqual(second.get(1000), -1000);
+            assert.deepEqual(second.last(), 7);
+        });
+
+        test("toBuilder()", () => {
+            const list = new qub.PersistentList<number>(range(50));
+            const builder: qub.PersistentListBuilder<number> = list.toBuilder();
+            builder.set(0, -1);
+            builder.add(50);
+            assert.deepEqual(builder.get(0), -1);
+            assert.deepEqual(list.get(0), 0);
+            assert.deepEqual(list.getCount(), 50);
+            assert.deepEqual(builder.toPersistentList().getCount(), 51);
+            assert.deepEqual(qub.PersistentList.createBuilder<number>().removeLast(), undefined);
+        });
+    });
+
+    suite("PersistentMap<K,V>", () => {
+        test("constructor()", () => {
+            const map = new qub.PersistentMap<string, number>();
+            assert.deepEqual(map.getCount(), 0);
+            assert.deepEqual(map.any(), false);
+            assert.deepEqual(map.containsKey("a"), false);
+            assert.deepEqual(map.get("a"), undefined);
+            assert.deepEqual(map.toArray(), []);
+        });
+
+        test("constructor() with values", () => {
+            const source = new qub.Map<string, number>([{ key: "a", value: 1 }, { key: "b", value: 2 }]);
+            const map = new qub.PersistentMap<string, number>(source);
+            assert.deepEqual(map.getCount(), 2);
+            assert.deepEqual(map.get("a"), 1);
+            assert.deepEqual(map.get("b"), 2);
+        });
+
+        test("add()", () => {
+            const empty = new qub.PersistentMap<string, number>();
+            const one = empty.add("a", 1);
+            const replaced = one.add("a", 10);
+            assert.deepEqual(empty.getCount(), 0);
+            assert.deepEqual(one.get("a"), 1);
+            assert.deepEqual(replaced.get("a"), 10);
+            assert.deepEqual(replaced.getCount(), 1);
+            assert.strictEqual(one.add("a", 1), one);
+        });
+
+        test("add() with many values", () => {
+            let map = new qub.PersistentMap<number, number>();
+            for (let i = -1000; i < 1000; ++i) {
+                map = map.add(i, i * 2);
+            }
+            assert.deepEqual(map.getCount(), 2000);
+            for (let i = -1000; i < 1000; ++i) {
+                assert.deepEqual(map.get(i), i * 2);
+            }
+            assert.deepEqual(map.containsKey(1000), false);
+            assert.deepEqual(map.map((pair: qub.KeyValuePair<number, number>) => pair.key).minimum(), -1000);
+            assert.deepEqual(map.map((pair: qub.KeyValuePair<number, number>) => pair.key).maximum(), 999);
+        });
+
+        test("remove()", () => {
+            const full = new qub.PersistentMap<number, string>([{ key: 1, value: "one" }, { key: 2, value: "two" }]);
+            const removed = full.remove(1);
+            assert.deepEqual(removed.getCount(), 1);
+            assert.deepEqual(removed.containsKey(1), false);
+            assert.deepEqual(removed.get(2), "two");
+            assert.deepEqual(full.get(1), "one");
+            assert.strictEqual(full.remove(3), full);
+            assert.deepEqual(removed.remove(2).any(), false);
+        });
+
+        test("remove() with many values", () => {
+            const full = new qub.PersistentMap<number, number>();
+            const builder: qub.PersistentMapBuilder<number, number> = full.toBuilder();
+            for (let i = 0; i < 3000; ++i) {
+                builder.add(i * 7919, i);
+            }
+            let map: qub.PersistentMap<number, number> = builder.toPersistentMap();
+            for (let i = 0; i < 3000; i += 2) {
+                map = map.remove(i * 7919);
+            }
+            assert.deepEqual(map.getCount(), 1500);
+            for (let i = 0; i < 3000; ++i) {
+                assert.deepEqual(map.get(i * 7919), i % 2 === 0 ? undefined : i);
+            }
+            assert.deepEqual(map.toArray().length, 1500);
+        });
+
+        test("with colliding hash codes", () => {
+            let map = new qub.PersistentMap<string, number>(undefined, (lhs: string, rhs: string) => lhs === rhs);
+            map = map.add("a", 1).add("b", 2).add("c", 3);
+            assert.deepEqual(map.getCount(), 3);
+            assert.deepEqual(map.get("b"), 2);
+
+            const replaced = map.add("b", 20);
+            assert.deepEqual(replaced.get("b"), 20);
+            assert.deepEqual(map.get("b"), 2);
+
+            const removed = map.remove("a").remove("c");
+            assert.deepEqual(removed.getCount(), 1);
+            assert.deepEqual(removed.toArray(), [{ key: "b", value: 2 }]);
+            assert.deepEqual(map.getCount(), 3);
+        });
+
+        test("with an EqualityComparer", () => {
+            const map = new qub.PersistentMap<string, number>([{ key: "a", value: 1 }], qub.EqualityComparers.caseInsensitive());
+            assert.deepEqual(map.get("A"), 1);
+            assert.deepEqual(map.add("A", 2).getCount(), 1);
+        });
+
+        test("addAll()", () => {
+            const map = new qub.PersistentMap<string, number>([{ key: "a", value: 1 }]);
+            const added = map.addAll([{ key: "b", value: 2 }, { key: "a", value: 3 }]);
+            assert.deepEqual(map.getCount(), 1);
+            assert.deepEqual(added.getCount(), 2);
+            assert.deepEqual(added.get("a"), 3);
+        });
+
+        test("createBuilder()", () => {
+            const builder: qub.PersistentMapBuilder<string, number> = qub.PersistentMap.createBuilder<string, number>();
+            builder.add("a", 1);
+            builder.add("b", 2);
+            assert.deepEqual(builder.getCount(), 2);
+            assert.deepEqual(builder.containsKey("a"), true);
+
+            const first: qub.PersistentMap<string, number> = builder.toPersistentMap();
+            builder.remove("a");
+            builder.add("b", 20);
+            const second: qub.PersistentMap<string, number> = builder.toPersistentMap();
+
+            assert.deepEqual(first.get("a"), 1);
+            assert.deepEqual(first.get("b"), 2);
+            assert.deepEqual(second.containsKey("a"), false);
+            assert.deepEqual(second.get("b"), 20);
+            assert.deepEqual(builder.get("b"), 20);
+        });
+
+        suite("with colliding hash codes and an edit", () => {
+            const keyComparer = (lhs: string, rhs: string) => lhs === rhs;
+            const pairs: qub.KeyValuePair<string, number>[] = [
+                { key: "a", value: 1 },
+                { key: "b", value: 2 },
+                { key: "c", value: 3 },
+                { key: "d", value: 4 }
+            ];
+
+            test("constructor()", () => {
+                const map = new qub.PersistentMap<string, number>(pairs, keyComparer);
+                assert.deepEqual(map.getCount(), 4);
+                assert.deepEqual(map.toArray().length, 4);
+                assert.deepEqual(map.get("d"), 4);
+            });
+
+            test("createBuilder()", () => {
+                const builder: qub.PersistentMapBuilder<string, number> = qub.PersistentMap.createBuilder<string, number>(keyComparer);
+                builder.addAll(pairs);
+                builder.add("c", 30);
+                assert.deepEqual(builder.getCount(), 4);
+
+                const map: qub.PersistentMap<string, number> = builder.toPersistentMap();
+                assert.deepEqual(map.getCount(), 4);
+                assert.deepEqual(map.get("c"), 30);
+            });
+
+            test("remove()", () => {
+                const map = new qub.PersistentMap<string, number>(pairs, keyComparer);
+                const removed = map.remove("a").remove("b").remove("d");
+                assert.deepEqual(removed.getCount(), 1);
+                assert.deepEqual(removed.any(), true);
+                assert.deepEqual(removed.toArray(), [{ key: "c", value: 3 }]);
+
+                const builder: qub.PersistentMapBuilder<string, number> = map.toBuilder();
+                builder.remove("a");
+                builder.remove("c");
+                assert.deepEqual(builder.getCount(), 2);
+                assert.deepEqual(builder.toPersistentMap().toArray().length, 2);
+            });
+        });
+    });
+
+    suite("LruCache<K,V>", () => {
+        test("constructor()", () => {
+            const cache = new qub.LruCache<string, number>(2);
+            assert.deepEqual(cache.getCapacity(), 2);
+            assert.deepEqual(cache.getCount(), 0);
+            assert.deepEqual(cache.any(), false);
+            assert.deepEqual(cache.toArray(), []);
+            assert.deepEqual(cache.getStatistics(), { hitCount: 0, missCount: 0, evictionCount: 0 });
+        });
+
+        test("with negative capacity", () => {
+            const cache = new qub.LruCache<string, number>(-1);
+            assert.deepEqual(cache.getCapacity(), 0);
+            cache.add("a", 1);
+            assert.deepEqual(cache.getCount(), 0);
+        });
+
+        test("add() and get()", () => {
+            const cache = new qub.LruCache<string, number>(3);
+            cache.add("a", 1);
+            cache.add("b", 2);
+            assert.deepEqual(cache.get("a"), 1);
+            assert.deepEqual(cache.get("c"), undefined);
+            assert.deepEqual(cache.getCount(), 2);
+            assert.deepEqual(cache.toArray(), [{ key: "b", value: 2 }, { key: "a", value: 1 }]);
+            assert.deepEqual(cache.getStatistics(), { hitCount: 1, missCount: 1, evictionCount: 0 });
+        });
+
+        test("add() with an existing key", () => {
+            const cache = new qub.LruCache<string, number>(2);
+            cache.add("a", 1);
+            cache.add("b", 2);
+            cache.add("a", 3);
+            assert.deepEqual(cache.toArray(), [{ key: "b", value: 2 }, { key: "a", value: 3 }]);
+        });
+
+        test("evicts the least recently used entry", () => {
+            const cache = new qub.LruCache<string, number>(2);
+            const evictions: qub.CacheEviction<string, number>[] = [];
+            cache.onEviction((values: qub.Indexable<qub.CacheEviction<string, number>>) => evictions.push(...values.toArray()));
+
+            cache.add("a", 1);
+            cache.add("b", 2);
+            cache.get("a");
+            cache.add("c", 3);
+            assert.deepEqual(cache.containsKey("b"), false);
+            assert.deepEqual(cache.toArray(), [{ key: "a", value: 1 }, { key: "c", value: 3 }]);
+            assert.deepEqual(evictions, [{ key: "b", value: 2, reason: qub.CacheEvictionReason.Capacity }]);
+            assert.deepEqual(cache.getStatistics().evictionCount, 1);
+        });
+
+        test("containsKey() doesn't change the order or the statistics", () => {
+            const cache = new qub.LruCache<string, number>(2);
+            cache.add("a", 1);
+            cache.add("b", 2);
+            assert.deepEqual(cache.containsKey("a"), true);
+            assert.deepEqual(cache.containsKey("c"), false);
+            cache.add("c", 3);
+            assert.deepEqual(cache.containsKey("a"), false);
+            assert.deepEqual(cache.getStatistics(), { hitCount: 0, missCount: 0, evictionCount: 1 });
+        });
+
+        test("getOrAdd()", () => {
+            const cache = new qub.LruCache<string, number>(2);
+            let createCount: number = 0;
+            const create = (key: string) => {
+                ++createCount;
+                return key.length;
+            };
+            assert.deepEqual(cache.getOrAdd("abc", create), 3);
+            assert.deepEqual(cache.getOrAdd("abc", create), 3);
+            assert.deepEqual(createCount, 1);
+            assert.deepEqual(cache.getStatistics(), { hitCount: 1, missCount: 1, evictionCount: 0 });
+        });
+
+        test("remove() and clear()", () => {
+            const cache = new qub.LruCache<string, number>(3);
+            const evictions: qub.CacheEviction<string, number>[] = [];
+            cache.onEviction((values: qub.Indexable<qub.CacheEviction<string, number>>) => evictions.push(...values.toArray()));
+
+            cache.add("a", 1);
+            cache.add("b", 2);
+            cache.remove("a");
+            cache.remove("c");
+            assert.deepEqual(cache.toArray(), [{ key: "b", value: 2 }]);
+            cache.clear();
+            assert.deepEqual(cache.getCount(), 0);
+            assert.deepEqual(evictions, []);
+            assert.deepEqual(cache.getStatistics().evictionCount, 0);
+        });
+
+        test("resetStatistics()", () => {
+            const cache = new qub.LruCache<string, number>(1);
+            cache.add("a", 1);
+            cache.get("a");
+            cache.get("b");
+            cache.add("b", 2);
+            cache.resetStatistics();
+            assert.deepEqual(cache.getStatistics(), { hitCount: 0, missCount: 0, evictionCount: 0 });
+        });
+
+        test("onEviction() after dispose()", () => {
+            const cache = new qub.LruCache<string, number>(1);
+            let notificationCount: number = 0;
+            const subscription: qub.Disposable = cache.onEviction(() => ++notificationCount);
+            cache.add("a", 1);
+            cache.add("b", 2);
+            subscription.dispose();
+            subscription.dispose();
+            cache.add("c", 3);
+            assert.deepEqual(notificationCount, 1);
+        });
+
+        test("with a key comparer", () => {
+            const cache = new qub.LruCache<string, number>(2, qub.EqualityComparers.caseInsensitive());
+            cache.add("abc", 1);
+            assert.deepEqual(cache.get("ABC"), 1);
+        });
+    });
+
+    suite("TtlCache<K,V>", () => {
+        function createCache(timeToLive: number): { cache: qub.TtlCache<string, number>, setTime: (time: number) => void } {
+            let currentTime: number = 0;
+            return {
+                cache: new qub.TtlCache<string, number>(timeToLive, () => currentTime),
+                setTime: (time: number) => currentTime = time
+            };
+        }
+
+        test("constructor()", () => {
+            const cache = new qub.TtlCache<string, number>(100);
+            assert.deepEqual(cache.getTimeToLive(), 100);
+            assert.deepEqual(cache.getCapacity(), undefined);
+            assert.deepEqual(cache.getCount(), 0);
+            cache.add("a", 1);
+            assert.deepEqual(cache.get("a"), 1);
+        });
+
+        test("get() before and after expiration", () => {
+            const { cache, setTime } = createCache(10);
+            cache.add("a", 1);
+            setTime(9);
+            assert.deepEqual(cache.get("a"), 1);
+            setTime(10);
+            assert.deepEqual(cache.get("a"), undefined);
+            assert.deepEqual(cache.getStatistics(), { hitCount: 1, missCount: 1, evictionCount: 1 });
+        });
+
+        test("get() doesn't restart the time to live", () => {
+            const { cache, setTime } = createCache(10);
+            cache.add("a", 1);
+            setTime(5);
+            cache.get("a");
+            setTime(10);
+            assert.deepEqual(cache.containsKey("a"), false);
+        });
+
+        test("add() restarts the time to live", () => {
+            const { cache, setTime } = createCache(10);
+            cache.add("a", 1);
+            cache.add("b", 2);
+            setTime(5);
+            cache.add("a", 3);
+            assert.deepEqual(cache.toArray(), [{ key: "b", value: 2 }, { key: "a", value: 3 }]);
+            setTime(10);
+            assert.deepEqual(cache.toArray(), [{ key: "a", value: 3 }]);
+            setTime(15);
+            assert.deepEqual(cache.any(), false);
+        });
+
+        test("removeExpired()", () => {
+            const { cache, setTime } = createCache(10);
+            const notifications: qub.CacheEviction<string, number>[][] = [];
+            cache.onEviction((evictions: qub.Indexable<qub.CacheEviction<string, number>>) => notifications.push(evictions.toArray()));
+
+            cache.add("a", 1);
+            cache.add("b", 2);
+            setTime(1);
+            cache.add("c", 3);
+            setTime(10);
+            cache.removeExpired();
+            assert.deepEqual(notifications, [[
+                { key: "a", value: 1, reason: qub.CacheEvictionReason.Expired },
+                { key: "b", value: 2, reason: qub.CacheEvictionReason.Expired }
+            ]]);
+            assert.deepEqual(cache.getCount(), 1);
+            assert.deepEqual(cache.getStatistics().evictionCount, 2);
+        });
+
+        test("getOrAdd() with an expired entry", () => {
+            const { cache, setTime } = createCache(10);
+            cache.add("a", 1);
+            setTime(20);
+            assert.deepEqual(cache.getOrAdd("a", () => 2), 2);
+            setTime(29);
+            assert.deepEqual(cache.get("a"), 2);
+        });
+
+        test("with a key comparer", () => {
+            let currentTime: number = 0;
+            const cache = new qub.TtlCache<string, number>(10, () => currentTime, qub.EqualityComparers.caseInsensitive());
+            cache.add("abc", 1);
+            assert.deepEqual(cache.get("ABC"), 1);
+            currentTime = 10;
+            assert.deepEqual(cache.get("Abc"), undefined);
+        });
+    });
+
+    suite("SortedMap<K,V>", () => {
+        function keys(pairs: qub.Iterable<qub.KeyValuePair<number, string>> | qub.Iterator<qub.KeyValuePair<number, string>>): number[] {
+            const result: number[] = [];
+            for (const pair of pairs) {
+                result.push(pair.key);
+            }
+            return result;
+        }
+
+        function createMap(keyValues: number[]): qub.SortedMap<number, string> {
+            const map = new qub.SortedMap<number, string>();
+            for (const key of keyValues) {
+                map.add(key, key.toString());
+            }
+            return map;
+        }
+
+        test("constructor()", () => {
+            const map = new qub.SortedMap<number, string>();
+            assert.deepEqual(map.getCount(), 0);
+            assert.deepEqual(map.any(), false);
+            assert.deepEqual(map.toArray(), []);
+            assert.deepEqual(map.firstKey(), undefined);
+            assert.deepEqual(map.lastKey(), undefined);
+        });
+
+        test("constructor() with initial values and comparer", () => {
+            const map = new qub.SortedMap<string, number>(
+                [{ key: "b", value: 2 }, { key: "a", value: 1 }, { key: "c", value: 3 }],
+                (lhs: string, rhs: string) => lhs < rhs ? 1 : lhs > rhs ? -1 : 0);
+            assert.deepEqual(map.toArray(), [{ key: "c", value: 3 }, { key: "b", value: 2 }, { key: "a", value: 1 }]);
+        });
+
+        test("add()", () => {
+            const map = createMap([5, 3, 8, 1, 4, 7, 9, 2, 6]);
+            assert.deepEqual(map.getCount(), 9);
+            assert.deepEqual(keys(map), [1, 2, 3, 4, 5, 6, 7, 8, 9]);
+
+            map.add(5, "five");
+            assert.deepEqual(map.getCount(), 9);
+            assert.deepEqual(map.get(5), "five");
+        });
+
+        test("with many values", () => {
+            const map = new qub.SortedMap<number, number>();
+            for (let i = 999; i >= 0; --i) {
+                map.add(i, i);
+            }
+            assert.deepEqual(map.getCount(), 1000);
+            assert.deepEqual(map.iterate().take(3).toArray(), [{ key: 0, value: 0 }, { key: 1, value: 1 }, { key: 2, value: 2 }]);
+
+            for (let i = 0; i < 1000; i += 2) {
+                map.remove(i);
+            }
+            assert.deepEqual(map.getCount(), 500);
+            assert.deepEqual(map.firstKey(), 1);
+            assert.deepEqual(map.lastKey(), 999);
+            assert.deepEqual(map.containsKey(500), false);
+            assert.deepEqual(map.containsKey(501), true);
+        });
+
+        test("remove()", () => {
+            const map = createMap([5, 3, 8, 1, 4]);
+            map.remove(10);
+            assert.deepEqual(map.getCount(), 5);
+
+            map.remove(3);
+            assert.deepEqual(map.getCount(), 4);
+            assert.deepEqual(map.get(3), undefined);
+            assert.deepEqual(keys(map), [1, 4, 5, 8]);
+
+            map.remove(5);
+            assert.deepEqual(keys(map), [1, 4, 8]);
+        });
+
+        test("clear()", () => {
+            const map = createMap([1, 2, 3]);
+            map.clear();
+            assert.deepEqual(map.getCount(), 0);
+            assert.deepEqual(map.toArray(), []);
+        });
+
+        test("iterateReverse()", () => {
+            assert.deepEqual(keys(createMap([]).iterateReverse()), []);
+            assert.deepEqual(keys(createMap([2, 3, 1]).iterateReverse()), [3, 2, 1]);
+        });
+
+        suite("floorKey()", () => {
+            const map = createMap([10, 20, 30]);
+
+            function floorKeyTest(key: number, expected: number): void {
+                test(`with ${key}`, () => {
+                    assert.deepEqual(map.floorKey(key), expected);
                 });
             }
 
-            takeTest(undefined, undefined, []);
-            takeTest(undefined, null, []);
-            takeTest(undefined, -3, []);
-            takeTest(undefined, 0, []);
-            takeTest(undefined, 7, []);
-            takeTest(null, undefined, []);
-            takeTest(null, null, []);
-            takeTest(null, -1, []);
-            takeTest(null, 0, []);
-            takeTest(null, 2, []);
-            takeTest([], undefined, []);
-            takeTest([], null, []);
-            takeTest([], -3, []);
-            takeTest([], 0, []);
-            takeTest([], 1, []);
-            takeTest([0], undefined, []);
-            takeTest([0], null, []);
-            takeTest([0], -10, []);
-            takeTest([0], 0, []);
-            takeTest([0], 1, [0]);
-            takeTest([0], 2, [0]);
-            takeTest([0, 1, 2, 3, 4], undefined, []);
-            takeTest([0, 1, 2, 3, 4], -1, []);
-            takeTest([0, 1, 2, 3, 4], 0, []);
-            takeTest([0, 1, 2, 3, 4], 1, [0]);
-            takeTest([0, 1, 2, 3, 4], 4, [0, 1, 2, 3]);
-            takeTest([0, 1, 2, 3, 4], 10, [0, 1, 2, 3, 4]);
+            floorKeyTest(5, undefined);
+            floorKeyTest(10, 10);
+            floorKeyTest(15, 10);
+            floorKeyTest(30, 30);
+            floorKeyTest(35, 30);
         });
 
-        suite("map()", () => {
-            function mapTest(testName: string, originalValues: number[], mapFunction: (value: number) => string, expectedValues: string[]): void {
-                test(testName, () => {
-                    assert.deepEqual(new qub.ArrayList(originalValues).map(mapFunction).toArray(), expectedValues, "Wrong toArray() with non-started map iterable.");
+        suite("ceilingKey()", () => {
+            const map = createMap([10, 20, 30]);
+
+            function ceilingKeyTest(key: number, expected: number): void {
+                test(`with ${key}`, () => {
+                    assert.deepEqual(map.ceilingKey(key), expected);
                 });
             }
 
-            mapTest("with undefined mapFunction", [0, 1, 2, 3, 4], undefined, []);
-            mapTest("with toString() mapFunction", [0, 1, 2, 3, 4], (value: number) => value.toString(), ["0", "1", "2", "3", "4"]);
-            mapTest("with *2 and toString() mapFunction", [0, 1, 2, 3, 4], (value: number) => (value * 2).toString(), ["0", "2", "4", "6", "8"]);
+            ceilingKeyTest(5, 10);
+            ceilingKeyTest(10, 10);
+            ceilingKeyTest(15, 20);
+            ceilingKeyTest(30, 30);
+            ceilingKeyTest(35, undefined);
+        });
 
-            const mapIterable = new qub.ArrayList([0, 1, 2, 3]).map((value: number) => qub.isDefined(value) ? value.toString() : undefined);
-            test("iterateReverse()", () => {
-                assert.deepStrictEqual(mapIterable.iterateReverse().toArray(), ["3", "2", "1", "0"]);
-            });
+        suite("range()", () => {
+            const map = createMap([1, 2, 3, 4, 5, 6, 7, 8, 9]);
 
-            test("get()", () => {
-                assert.deepStrictEqual(mapIterable.get(-1), undefined);
-                assert.deepStrictEqual(mapIterable.get(0), "0");
-                assert.deepStrictEqual(mapIterable.get(1), "1");
-                assert.deepStrictEqual(mapIterable.get(2), "2");
-                assert.deepStrictEqual(mapIterable.get(3), "3");
-                assert.deepStrictEqual(mapIterable.get(4), undefined);
-            });
+            function rangeTest(from: number, to: number, expected: number[]): void {
+                test(`with ${from} and ${to}`, () => {
+                    assert.deepEqual(keys(map.range(from, to)), expected);
+                });
+            }
 
-            test("getFromEnd()", () => {
-                assert.deepStrictEqual(mapIterable.getFromEnd(-1), undefined);
-                assert.deepStrictEqual(mapIterable.getFromEnd(0), "3");
-                assert.deepStrictEqual(mapIterable.getFromEnd(1), "2");
-                assert.deepStrictEqual(mapIterable.getFromEnd(2), "1");
-                assert.deepStrictEqual(mapIterable.getFromEnd(3), "0");
-                assert.deepStrictEqual(mapIterable.getFromEnd(4), undefined);
-            });
+            rangeTest(undefined, undefined, [1, 2, 3, 4, 5, 6, 7, 8, 9]);
+            rangeTest(3, 6, [3, 4, 5]);
+            rangeTest(undefined, 3, [1, 2]);
+            rangeTest(7, undefined, [7, 8, 9]);
+            rangeTest(0, 100, [1, 2, 3, 4, 5, 6, 7, 8, 9]);
+            rangeTest(4, 4, []);
+            rangeTest(6, 3, []);
+
+            test("reflects later changes", () => {
+                const map = createMap([1, 5]);
+                const range: qub.Iterable<qub.KeyValuePair<number, string>> = map.range(2, 6);
+                assert.deepEqual(keys(range), [5]);
+                map.add(3, "3");
+                assert.deepEqual(keys(range), [3, 5]);
+                assert.deepEqual(range.getCount(), 2);
+            });
+        });
+
+        test("with Span keys", () => {
+            const map = new qub.SortedMap<qub.Span, string>(undefined, (lhs: qub.Span, rhs: qub.Span) => lhs.getStartIndex() - rhs.getStartIndex());
+            map.add(new qub.Span(10, 2), "b");
+            map.add(new qub.Span(0, 5), "a");
+            assert.deepEqual(map.get(new qub.Span(10, 0)), "b");
+            assert.deepEqual(map.map((pair: qub.KeyValuePair<qub.Span, string>) => pair.value).toArray(), ["a", "b"]);
+        });
+
+        test("with Comparer", () => {
+            const map = new qub.SortedMap<string, number>(undefined, qub.Comparers.caseInsensitive());
+            map.add("b", 1);
+            map.add("A", 2);
+            map.add("a", 3);
+            assert.deepEqual(map.toArray(), [{ key: "a", value: 3 }, { key: "b", value: 1 }]);
+        });
+
+        test("with undefined, null and NaN keys", () => {
+            const map = new qub.SortedMap<number, string>();
+            map.add(1, "a");
+            map.add(2, "b");
+            map.add(undefined, "u");
+            map.add(null, "n");
+            map.add(NaN, "x");
+            assert.deepEqual(map.getCount(), 5);
+            assert.deepEqual(map.toArray(), [
+                { key: 1, value: "a" },
+                { key: 2, value: "b" },
+                { key: NaN, value: "x" },
+                { key: null, value: "n" },
+                { key: undefined, value: "u" }
+            ]);
+            assert.deepEqual(map.get(1), "a");
+            assert.deepEqual(map.get(2), "b");
+            assert.deepEqual(map.get(undefined), "u");
+            assert.deepEqual(map.get(null), "n");
+            assert.deepEqual(map.get(NaN), "x");
+
+            map.remove(undefined);
+            assert.deepEqual(map.containsKey(undefined), false);
+            assert.deepEqual(map.containsKey(1), true);
+            assert.deepEqual(map.getCount(), 4);
+        });
+    });
 
-            test("any()", () => {
-                assert.deepEqual(mapIterable.any(), true);
-                assert.deepEqual(mapIterable.any((value: string) => value === "1"), true);
-                assert.deepEqual(mapIterable.any((value: string) => value === "-1"), false);
-            });
+    suite("HashSet<T>", () => {
+        test("constructor()", () => {
+            const set = new qub.HashSet<number>();
+            assert.deepEqual(set.getCount(), 0);
+            assert.deepEqual(set.any(), false);
+            assert.deepEqual(set.toArray(), []);
+        });
 
-            test("getCount()", () => {
-                assert.deepEqual(mapIterable.getCount(), 4);
+        test("constructor() with duplicate values", () => {
+            const set = new qub.HashSet<number>([3, 1, 3, 2, 1]);
+            assert.deepEqual(set.getCount(), 3);
+            assert.deepEqual(set.toArray(), [3, 1, 2]);
+        });
+
+        test("add()", () => {
+            const set = new qub.HashSet<string>();
+            assert.deepEqual(set.add("a"), true);
+            assert.deepEqual(set.add("a"), false);
+            assert.deepEqual(set.add("b"), true);
+            assert.deepEqual(set.getCount(), 2);
+        });
+
+        test("remove()", () => {
+            const set = new qub.HashSet<string>(["a", "b"]);
+            assert.deepEqual(set.remove("c"), false);
+            assert.deepEqual(set.remove("a"), true);
+            assert.deepEqual(set.remove("a"), false);
+            assert.deepEqual(set.toArray(), ["b"]);
+        });
+
+        test("contains()", () => {
+            const set = new qub.HashSet<number>([1, 2, 3]);
+            assert.deepEqual(set.contains(2), true);
+            assert.deepEqual(set.contains(4), false);
+            assert.deepEqual(set.contains(4, (lhs: number, rhs: number) => lhs % 2 === rhs % 2), true);
+        });
+
+        test("clear()", () => {
+            const set = new qub.HashSet<number>([1, 2, 3]);
+            set.clear();
+            assert.deepEqual(set.getCount(), 0);
+            assert.deepEqual(set.contains(1), false);
+        });
+
+        test("with comparer", () => {
+            const set = new qub.HashSet<string>(["Apple", "APPLE", "banana"], {
+                equals: (lhs: string, rhs: string) => lhs.toLowerCase() === rhs.toLowerCase(),
+                getHashCode: (value: string) => value.length
             });
+            assert.deepEqual(set.toArray(), ["Apple", "banana"]);
+            assert.deepEqual(set.contains("apple"), true);
 
-            suite("contains()", () => {
-                function containsTest(testName: string, values: number[], searchFor: string, expected: boolean): void {
-                    test(testName, () => {
-                        const mi = new qub.ArrayList(values).map((value) => value.toString());
-                        assert.deepEqual(mi.contains(searchFor), expected);
-                    });
-                }
+            set.intersectWith(["BANANA"]);
+            assert.deepEqual(set.toArray(), ["banana"]);
+        });
 
-                containsTest("with undefined values", undefined, "7", false);
-                containsTest("with null values", null, "7", false);
-                containsTest("with no values", [], "7", false);
-                containsTest("with searchFor value not in values", [1, 2, 3], "7", false);
-                containsTest("with searchFor value in values", [1, 7, 3], "7", true);
+        test("unionWith()", () => {
+            const set = new qub.HashSet<number>([1, 2]);
+            set.unionWith(undefined);
+            set.unionWith([2, 3]);
+            set.unionWith(new qub.ArrayList<number>([4]));
+            assert.deepEqual(set.toArray(), [1, 2, 3, 4]);
+        });
+
+        test("intersectWith()", () => {
+            const set = new qub.HashSet<number>([1, 2, 3, 4]);
+            set.intersectWith([4, 2, 6]);
+            assert.deepEqual(set.toArray(), [2, 4]);
+
+            set.intersectWith(undefined);
+            assert.deepEqual(set.toArray(), []);
+        });
+
+        test("exceptWith()", () => {
+            const set = new qub.HashSet<number>([1, 2, 3, 4]);
+            set.exceptWith(undefined);
+            set.exceptWith([4, 2, 6]);
+            assert.deepEqual(set.toArray(), [1, 3]);
+        });
+
+        test("isSubsetOf()", () => {
+            const set = new qub.HashSet<number>([1, 2]);
+            assert.deepEqual(set.isSubsetOf(undefined), false);
+            assert.deepEqual(set.isSubsetOf([1]), false);
+            assert.deepEqual(set.isSubsetOf([2, 1]), true);
+            assert.deepEqual(set.isSubsetOf([3, 2, 1]), true);
+            assert.deepEqual(new qub.HashSet<number>().isSubsetOf([]), true);
+        });
+
+        test("with EqualityComparer", () => {
+            const set = new qub.HashSet<string>(["a", "A", "b"], qub.EqualityComparers.caseInsensitive());
+            assert.deepEqual(set.toArray(), ["a", "b"]);
+            assert.deepEqual(set.contains("B"), true);
+        });
+    });
+
+    suite("SortedSet<T>", () => {
+        test("constructor()", () => {
+            const set = new qub.SortedSet<number>();
+            assert.deepEqual(set.getCount(), 0);
+            assert.deepEqual(set.any(), false);
+            assert.deepEqual(set.toArray(), []);
+        });
+
+        test("constructor() with duplicate values", () => {
+            const set = new qub.SortedSet<number>([3, 1, 3, 2, 1]);
+            assert.deepEqual(set.getCount(), 3);
+            assert.deepEqual(set.toArray(), [1, 2, 3]);
+            assert.deepEqual(set.iterateReverse().toArray(), [3, 2, 1]);
+        });
+
+        test("add()", () => {
+            const set = new qub.SortedSet<string>();
+            assert.deepEqual(set.add("b"), true);
+            assert.deepEqual(set.add("a"), true);
+            assert.deepEqual(set.add("b"), false);
+            assert.deepEqual(set.toArray(), ["a", "b"]);
+        });
+
+        test("remove()", () => {
+            const set = new qub.SortedSet<string>(["a", "b"]);
+            assert.deepEqual(set.remove("c"), false);
+            assert.deepEqual(set.remove("a"), true);
+            assert.deepEqual(set.toArray(), ["b"]);
+        });
+
+        test("with comparer", () => {
+            const set = new qub.SortedSet<number>([1, 2, 3], (lhs: number, rhs: number) => rhs - lhs);
+            assert.deepEqual(set.toArray(), [3, 2, 1]);
+
+            set.intersectWith([2, 3, 4]);
+            assert.deepEqual(set.toArray(), [3, 2]);
+        });
+
+        test("set algebra", () => {
+            const set = new qub.SortedSet<number>([5, 1, 3]);
+            set.unionWith([4, 2]);
+            assert.deepEqual(set.toArray(), [1, 2, 3, 4, 5]);
+
+            set.exceptWith([2, 4]);
+            assert.deepEqual(set.toArray(), [1, 3, 5]);
+
+            set.intersectWith(new qub.HashSet<number>([5, 3, 9]));
+            assert.deepEqual(set.toArray(), [3, 5]);
+
+            assert.deepEqual(set.isSubsetOf([1, 3, 5]), true);
+            assert.deepEqual(set.isSubsetOf([1, 3]), false);
+
+            set.clear();
+            assert.deepEqual(set.toArray(), []);
+        });
+
+        test("with undefined, null and NaN values", () => {
+            const set = new qub.SortedSet<number>([3, NaN, 1, undefined, null, NaN]);
+            assert.deepEqual(set.getCount(), 5);
+            assert.deepEqual(set.toArray(), [1, 3, NaN, null, undefined]);
+            assert.deepEqual(set.contains(NaN), true);
+            assert.deepEqual(set.contains(null), true);
+            assert.deepEqual(set.contains(undefined), true);
+        });
+    });
+
+    suite("Iterables", () => {
+        suite("range()", () => {
+            function rangeTest(start: number, count: number, step: number, expected: number[]): void {
+                test(`with ${start}, ${count} and ${step}`, () => {
+                    const range: qub.Indexable<number> = qub.Iterables.range(start, count, step);
+                    assert.deepEqual(range.toArray(), expected);
+                    assert.deepEqual(range.getCount(), expected.length);
+                    assert.deepEqual(range.iterateReverse().toArray(), expected.reverse());
+                });
+            }
+
+            rangeTest(0, undefined, undefined, []);
+            rangeTest(0, -1, undefined, []);
+            rangeTest(0, 0, undefined, []);
+            rangeTest(0, 3, undefined, [0, 1, 2]);
+            rangeTest(5, 3, 2, [5, 7, 9]);
+            rangeTest(1, 4, -1, [1, 0, -1, -2]);
+
+            test("get()", () => {
+                const range: qub.Indexable<number> = qub.Iterables.range(10, 5, 10);
+                assert.deepEqual(range.get(-1), undefined);
+                assert.deepEqual(range.get(0), 10);
+                assert.deepEqual(range.get(4), 50);
+                assert.deepEqual(range.get(5), undefined);
+            });
+        });
 
-                test("with searchFor value in in values with comparer", () => {
-                    const ci = new qub.ArrayList([1, 2, 3]).map((value) => value.toString());
-                    assert.deepEqual(ci.contains("200", (iterableValue, value) => value.substring(0, 1) === iterableValue), true);
-                });
+        suite("repeat()", () => {
+            test("with count", () => {
+                assert.deepEqual(qub.Iterables.repeat("a", 3).toArray(), ["a", "a", "a"]);
+                assert.deepEqual(qub.Iterables.repeat("a", 0).toArray(), []);
+                assert.deepEqual(qub.Iterables.repeat("a", -2).toArray(), []);
             });
 
-            test("first()", () => {
-                assert.deepEqual(mapIterable.first(), "0");
+            test("without count", () => {
+                assert.deepEqual(qub.Iterables.repeat(7).take(4).toArray(), [7, 7, 7, 7]);
+                assert.deepEqual(qub.Iterables.repeat(7).skip(1000).first(), 7);
+                assert.deepEqual(qub.Iterables.repeat(7) instanceof qub.IndexableBase, false);
             });
+        });
 
-            test("last()", () => {
-                assert.deepEqual(mapIterable.last(), "3");
+        suite("generate()", () => {
+            test("with infinite sequence", () => {
+                assert.deepEqual(qub.Iterables.generate(1, (value: number) => value * 2).take(5).toArray(), [1, 2, 4, 8, 16]);
             });
 
-            test("where()", () => {
-                assert.deepEqual(mapIterable.where(undefined).toArray(), mapIterable.toArray());
-                assert.deepEqual(mapIterable.where((value: string) => value === "2").toArray(), ["2"]);
+            test("with sequence that ends", () => {
+                const generated: qub.Iterable<number> = qub.Iterables.generate(3, (value: number) => value > 0 ? value - 1 : undefined);
+                assert.deepEqual(generated.toArray(), [3, 2, 1, 0]);
+                assert.deepEqual(generated.toArray(), [3, 2, 1, 0]);
             });
 
-            test("skip()", () => {
-                assert.deepEqual(mapIterable.skip(undefined).toArray(), mapIterable.toArray());
-                assert.deepEqual(mapIterable.skip(-1).toArray(), mapIterable.toArray());
-                assert.deepEqual(mapIterable.skip(2).toArray(), ["2", "3"]);
-                assert.deepEqual(mapIterable.skip(10).toArray(), []);
+            test("with undefined seed", () => {
+                assert.deepEqual(qub.Iterables.generate(undefined, (value: number) => 1).toArray(), []);
             });
+        });
 
-            test("skipLast()", () => {
-                assert.deepEqual(mapIterable.skipLast(undefined).toArray(), mapIterable.toArray());
-                assert.deepEqual(mapIterable.skipLast(-1).toArray(), mapIterable.toArray());
-                assert.deepEqual(mapIterable.skipLast(2).toArray(), ["0", "1"]);
-                assert.deepEqual(mapIterable.skipLast(10).toArray(), []);
+        suite("from()", () => {
+            test("with undefined", () => {
+                assert.deepEqual(qub.Iterables.from(undefined).toArray(), []);
             });
 
-            test("take()", () => {
-                assert.deepEqual(mapIterable.take(undefined).toArray(), [], "Wrong result when undefined taken.");
-                assert.deepEqual(mapIterable.take(-1).toArray(), [], "Wrong result when -1 taken.");
-                assert.deepEqual(mapIterable.take(3).toArray(), ["0", "1", "2"], "Wrong result when 3 taken.");
-                assert.deepEqual(mapIterable.take(200).toArray(), mapIterable.toArray(), "Wrong result when 200 taken.");
+            test("with string", () => {
+                assert.deepEqual(qub.Iterables.from("abc").toArray(), ["a", "b", "c"]);
             });
 
-            test("takeLast()", () => {
-                assert.deepEqual(mapIterable.takeLast(undefined).toArray(), [], "Wrong result when last undefined taken.");
-                assert.deepEqual(mapIterable.takeLast(-1).toArray(), [], "Wrong result when last -1 taken.");
-                assert.deepEqual(mapIterable.takeLast(3).toArray(), ["1", "2", "3"], "Wrong result when last 3 taken.");
-                assert.deepEqual(mapIterable.takeLast(200).toArray(), mapIterable.toArray(), "Wrong result when last 200 taken.");
+            test("with Iterable", () => {
+                const list = new qub.ArrayList<number>([1, 2]);
+                assert.strictEqual(qub.Iterables.from(list), list);
             });
 
-            test("map()", () => {
-                assert.deepEqual(mapIterable.map(undefined).toArray(), []);
-                assert.deepEqual(mapIterable.map((value: string) => value + value).toArray(), ["00", "11", "22", "33"]);
+            test("with array", () => {
+                const values: number[] = [1, 2, 3];
+                const indexable: qub.Indexable<number> = qub.Iterables.from(values);
+                assert.deepEqual(indexable.toArray(), [1, 2, 3]);
+                assert.deepEqual(indexable.get(1), 2);
+
+                values.push(4);
+                assert.deepEqual(indexable.getCount(), 4);
+                assert.deepEqual(indexable.iterateReverse().toArray(), [4, 3, 2, 1]);
             });
 
-            test("concatenate()", () => {
-                assert.deepEqual(mapIterable.concatenate(undefined).toArray(), ["0", "1", "2", "3"]);
-                assert.deepEqual(mapIterable.concatenate(null).toArray(), ["0", "1", "2", "3"]);
-                assert.deepEqual(mapIterable.concatenate([]).toArray(), ["0", "1", "2", "3"]);
-                assert.deepEqual(mapIterable.concatenate(["4", "5"]).toArray(), ["0", "1", "2", "3", "4", "5"]);
+            test("with arguments", () => {
+                function getArguments(..._values: any[]): IArguments {
+                    return arguments;
+                }
+                assert.deepEqual(qub.Iterables.from<number>(getArguments(1, 2)).toArray(), [1, 2]);
             });
 
-            suite("endsWith()", () => {
-                function endsWithTest(values: number[], endingValues: string[], expected: boolean): void {
-                    test(`with ${JSON.stringify(values)} and ${JSON.stringify(endingValues)}`, () => {
-                        const mapValues: qub.Iterable<string> = new qub.ArrayList(values).map((value: number) => value.toString());
-                        const mapEndingValues: qub.Iterable<string> = endingValues ? new qub.ArrayList(endingValues) : undefined;
-                        assert.deepEqual(mapValues.endsWith(mapEndingValues), expected);
-                    });
+            test("with generator", () => {
+                function* generator(): IterableIterator<number> {
+                    yield 1;
+                    yield 2;
                 }
+                const iterable: qub.Iterable<number> = qub.Iterables.from(generator());
+                assert.deepEqual(iterable.toArray(), [1, 2]);
+                assert.deepEqual(iterable.toArray(), []);
+            });
 
-                endsWithTest([], undefined, false);
-                endsWithTest([1], undefined, false);
-                endsWithTest([], [], false);
-                endsWithTest([], ["1"], false);
-                endsWithTest([1], [], false);
-                endsWithTest([1], ["1"], true);
-                endsWithTest([1], ["1", "2"], false);
-                endsWithTest([1, 2, 3], ["3"], true);
-                endsWithTest([1, 2, 3], ["2", "3"], true);
-                endsWithTest([1, 2, 3], ["4", "3"], false);
-                endsWithTest([1, 2, 3], ["2", "4"], false);
+            test("with ES6 Map", () => {
+                const map = new Map<string, number>([["a", 1], ["b", 2]]);
+                assert.deepEqual(qub.Iterables.from(map).toArray(), [["a", 1], ["b", 2]]);
             });
 
-            test("for..of", () => {
-                const values: string[] = [];
-                for (const value of mapIterable) {
-                    values.push(value);
-                }
-                assert.deepEqual(values, ["0", "1", "2", "3"]);
+            test("with ES6 Set", () => {
+                const set = new Set<number>([3, 1, 3]);
+                assert.deepEqual(qub.Iterables.from(set).toArray(), [3, 1]);
+                assert.deepEqual(qub.Iterables.from(set).getCount(), 2);
             });
+        });
+    });
 
-            suite("minimum()", () => {
-                test("with empty iterable and no comparison function", () => {
-                    const iterable: qub.Iterable<string> = new qub.ArrayList<number>([]).map((value: number) => value.toString());
-                    assert.deepEqual(iterable.minimum(), undefined);
-                });
+    suite("PeekableIterator<T>", () => {
+        test("constructor()", () => {
+            const iterator = new qub.PeekableIterator<number>(new qub.ArrayList<number>([1, 2]).iterate());
+            assert.deepEqual(iterator.hasStarted(), false);
+            assert.deepEqual(iterator.hasCurrent(), false);
+            assert.deepEqual(iterator.getCurrent(), undefined);
+            assert.deepEqual(iterator.getPosition(), -1);
+        });
 
-                test("with single value iterable and no comparison function", () => {
-                    const iterable: qub.Iterable<string> = new qub.ArrayList<number>([1]).map((value: number) => value.toString());
-                    assert.deepEqual(iterable.minimum(), "1");
-                });
+        test("next()", () => {
+            const iterator = new qub.PeekableIterator<number>(new qub.ArrayList<number>([1, 2]).iterate());
+            assert.deepEqual(iterator.next(), true);
+            assert.deepEqual(iterator.getCurrent(), 1);
+            assert.deepEqual(iterator.getPosition(), 0);
+            assert.deepEqual(iterator.next(), true);
+            assert.deepEqual(iterator.getCurrent(), 2);
+            assert.deepEqual(iterator.getPosition(), 1);
+            assert.deepEqual(iterator.next(), false);
+            assert.deepEqual(iterator.getCurrent(), undefined);
+            assert.deepEqual(iterator.getPosition(), 2);
+            assert.deepEqual(iterator.next(), false);
+            assert.deepEqual(iterator.getPosition(), 2);
+        });
 
-                test("with multiple value iterable and no comparison function", () => {
-                    const iterable: qub.Iterable<string> = new qub.ArrayList<number>([1, 2, 3, 4]).map((value: number) => value.toString());
-                    assert.deepEqual(iterable.minimum(), "1");
-                });
+        test("with started iterator", () => {
+            const inner: qub.Iterator<number> = new qub.ArrayList<number>([1, 2, 3]).iterate();
+            inner.next();
+            const iterator = new qub.PeekableIterator<number>(inner);
+            assert.deepEqual(iterator.toArray(), [1, 2, 3]);
+        });
 
-                test("with empty iterable and comparison function", () => {
-                    const iterable: qub.Iterable<string> = new qub.ArrayList<number>([]).map((value: number) => value.toString());
-                    assert.deepEqual(iterable.minimum((lhs: string, rhs: string) => lhs < rhs), undefined);
-                });
+        suite("peek()", () => {
+            test("before starting", () => {
+                const iterator = new qub.PeekableIterator<number>(new qub.ArrayList<number>([1, 2, 3]).iterate());
+                assert.deepEqual(iterator.peek(), 1);
+                assert.deepEqual(iterator.peek(3), 3);
+                assert.deepEqual(iterator.peek(4), undefined);
+                assert.deepEqual(iterator.peek(0), undefined);
+                assert.deepEqual(iterator.hasStarted(), false);
+                assert.deepEqual(iterator.toArray(), [1, 2, 3]);
+            });
 
-                test("with single value iterable and comparison function", () => {
-                    const iterable: qub.Iterable<string> = new qub.ArrayList<number>([1]).map((value: number) => value.toString());
-                    assert.deepEqual(iterable.minimum((lhs: string, rhs: string) => lhs > rhs), "1");
-                });
+            test("after starting", () => {
+                const iterator = new qub.PeekableIterator<number>(new qub.ArrayList<number>([1, 2, 3]).iterate());
+                iterator.next();
+                assert.deepEqual(iterator.peek(0), 1);
+                assert.deepEqual(iterator.peek(), 2);
+                assert.deepEqual(iterator.peek(2), 3);
+                assert.deepEqual(iterator.getCurrent(), 1);
 
-                test("with multiple value iterable and comparison function", () => {
-                    const iterable: qub.Iterable<string> = new qub.ArrayList<number>([1, 2, 3, 4]).map((value: number) => value.toString());
-                    assert.deepEqual(iterable.minimum((lhs: string, rhs: string) => lhs > rhs), "4");
-                });
+                iterator.next();
+                assert.deepEqual(iterator.peek(-1), undefined);
+                assert.deepEqual(iterator.peek(), 3);
+            });
+
+            test("reads values lazily", () => {
+                const read: number[] = [];
+                const inner: qub.Iterator<number> = new qub.ArrayList<number>([1, 2, 3, 4])
+                    .iterate()
+                    .where((value: number) => { read.push(value); return true; });
+                const iterator = new qub.PeekableIterator<number>(inner);
+                assert.deepEqual(read, []);
+                assert.deepEqual(iterator.peek(2), 2);
+                assert.deepEqual(read, [1, 2]);
+                iterator.next();
+                iterator.next();
+                assert.deepEqual(read, [1, 2]);
             });
+        });
 
-            suite("maximum()", () => {
-                test("with empty iterable and no comparison function", () => {
-                    const iterable: qub.Iterable<string> = new qub.ArrayList<number>([]).map((value: number) => value.toString());
-                    assert.deepEqual(iterable.maximum(), undefined);
-                });
+        suite("mark() and reset()", () => {
+            test("after starting", () => {
+                const iterator = new qub.PeekableIterator<string>(new qub.StringIterator("abcd"));
+                iterator.next();
+                iterator.next();
+                const mark: number = iterator.mark();
+                assert.deepEqual(mark, 1);
 
-                test("with single value iterable and no comparison function", () => {
-                    const iterable: qub.Iterable<string> = new qub.ArrayList<number>([1]).map((value: number) => value.toString());
-                    assert.deepEqual(iterable.maximum(), "1");
-                });
+                assert.deepEqual(iterator.toArray(), ["b", "c", "d"]);
+                assert.deepEqual(iterator.hasCurrent(), false);
 
-                test("with multiple value iterable and no comparison function", () => {
-                    const iterable: qub.Iterable<string> = new qub.ArrayList<number>([1, 2, 3, 4]).map((value: number) => value.toString());
-                    assert.deepEqual(iterable.maximum(), "4");
-                });
+                iterator.reset(mark);
+                assert.deepEqual(iterator.getCurrent(), "b");
+                assert.deepEqual(iterator.getPosition(), 1);
+                assert.deepEqual(iterator.next(), true);
+                assert.deepEqual(iterator.getCurrent(), "c");
 
-                test("with empty iterable and comparison function", () => {
-                    const iterable: qub.Iterable<string> = new qub.ArrayList<number>([]).map((value: number) => value.toString());
-                    assert.deepEqual(iterable.maximum((lhs: string, rhs: string) => lhs < rhs), undefined);
-                });
+                iterator.reset(mark);
+                assert.deepEqual(iterator.getCurrent(), "b");
+            });
 
-                test("with single value iterable and comparison function", () => {
-                    const iterable: qub.Iterable<string> = new qub.ArrayList<number>([1]).map((value: number) => value.toString());
-                    assert.deepEqual(iterable.maximum((lhs: string, rhs: string) => lhs < rhs), "1");
-                });
+            test("before starting", () => {
+                const iterator = new qub.PeekableIterator<string>(new qub.StringIterator("ab"));
+                const mark: number = iterator.mark();
+                assert.deepEqual(iterator.toArray(), ["a", "b"]);
 
-                test("with multiple value iterable and comparison function", () => {
-                    const iterable: qub.Iterable<string> = new qub.ArrayList<number>([1, 2, 3, 4]).map((value: number) => value.toString());
-                    assert.deepEqual(iterable.maximum((lhs: string, rhs: string) => lhs < rhs), "1");
-                });
+                iterator.reset(mark);
+                assert.deepEqual(iterator.hasStarted(), false);
+                assert.deepEqual(iterator.toArray(), ["a", "b"]);
             });
-        });
-    });
 
-    suite("Map", () => {
-        test("constructor()", () => {
-            const map = new qub.Map<string, number>();
-            assert.deepEqual(map.getCount(), 0);
+            test("with multiple marks", () => {
+                const iterator = new qub.PeekableIterator<number>(new qub.ArrayList<number>([1, 2, 3, 4]).iterate());
+                iterator.next();
+                const first: number = iterator.mark();
+                iterator.next();
+                iterator.next();
+                const second: number = iterator.mark();
+                iterator.next();
+
+                iterator.reset(second);
+                assert.deepEqual(iterator.getCurrent(), 3);
+                iterator.reset(first);
+                assert.deepEqual(iterator.getCurrent(), 1);
+            });
+
+            test("with released mark", () => {
+                const iterator = new qub.PeekableIterator<number>(new qub.ArrayList<number>([1, 2, 3]).iterate());
+                iterator.next();
+                const mark: number = iterator.mark();
+                iterator.next();
+                iterator.release(mark);
+
+                iterator.reset(mark);
+                assert.deepEqual(iterator.getCurrent(), 2);
+                assert.deepEqual(iterator.getPosition(), 1);
+            });
         });
 
-        test("for..of", () => {
-            const map = new qub.Map<number, string>();
+        test("with Lexer", () => {
+            const iterator = new qub.PeekableIterator<qub.Lex>(new qub.Lexer("a bc"));
+            assert.deepEqual(iterator.peek(3), qub.Letters("bc", 2));
 
-            let values: qub.KeyValuePair<number, string>[] = [];
-            for (const pair of map) {
-                values.push(pair);
-            }
-            assert.deepEqual(values, []);
+            iterator.next();
+            const mark: number = iterator.mark();
+            assert.deepEqual(iterator.getCurrent(), qub.Letters("a", 0));
+            iterator.next();
+            iterator.next();
+            assert.deepEqual(iterator.getCurrent(), qub.Letters("bc", 2));
 
-            map.add(10, "ten");
-            for (const pair of map) {
-                values.push(pair);
-            }
-            assert.deepEqual(values, [{ key: 10, value: "ten" }]);
+            iterator.reset(mark);
+            assert.deepEqual(iterator.getCurrent(), qub.Letters("a", 0));
+        });
 
-            values = [];
-            map.add(20, "twenty");
-            for (const pair of map) {
-                values.push(pair);
+        suite("maximumBufferSize", () => {
+            function createIterator(maximumBufferSize: number): qub.PeekableIterator<number> {
+                return new qub.PeekableIterator<number>(new qub.ArrayList<number>([1, 2, 3, 4, 5]).iterate(), maximumBufferSize);
             }
-            assert.deepEqual(values, [{ key: 10, value: "ten" }, { key: 20, value: "twenty" }]);
+
+            test("getMaximumBufferSize()", () => {
+                assert.deepEqual(new qub.PeekableIterator<number>(new qub.ArrayList<number>().iterate()).getMaximumBufferSize(), undefined);
+                assert.deepEqual(createIterator(3).getMaximumBufferSize(), 3);
+                assert.deepEqual(createIterator(0).getMaximumBufferSize(), 1);
+            });
+
+            test("without marks", () => {
+                const iterator: qub.PeekableIterator<number> = createIterator(1);
+                assert.deepEqual(iterator.toArray(), [1, 2, 3, 4, 5]);
+            });
+
+            test("with peek() past the limit", () => {
+                const iterator: qub.PeekableIterator<number> = createIterator(2);
+                iterator.next();
+                assert.deepEqual(iterator.peek(), 2);
+                assert.throws(() => iterator.peek(2), qub.BufferLimitError);
+                assert.deepEqual(iterator.getCurrent(), 1);
+
+                iterator.next();
+                assert.deepEqual(iterator.peek(), 3);
+            });
+
+            test("with a mark held past the limit", () => {
+                const iterator: qub.PeekableIterator<number> = createIterator(3);
+                iterator.next();
+                const mark: number = iterator.mark();
+                iterator.next();
+                iterator.next();
+                assert.throws(() => iterator.next(), qub.BufferLimitError);
+                assert.deepEqual(iterator.getCurrent(), 3);
+                assert.deepEqual(iterator.getPosition(), 2);
+
+                iterator.reset(mark);
+                assert.deepEqual(iterator.getCurrent(), 1);
+                iterator.next();
+                iterator.next();
+                iterator.release(mark);
+                assert.deepEqual(iterator.next(), true);
+                assert.deepEqual(iterator.getCurrent(), 4);
+            });
         });
+    });
 
-        test("add()", () => {
-            const map = new qub.Map<string, number>();
-            assert.deepEqual(map.containsKey("hello"), false);
+    suite("EqualityComparers", () => {
+        test("default()", () => {
+            const comparer = qub.EqualityComparers.default<number>();
+            assert.deepEqual(comparer.equals(1, 1), true);
+            assert.deepEqual(comparer.equals(1, 2), false);
+            assert.deepEqual(comparer.getHashCode(5), comparer.getHashCode(5));
+        });
 
-            map.add("hello", 5);
-            assert.deepEqual(map.get("hello"), 5);
-            assert.deepEqual(map.containsKey("hello"), true);
+        test("ordinal()", () => {
+            const comparer = qub.EqualityComparers.ordinal();
+            assert.deepEqual(comparer.equals("abc", "abc"), true);
+            assert.deepEqual(comparer.equals("abc", "ABC"), false);
+        });
 
-            map.add("hello", 6);
-            assert.deepEqual(map.get("hello"), 6);
-            assert.deepEqual(map.containsKey("hello"), true);
+        test("caseInsensitive()", () => {
+            const comparer = qub.EqualityComparers.caseInsensitive();
+            assert.deepEqual(comparer.equals("abc", "ABC"), true);
+            assert.deepEqual(comparer.equals("abc", "abd"), false);
+            assert.deepEqual(comparer.equals(undefined, undefined), true);
+            assert.deepEqual(comparer.equals("abc", undefined), false);
+            assert.deepEqual(comparer.getHashCode("aBc"), comparer.getHashCode("AbC"));
         });
 
-        test("addAll()", () => {
-            const map = new qub.Map<string, number>();
-            map.addAll(undefined);
-            assert.deepEqual(map.getCount(), 0);
+        test("byKey()", () => {
+            const comparer = qub.EqualityComparers.byKey((value: { id: number }) => value.id);
+            assert.deepEqual(comparer.equals({ id: 1 }, { id: 1 }), true);
+            assert.deepEqual(comparer.equals({ id: 1 }, { id: 2 }), false);
+            assert.deepEqual(comparer.getHashCode({ id: 3 }), comparer.getHashCode({ id: 3 }));
+        });
 
-            map.addAll(null);
-            assert.deepEqual(map.getCount(), 0);
+        test("byKey() with key comparison", () => {
+            const comparer = qub.EqualityComparers.byKey((value: { name: string }) => value.name, qub.EqualityComparers.caseInsensitive());
+            assert.deepEqual(comparer.equals({ name: "a" }, { name: "A" }), true);
+            assert.deepEqual(comparer.equals({ name: "a" }, { name: "b" }), false);
+        });
+    });
 
-            map.addAll([]);
-            assert.deepEqual(map.getCount(), 0);
+    suite("Comparers", () => {
+        test("default()", () => {
+            const comparer = qub.Comparers.default<number>();
+            assert.deepEqual(comparer.compare(1, 2) < 0, true);
+            assert.deepEqual(comparer.compare(2, 2), 0);
+            assert.deepEqual(comparer.compare(3, 2) > 0, true);
+        });
 
-            map.addAll([{ key: "one", value: 1 }, { key: "two", value: 2 }]);
-            assert.deepEqual(map.getCount(), 2);
-            assert.deepEqual(map.get("one"), 1);
-            assert.deepEqual(map.get("two"), 2);
+        test("default() with values that can't be ordered", () => {
+            const comparer = qub.Comparers.default<number>();
+            assert.deepEqual(comparer.compare(1, undefined) < 0, true);
+            assert.deepEqual(comparer.compare(undefined, 1) > 0, true);
+            assert.deepEqual(comparer.compare(1, null) < 0, true);
+            assert.deepEqual(comparer.compare(1, NaN) < 0, true);
+            assert.deepEqual(comparer.compare(NaN, null) < 0, true);
+            assert.deepEqual(comparer.compare(null, undefined) < 0, true);
+            assert.deepEqual(comparer.compare(undefined, undefined), 0);
+            assert.deepEqual(comparer.compare(null, null), 0);
+            assert.deepEqual(comparer.compare(NaN, NaN), 0);
+        });
 
-            map.addAll(new qub.ArrayList<qub.KeyValuePair<string, number>>([{ key: "three", value: 3 }]));
-            assert.deepEqual(map.getCount(), 3);
-            assert.deepEqual(map.get("one"), 1);
-            assert.deepEqual(map.get("two"), 2);
-            assert.deepEqual(map.get("three"), 3);
+        test("ordinal()", () => {
+            const comparer = qub.Comparers.ordinal();
+            assert.deepEqual(comparer.compare("B", "a") < 0, true);
+            assert.deepEqual(comparer.compare("a", "a"), 0);
         });
 
-        suite("get()", () => {
-            test("with undefined", () => {
-                const map = new qub.Map<string, number>();
-                assert.deepEqual(map.get(undefined), undefined);
-            });
+        test("caseInsensitive()", () => {
+            const comparer = qub.Comparers.caseInsensitive();
+            assert.deepEqual(comparer.compare("a", "B") < 0, true);
+            assert.deepEqual(comparer.compare("A", "a"), 0);
+            assert.deepEqual(comparer.compare("c", "B") > 0, true);
+        });
 
-            test("with null", () => {
-                const map = new qub.Map<string, number>();
-                assert.deepEqual(map.get(null), undefined);
-            });
+        test("byKey()", () => {
+            const comparer = qub.Comparers.byKey((value: { id: number }) => value.id);
+            assert.deepEqual(comparer.compare({ id: 1 }, { id: 2 }) < 0, true);
+            assert.deepEqual(comparer.compare({ id: 2 }, { id: 2 }), 0);
         });
 
-        test("iterate()", () => {
-            const map = new qub.Map<number, string>();
-            assert.deepEqual(map.iterate().toArray(), []);
+        test("reversed()", () => {
+            const comparer = qub.Comparers.reversed<number>();
+            assert.deepEqual(comparer.compare(1, 2) > 0, true);
+            assert.deepEqual(comparer.compare(2, 1) < 0, true);
+            assert.deepEqual(comparer.compare(2, 2), 0);
+        });
 
-            map.add(5, "five");
-            assert.deepEqual(map.iterate().toArray(), [{ key: 5, value: "five" }]);
+        test("reversed() with comparison", () => {
+            const comparer = qub.Comparers.reversed(qub.Comparers.caseInsensitive());
+            assert.deepEqual(comparer.compare("a", "B") > 0, true);
+            assert.deepEqual(comparer.compare("a", "A"), 0);
         });
 
-        test("iterateReverse()", () => {
-            const map = new qub.Map<number, string>();
-            assert.deepEqual(map.iterateReverse().toArray(), []);
+        test("composite()", () => {
+            const comparer = qub.Comparers.composite(
+                qub.Comparers.byKey((value: { a: number, b: string }) => value.a),
+                (lhs: { a: number, b: string }, rhs: { a: number, b: string }) => lhs.b < rhs.b ? -1 : lhs.b > rhs.b ? 1 : 0);
+            assert.deepEqual(comparer.compare({ a: 1, b: "z" }, { a: 2, b: "a" }) < 0, true);
+            assert.deepEqual(comparer.compare({ a: 1, b: "a" }, { a: 1, b: "b" }) < 0, true);
+            assert.deepEqual(comparer.compare({ a: 1, b: "a" }, { a: 1, b: "a" }), 0);
+        });
 
-            map.add(5, "five");
-            assert.deepEqual(map.iterateReverse().toArray(), [{ key: 5, value: "five" }]);
+        test("composite() with no comparisons", () => {
+            assert.deepEqual(qub.Comparers.composite<number>().compare(1, 2), 0);
         });
     });
 